@@ -0,0 +1,33 @@
+/**
+ * A minimal app around one router, wired like src/index.ts (JSON body, authenticate, idempotency,
+ * errorHandler) without the logging, CORS and server start-up, for route tests with supertest.
+ * Tokens are signed with the test JWT_SECRET (see env.ts).
+ */
+
+import express, { Router } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { authenticate } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { errorHandler } from '../middleware/errorHandler';
+
+export function testApp(path: string, router: Router): express.Express {
+  const app = express();
+  app.use('/api/v1/payments/webhook', express.raw({ type: 'application/json' }));
+  app.use(express.json());
+  app.use('/api/v1', authenticate);
+  app.use('/api/v1', idempotency);
+  app.use(path, router);
+  app.use(errorHandler);
+  return app;
+}
+
+/** Authorization header for a business login. */
+export const businessToken = (businessId: string) =>
+  `Bearer ${jwt.sign({ type: 'business', businessId, email: `owner@${businessId}.example` }, config.jwtSecret)}`;
+
+/** Authorization header for a customer login. */
+export const customerToken = (customerId: string) =>
+  `Bearer ${jwt.sign({ type: 'customer', customerId, email: `${customerId}@example.com` }, config.jwtSecret)}`;
+
+export const ADMIN_KEY = 'test-admin-key';
@@ -0,0 +1,136 @@
+/**
+ * Lua prelude defining the cjson.encode/cjson.decode that Redis gives scripts and ioredis-mock does not
+ * (scripts such as pushService REAP and notificationService UPDATE_HISTORY decode queued JSON).
+ * JSON null decodes to nil; whole floats encode as integers, as in Redis.
+ */
+
+export const CJSON_LUA = `
+local cjson = {}
+do
+  local escapes = { ['"'] = '\\\\"', ['\\\\'] = '\\\\\\\\', ['\\b'] = '\\\\b', ['\\f'] = '\\\\f', ['\\n'] = '\\\\n', ['\\r'] = '\\\\r', ['\\t'] = '\\\\t' }
+  local unescapes = { b = '\\b', f = '\\f', n = '\\n', r = '\\r', t = '\\t' }
+
+  local function isArray(value)
+    local count = 0
+    for key in pairs(value) do
+      if math.type(key) ~= 'integer' or key < 1 then return false end
+      count = count + 1
+    end
+    return count > 0 and count == #value
+  end
+
+  local function encode(value)
+    local kind = type(value)
+    if kind == 'nil' then return 'null' end
+    if kind == 'boolean' then return tostring(value) end
+    if kind == 'number' then
+      if math.type(value) == 'float' and value == math.floor(value) and math.abs(value) < 2^53 then
+        return string.format('%d', value)
+      end
+      return tostring(value)
+    end
+    if kind == 'string' then
+      return '"' .. value:gsub('[%c"\\\\]', function(c) return escapes[c] or string.format('\\\\u%04x', c:byte()) end) .. '"'
+    end
+    if kind == 'table' then
+      local parts = {}
+      if isArray(value) then
+        for i = 1, #value do parts[i] = encode(value[i]) end
+        return '[' .. table.concat(parts, ',') .. ']'
+      end
+      for key, item in pairs(value) do parts[#parts + 1] = encode(tostring(key)) .. ':' .. encode(item) end
+      return '{' .. table.concat(parts, ',') .. '}'
+    end
+    error('cjson: cannot encode a ' .. kind)
+  end
+
+  local function fail(pos, what) error(string.format('cjson: %s at character %d', what, pos)) end
+  local function skip(str, pos) return str:find('[^ \\t\\r\\n]', pos) or #str + 1 end
+
+  local function decodeString(str, pos)
+    if str:sub(pos, pos) ~= '"' then fail(pos, 'expected a string') end
+    local parts = {}
+    local i = pos + 1
+    while true do
+      local c = str:sub(i, i)
+      if c == '' then fail(i, 'unterminated string') end
+      if c == '"' then return table.concat(parts), i + 1 end
+      if c == '\\\\' then
+        local e = str:sub(i + 1, i + 1)
+        if e == 'u' then
+          local code = tonumber(str:sub(i + 2, i + 5), 16)
+          if code >= 0xD800 and code <= 0xDBFF and str:sub(i + 6, i + 7) == '\\\\u' then
+            code = 0x10000 + (code - 0xD800) * 0x400 + (tonumber(str:sub(i + 8, i + 11), 16) - 0xDC00)
+            i = i + 6
+          end
+          parts[#parts + 1] = utf8.char(code)
+          i = i + 6
+        else
+          parts[#parts + 1] = unescapes[e] or e
+          i = i + 2
+        end
+      else
+        local stop = str:find('["\\\\]', i) or #str + 1
+        parts[#parts + 1] = str:sub(i, stop - 1)
+        i = stop
+      end
+    end
+  end
+
+  local decodeValue
+  decodeValue = function(str, pos)
+    pos = skip(str, pos)
+    local c = str:sub(pos, pos)
+    if c == '{' then
+      local result = {}
+      pos = skip(str, pos + 1)
+      if str:sub(pos, pos) == '}' then return result, pos + 1 end
+      while true do
+        local key
+        key, pos = decodeString(str, skip(str, pos))
+        pos = skip(str, pos)
+        if str:sub(pos, pos) ~= ':' then fail(pos, "expected ':'") end
+        local value
+        value, pos = decodeValue(str, pos + 1)
+        result[key] = value
+        pos = skip(str, pos)
+        local d = str:sub(pos, pos)
+        if d == '}' then return result, pos + 1 end
+        if d ~= ',' then fail(pos, "expected ',' or '}'") end
+        pos = pos + 1
+      end
+    end
+    if c == '[' then
+      local result = {}
+      pos = skip(str, pos + 1)
+      if str:sub(pos, pos) == ']' then return result, pos + 1 end
+      local n = 0
+      while true do
+        local value
+        value, pos = decodeValue(str, pos)
+        n = n + 1
+        result[n] = value
+        pos = skip(str, pos)
+        local d = str:sub(pos, pos)
+        if d == ']' then return result, pos + 1 end
+        if d ~= ',' then fail(pos, "expected ',' or ']'") end
+        pos = pos + 1
+      end
+    end
+    if c == '"' then return decodeString(str, pos) end
+    if str:sub(pos, pos + 3) == 'true' then return true, pos + 4 end
+    if str:sub(pos, pos + 4) == 'false' then return false, pos + 5 end
+    if str:sub(pos, pos + 3) == 'null' then return nil, pos + 4 end
+    local number = str:match('^-?%d+%.?%d*[eE]?[-+]?%d*', pos)
+    if not number then fail(pos, 'unexpected character') end
+    return math.tointeger(tonumber(number)) or tonumber(number), pos + #number
+  end
+
+  cjson.encode = encode
+  cjson.decode = function(str)
+    local value, pos = decodeValue(str, 1)
+    if skip(str, pos) <= #str then fail(pos, 'trailing characters') end
+    return value
+  end
+end
+`;
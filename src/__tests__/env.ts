@@ -0,0 +1,13 @@
+/**
+ * Test environment, set before any module reads config/env.
+ * ioredis is mapped to ioredis-mock (package.json jest.moduleNameMapper): an in-memory Redis that also
+ * runs the Lua scripts, so services run unchanged without a server.
+ */
+
+process.env.REDIS_URL = 'redis://localhost:6379';
+process.env.JWT_SECRET = 'test-secret';
+process.env.ADMIN_API_KEY = 'test-admin-key';
+// Push goes to the fake provider; email and SMS are off unless a test registers a provider
+process.env.PUSH_PROVIDER = 'fake';
+process.env.EMAIL_PROVIDER = 'none';
+process.env.SMS_PROVIDER = 'none';
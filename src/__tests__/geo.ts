@@ -0,0 +1,121 @@
+/**
+ * GEOADD and GEOSEARCH for ioredis-mock, which has no geo commands. As in Redis, a geo set is a
+ * sorted set scored by a 52-bit interleaved geohash, so ZREM/RENAME/DEL work on it unchanged.
+ */
+
+import type Redis from 'ioredis';
+
+const STEP = 26n;
+const CELLS = 1n << STEP;
+const LAT_LIMIT = 85.05112878;
+/** Earth radius Redis uses for geo distances. */
+const EARTH_RADIUS_M = 6372797.560856;
+
+const UNIT_METRES: Record<string, number> = { m: 1, km: 1000, mi: 1609.34, ft: 0.3048 };
+
+function interleave(lat: bigint, lng: bigint): bigint {
+  let hash = 0n;
+  for (let bit = 0n; bit < STEP; bit++) {
+    hash |= ((lat >> bit) & 1n) << (2n * bit);
+    hash |= ((lng >> bit) & 1n) << (2n * bit + 1n);
+  }
+  return hash;
+}
+
+function deinterleave(hash: bigint): [bigint, bigint] {
+  let lat = 0n;
+  let lng = 0n;
+  for (let bit = 0n; bit < STEP; bit++) {
+    lat |= ((hash >> (2n * bit)) & 1n) << bit;
+    lng |= ((hash >> (2n * bit + 1n)) & 1n) << bit;
+  }
+  return [lat, lng];
+}
+
+const cell = (value: number, min: number, max: number) =>
+  BigInt(Math.min(Number(CELLS) - 1, Math.floor(((value - min) / (max - min)) * Number(CELLS))));
+
+const centre = (index: bigint, min: number, max: number) => min + ((Number(index) + 0.5) / Number(CELLS)) * (max - min);
+
+export const geohashScore = (lng: number, lat: number): number =>
+  Number(interleave(cell(lat, -LAT_LIMIT, LAT_LIMIT), cell(lng, -180, 180)));
+
+export function geohashPosition(score: number): { lng: number; lat: number } {
+  const [lat, lng] = deinterleave(BigInt(score));
+  return { lng: centre(lng, -180, 180), lat: centre(lat, -LAT_LIMIT, LAT_LIMIT) };
+}
+
+function distanceM(a: { lng: number; lat: number }, b: { lng: number; lat: number }): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/** GEOADD key lng lat member [lng lat member …] */
+export async function geoadd(client: Redis, key: string, ...args: Array<string | number>): Promise<number> {
+  const scored: Array<string | number> = [];
+  for (let i = 0; i < args.length; i += 3) {
+    scored.push(geohashScore(Number(args[i]), Number(args[i + 1])), String(args[i + 2]));
+  }
+  return client.zadd(key, ...scored);
+}
+
+/**
+ * GEOSEARCH key FROMLONLAT lng lat | FROMMEMBER member, BYRADIUS r unit | BYBOX w h unit,
+ * [ASC|DESC] [COUNT n] [WITHCOORD] [WITHDIST]
+ */
+export async function geosearch(client: Redis, key: string, ...args: string[]): Promise<unknown[]> {
+  const option = (name: string) => args.findIndex((arg) => arg.toUpperCase() === name);
+  const flag = (name: string) => option(name) !== -1;
+
+  const entries = await client.zrange(key, 0, -1, 'WITHSCORES');
+  const positions = new Map<string, { lng: number; lat: number }>();
+  for (let i = 0; i < entries.length; i += 2) positions.set(entries[i], geohashPosition(Number(entries[i + 1])));
+
+  let from: { lng: number; lat: number } | undefined;
+  if (flag('FROMLONLAT')) {
+    const at = option('FROMLONLAT');
+    from = { lng: Number(args[at + 1]), lat: Number(args[at + 2]) };
+  } else {
+    from = positions.get(args[option('FROMMEMBER') + 1]);
+    if (!from) return [];
+  }
+
+  let unit: string;
+  let inside: (position: { lng: number; lat: number }, distance: number) => boolean;
+  if (flag('BYRADIUS')) {
+    const at = option('BYRADIUS');
+    unit = args[at + 2].toLowerCase();
+    const radius = Number(args[at + 1]) * UNIT_METRES[unit];
+    inside = (_, distance) => distance <= radius;
+  } else {
+    const at = option('BYBOX');
+    unit = args[at + 3].toLowerCase();
+    const halfWidth = (Number(args[at + 1]) * UNIT_METRES[unit]) / 2;
+    const halfHeight = (Number(args[at + 2]) * UNIT_METRES[unit]) / 2;
+    const origin = from;
+    inside = (position) =>
+      distanceM(origin, { lng: origin.lng, lat: position.lat }) <= halfHeight
+      && distanceM({ lng: origin.lng, lat: position.lat }, position) <= halfWidth;
+  }
+
+  let matches = [...positions.entries()]
+    .map(([member, position]) => ({ member, position, distance: distanceM(from!, position) }))
+    .filter(({ position, distance }) => inside(position, distance));
+  if (flag('ASC')) matches.sort((a, b) => a.distance - b.distance);
+  if (flag('DESC')) matches.sort((a, b) => b.distance - a.distance);
+  if (flag('COUNT')) matches = matches.slice(0, Number(args[option('COUNT') + 1]));
+
+  const withDist = flag('WITHDIST');
+  const withCoord = flag('WITHCOORD');
+  return matches.map(({ member, position, distance }) => {
+    if (!withDist && !withCoord) return member;
+    return [
+      member,
+      ...(withDist ? [(distance / UNIT_METRES[unit]).toFixed(4)] : []),
+      ...(withCoord ? [[String(position.lng), String(position.lat)]] : []),
+    ];
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Every test starts from an empty (in-memory) Redis. The client connects lazily, as in the API.
+ * Scripts get preludes for what ioredis-mock's Lua lacks or does differently (cjson, 5.1 numbers,
+ * time-based stream ids), stream ranges compare ids as Redis does and geo commands are emulated.
+ */
+
+import { redisClient, connectRedis } from '../config/redis';
+import { CJSON_LUA } from './cjson';
+import { geoadd, geosearch } from './geo';
+
+const evalScript = redisClient.eval.bind(redisClient) as (script: string, ...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Redis runs Lua 5.1 (one number type); ioredis-mock runs 5.3, where numbers it stored read back as
+ * floats and concatenate as "2.0". Whole numbers from tonumber() are integers where they fit (fengari's
+ * integers are 32-bit), so they print as in Redis.
+ */
+const LUA51_NUMBERS = `
+local tonumber51 = tonumber
+tonumber = function(...)
+  local n = tonumber51(...)
+  if math.type(n) == 'float' then return math.tointeger(n) or n end
+  return n
+end
+`;
+
+/** Last stream id time handed out, so ids stay increasing when scripts run within one millisecond. */
+let streamClock = 0;
+
+/**
+ * ioredis-mock numbers `XADD *` entries 1, 2, 3…; Redis uses the time in ms, which ledger reads by time
+ * (tier windows) rely on. Each script gets the clock; its entries are that time, then +1 ms each.
+ */
+const streamIds = () => {
+  streamClock = Math.max(Date.now(), streamClock + 1);
+  return `
+local stream_ms = ${streamClock}
+local call = redis.call
+redis.call = function(...)
+  local args = table.pack(...)
+  if string.upper(args[1]) == 'XADD' and args[3] == '*' then
+    args[3] = string.format('%.0f', stream_ms)
+    stream_ms = stream_ms + 1
+  end
+  return call(table.unpack(args, 1, args.n))
+end
+`;
+};
+
+const prelude = (script: string) =>
+  `${LUA51_NUMBERS}${script.includes('cjson.') ? CJSON_LUA : ''}${script.includes('XADD') ? streamIds() : ''}\n${script}`;
+
+type StreamEntry = [id: string, fields: string[]];
+type StreamRange = (key: string, from: string, to: string, ...count: Array<string | number>) => Promise<StreamEntry[]>;
+
+const xrange = redisClient.xrange.bind(redisClient) as unknown as StreamRange;
+
+/** Stream ids as [ms, seq]; `(` marks an exclusive bound. */
+const streamId = (id: string): [bigint, bigint] => {
+  const [ms, seq = '0'] = id.replace(/^\(/, '').split('-');
+  return [BigInt(ms), BigInt(seq)];
+};
+
+const compareIds = (a: string, b: string): number => {
+  const [x, y] = [streamId(a), streamId(b)];
+  return x[0] === y[0] ? Number(x[1] - y[1]) : Number(x[0] - y[0]);
+};
+
+/**
+ * ioredis-mock compares stream ids as numbers, so ranges with explicit ids ("1700000000000-3",
+ * exclusive "(...") come back empty. Range over the whole stream and compare ids as Redis does.
+ */
+const streamRange = (reverse: boolean) => async (key: string, a: string, b: string, ...count: Array<string | number>) => {
+  const [from, to] = reverse ? [b, a] : [a, b];
+  const after = (id: string) => from === '-' || (from.startsWith('(') ? compareIds(id, from) > 0 : compareIds(id, from) >= 0);
+  const before = (id: string) => to === '+' || (to.startsWith('(') ? compareIds(id, to) < 0 : compareIds(id, to) <= 0);
+  const entries = (await xrange(key, '-', '+')).filter(([id]) => after(id) && before(id));
+  if (reverse) entries.reverse();
+  return count[0] === 'COUNT' ? entries.slice(0, Number(count[1])) : entries;
+};
+
+beforeAll(async () => {
+  jest.spyOn(redisClient, 'eval').mockImplementation(((script: string, ...args: unknown[]) =>
+    evalScript(prelude(script), ...args)) as typeof redisClient.eval);
+  jest.spyOn(redisClient, 'xrange').mockImplementation(streamRange(false) as unknown as typeof redisClient.xrange);
+  jest.spyOn(redisClient, 'xrevrange').mockImplementation(streamRange(true) as unknown as typeof redisClient.xrevrange);
+  // No geo commands in ioredis-mock, nor call() for commands without a method of their own
+  jest.spyOn(redisClient, 'geoadd').mockImplementation(((key: string, ...args: Array<string | number>) =>
+    geoadd(redisClient, key, ...args)) as unknown as typeof redisClient.geoadd);
+  redisClient.call = (async (command: string, key: string, ...args: string[]) => {
+    if (command.toUpperCase() === 'GEOSEARCH') return geosearch(redisClient, key, ...args);
+    throw new Error(`${command} is not emulated in tests`);
+  }) as unknown as typeof redisClient.call;
+  // Routes await connectRedis(); it resolves on the client's ready event
+  const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  const connected = connectRedis();
+  await redisClient.connect();
+  await connected;
+  log.mockRestore();
+});
+
+beforeEach(async () => {
+  await redisClient.flushall();
+});
+
+afterAll(async () => {
+  await redisClient.quit();
+});
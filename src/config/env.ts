@@ -20,6 +20,84 @@ export const config = {
   jwtSecret: process.env.JWT_SECRET || 'canny-carrot-dev-secret-change-in-production',
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
   
+  // Platform admin key (X-Admin-Key header) for admin-only routes
+  adminApiKey: process.env.ADMIN_API_KEY || '',
+  
+  // Shared secret for scheduled job endpoints (Vercel Cron sends Authorization: Bearer $CRON_SECRET)
+  cronSecret: process.env.CRON_SECRET || '',
+  
+  // Campaign scheduler interval for a long-running server (0 = off; Vercel uses the cron job instead)
+  campaignSchedulerIntervalSeconds: parseInt(process.env.CAMPAIGN_SCHEDULER_INTERVAL_SECONDS || '0', 10) || 0,
+  
+  // Push notification providers (see services/pushProviders.ts); PUSH_PROVIDER=fake records sends instead
+  push: {
+    fake: process.env.PUSH_PROVIDER === 'fake',
+    expoAccessToken: process.env.EXPO_ACCESS_TOKEN || '',
+    fcm: {
+      projectId: process.env.FCM_PROJECT_ID || '',
+      clientEmail: process.env.FCM_CLIENT_EMAIL || '',
+      privateKey: (process.env.FCM_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+    },
+    apns: {
+      keyId: process.env.APNS_KEY_ID || '',
+      teamId: process.env.APNS_TEAM_ID || '',
+      privateKey: (process.env.APNS_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+      bundleId: process.env.APNS_BUNDLE_ID || '',
+      production: process.env.APNS_PRODUCTION === 'true',
+    },
+    vapid: {
+      publicKey: process.env.VAPID_PUBLIC_KEY || '',
+      privateKey: process.env.VAPID_PRIVATE_KEY || '',
+      subject: process.env.VAPID_SUBJECT || 'mailto:support@cannycarrot.com',
+    },
+  },
+  
+  // Email and SMS providers (see services/messageProviders.ts); 'file' appends messages to MESSAGE_OUTBOX_DIR
+  email: {
+    provider: process.env.EMAIL_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'file'),
+    from: process.env.EMAIL_FROM || 'Canny Carrot <hello@cannycarrot.com>',
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10) || 587,
+      secure: process.env.SMTP_SECURE === 'true', // Implicit TLS (port 465); otherwise STARTTLS when offered
+      user: process.env.SMTP_USER || '',
+      pass: process.env.SMTP_PASS || '',
+    },
+    sendgrid: {
+      apiKey: process.env.SENDGRID_API_KEY || '',
+      apiUrl: process.env.SENDGRID_API_URL || 'https://api.sendgrid.com/v3/mail/send',
+    },
+  },
+  sms: {
+    provider: process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'file'),
+    from: process.env.SMS_FROM || '',
+    twilio: {
+      accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+      authToken: process.env.TWILIO_AUTH_TOKEN || '',
+      apiUrl: process.env.TWILIO_API_URL || 'https://api.twilio.com/2010-04-01',
+    },
+  },
+  messageOutboxDir: process.env.MESSAGE_OUTBOX_DIR || '',
+  
+  // Notification policy (see services/notificationPolicyService.ts); caps count marketing notifications, 0 = no cap
+  notificationPolicy: {
+    quietHours: process.env.NOTIFICATION_QUIET_HOURS ?? '21:00-08:00',
+    dailyCap: parseInt(process.env.NOTIFICATION_DAILY_CAP || '5', 10) || 0,
+    weeklyCap: parseInt(process.env.NOTIFICATION_WEEKLY_CAP || '15', 10) || 0,
+    businessDailyCap: parseInt(process.env.NOTIFICATION_BUSINESS_DAILY_CAP || '2', 10) || 0,
+    businessWeeklyCap: parseInt(process.env.NOTIFICATION_BUSINESS_WEEKLY_CAP || '5', 10) || 0,
+  },
+
+  // Customer app (links in emails)
+  customerAppUrl: process.env.CUSTOMER_APP_URL || 'https://customer.cannycarrot.com',
+  // Business app (login verification links)
+  businessAppUrl: process.env.BUSINESS_APP_URL || 'https://business.cannycarrot.com',
+  
+  // Deprecated raw Redis proxy (/api/v1/redis/:command) - superseded by /api/v1/sync; off unless enabled
+  redisProxy: {
+    enabled: process.env.REDIS_PROXY_ENABLED === 'true',
+  },
+  
   // CORS - Allow both apps
   // Production domains for PWA apps
   corsOrigins: (() => {
@@ -0,0 +1,107 @@
+/**
+ * Pricing plans and their limits (-1 = unlimited)
+ *
+ * limits.notifications is the business's monthly budget of marketing notifications (campaigns,
+ * broadcasts, geofence offers), enforced by notificationPolicyService. A business's limits are those of
+ * planIdOf(its subscription).
+ */
+
+export const PLANS = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    price: 0,
+    interval: null,
+    features: [
+      '1 reward program',
+      'Up to 50 members',
+      'Basic analytics',
+      'QR code scanning',
+    ],
+    limits: {
+      rewards: 1,
+      customers: 50,
+      campaigns: 0,
+      notifications: 0,
+    },
+  },
+  starter: {
+    id: 'starter',
+    name: 'Starter',
+    price: 1999, // £19.99/month in pence
+    interval: 'month',
+    features: [
+      '3 reward programs',
+      'Up to 500 customers',
+      'Full analytics dashboard',
+      'Email campaigns',
+      'QR code scanning',
+      'Email support',
+    ],
+    limits: {
+      rewards: 3,
+      customers: 500,
+      campaigns: 3,
+      notifications: 500,
+    },
+  },
+  professional: {
+    id: 'professional',
+    name: 'Professional',
+    price: 3999, // £39.99/month in pence
+    interval: 'month',
+    features: [
+      'Unlimited reward programs',
+      'Unlimited customers',
+      'Advanced analytics',
+      'Push notifications',
+      'Geofencing campaigns',
+      'Priority support',
+      'Custom branding',
+    ],
+    limits: {
+      rewards: -1, // Unlimited
+      customers: -1,
+      campaigns: -1,
+      notifications: -1,
+    },
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Enterprise',
+    price: null, // Custom pricing
+    interval: 'month',
+    features: [
+      'Everything in Professional',
+      'Multi-location support',
+      'BID integration',
+      'API access',
+      'Dedicated account manager',
+      'Custom integrations',
+      'SLA guarantee',
+    ],
+    limits: {
+      rewards: -1,
+      customers: -1,
+      campaigns: -1,
+      notifications: -1,
+    },
+  },
+};
+
+export type PlanId = keyof typeof PLANS;
+
+/** Subscription statuses that keep the plan (a cancelled one until currentPeriodEnd). */
+const PLAN_STATUSES = ['active', 'trialing', 'past_due', 'cancelled'];
+
+/**
+ * The plan a stored subscription (subscription:{businessId}) gives at an instant: its planId until
+ * currentPeriodEnd, free once the period is over, the subscription ended or without one.
+ */
+export function planIdOf(subscription: { planId?: string; status?: string; currentPeriodEnd?: string | null } | null, at = new Date()): PlanId {
+  if (!subscription || !subscription.planId || !(subscription.planId in PLANS)) return 'free';
+  if (!PLAN_STATUSES.includes(subscription.status ?? 'active')) return 'free';
+  const periodEnd = Date.parse(subscription.currentPeriodEnd ?? '');
+  if (subscription.status === 'cancelled' ? !(periodEnd > at.getTime()) : periodEnd <= at.getTime()) return 'free';
+  return subscription.planId as PlanId;
+}
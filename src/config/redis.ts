@@ -127,12 +127,21 @@ export const REDIS_KEYS = {
   /** Set of token UUIDs (reward/campaign/action ids) this customer has. */
   customerTokens: (customerId: string) => `customer:${customerId}:tokens`,
   businessCustomers: (businessId: string) => `business:${businessId}:customers`,
+  /** Append-only points ledger (stream of Transaction entries, all businesses). */
+  customerLedger: (customerId: string) => `customer:${customerId}:ledger`,
+  /** PointsBalance hash for a customer at one business. */
+  pointsBalance: (customerId: string, businessId: string) => `customer:${customerId}:balance:${businessId}`,
   
   // Businesses
   business: (id: string) => `business:${id}`,
+  allBusinesses: () => 'businesses:all',
   businessBySlug: (slug: string) => `business:slug:${slug}`,
   businessMembers: (businessId: string) => `business:${businessId}:members`,
   businessAuthByEmail: (email: string) => `business:auth:${email.toLowerCase()}`,
+  /** Invitation to register a login for a business (JSON { businessId, email }, expires). */
+  businessInvitation: (token: string) => `business:invitation:${token}`,
+  /** Marker that a contact-email verification was sent recently (throttles resends). */
+  businessVerificationSent: (businessId: string) => `business:${businessId}:verification-sent`,
   businessDevices: (businessId: string) => `business:${businessId}:devices`,
   customerAuthByEmail: (email: string) => `customer:auth:${email.toLowerCase()}`,
   
@@ -140,9 +149,73 @@ export const REDIS_KEYS = {
   reward: (id: string) => `reward:${id}`,
   businessRewards: (businessId: string) => `business:${businessId}:rewards`,
   
+  // Loyalty programs
+  program: (id: string) => `program:${id}`,
+  businessPrograms: (businessId: string) => `business:${businessId}:programs`,
+  /** Hash of tierId → ProgramTier JSON. */
+  programTiers: (programId: string) => `program:${programId}:tiers`,
+  /** Hash of ruleId → ProgramRule JSON. */
+  programRules: (programId: string) => `program:${programId}:rules`,
+  membership: (id: string) => `membership:${id}`,
+  /** Membership id of a customer in a program (one membership per customer and program). */
+  programMembership: (programId: string, customerId: string) => `program:${programId}:membership:${customerId}`,
+  /** Set of customer UUIDs enrolled in a program (any status). */
+  programMembers: (programId: string) => `program:${programId}:members`,
+  /** Set of membership ids for a customer. */
+  customerMemberships: (customerId: string) => `customer:${customerId}:memberships`,
+  /** PointsBalance hash for a customer in one program (program-scoped stamps/points). */
+  programBalance: (customerId: string, programId: string) => `customer:${customerId}:program:${programId}:balance`,
+  /** Sorted set of program balances by expiresAt (ms); members are "{programId}:{customerId}". */
+  expirySchedule: () => 'expiry:schedule',
+  /** Marker that the pre-expiry warning for one expiry date was queued. */
+  expiryWarning: (member: string, expiresAt: string) => `expiry:warned:${member}:${expiresAt}`,
+  /** Marker that a customer got their birthday grant from a business for one year. */
+  birthdayGrant: (businessId: string, customerId: string, year: number) => `birthday:granted:${businessId}:${customerId}:${year}`,
+  
+  /** GEO index of businesses ("{businessId}") and their branches ("{businessId}:{locationId}"). */
+  geoPlaces: () => 'geo:places',
+  
+  // Full-text business search (see searchIndexService)
+  /** Sorted set of businessIds containing a word, scored by field weight. */
+  searchTerm: (token: string) => `search:term:${token}`,
+  /** Sorted set of businessIds with a word starting with `prefix`, scored by field weight. */
+  searchPrefix: (prefix: string) => `search:prefix:${prefix}`,
+  /** Set of indexed words containing a trigram (typo-tolerant lookups). */
+  searchTrigram: (trigram: string) => `search:trigram:${trigram}`,
+  /** Hash of indexed word → number of businesses using it. */
+  searchVocabulary: () => 'search:vocabulary',
+  /** Words and prefixes indexed for one business (JSON), so re-indexing can remove stale ones. */
+  searchDoc: (businessId: string) => `search:doc:${businessId}`,
+  /** Set of indexed businessIds. */
+  searchDocs: () => 'search:docs',
+  
+  // Customer segments
+  segment: (id: string) => `segment:${id}`,
+  businessSegments: (businessId: string) => `business:${businessId}:segments`,
+  /** Set of customer UUIDs in a segment, as of segment.lastCalculatedAt. */
+  segmentMembers: (segmentId: string) => `segment:${segmentId}:members`,
+  
+  // Locations (branches of a business)
+  location: (id: string) => `location:${id}`,
+  businessLocations: (businessId: string) => `business:${businessId}:locations`,
+  /** Hash of counters per location: stamps, redemptions, checkIns. */
+  locationStats: (locationId: string) => `location:${locationId}:stats`,
+  /** Set of customer UUIDs seen at a location. */
+  locationCustomers: (locationId: string) => `location:${locationId}:customers`,
+  /** Recent CheckIn JSON at a location (newest first). */
+  locationCheckIns: (locationId: string) => `location:${locationId}:checkins`,
+  
   // Stamps & Redemptions
   stamp: (id: string) => `stamp:${id}`,
   redemption: (id: string) => `redemption:${id}`,
+  /** Authoritative redemption counter checked against maxRedemptions (seeded from reward.currentRedemptions). */
+  rewardRedemptionCount: (rewardId: string) => `reward:${rewardId}:redemptions`,
+  /** Hash of customer UUID → times they redeemed the reward (checked against constraints.maxUsesPerMember). */
+  rewardMemberUses: (rewardId: string) => `reward:${rewardId}:member-uses`,
+  /** Client idempotency key for a stamp scan → stamp id (24h). */
+  stampIdempotency: (businessId: string, key: string) => `idempotency:stamp:${businessId}:${key}`,
+  /** Client idempotency key for a redemption → redemption id (24h). */
+  redeemIdempotency: (businessId: string, key: string) => `idempotency:redeem:${businessId}:${key}`,
   
   // BID (Business Improvement District) aggregates
   bidBusinesses: (bidId: string) => `bid:${bidId}:businesses`,
@@ -152,12 +225,21 @@ export const REDIS_KEYS = {
   regionStats: (region: string) => `region:${region}:stats`,
   dailyStats: (date: string) => `stats:daily:${date}`,
   
+  /** Stored response for an Idempotency-Key header, scoped to caller and route (24h). */
+  requestIdempotency: (scope: string, route: string, key: string) => `idempotency:request:${scope}:${route}:${key}`,
+  
   // Sessions
   session: (token: string) => `session:${token}`,
   
   // Campaigns
   campaign: (id: string) => `campaign:${id}`,
   businessCampaigns: (businessId: string) => `business:${businessId}:campaigns`,
+  /** Sorted set of campaign ids by their next status transition (ms), see campaignSchedulerService. */
+  scheduledCampaigns: () => 'campaigns:scheduled',
+  /** Status changes of a campaign (CampaignTransition JSON, newest first). */
+  campaignStatusHistory: (campaignId: string) => `campaign:${campaignId}:status-history`,
+  /** Hash of customer UUID → times the campaign's stamp effect was applied (checked against conditions.maxUsesPerMember). */
+  campaignMemberUses: (campaignId: string) => `campaign:${campaignId}:member-uses`,
   /** Set of customer UUIDs who have this token (reward/campaign id). */
   tokenCustomers: (tokenId: string) => `token:${tokenId}:customers`,
   
@@ -166,11 +248,85 @@ export const REDIS_KEYS = {
   customerAchievements: (customerId: string) => `customer:${customerId}:achievements`,
   customerRank: (customerId: string, type: string) => `customer:${customerId}:rank:${type}`,
   
+  // Referrals
+  referral: (id: string) => `referral:${id}`,
+  /** Referral id of the (one) referral of a referred customer. */
+  referralOfReferred: (customerId: string) => `referral:referred:${customerId}`,
+  /** Sorted set of a referrer's referral ids by createdAt (ms). */
+  referrerReferrals: (customerId: string) => `referral:referrer:${customerId}`,
+  /** Set of customer UUIDs this member has referred (all statuses). */
+  memberReferrals: (customerId: string) => `member:${customerId}:referrals`,
+  /** Customer UUID that owns a referral code. */
+  referralCode: (code: string) => `referral:code:${code.toUpperCase()}`,
+  referralRule: (id: string) => `referral-rule:${id}`,
+  businessReferralRules: (businessId: string) => `business:${businessId}:referral-rules`,
+  /** Hash of referrer UUID → referrals rewarded under a rule (checked against maxRewardsPerReferrer). */
+  referralRuleRewards: (ruleId: string) => `referral-rule:${ruleId}:rewards`,
+  
   // Notifications
   notification: (id: string) => `notification:${id}`,
   customerNotifications: (customerId: string) => `customer:${customerId}:notifications`,
+  /** In-app notification history (newest first, last 100). */
+  memberNotifications: (memberId: string) => `member:${memberId}:notifications`,
+  /** Queue of notifications waiting for the push sender. */
+  pendingNotifications: () => 'notifications:pending',
+  /** Notifications claimed by a dispatcher and not yet acknowledged. */
+  processingNotifications: () => 'notifications:processing',
+  /** Sorted set of claimed notifications (raw JSON) by visibility deadline (ms); expired claims are requeued. */
+  inflightNotifications: () => 'notifications:inflight',
+  /** Sorted set of notifications (raw JSON) waiting to be retried, by due time (ms). */
+  retryNotifications: () => 'notifications:retry',
+  /** Notifications that failed every attempt (newest first). */
+  deadNotifications: () => 'notifications:dead',
+  /** Sorted set of notifications (raw JSON) held back by quiet hours or frequency caps, by due time (ms). */
+  deferredNotifications: () => 'notifications:deferred',
+  /** Sorted set of marketing notification ids sent to a member, by send time (ms; last 7 days). */
+  memberNotificationSends: (memberId: string) => `member:${memberId}:notification-sends`,
+  /** Same, for one business. */
+  memberBusinessNotificationSends: (memberId: string, businessId: string) => `member:${memberId}:notification-sends:${businessId}`,
+  /** Marketing notifications a business sent in a month (YYYY-MM, UK time); counts against its plan. */
+  businessNotificationCount: (businessId: string, month: string) => `notifications:${businessId}:${month}`,
+  /** Sorted set of push receipts (JSON) to check, by check time (ms). */
+  pushReceipts: () => 'push:receipts',
+  /** Hash of push token → registered device JSON (POST /notifications/register). */
+  memberDevices: (memberId: string) => `member:${memberId}:devices`,
+  /** Set of email addresses that unsubscribed or bounced (no email is sent to them). */
+  suppressedEmails: () => 'email:suppressed',
+  /** Set of phone numbers that opted out or are unreachable (no SMS is sent to them). */
+  suppressedPhones: () => 'sms:suppressed',
+  /** Last notification of a business the member opened or clicked (JSON, expires after the attribution window). */
+  notificationAttribution: (memberId: string, businessId: string) => `member:${memberId}:attribution:${businessId}`,
+  notificationTemplate: (id: string) => `notification-template:${id}`,
+  /** Hash of "{key}:{locale}" → template id. */
+  businessNotificationTemplates: (businessId: string) => `business:${businessId}:notification-templates`,
+  /** Hash of "{key}:{locale}" → template id for platform-wide templates. */
+  platformNotificationTemplates: () => 'notification-templates:platform',
+  
+  // Scheduled jobs
+  /** Held while a job runs so overlapping cron/worker runs skip. */
+  jobLock: (job: string) => `job:${job}:lock`,
+  /** Hash describing the last run of a job. */
+  jobLastRun: (job: string) => `job:${job}:last-run`,
+  
+  // Sync API
+  /** Version counter for a synced document key (e.g. sync:version:reward:{id}). */
+  syncVersion: (docKey: string) => `sync:version:${docKey}`,
+  /** Copy of a document as written at a version (merge base for offline devices, expires). */
+  syncSnapshot: (docKey: string, version: number | string) => `sync:snapshot:${docKey}:${version}`,
+  /** Daily hash of deprecated Redis proxy usage, by command and key prefix. */
+  redisProxyUsage: (date: string) => `stats:redis-proxy:${date}`,
 };
 
+/** Key segments of platform-wide indexes under business:/customer: (business:auth:{email}, customer:email:{email}, …). */
+export const RESERVED_KEY_SEGMENTS = ['auth', 'invitation', 'slug', 'email', 'phone'];
+
+/**
+ * Whether a client-supplied id can name a document: an opaque token (UUID, business_… id), never a key
+ * fragment or one of the reserved index segments (a business with id "auth" would own business:auth:*).
+ */
+export const isDocumentId = (id: unknown): id is string =>
+  typeof id === 'string' && /^[A-Za-z0-9_.-]{1,128}$/.test(id) && !RESERVED_KEY_SEGMENTS.includes(id.toLowerCase());
+
 // Helper functions for common operations
 export const redis = {
   // Customer operations
@@ -261,7 +417,10 @@ export const redis = {
     return redisClient.llen(key);
   },
   
+  /** Available stamps: the points ledger balance, or the legacy stamp list for customers not on the ledger yet. */
   async getStampCount(customerId: string, businessId: string) {
+    const available = await redisClient.hget(REDIS_KEYS.pointsBalance(customerId, businessId), 'availablePoints');
+    if (available !== null) return parseInt(available, 10) || 0;
     const key = REDIS_KEYS.customerStamps(customerId, businessId);
     return redisClient.llen(key);
   },
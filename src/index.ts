@@ -5,6 +5,8 @@ import { config } from './config/env';
 import { redisClient, connectRedis } from './config/redis';
 import { errorHandler } from './middleware/errorHandler';
 import { apiLogger } from './middleware/apiLogger';
+import { authenticate } from './middleware/auth';
+import { idempotency } from './middleware/idempotency';
 import { initializeRepositoryCopies } from './services/repositoryCopyService';
 
 // Routes
@@ -20,11 +22,15 @@ import notificationRoutes from './routes/notifications';
 import paymentRoutes from './routes/payments';
 import integrationRoutes from './routes/integrations';
 import personalisationRoutes from './routes/personalisation';
-import redisRoutes from './routes/redis'; // Redis proxy for mobile apps
+import redisRoutes from './routes/redis'; // Redis proxy for mobile apps (deprecated)
+import syncRoutes from './routes/sync'; // Typed, scoped document sync
+import programRoutes from './routes/programs'; // Loyalty programs, tiers and memberships
+import jobRoutes from './routes/jobs'; // Scheduled jobs (cron)
 import authRoutes from './routes/auth'; // Authentication routes
 import suggestionsRoutes from './routes/suggestions'; // Autocomplete suggestions
 import userSubmissionsRoutes from './routes/userSubmissions'; // User submissions for admin review
 import searchRoutes from './routes/search'; // GeoSearch routes
+import { campaignSchedulerService } from './services/campaignSchedulerService';
 // ⚠️ TEMPORARY DEBUG: Redis write monitor - REMOVE BEFORE PRODUCTION
 import { getBlockedWritesHandler, clearBlockedWrites } from './middleware/redisWriteMonitor';
 import debugRoutes from './routes/debug'; // Debug routes - REMOVE BEFORE PRODUCTION
@@ -43,10 +49,12 @@ app.use(cors({
     return cb(null, false);
   },
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Sync-Context', 'x-sync-context'],
-  exposedHeaders: ['X-Sync-Context', 'x-sync-context'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'X-Sync-Context', 'x-sync-context', 'If-Match', 'X-Merge-Mode', 'Idempotency-Key'],
+  exposedHeaders: ['X-Sync-Context', 'x-sync-context', 'Deprecation', 'Link', 'ETag', 'Idempotent-Replayed'],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
 }));
+// Stripe signs the exact bytes of a webhook, so its body stays raw (routes/payments.ts checks the signature)
+app.use('/api/v1/payments/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json());
 
 // Comprehensive API Logger - captures ALL requests and responses to /tmp for Vercel access
@@ -78,6 +86,12 @@ app.use('/api/v1', async (req, res, next) => {
   }
 });
 
+// Resolve the caller (JWT / admin key) for every /api/v1 route; routes enforce access with authorize()
+app.use('/api/v1', authenticate);
+
+// Idempotency-Key: replay stored responses for retried POST/PUT/DELETE (scoped to the caller)
+app.use('/api/v1', idempotency);
+
 // Root route - API information
 app.get('/', (req, res) => {
   res.json({
@@ -88,6 +102,7 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       api: '/api/v1',
+      sync: '/api/v1/sync',
       redis: '/api/v1/redis',
       businesses: '/api/v1/businesses',
       customers: '/api/v1/customers',
@@ -129,6 +144,8 @@ app.use('/api/v1/customers', customerRoutes);
 app.use('/api/v1/businesses', businessRoutes);
 app.use('/api/v1/rewards', rewardRoutes);
 app.use('/api/v1/stamps', stampRoutes);
+app.use('/api/v1/programs', programRoutes);
+app.use('/api/v1/jobs', jobRoutes); // Cron: points/stamp expiry
 app.use('/api/v1/analytics', analyticsRoutes);
 app.use('/api/v1/bid', bidRoutes); // BID Manager dashboards
 app.use('/api/v1/campaigns', campaignRoutes);
@@ -137,7 +154,8 @@ app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/payments', paymentRoutes);
 app.use('/api/v1/integrations', integrationRoutes); // E-commerce integrations
 app.use('/api/v1/personalisation', personalisationRoutes); // AI personalization
-app.use('/api/v1/redis', redisRoutes); // Redis proxy for offline-first sync
+app.use('/api/v1/sync', syncRoutes); // Typed, scoped document sync for the apps
+app.use('/api/v1/redis', redisRoutes); // Deprecated Redis proxy - superseded by /api/v1/sync
 app.use('/api/v1/suggestions', suggestionsRoutes); // Autocomplete suggestions
 app.use('/api/v1/user-submissions', userSubmissionsRoutes); // User submissions for admin review
 app.use('/api/v1/search', searchRoutes); // GeoSearch routes
@@ -187,6 +205,16 @@ if (!process.env.VERCEL) {
 🥕 ============================================
         `);
       });
+
+      // Campaign start/end transitions on a local interval (instead of the cron job)
+      if (config.campaignSchedulerIntervalSeconds > 0) {
+        setInterval(() => {
+          campaignSchedulerService.run().catch((error) => {
+            console.error('❌ [CAMPAIGN SCHEDULER] Run failed:', error.message);
+          });
+        }, config.campaignSchedulerIntervalSeconds * 1000);
+        console.log(`[CAMPAIGN SCHEDULER] Running every ${config.campaignSchedulerIntervalSeconds}s`);
+      }
     } catch (error) {
       console.error('Failed to start server:', error);
       process.exit(1);
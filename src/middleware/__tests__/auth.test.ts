@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config/env';
+import { ApiError } from '../errorHandler';
+import {
+  authenticate,
+  authorize,
+  owningBusiness,
+  customerSelf,
+  platformAdmin,
+  fromBody,
+  fromParam,
+  AccessRule,
+  Principal,
+} from '../auth';
+
+const request = (fields: Partial<Request> = {}): Request =>
+  ({ headers: {}, params: {}, query: {}, body: {}, ...fields }) as Request;
+
+/** Run a middleware and return what it passed to next(). */
+async function run(middleware: (req: Request, res: Response, next: (error?: unknown) => void) => unknown, req: Request): Promise<unknown> {
+  return new Promise((resolve) => {
+    middleware(req, {} as Response, resolve);
+  });
+}
+
+const statusOf = (error: unknown) => (error instanceof ApiError ? error.statusCode : undefined);
+
+describe('authenticate', () => {
+  it('accepts the platform admin key', async () => {
+    const req = request({ headers: { 'x-admin-key': 'test-admin-key' } });
+    await run(authenticate, req);
+    expect(req.principal).toEqual({ type: 'admin' });
+  });
+
+  it('maps a business JWT to a business principal', async () => {
+    const token = jwt.sign({ type: 'business', businessId: 'b1', email: 'owner@example.com' }, config.jwtSecret);
+    const req = request({ headers: { authorization: `Bearer ${token}` } });
+    await run(authenticate, req);
+    expect(req.principal).toEqual({ type: 'business', businessId: 'b1', email: 'owner@example.com' });
+  });
+
+  it('continues anonymously with a wrong admin key or a token signed by someone else', async () => {
+    const wrongKey = request({ headers: { 'x-admin-key': 'guess' } });
+    expect(await run(authenticate, wrongKey)).toBeUndefined();
+    expect(wrongKey.principal).toBeUndefined();
+
+    const forged = request({ headers: { authorization: `Bearer ${jwt.sign({ type: 'admin' }, 'other-secret')}` } });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(await run(authenticate, forged)).toBeUndefined();
+    expect(forged.principal).toBeUndefined();
+  });
+});
+
+describe('authorize', () => {
+  const business = (businessId: string): Principal => ({ type: 'business', businessId });
+  const customer = (customerId: string): Principal => ({ type: 'customer', customerId });
+
+  it('rejects a request without a principal with 401', async () => {
+    const error = await run(authorize(platformAdmin), request());
+    expect(statusOf(error)).toBe(401);
+  });
+
+  it('lets the owning business through and rejects another business with 403', async () => {
+    const guard = authorize(owningBusiness(fromBody('businessId')), platformAdmin);
+
+    expect(await run(guard, request({ principal: business('b1'), body: { businessId: 'b1' } }))).toBeUndefined();
+    expect(statusOf(await run(guard, request({ principal: business('b2'), body: { businessId: 'b1' } })))).toBe(403);
+    expect(statusOf(await run(guard, request({ principal: business('b1'), body: {} })))).toBe(403);
+  });
+
+  it('lets the customer themselves through, but not a business with the same id', async () => {
+    const guard = authorize(customerSelf(fromParam('customerId')));
+
+    expect(await run(guard, request({ principal: customer('c1'), params: { customerId: 'c1' } }))).toBeUndefined();
+    expect(statusOf(await run(guard, request({ principal: customer('c2'), params: { customerId: 'c1' } })))).toBe(403);
+    expect(statusOf(await run(guard, request({ principal: business('c1'), params: { customerId: 'c1' } })))).toBe(403);
+  });
+
+  it('lets a platform admin through any guard that lists platformAdmin', async () => {
+    const guard = authorize(owningBusiness(fromBody('businessId')), platformAdmin);
+    expect(await run(guard, request({ principal: { type: 'admin' }, body: { businessId: 'b1' } }))).toBeUndefined();
+  });
+
+  it('passes an error thrown by a rule on to the error handler', async () => {
+    const failing: AccessRule = async () => {
+      throw new ApiError(404, 'Campaign not found');
+    };
+    const error = await run(authorize(failing, platformAdmin), request({ principal: business('b1') }));
+    expect(statusOf(error)).toBe(404);
+  });
+});
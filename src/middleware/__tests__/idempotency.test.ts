@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import request from 'supertest';
+import { testApp, businessToken } from '../../__tests__/app';
+
+let runs = 0;
+
+const router = Router();
+router.post('/json', (req, res) => {
+  runs++;
+  res.status(201).json({ success: true, data: { run: runs } });
+});
+router.post('/text', (req, res) => {
+  runs++;
+  res.type('text/csv').send(`run\n${runs}\n`);
+});
+router.post('/redirect', (req, res) => {
+  runs++;
+  res.redirect(303, `/done/${runs}`);
+});
+router.post('/empty', (req, res) => {
+  runs++;
+  res.status(204).end();
+});
+router.post('/fail', (req, res) => {
+  runs++;
+  res.status(503).json({ success: false });
+});
+router.post('/hang-up', (req) => {
+  runs++;
+  req.socket.destroy();
+});
+
+const app = testApp('/api/v1/things', router);
+
+const post = (path: string, key = 'key-1', body: Record<string, unknown> = { name: 'Cafe' }) =>
+  request(app)
+    .post(`/api/v1/things${path}`)
+    .set('Authorization', businessToken('business-1'))
+    .set('Idempotency-Key', key)
+    .send(body);
+
+/** The response is stored once it has gone out; give the write a moment to land. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+beforeEach(() => {
+  runs = 0;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('idempotency', () => {
+  it('replays a JSON response for a retry with the same body', async () => {
+    const first = await post('/json');
+    await settle();
+    const retry = await post('/json');
+
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(runs).toBe(1);
+  });
+
+  it('rejects the key with a different body', async () => {
+    await post('/json');
+    await settle();
+
+    expect((await post('/json', 'key-1', { name: 'Other' })).status).toBe(422);
+  });
+
+  it('replays text, redirects and empty responses', async () => {
+    const csv = await post('/text', 'csv');
+    const redirect = await post('/redirect', 'redirect');
+    const empty = await post('/empty', 'empty');
+    await settle();
+
+    const csvRetry = await post('/text', 'csv');
+    expect(csvRetry.text).toBe(csv.text);
+    expect(csvRetry.headers['content-type']).toMatch(/^text\/csv/);
+
+    const redirectRetry = await post('/redirect', 'redirect');
+    expect(redirectRetry.status).toBe(303);
+    expect(redirectRetry.headers.location).toBe(redirect.headers.location);
+
+    expect((await post('/empty', 'empty')).status).toBe(empty.status);
+    expect(runs).toBe(3);
+  });
+
+  it('lets a server error or a request the client hung up on be retried', async () => {
+    await post('/fail');
+    await post('/hang-up', 'hang-up').catch(() => undefined);
+    await settle();
+
+    expect((await post('/fail')).headers['idempotent-replayed']).toBeUndefined();
+    await post('/hang-up', 'hang-up').catch(() => undefined);
+    expect(runs).toBe(4);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Authentication & authorization middleware
+ *
+ * `authenticate` verifies the Bearer JWT issued by routes/auth.ts (or the platform admin key)
+ * and exposes the caller on `req.principal`. It never rejects on its own — anonymous and
+ * invalid-token requests simply carry no principal.
+ *
+ * Each route then declares who may call it with `authorize(...rules)`, e.g.
+ *   authorize(owningBusiness(fromBody('businessId')), platformAdmin)
+ * No principal → 401. Principal present but no rule matches (cross-tenant) → 403.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { ApiError } from './errorHandler';
+
+export type Principal =
+  | { type: 'business'; businessId: string; email?: string }
+  | { type: 'customer'; customerId: string; email?: string }
+  | { type: 'admin' };
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+/** Resolves the tenant id a request targets (from params/body/query or a stored document). */
+export type IdResolver = (req: Request) => string | undefined | null | Promise<string | undefined | null>;
+
+/** Returns true when the principal may call the route. */
+export type AccessRule = (principal: Principal, req: Request) => boolean | Promise<boolean>;
+
+const ADMIN_KEY_HEADER = 'x-admin-key';
+
+function isAdminKey(value: unknown): boolean {
+  if (!config.adminApiKey || typeof value !== 'string') return false;
+  const given = Buffer.from(value);
+  const expected = Buffer.from(config.adminApiKey);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Map a verified JWT payload to a principal. Unknown token shapes yield null. */
+function toPrincipal(payload: Record<string, unknown>): Principal | null {
+  const email = typeof payload.email === 'string' ? payload.email : undefined;
+  if (payload.type === 'business' && typeof payload.businessId === 'string' && payload.businessId) {
+    return { type: 'business', businessId: payload.businessId, email };
+  }
+  if (payload.type === 'customer' && typeof payload.customerId === 'string' && payload.customerId) {
+    return { type: 'customer', customerId: payload.customerId, email };
+  }
+  if (payload.type === 'admin') {
+    return { type: 'admin' };
+  }
+  return null;
+}
+
+/**
+ * Attach `req.principal` from `X-Admin-Key` or `Authorization: Bearer <jwt>`.
+ * Mounted once on /api/v1; individual routes enforce access with `authorize`.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  req.principal = undefined;
+
+  if (isAdminKey(req.headers[ADMIN_KEY_HEADER])) {
+    req.principal = { type: 'admin' };
+    return next();
+  }
+
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return next();
+  }
+
+  try {
+    const payload = jwt.verify(header.slice('Bearer '.length).trim(), config.jwtSecret);
+    if (payload && typeof payload === 'object') {
+      req.principal = toPrincipal(payload as Record<string, unknown>) ?? undefined;
+    }
+  } catch (error: any) {
+    // Expired/invalid token: continue as anonymous so public routes (login, register) still work
+    console.warn(`⚠️ [AUTH] Rejected bearer token: ${error.message}`);
+  }
+
+  next();
+};
+
+// ============================================
+// ID RESOLVERS
+// ============================================
+
+const asId = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+export const fromParam = (name: string): IdResolver => (req) => asId(req.params[name]);
+export const fromBody = (name: string): IdResolver => (req) => asId(req.body?.[name]);
+export const fromQuery = (name: string): IdResolver => (req) => asId(req.query[name]);
+
+// ============================================
+// ACCESS RULES
+// ============================================
+
+/** Platform admin (X-Admin-Key or an admin JWT). */
+export const platformAdmin: AccessRule = (principal) => principal.type === 'admin';
+
+/** The business whose id the resolver returns. */
+export const owningBusiness = (resolve: IdResolver): AccessRule => async (principal, req) => {
+  if (principal.type !== 'business') return false;
+  const businessId = await resolve(req);
+  return !!businessId && businessId === principal.businessId;
+};
+
+/** The customer whose id the resolver returns. */
+export const customerSelf = (resolve: IdResolver): AccessRule => async (principal, req) => {
+  if (principal.type !== 'customer') return false;
+  const customerId = await resolve(req);
+  return !!customerId && customerId === principal.customerId;
+};
+
+/**
+ * Route guard: requires a principal and at least one matching rule.
+ * Rules are evaluated in order; the first match wins.
+ */
+export const authorize = (...rules: AccessRule[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const principal = req.principal;
+    if (!principal) {
+      return next(new ApiError(401, 'Authentication required'));
+    }
+    try {
+      for (const rule of rules) {
+        if (await rule(principal, req)) {
+          return next();
+        }
+      }
+      next(new ApiError(403, 'You do not have access to this resource'));
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,48 @@
+/**
+ * Optimistic concurrency headers for full-record replace endpoints
+ *
+ * Reads return the document version as a strong ETag ("3"). Writes may send it back as
+ * `If-Match: "3"`; if the document has moved on the write gets 409 with the server copy.
+ * Offline devices can add `X-Merge-Mode: fields` to have non-overlapping edits merged instead.
+ */
+
+import { Request, Response } from 'express';
+import { ApiError } from './errorHandler';
+import type { WritePrecondition } from '../services/concurrencyService';
+
+export const MERGE_MODE_HEADER = 'x-merge-mode';
+
+export const etag = (version: number): string => `"${version}"`;
+
+/** Set the ETag for a document version. */
+export const setVersionHeader = (res: Response, version: number): void => {
+  res.setHeader('ETag', etag(version));
+};
+
+/**
+ * Parse If-Match / X-Merge-Mode into a write precondition.
+ * Accepts "3", W/"3" and a bare 3; `*` (or no header) means an unconditional write.
+ */
+export const readPrecondition = (req: Request): WritePrecondition => {
+  const header = req.get('if-match')?.trim();
+  const mergeMode = req.get(MERGE_MODE_HEADER)?.trim().toLowerCase();
+
+  if (mergeMode && mergeMode !== 'fields') {
+    throw new ApiError(400, `Unsupported ${MERGE_MODE_HEADER} '${mergeMode}' (expected 'fields')`);
+  }
+
+  let expectedVersion: number | undefined;
+  if (header && header !== '*') {
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(header);
+    if (!match) {
+      throw new ApiError(400, 'Invalid If-Match header: expected a version ETag such as "3"');
+    }
+    expectedVersion = parseInt(match[1], 10);
+  }
+
+  if (mergeMode && expectedVersion === undefined) {
+    throw new ApiError(428, 'Field-level merge requires If-Match with the version the edits were based on');
+  }
+
+  return { expectedVersion, merge: mergeMode === 'fields' };
+};
@@ -2,10 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 
 export class ApiError extends Error {
   statusCode: number;
+  details?: unknown;
   
-  constructor(statusCode: number, message: string) {
+  constructor(statusCode: number, message: string, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
+    this.details = details;
   }
 }
 
@@ -21,6 +23,7 @@ export const errorHandler = (
     return res.status(err.statusCode).json({
       success: false,
       error: err.message,
+      ...(err.details !== undefined ? { details: err.details } : {}),
     });
   }
   
@@ -0,0 +1,151 @@
+/**
+ * Idempotency-Key support for mutating requests
+ *
+ * Clients on poor connections retry POSTs. When a POST/PUT/PATCH/DELETE carries an
+ * `Idempotency-Key` header, the first request claims the key in Redis and its response is stored
+ * for 24h. A replay with the same key:
+ * - and the same body gets the original status and response (`Idempotent-Replayed: true`)
+ * - and a different body is rejected with 422
+ * - while the original is still running gets 409
+ * Keys are scoped to the caller and the route, so two tenants can never collide.
+ * JSON responses are replayed as JSON; other responses (text, redirects, empty) with their status,
+ * text body, Content-Type and Location.
+ * 5xx responses are not stored, and neither is a request whose client went away before the response
+ * was sent, so either can be retried with the same key.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from './errorHandler';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/** Completed responses are replayable for 24 hours. */
+const RESPONSE_TTL_SECONDS = 24 * 60 * 60;
+
+/** An in-flight claim expires quickly if the request never responds (crash, timeout). */
+const IN_FLIGHT_TTL_SECONDS = 60;
+
+const MAX_KEY_LENGTH = 255;
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+interface StoredRequest {
+  status: 'processing' | 'completed';
+  fingerprint: string;
+  statusCode?: number;
+  body?: unknown;
+  /** Set for a response not sent with res.json; text is only kept for string bodies. */
+  raw?: { text?: string; contentType?: string; location?: string };
+}
+
+/** Caller scope for the key: the authenticated tenant, or the client IP for anonymous calls. */
+function callerScope(req: Request): string {
+  const principal = req.principal;
+  if (!principal) return `anon:${req.ip}`;
+  if (principal.type === 'business') return `business:${principal.businessId}`;
+  if (principal.type === 'customer') return `customer:${principal.customerId}`;
+  return 'admin';
+}
+
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.originalUrl.split('?')[0]}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Mounted once on /api/v1 after `authenticate`. Requests without the header pass straight through.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (!key || !MUTATING_METHODS.has(req.method)) {
+    return next();
+  }
+
+  try {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ApiError(400, `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const route = `${req.method}:${req.baseUrl}${req.path}`;
+    const storeKey = REDIS_KEYS.requestIdempotency(callerScope(req), route, key);
+    const print = fingerprint(req);
+
+    const claimed = await redisClient.set(
+      storeKey,
+      JSON.stringify({ status: 'processing', fingerprint: print } as StoredRequest),
+      'EX',
+      IN_FLIGHT_TTL_SECONDS,
+      'NX',
+    );
+
+    if (!claimed) {
+      const data = await redisClient.get(storeKey);
+      const stored: StoredRequest | null = data ? JSON.parse(data) : null;
+      if (!stored) {
+        // Claim expired between SET NX and GET - treat as a conflict and let the client retry
+        throw new ApiError(409, 'A request with this Idempotency-Key is still being processed');
+      }
+      if (stored.fingerprint !== print) {
+        throw new ApiError(422, 'Idempotency-Key has already been used with a different request body');
+      }
+      if (stored.status !== 'completed') {
+        throw new ApiError(409, 'A request with this Idempotency-Key is still being processed');
+      }
+      console.log(`[IDEMPOTENCY] Replaying ${route} for key ${key}`);
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(stored.statusCode ?? 200);
+      if (!stored.raw) return res.json(stored.body);
+      if (stored.raw.contentType) res.setHeader('Content-Type', stored.raw.contentType);
+      if (stored.raw.location) res.setHeader('Location', stored.raw.location);
+      return stored.raw.text !== undefined ? res.send(stored.raw.text) : res.end();
+    }
+
+    // Capture the body as it is sent (res.json calls res.send with the serialised body)
+    let json = false;
+    let body: unknown;
+    let text: string | undefined;
+    const originalJson = res.json.bind(res);
+    const originalSend = res.send.bind(res);
+    res.json = (value?: unknown) => {
+      json = true;
+      body = value;
+      return originalJson(value);
+    };
+    res.send = (value?: unknown) => {
+      if (!json && typeof value === 'string') text = value;
+      return originalSend(value);
+    };
+
+    const record = (write: Promise<unknown>) =>
+      write.catch((err: Error) => console.error('[IDEMPOTENCY] Error storing response:', err.message));
+
+    // Store the response once it has gone out, whichever way it was sent (or release the key on a server error)
+    res.on('finish', () => {
+      if (res.statusCode >= 500) {
+        record(redisClient.del(storeKey));
+        return;
+      }
+      const stored: StoredRequest = json
+        ? { status: 'completed', fingerprint: print, statusCode: res.statusCode, body }
+        : {
+            status: 'completed',
+            fingerprint: print,
+            statusCode: res.statusCode,
+            raw: { text, contentType: res.get('Content-Type'), location: res.get('Location') },
+          };
+      record(redisClient.set(storeKey, JSON.stringify(stored), 'EX', RESPONSE_TTL_SECONDS));
+    });
+
+    // The client went away before a response was sent: release the key rather than leave it in flight
+    res.on('close', () => {
+      if (!res.writableFinished) record(redisClient.del(storeKey));
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
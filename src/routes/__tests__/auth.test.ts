@@ -0,0 +1,107 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { config } from '../../config/env';
+import { messageProviders, EmailMessage } from '../../services/messageProviders';
+import { testApp, businessToken } from '../../__tests__/app';
+import authRoutes from '../auth';
+import businessRoutes from '../businesses';
+
+const app = testApp('/api/v1/auth', authRoutes);
+const businesses = testApp('/api/v1/businesses', businessRoutes);
+
+const businessId = 'business-1';
+const contactEmail = 'owner@cafe.example';
+const emails: EmailMessage[] = [];
+
+beforeAll(() => {
+  // Email is off in tests (EMAIL_PROVIDER=none); this records instead
+  messageProviders.registerEmail({
+    name: config.email.provider,
+    configured: () => true,
+    send: async (message) => {
+      emails.push(message);
+      return { status: 'sent' };
+    },
+  });
+});
+
+beforeEach(async () => {
+  emails.length = 0;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'The Cafe', email: contactEmail }));
+});
+
+const register = (body: Record<string, unknown>, authorization?: string) => {
+  const call = request(app).post('/api/v1/auth/business/register');
+  if (authorization) call.set('Authorization', authorization);
+  return call.send({ password: 'correct horse', businessId, ...body });
+};
+
+/** The invitationToken in the link of the last verification email. */
+const emailedToken = () => new URL(/href="([^"]+\/register\?[^"]+)"/.exec(emails[emails.length - 1].html)![1].replace(/&amp;/g, '&')).searchParams.get('invitationToken');
+
+describe('POST /api/v1/auth/business/register', () => {
+  it('does not give a login for the contact email alone, but emails that address a token to register with', async () => {
+    const response = await register({ email: contactEmail });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toEqual({ verificationSent: true, businessId, email: contactEmail });
+    expect(await redisClient.get(REDIS_KEYS.businessAuthByEmail(contactEmail))).toBeNull();
+    expect(emails.map((email) => email.to)).toEqual([contactEmail]);
+
+    const verified = await register({ email: contactEmail, invitationToken: emailedToken() });
+    expect(verified.status).toBe(201);
+    expect(verified.body.data.token).toEqual(expect.any(String));
+  });
+
+  it('sends at most one verification email at a time', async () => {
+    await register({ email: contactEmail });
+    await register({ email: contactEmail });
+
+    expect(emails).toHaveLength(1);
+  });
+
+  it('rejects an email that is neither invited nor the contact email', async () => {
+    const response = await register({ email: 'someone@else.example' });
+
+    expect(response.status).toBe(403);
+    expect(emails).toHaveLength(0);
+  });
+
+  it('accepts an owner invitation once, for the invited email only', async () => {
+    const invitation = await request(app)
+      .post('/api/v1/auth/business/invitations')
+      .set('Authorization', businessToken(businessId))
+      .send({ businessId, email: 'Barista@Cafe.example' });
+    const { invitationToken } = invitation.body.data;
+
+    expect((await register({ email: 'other@cafe.example', invitationToken })).status).toBe(403);
+    expect((await register({ email: 'barista@cafe.example', invitationToken })).status).toBe(201);
+    expect((await register({ email: 'barista@cafe.example', invitationToken })).status).toBe(403);
+  });
+
+  it('lets the signed-in owner add a login, but not another business', async () => {
+    expect((await register({ email: 'manager@cafe.example' }, businessToken(businessId))).status).toBe(201);
+    expect((await register({ email: 'spy@cafe.example' }, businessToken('business-2'))).status).toBe(403);
+  });
+});
+
+describe('POST /api/v1/businesses', () => {
+  it('rejects ids that would address the platform indexes', async () => {
+    for (const id of ['auth', 'invitation', 'slug', 'a:b', 'x'.repeat(129)]) {
+      const response = await request(businesses).post('/api/v1/businesses').send({ id, name: 'Takeover' });
+      expect(response.status).toBe(400);
+    }
+    expect(await redisClient.exists(REDIS_KEYS.business('auth'))).toBe(0);
+  });
+
+  it('generates an id when none is given and keeps an existing business', async () => {
+    const created = await request(businesses).post('/api/v1/businesses').send({ name: 'New Cafe' });
+    expect(created.status).toBe(201);
+    expect(created.body.data.id).toMatch(/^[0-9a-f-]{36}$/);
+
+    const taken = await request(businesses).post('/api/v1/businesses').send({ id: businessId, name: 'Takeover' });
+    expect(taken.status).toBe(409);
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import { REDIS_KEYS } from '../../config/redis';
+import { concurrencyService } from '../../services/concurrencyService';
+import { engagementService } from '../../services/engagementService';
+import { testApp, businessToken } from '../../__tests__/app';
+import campaignRoutes from '../campaigns';
+
+// Repository copies and debug captures are files on disk
+jest.mock('../../services/repositoryCopyService', () => ({ saveEntityCopy: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('../../services/debugCaptureService', () => ({ captureClientUpload: jest.fn().mockResolvedValue(undefined) }));
+
+const app = testApp('/api/v1/campaigns', campaignRoutes);
+const campaignId = 'campaign-1';
+
+const update = (body: Record<string, unknown>, ifMatch?: string) => {
+  const call = request(app)
+    .put(`/api/v1/campaigns/${campaignId}`)
+    .set('Authorization', businessToken('business-1'))
+    .set('X-Sync-Context', 'manual-sync');
+  if (ifMatch) call.set('If-Match', ifMatch);
+  return call.send(body);
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  await concurrencyService.save(REDIS_KEYS.campaign(campaignId), {
+    id: campaignId,
+    businessId: 'business-1',
+    name: 'Double stamps',
+    status: 'active',
+    stats: { impressions: 0, clicks: 0, conversions: 0 },
+  });
+});
+
+describe('PUT /api/v1/campaigns/:id', () => {
+  it('rejects an edit from before a click was counted', async () => {
+    await engagementService.countCampaign(campaignId, 'clicks');
+
+    const response = await update({ name: 'Triple stamps' }, '"1"');
+
+    expect(response.status).toBe(409);
+    expect(response.body.details).toMatchObject({ currentVersion: 2, current: { stats: { clicks: 1 } } });
+  });
+
+  it('keeps the stored stats when the app sends back its own copy', async () => {
+    await engagementService.countCampaign(campaignId, 'clicks');
+
+    const response = await update({ name: 'Triple stamps', stats: { impressions: 0, clicks: 0, conversions: 0 } });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ name: 'Triple stamps', stats: { clicks: 1 } });
+  });
+});
+
+describe('campaign conditions', () => {
+  it('rejects a bonusStamps that is not a whole number of at most 100', async () => {
+    for (const bonusStamps of [1e6, 101, 2.5, -1, '10']) {
+      expect((await update({ conditions: { bonusStamps } })).status).toBe(400);
+    }
+    expect((await update({ conditions: { bonusStamps: 100 } })).status).toBe(200);
+
+    const created = await request(app)
+      .post('/api/v1/campaigns')
+      .set('Authorization', businessToken('business-1'))
+      .set('X-Sync-Context', 'manual-sync')
+      .send({ businessId: 'business-1', name: 'Bonus', type: 'bonus_reward', conditions: { bonusStamps: 5000 } });
+    expect(created.status).toBe(400);
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { config } from '../../config/env';
+import { testApp } from '../../__tests__/app';
+import { engagementService } from '../../services/engagementService';
+import { notificationService } from '../../services/notificationService';
+import notificationRoutes from '../notifications';
+
+const app = testApp('/api/v1/notifications', notificationRoutes);
+const memberId = 'member-1';
+const businessId = 'business-1';
+
+/** Path of a tracked link. */
+const pathOf = (link: string) => new URL(link).pathname;
+
+const website = (url?: string) =>
+  redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe', profile: { website: url } }));
+
+let notificationId: string;
+
+beforeEach(async () => {
+  await website('https://cafe.example');
+  notificationId = (await notificationService.queue(memberId, { type: 'business_broadcast', title: 'News', message: 'New menu', businessId })).id;
+});
+
+describe('GET /api/v1/notifications/track/click/:token', () => {
+  it('records the click and redirects to the business\'s website', async () => {
+    const link = await engagementService.trackedLink(memberId, notificationId, 'https://cafe.example/menu', businessId);
+
+    const response = await request(app).get(pathOf(link));
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe('https://cafe.example/menu');
+    const [stored] = (await redisClient.lrange(REDIS_KEYS.memberNotifications(memberId), 0, 0)).map((raw) => JSON.parse(raw));
+    expect(stored.clickedAt).toEqual(expect.any(String));
+  });
+
+  it('redirects to the customer app when the business no longer lists the site', async () => {
+    const link = await engagementService.trackedLink(memberId, notificationId, 'https://cafe.example/menu', businessId);
+    await website('https://new-cafe.example');
+
+    expect((await request(app).get(pathOf(link))).headers.location).toBe(config.customerAppUrl);
+  });
+
+  it('redirects a link that is not signed by us to the customer app without recording it', async () => {
+    const payload = Buffer.from(JSON.stringify({ m: memberId, n: notificationId, u: 'https://evil.example/' })).toString('base64url');
+
+    const response = await request(app).get(`/api/v1/notifications/track/click/${payload}.forged`);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe(config.customerAppUrl);
+    const [stored] = (await redisClient.lrange(REDIS_KEYS.memberNotifications(memberId), 0, 0)).map((raw) => JSON.parse(raw));
+    expect(stored.clickedAt).toBeUndefined();
+  });
+});
+
+describe('GET /api/v1/notifications/track/open/:token', () => {
+  it('records the open and returns an uncached image, also for links that are not ours', async () => {
+    const pixel = await request(app).get(pathOf(engagementService.openPixel(memberId, notificationId)));
+    const forged = await request(app).get('/api/v1/notifications/track/open/abc.def');
+
+    for (const response of [pixel, forged]) {
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/gif');
+      expect(response.headers['cache-control']).toContain('no-store');
+    }
+    const [stored] = (await redisClient.lrange(REDIS_KEYS.memberNotifications(memberId), 0, 0)).map((raw) => JSON.parse(raw));
+    expect(stored.openedAt).toEqual(expect.any(String));
+  });
+});
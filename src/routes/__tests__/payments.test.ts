@@ -0,0 +1,116 @@
+import request from 'supertest';
+import Stripe from 'stripe';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { config } from '../../config/env';
+import { testApp, businessToken } from '../../__tests__/app';
+import { notificationPolicyService } from '../../services/notificationPolicyService';
+import paymentRoutes from '../payments';
+
+const app = testApp('/api/v1/payments', paymentRoutes);
+const businessId = 'business-1';
+const secret = 'whsec_test';
+
+const webhook = (event: Record<string, unknown>, signature?: string) => {
+  const payload = JSON.stringify(event);
+  return request(app)
+    .post('/api/v1/payments/webhook')
+    .set('Content-Type', 'application/json')
+    .set('Stripe-Signature', signature ?? Stripe.webhooks.generateTestHeaderString({ payload, secret }))
+    .send(payload);
+};
+
+const checkoutCompleted = {
+  id: 'evt_1',
+  type: 'checkout.session.completed',
+  data: { object: { id: 'cs_1', subscription: 'sub_1', customer: 'cus_1', metadata: { businessId, planId: 'starter' } } },
+};
+
+const subscriptionEvent = (type: string, fields: Record<string, unknown>) => ({
+  id: 'evt_2',
+  type,
+  data: { object: { id: 'sub_1', metadata: { businessId, planId: 'starter' }, status: 'active', cancel_at_period_end: false, items: { data: [] }, ...fields } },
+});
+
+const stored = async () => JSON.parse((await redisClient.get(`subscription:${businessId}`)) ?? 'null');
+
+const usage = () => request(app).get(`/api/v1/payments/usage/${businessId}`).set('Authorization', businessToken(businessId));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  config.stripe.webhookSecret = secret;
+});
+
+describe('POST /api/v1/payments/webhook', () => {
+  it('activates a plan from a signed checkout', async () => {
+    const response = await webhook(checkoutCompleted);
+
+    expect(response.status).toBe(200);
+    expect(await stored()).toMatchObject({ planId: 'starter', status: 'active', stripeSubscriptionId: 'sub_1' });
+  });
+
+  it('rejects events that are not signed with the webhook secret', async () => {
+    const payload = JSON.stringify(checkoutCompleted);
+    const forged = Stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_other' });
+
+    expect((await webhook(checkoutCompleted, forged)).status).toBe(400);
+    expect((await webhook(checkoutCompleted, 'nonsense')).status).toBe(400);
+    expect(await stored()).toBeNull();
+  });
+
+  it('accepts no events until the webhook secret is configured', async () => {
+    config.stripe.webhookSecret = '';
+
+    expect((await webhook(checkoutCompleted)).status).toBe(503);
+  });
+
+  it('keeps a plan cancelled at period end until then, and ends a deleted one', async () => {
+    await webhook(checkoutCompleted);
+    const periodEnd = Math.floor(Date.now() / 1000) + 10 * 24 * 60 * 60;
+
+    await webhook(subscriptionEvent('customer.subscription.updated', { cancel_at_period_end: true, items: { data: [{ current_period_end: periodEnd }] } }));
+
+    expect(await stored()).toMatchObject({ status: 'cancelled', currentPeriodEnd: new Date(periodEnd * 1000).toISOString() });
+    expect((await notificationPolicyService.budget(businessId)).limit).toBe(500);
+    expect((await notificationPolicyService.budget(businessId, new Date((periodEnd + 1) * 1000))).limit).toBe(0);
+
+    await webhook(subscriptionEvent('customer.subscription.deleted', { status: 'canceled', ended_at: Math.floor(Date.now() / 1000) - 1 }));
+
+    expect((await notificationPolicyService.budget(businessId)).limit).toBe(0);
+  });
+
+  it('ignores updates to a subscription the business no longer has', async () => {
+    await webhook(checkoutCompleted);
+
+    await webhook(subscriptionEvent('customer.subscription.deleted', { id: 'sub_old', ended_at: 1 }));
+
+    expect(await stored()).toMatchObject({ status: 'active', stripeSubscriptionId: 'sub_1' });
+  });
+});
+
+describe('GET /api/v1/payments/usage/:businessId', () => {
+  it('reports limits of 0 as fully used', async () => {
+    const response = await usage();
+
+    expect(response.body.data.planId).toBe('free');
+    expect(response.body.data.usage.notifications).toEqual({ current: 0, limit: 0, percentage: 100 });
+    expect(response.body.data.usage.campaigns.percentage).toBe(100);
+    expect(response.body.data.warnings).toContain('Your plan does not include campaign and broadcast notifications');
+  });
+
+  it('warns at 80% of the notification budget', async () => {
+    await redisClient.set(`subscription:${businessId}`, JSON.stringify({ businessId, planId: 'starter', status: 'active' }));
+    await redisClient.set(REDIS_KEYS.businessNotificationCount(businessId, notificationPolicyService.month()), '400');
+
+    const response = await usage();
+
+    expect(response.body.data.usage.notifications).toEqual({ current: 400, limit: 500, percentage: 80 });
+    expect(response.body.data.warnings).toEqual(["You're using 80% of this month's notification budget"]);
+  });
+
+  it('uses the free plan once a cancelled subscription\'s period is over', async () => {
+    await redisClient.set(`subscription:${businessId}`, JSON.stringify({ businessId, planId: 'starter', status: 'cancelled', currentPeriodEnd: '2020-01-01T00:00:00.000Z' }));
+
+    expect((await usage()).body.data.planId).toBe('free');
+  });
+});
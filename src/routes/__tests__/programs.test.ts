@@ -0,0 +1,74 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { testApp, businessToken, customerToken } from '../../__tests__/app';
+import programRoutes from '../programs';
+
+const app = testApp('/api/v1/programs', programRoutes);
+const owner = businessToken('business-1');
+const customer = customerToken('customer-1');
+
+let programId: string;
+
+const enroll = (authorization = customer) =>
+  request(app).post(`/api/v1/programs/${programId}/memberships`).set('Authorization', authorization).send({ customerId: 'customer-1' });
+
+const act = (action: string, authorization: string, body: Record<string, unknown> = {}) =>
+  request(app).post(`/api/v1/programs/${programId}/memberships/customer-1/${action}`).set('Authorization', authorization).send(body);
+
+beforeEach(async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  await redisClient.set(REDIS_KEYS.business('business-1'), JSON.stringify({ id: 'business-1', name: 'Cafe' }));
+  await redisClient.set(REDIS_KEYS.customer('customer-1'), JSON.stringify({ id: 'customer-1', email: 'a@b.com' }));
+  const created = await request(app).post('/api/v1/programs').set('Authorization', owner).send({ businessId: 'business-1', name: 'Coffee card', type: 'stamp' });
+  programId = created.body.data.id;
+});
+
+describe('POST /api/v1/programs/:id/memberships', () => {
+  it('enrolls once and keeps other customers and businesses out', async () => {
+    expect((await enroll()).status).toBe(201);
+    expect((await enroll()).status).toBe(200);
+    expect((await enroll(customerToken('customer-2'))).status).toBe(403);
+    expect((await enroll(businessToken('business-2'))).status).toBe(403);
+  });
+});
+
+describe('POST /api/v1/programs/:id/memberships/:customerId/:action', () => {
+  beforeEach(async () => {
+    await enroll();
+  });
+
+  it('lets a customer pause and resume their own membership', async () => {
+    expect((await act('pause', customer)).body.data).toMatchObject({ status: 'paused', pausedBy: 'customer' });
+    expect((await act('resume', customer)).body.data.status).toBe('active');
+  });
+
+  it('does not let a customer lift a pause the business applied', async () => {
+    await act('pause', owner);
+
+    expect((await act('resume', customer)).status).toBe(403);
+    expect((await act('pause', customer)).status).toBe(403);
+    expect((await act('resume', owner)).body.data.status).toBe('active');
+  });
+
+  it('keeps a business pause through a cancel and re-join', async () => {
+    await act('pause', owner);
+    expect((await act('cancel', customer)).body.data.status).toBe('cancelled');
+
+    const rejoined = await enroll();
+
+    expect(rejoined.body.data).toMatchObject({ status: 'paused', pausedBy: 'business' });
+  });
+
+  it('reactivates a customer-cancelled membership only by enrolling again', async () => {
+    await act('cancel', customer);
+
+    expect((await act('resume', owner)).status).toBe(400);
+    expect((await enroll()).body.data.status).toBe('active');
+  });
+
+  it('only accepts a future until when pausing', async () => {
+    expect((await act('pause', customer, { until: '2000-01-01T00:00:00.000Z' })).status).toBe(400);
+    expect((await act('resume', customer, { until: '2999-01-01T00:00:00.000Z' })).status).toBe(400);
+    expect((await act('pause', customer, { until: '2999-01-01T00:00:00.000Z' })).body.data.pausedUntil).toBe('2999-01-01T00:00:00.000Z');
+  });
+});
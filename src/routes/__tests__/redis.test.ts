@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { config } from '../../config/env';
+import { testApp, businessToken, customerToken, ADMIN_KEY } from '../../__tests__/app';
+import redisRoutes from '../redis';
+
+const app = testApp('/api/v1/redis', redisRoutes);
+
+const proxy = (command: string, args: unknown[], authorization: string) =>
+  request(app).post(`/api/v1/redis/${command}`).set('Authorization', authorization).send({ args });
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  config.redisProxy.enabled = false;
+});
+
+describe('POST /api/v1/redis/:command', () => {
+  it('is retired unless REDIS_PROXY_ENABLED turns it on', async () => {
+    const response = await proxy('get', [REDIS_KEYS.business('business-1')], businessToken('business-1'));
+
+    expect(response.status).toBe(410);
+  });
+
+  describe('when enabled', () => {
+    beforeEach(() => {
+      config.redisProxy.enabled = true;
+    });
+
+    it('lets a business use its own document and index sets', async () => {
+      const token = businessToken('business-1');
+
+      expect((await proxy('set', [REDIS_KEYS.business('business-1'), '{"name":"Cafe"}'], token)).status).toBe(200);
+      expect((await proxy('sadd', [REDIS_KEYS.businessRewards('business-1'), 'reward-1'], token)).status).toBe(200);
+      expect((await proxy('get', [REDIS_KEYS.business('business-1')], token)).body.data).toBe('{"name":"Cafe"}');
+    });
+
+    it('rejects platform indexes that share the business: prefix, even for a business whose id is a key segment', async () => {
+      const token = businessToken('auth');
+      const takeover = JSON.stringify({ email: 'victim@x.com', passwordHash: 'mine', businessId: 'victim' });
+
+      expect((await proxy('set', [REDIS_KEYS.businessAuthByEmail('victim@x.com'), takeover], token)).status).toBe(403);
+      expect((await proxy('get', [REDIS_KEYS.business('auth')], token)).status).toBe(403);
+      expect((await proxy('set', [REDIS_KEYS.businessInvitation('forged'), '{}'], businessToken('invitation'))).status).toBe(403);
+      expect(await redisClient.exists(REDIS_KEYS.businessAuthByEmail('victim@x.com'))).toBe(0);
+    });
+
+    it('rejects server-owned keys under the caller\'s own prefix and other tenants\' keys', async () => {
+      const token = businessToken('business-1');
+
+      expect((await proxy('set', ['business:business-1:auth:me@x.com', 'me@x.com'], token)).status).toBe(403);
+      expect((await proxy('get', [REDIS_KEYS.business('business-2')], token)).status).toBe(403);
+      expect((await proxy('mget', [REDIS_KEYS.business('business-1'), REDIS_KEYS.business('business-2')], token)).status).toBe(403);
+      expect((await proxy('keys', ['business:*'], token)).status).toBe(403);
+    });
+
+    it('lets a customer use their own record but not their devices', async () => {
+      const token = customerToken('customer-1');
+
+      expect((await proxy('get', [REDIS_KEYS.customer('customer-1')], token)).status).toBe(200);
+      expect((await proxy('smembers', [REDIS_KEYS.customerBusinesses('customer-1')], token)).status).toBe(200);
+      expect((await proxy('hset', [REDIS_KEYS.memberDevices('customer-1'), 'token', '{}'], token)).status).toBe(403);
+      expect((await proxy('get', [REDIS_KEYS.customer('customer-2')], token)).status).toBe(403);
+    });
+
+    it('lets a platform admin reach any key', async () => {
+      const response = await request(app)
+        .post('/api/v1/redis/get')
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ args: [REDIS_KEYS.businessAuthByEmail('owner@x.com')] });
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { testApp } from '../../__tests__/app';
+import { geoService } from '../../services/geoService';
+import searchRoutes from '../search';
+
+const app = testApp('/api/v1/search', searchRoutes);
+
+const middlesbrough = { lat: 54.5742, lng: -1.2349 };
+
+/** Active business `id` about `km` east of Middlesbrough. */
+async function business(id: string, km: number): Promise<void> {
+  const position = { latitude: middlesbrough.lat, longitude: middlesbrough.lng + km / 64.5 };
+  const doc = { id, name: `Cafe ${id}`, status: 'active', coordinates: position };
+  await redisClient.set(REDIS_KEYS.business(id), JSON.stringify(doc));
+  await redisClient.sadd(REDIS_KEYS.allBusinesses(), id);
+  await geoService.indexBusiness(id, doc);
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+const search = (body: Record<string, unknown>) => request(app).post('/api/v1/search/text').send(body);
+
+describe('POST /api/v1/search/text near', () => {
+  it('sorts by distance and reports it in miles and km', async () => {
+    await business('b', 3);
+    await business('a', 1);
+    await business('far', 50);
+
+    const { body } = await search({ near: middlesbrough, distance: 10, unit: 'km' });
+
+    expect(body.data.results.map((r: any) => r.id)).toEqual(['a', 'b']);
+    expect(body.data.results[0].distanceKm).toBeCloseTo(1, 1);
+    expect(body.data.results[0].distanceMiles).toBeCloseTo(0.62, 1);
+  });
+
+  it('validates the radius and sortBy distance', async () => {
+    expect((await search({ near: middlesbrough, distance: 500, unit: 'km' })).status).toBe(400);
+    expect((await search({ near: middlesbrough, unit: 'yards' })).status).toBe(400);
+    expect((await search({ distance: 5 })).status).toBe(400);
+    expect((await search({ sortBy: 'distance' })).status).toBe(400);
+  });
+});
+
+describe('cursor pagination', () => {
+  it('neither repeats nor skips results when businesses are added or removed between pages', async () => {
+    for (const [id, km] of [['a', 1], ['b', 2], ['c', 3], ['d', 4]] as const) await business(id, km);
+
+    const first = (await search({ near: middlesbrough, distance: 10, unit: 'km', pageSize: 2 })).body.data;
+    expect(first.results.map((r: any) => r.id)).toEqual(['a', 'b']);
+
+    await redisClient.del(REDIS_KEYS.business('a'));
+    await business('nearer', 0.5);
+
+    const second = (await search({ near: middlesbrough, distance: 10, unit: 'km', pageSize: 2, cursor: first.nextCursor })).body.data;
+    expect(second.results.map((r: any) => r.id)).toEqual(['c', 'd']);
+    expect(second).toMatchObject({ hasMore: false, nextCursor: null });
+  });
+
+  it('rejects a cursor from a search with a different sort', async () => {
+    for (const [id, km] of [['a', 1], ['b', 2]] as const) await business(id, km);
+    const first = (await search({ near: middlesbrough, distance: 10, unit: 'km', pageSize: 1 })).body.data;
+
+    expect((await search({ sortBy: 'name', cursor: first.nextCursor })).status).toBe(400);
+  });
+});
+
+describe('POST /api/v1/search/map', () => {
+  it('returns businesses inside the bounds', async () => {
+    await business('inside', 2);
+    await business('outside', 40);
+
+    const { body } = await request(app).post('/api/v1/search/map').send({
+      bounds: { northeast: { lat: 54.6, lng: -1.1 }, southwest: { lat: 54.5, lng: -1.3 } },
+    });
+
+    expect(body.data.results.map((r: any) => r.id)).toEqual(['inside']);
+  });
+});
@@ -0,0 +1,74 @@
+import request from 'supertest';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { testApp, businessToken, customerToken } from '../../__tests__/app';
+import syncRoutes from '../sync';
+
+// Repository copies are files on disk
+jest.mock('../../services/repositoryCopyService', () => ({ saveEntityCopy: jest.fn().mockResolvedValue(undefined) }));
+
+const app = testApp('/api/v1/sync', syncRoutes);
+const owner = businessToken('business-1');
+
+const push = (entity: string, id: string, body: Record<string, unknown>, authorization = owner) =>
+  request(app).put(`/api/v1/sync/${entity}/${id}`).set('Authorization', authorization).send(body);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('PUT /api/v1/sync/:entity/:id', () => {
+  it('versions every write and indexes the document', async () => {
+    const first = await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free coffee' } });
+    const second = await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free tea' }, baseVersion: 1 });
+
+    expect(first.body.data.version).toBe(1);
+    expect(second.body.data).toMatchObject({ version: 2, data: { id: 'reward-1', name: 'Free tea' } });
+    expect(await redisClient.smembers(REDIS_KEYS.businessRewards('business-1'))).toEqual(['reward-1']);
+  });
+
+  it('rejects a push from a stale version with the server copy', async () => {
+    await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free coffee' } });
+    await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free tea' }, baseVersion: 1 });
+
+    const stale = await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free cake' }, baseVersion: 1 });
+
+    expect(stale.status).toBe(409);
+    expect(stale.body.details).toMatchObject({ currentVersion: 2, current: { name: 'Free tea' } });
+  });
+
+  it('keeps businesses to their own documents', async () => {
+    await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free coffee' } });
+
+    const other = businessToken('business-2');
+    expect((await push('reward', 'reward-1', { data: { businessId: 'business-2', name: 'Mine now' } }, other)).status).toBe(403);
+    expect((await push('reward', 'reward-1', { data: { businessId: 'business-2', name: 'Moved' } })).status).toBe(400);
+    expect((await push('customer', 'customer-1', { data: { email: 'a@b.com', firstName: 'A', rewards: [] } })).status).toBe(403);
+  });
+
+  it('rejects ids that are key fragments or platform index segments', async () => {
+    for (const id of ['auth', 'slug', 'a:b']) {
+      expect((await push('business', id, { data: { name: 'Takeover' } }, businessToken(id))).status).toBe(400);
+    }
+  });
+
+  it('validates the document', async () => {
+    const response = await push('customer', 'customer-1', { data: { email: 'not an email' } }, customerToken('customer-1'));
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/v1/sync/manifest', () => {
+  it('lists the versions of a business\'s documents', async () => {
+    await push('business', 'business-1', { data: { name: 'Cafe' } });
+    await push('reward', 'reward-1', { data: { businessId: 'business-1', name: 'Free coffee' } });
+
+    const response = await request(app).get('/api/v1/sync/manifest?businessId=business-1').set('Authorization', owner);
+
+    expect(response.body.data.documents).toEqual(expect.arrayContaining([
+      { entity: 'business', id: 'business-1', version: 1 },
+      { entity: 'reward', id: 'reward-1', version: 1 },
+    ]));
+  });
+});
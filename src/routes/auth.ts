@@ -4,15 +4,26 @@
  */
 
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { redis, REDIS_KEYS, redisClient, connectRedis } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromBody } from '../middleware/auth';
 import { ApiResponse } from '../types';
+import { config } from '../config/env';
+import { channelService } from '../services/channelService';
 
 const router = Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'canny-carrot-jwt-secret-change-in-production';
+// Same secret the auth middleware verifies with
+const JWT_SECRET = config.jwtSecret;
+
+const INVITATION_TTL_DAYS = 7;
+
+// Emailed verification of a business's contact address, and the wait before another can be sent
+const VERIFICATION_TTL_HOURS = 24;
+const VERIFICATION_RESEND_MINUTES = 15;
 
 interface BusinessAuth {
   email: string;
@@ -28,9 +39,48 @@ interface CustomerAuth {
   createdAt: string;
 }
 
+/** Store a single-use invitation for an email to register a login for a business. */
+async function createInvitation(businessId: string, email: string, ttlSeconds: number): Promise<{ invitationToken: string; expiresAt: string }> {
+  const invitationToken = crypto.randomBytes(24).toString('base64url');
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+  await redisClient.set(
+    REDIS_KEYS.businessInvitation(invitationToken),
+    JSON.stringify({ businessId, email, createdAt: new Date().toISOString(), expiresAt }),
+    'EX',
+    ttlSeconds,
+  );
+  return { invitationToken, expiresAt };
+}
+
+/**
+ * Email the business's contact address an invitation to itself, so whoever registers with it shows they
+ * can read that mailbox. At most one every VERIFICATION_RESEND_MINUTES per business.
+ */
+async function sendVerification(businessId: string, businessName: string, email: string): Promise<void> {
+  const throttleKey = REDIS_KEYS.businessVerificationSent(businessId);
+  if (!await redisClient.set(throttleKey, '1', 'EX', VERIFICATION_RESEND_MINUTES * 60, 'NX')) {
+    return;
+  }
+  
+  const { invitationToken } = await createInvitation(businessId, email, VERIFICATION_TTL_HOURS * 60 * 60);
+  const params = new URLSearchParams({ businessId, email, invitationToken });
+  const result = await channelService.emailAddress(email, {
+    title: `Verify your email for ${businessName} on Canny Carrot`,
+    message: `Finish setting up your Canny Carrot login for ${businessName}. The link works for ${VERIFICATION_TTL_HOURS} hours; if you did not ask for it, ignore this email.`,
+    businessName,
+    link: `${config.businessAppUrl}/register?${params}`,
+  });
+  if (!result || result.status !== 'sent') {
+    await redisClient.del(REDIS_KEYS.businessInvitation(invitationToken), throttleKey);
+    throw new ApiError(503, 'Verification email could not be sent');
+  }
+}
+
 /**
  * POST /api/v1/auth/business/register
- * Register a business user account (from invitation)
+ * Register a business user account: an invitation (invitationToken from POST /business/invitations, or
+ * from the verification email), or a login the owner or an admin adds while signed in. Registering
+ * with the business's own contact email and no token emails that address a verification link (202).
  */
 router.post('/business/register', asyncHandler(async (req: Request, res: Response) => {
   console.log('🔐 ========================================');
@@ -61,13 +111,30 @@ router.post('/business/register', asyncHandler(async (req: Request, res: Respons
     throw new ApiError(404, 'Business not found');
   }
   
-  // Check if auth already exists for this email
-  const emailLower = email.toLowerCase();
-  const existingAuthKey = REDIS_KEYS.businessAuthByEmail(emailLower);
-  const existingAuth = await redisClient.get(existingAuthKey);
+  // Only an invited (or verified) email, or a login added by the owner (or an admin)
+  const emailLower = String(email).toLowerCase().trim();
+  const principal = req.principal;
+  const addedByOwner = principal?.type === 'admin'
+    || (principal?.type === 'business' && principal.businessId === businessId);
+  const businessEmail = String(business.email || business.profile?.email || '').toLowerCase().trim();
+  const invitationKey = invitationToken ? REDIS_KEYS.businessInvitation(String(invitationToken)) : null;
+  const invitation = invitationKey ? JSON.parse(await redisClient.get(invitationKey) || 'null') : null;
+  const invited = invitation?.businessId === businessId && invitation?.email === emailLower;
   
-  if (existingAuth) {
-    throw new ApiError(409, 'Account already exists for this email');
+  if (!addedByOwner && !invited) {
+    if (invitationToken) {
+      throw new ApiError(403, 'Invitation is invalid or has expired');
+    }
+    // The contact email is public, so typing it proves nothing: email it a token to register with
+    if (businessEmail && businessEmail === emailLower) {
+      await sendVerification(businessId, business.name || 'your business', emailLower);
+      res.status(202).json({
+        success: true,
+        data: { verificationSent: true, businessId, email: emailLower },
+      });
+      return;
+    }
+    throw new ApiError(403, 'An invitation is required to join this business');
   }
   
   // Hash password
@@ -82,10 +149,16 @@ router.post('/business/register', asyncHandler(async (req: Request, res: Respons
     createdAt: new Date().toISOString(),
   };
   
+  // Only if no account exists for this email yet (atomic, so two registrations cannot both win)
   const authKey = REDIS_KEYS.businessAuthByEmail(emailLower);
   console.log('🔐 Storing auth credentials in Redis key:', authKey);
-  await redisClient.set(authKey, JSON.stringify(authData));
+  if (!await redisClient.set(authKey, JSON.stringify(authData), 'NX')) {
+    throw new ApiError(409, 'Account already exists for this email');
+  }
   console.log('🔐 ✅ Auth credentials stored in Redis');
+  if (invited && invitationKey) {
+    await redisClient.del(invitationKey);
+  }
   
   // Also create index: business:${businessId}:auth:${email} -> email (for lookup by business)
   const businessAuthIndex = `business:${businessId}:auth:${emailLower}`;
@@ -121,6 +194,35 @@ router.post('/business/register', asyncHandler(async (req: Request, res: Respons
   res.status(201).json(response);
 }));
 
+/**
+ * POST /api/v1/auth/business/invitations
+ * Invite someone to log in to a business (owner or admin). Register with the returned invitationToken
+ * and the invited email within INVITATION_TTL_DAYS.
+ */
+router.post('/business/invitations', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { businessId, email } = req.body;
+  
+  if (!businessId || !email || typeof email !== 'string') {
+    throw new ApiError(400, 'Business ID and email are required');
+  }
+  
+  const business = await redis.getBusiness(businessId);
+  if (!business) {
+    throw new ApiError(404, 'Business not found');
+  }
+  
+  const { invitationToken, expiresAt } = await createInvitation(
+    businessId,
+    email.toLowerCase().trim(),
+    INVITATION_TTL_DAYS * 24 * 60 * 60,
+  );
+  
+  res.status(201).json({
+    success: true,
+    data: { invitationToken, businessId, email: email.toLowerCase().trim(), expiresAt },
+  });
+}));
+
 /**
  * POST /api/v1/auth/business/login
  * Login with email and password
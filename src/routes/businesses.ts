@@ -1,15 +1,24 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { redis, REDIS_KEYS, redisClient } from '../config/redis';
+import { redis, REDIS_KEYS, redisClient, isDocumentId } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromParam, fromBody } from '../middleware/auth';
 import { Business, ApiResponse } from '../types';
 import { saveEntityCopy } from '../services/repositoryCopyService';
+import { locationService } from '../services/locationService';
+import { geoService } from '../services/geoService';
+import { searchIndexService } from '../services/searchIndexService';
+import { segmentService } from '../services/segmentService';
+import { referralService } from '../services/referralService';
+import { notificationTemplateService } from '../services/notificationTemplateService';
 import { captureClientUpload, captureServerDownload } from '../services/debugCaptureService';
 // ⚠️ TEMPORARY DEBUG: Redis write monitor - REMOVE BEFORE PRODUCTION
 import { redisWriteMonitor } from '../middleware/redisWriteMonitor';
 
 const router = Router();
 
+const owner = owningBusiness(fromParam('id'));
+
 // Helper to create URL-friendly slug
 const createSlug = (name: string): string => {
   return name
@@ -19,7 +28,7 @@ const createSlug = (name: string): string => {
 };
 
 // GET /api/v1/businesses - List all businesses
-router.get('/', asyncHandler(async (req: Request, res: Response) => {
+router.get('/', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { city, category, bidId } = req.query;
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
@@ -35,18 +44,20 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   res.json(response);
 }));
 
-// POST /api/v1/businesses - Register a new business
+// POST /api/v1/businesses - Register a new business (public: website registration)
 // API is transparent pipe - accepts whatever app sends, no validation, no requirements
 router.post('/', asyncHandler(async (req: Request, res: Response) => {
   // Accept full business object from client - API is a transparent forwarder
   // API has no role in data accuracy - forms/app UI mandate dataset
   const businessData = req.body;
   
-  // Use provided ID if valid, otherwise generate new one
-  const id = businessData.id && typeof businessData.id === 'string' && businessData.id.length > 0 
-    ? businessData.id 
-    : uuidv4();
-  const slug = businessData.slug || (businessData.name ? createSlug(businessData.name) : `business-${id}`);
+  // Use provided ID if given, otherwise generate new one (an existing business is never replaced: 409).
+  // A provided ID must be a plain document id: "auth", "slug" or "a:b" would address the platform's own keys
+  if (businessData.id !== undefined && businessData.id !== '' && !isDocumentId(businessData.id)) {
+    throw new ApiError(400, 'Invalid business id');
+  }
+  const id: string = businessData.id || uuidv4();
+  let slug = businessData.slug || (businessData.name ? createSlug(businessData.name) : `business-${id}`);
   const now = new Date().toISOString();
   
   // API is transparent pipe - store exactly what app sends
@@ -58,11 +69,25 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     updatedAt: businessData.updatedAt || now,
   };
   
-  // Store in Redis
-  await redis.setBusiness(id, business);
+  // Store in Redis, only if the id is new
+  if (!await redisClient.set(REDIS_KEYS.business(id), JSON.stringify(business), 'NX')) {
+    throw new ApiError(409, 'Business already exists');
+  }
+  
+  // Index by slug; a slug another business has gets the id appended
+  if (!await redisClient.set(REDIS_KEYS.businessBySlug(slug), id, 'NX')) {
+    slug = `${slug}-${id.slice(0, 8)}`;
+    business.slug = slug;
+    await redis.setBusiness(id, business);
+    await redisClient.set(REDIS_KEYS.businessBySlug(slug), id);
+  }
+  
+  // Every business is in businesses:all (the scheduled jobs enumerate it)
+  await redisClient.sadd(REDIS_KEYS.allBusinesses(), id);
   
-  // Index by slug
-  await redisClient.set(REDIS_KEYS.businessBySlug(slug), id);
+  // Index map position (coordinates or profile.coordinates) for geo search, and words for text search
+  await geoService.indexBusiness(id, business);
+  await searchIndexService.index(id, business);
   
   // Add to BID if specified
   if (businessData.bidId) {
@@ -77,7 +102,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
   res.status(201).json(response);
 }));
 
-// GET /api/v1/businesses/:id - Get a specific business (profile + rewards + campaigns)
+// GET /api/v1/businesses/:id - Get a specific business (profile + rewards + campaigns) (public)
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
@@ -134,7 +159,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 
 // PUT /api/v1/businesses/:id - Update a business
 // ⚠️ TEMPORARY: Monitor blocks unauthorized writes - REMOVE BEFORE PRODUCTION
-router.put('/:id', redisWriteMonitor('business'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', authorize(owner, platformAdmin), redisWriteMonitor('business'), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const updates = req.body;
   
@@ -185,6 +210,8 @@ router.put('/:id', redisWriteMonitor('business'), asyncHandler(async (req: Reque
   console.log(`[SYNC] PUT business ${id} → client updatedAt: ${(updates as { updatedAt?: string }).updatedAt ?? 'undefined'}, stored updatedAt: ${(updated as { updatedAt?: string }).updatedAt ?? 'null'}`);
   
   await redis.setBusiness(id, updated);
+  await geoService.indexBusiness(id, updated);
+  await searchIndexService.index(id, updated);
   
   // Capture what was saved to Redis for debugging
   captureClientUpload('business', id, updated).catch(err => 
@@ -205,7 +232,7 @@ router.put('/:id', redisWriteMonitor('business'), asyncHandler(async (req: Reque
 }));
 
 // GET /api/v1/businesses/:id/tokens - Token-link index: reward + campaign UUIDs for this business
-router.get('/:id/tokens', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/tokens', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const business = await redis.getBusiness(id);
   if (!business) throw new ApiError(404, 'Business not found');
@@ -250,7 +277,7 @@ function scanAnalytics(
 }
 
 // GET /api/v1/businesses/:id/tokens/with-customers - Each token (reward, campaign) with customers and analytics metadata
-router.get('/:id/tokens/with-customers', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/tokens/with-customers', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const businessId = req.params.id;
   const business = await redis.getBusiness(businessId);
   if (!business) throw new ApiError(404, 'Business not found');
@@ -309,8 +336,298 @@ router.get('/:id/tokens/with-customers', asyncHandler(async (req: Request, res:
   res.json({ success: true, data: { tokens: tokensWithCustomers } });
 }));
 
+async function loadBusiness(id: string) {
+  const business = await redis.getBusiness(id);
+  if (!business) {
+    throw new ApiError(404, 'Business not found');
+  }
+  return business;
+}
+
+async function loadLocation(businessId: string, locationId: string) {
+  const location = await locationService.get(locationId);
+  if (!location || location.businessId !== businessId) {
+    throw new ApiError(404, 'Location not found');
+  }
+  return location;
+}
+
+// GET /api/v1/businesses/:id/locations - List a business's branches with opening hours (public)
+// Inactive locations are only listed with ?includeInactive=true
+router.get('/:id/locations', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const locations = await locationService.listForBusiness(id, { activeOnly: req.query.includeInactive !== 'true' });
+
+  res.json({
+    success: true,
+    data: locations,
+  });
+}));
+
+// POST /api/v1/businesses/:id/locations - Add a location
+// Body: { name, address: { line1, line2?, city, postcode, country? }, coordinates: { latitude, longitude },
+//         openingHours?: { monday?: { open, close, closed? }, ..., exceptions?: [{ date, open?, close?, closed }] },
+//         phone?, email? }
+router.post('/:id/locations', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const location = await locationService.create(id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: location,
+  });
+}));
+
+// GET /api/v1/businesses/:id/locations/:locationId - Get a location (public)
+router.get('/:id/locations/:locationId', asyncHandler(async (req: Request, res: Response) => {
+  const location = await loadLocation(req.params.id, req.params.locationId);
+
+  res.json({
+    success: true,
+    data: location,
+  });
+}));
+
+// PUT /api/v1/businesses/:id/locations/:locationId - Update a location (partial; null clears phone/email)
+router.put('/:id/locations/:locationId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const location = await locationService.update(req.params.id, req.params.locationId, req.body);
+
+  res.json({
+    success: true,
+    data: location,
+  });
+}));
+
+// DELETE /api/v1/businesses/:id/locations/:locationId - Deactivate a location (stamps and stats keep it)
+router.delete('/:id/locations/:locationId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const location = await locationService.deactivate(req.params.id, req.params.locationId);
+
+  res.json({
+    success: true,
+    data: location,
+  });
+}));
+
+// POST /api/v1/businesses/:id/locations/:locationId/check-ins - Check a customer in at a location
+// Body: { customerId, method?: qr|nfc|manual|auto, coordinates? }. The customer or the business can check in.
+router.post('/:id/locations/:locationId/check-ins', authorize(owner, customerSelf(fromBody('customerId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { customerId } = req.body;
+  if (!customerId) {
+    throw new ApiError(400, 'Customer ID is required');
+  }
+  const member = await redis.getMember(customerId);
+  if (!member) {
+    throw new ApiError(404, 'Member not found');
+  }
+  const location = await loadLocation(req.params.id, req.params.locationId);
+  if (!location.isActive) {
+    throw new ApiError(400, 'Location is not active');
+  }
+
+  const checkIn = await locationService.checkIn(location, customerId, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: checkIn,
+  });
+}));
+
+// GET /api/v1/businesses/:id/segments - List a business's customer segments (with cached memberCount)
+router.get('/:id/segments', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const segments = await segmentService.listForBusiness(id);
+
+  res.json({
+    success: true,
+    data: segments,
+  });
+}));
+
+// POST /api/v1/businesses/:id/segments - Create a segment and calculate its members
+// Body: { name, description?, type?: saved|ai_generated|dynamic, criteria?: { membershipStatus?, lastVisitDays?,
+//         totalSpend?: { min?, max? }, favoriteCategories?, location?, predictedChurn?, highValue? } }
+router.post('/:id/segments', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const segment = await segmentService.create(id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: segment,
+  });
+}));
+
+// GET /api/v1/businesses/:id/segments/:segmentId - Get a segment
+router.get('/:id/segments/:segmentId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const segment = await segmentService.requireForBusiness(req.params.id, req.params.segmentId);
+
+  res.json({
+    success: true,
+    data: segment,
+  });
+}));
+
+// PUT /api/v1/businesses/:id/segments/:segmentId - Update a segment (partial; new criteria recalculate members)
+router.put('/:id/segments/:segmentId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const segment = await segmentService.update(req.params.id, req.params.segmentId, req.body);
+
+  res.json({
+    success: true,
+    data: segment,
+  });
+}));
+
+// DELETE /api/v1/businesses/:id/segments/:segmentId - Delete a segment (409 while a live campaign targets it)
+router.delete('/:id/segments/:segmentId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await segmentService.remove(req.params.id, req.params.segmentId);
+
+  res.json({
+    success: true,
+    message: 'Segment deleted',
+  });
+}));
+
+// POST /api/v1/businesses/:id/segments/:segmentId/refresh - Recalculate a segment's members now
+router.post('/:id/segments/:segmentId/refresh', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const segment = await segmentService.requireForBusiness(req.params.id, req.params.segmentId);
+
+  res.json({
+    success: true,
+    data: await segmentService.calculate(segment),
+  });
+}));
+
+// GET /api/v1/businesses/:id/segments/:segmentId/members?cursor=&limit= - Customer ids in the segment (as last calculated)
+router.get('/:id/segments/:segmentId/members', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const segment = await segmentService.requireForBusiness(req.params.id, req.params.segmentId);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 500);
+  const cursor = typeof req.query.cursor === 'string' && /^\d+$/.test(req.query.cursor) ? req.query.cursor : '0';
+
+  const page = await segmentService.members(segment.id, cursor, limit);
+
+  res.json({
+    success: true,
+    data: {
+      ...page,
+      memberCount: segment.memberCount ?? 0,
+      lastCalculatedAt: segment.lastCalculatedAt ?? null,
+    },
+  });
+}));
+
+// GET /api/v1/businesses/:id/referral-rules - List a business's referral rules
+router.get('/:id/referral-rules', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  res.json({
+    success: true,
+    data: await referralService.listRules(id),
+  });
+}));
+
+// POST /api/v1/businesses/:id/referral-rules - Create a referral rule
+// Body: { name, programId?, qualifyingStamps? (1), windowDays? (30), referrerReward? (1), referredReward? (1),
+//         maxRewardsPerReferrer?, isActive? (true) }: "the friend earns qualifyingStamps within windowDays"
+router.post('/:id/referral-rules', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const rule = await referralService.createRule(id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: rule,
+  });
+}));
+
+// PUT /api/v1/businesses/:id/referral-rules/:ruleId - Update a referral rule (partial)
+router.put('/:id/referral-rules/:ruleId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const rule = await referralService.updateRule(req.params.id, req.params.ruleId, req.body);
+
+  res.json({
+    success: true,
+    data: rule,
+  });
+}));
+
+// DELETE /api/v1/businesses/:id/referral-rules/:ruleId - Delete a referral rule
+router.delete('/:id/referral-rules/:ruleId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await referralService.removeRule(req.params.id, req.params.ruleId);
+
+  res.json({
+    success: true,
+    message: 'Referral rule deleted',
+  });
+}));
+
+// GET /api/v1/businesses/:id/notification-templates - The business's notification wording (see GET /api/v1/notifications/templates/catalogue)
+router.get('/:id/notification-templates', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  res.json({
+    success: true,
+    data: await notificationTemplateService.list(id),
+  });
+}));
+
+// POST /api/v1/businesses/:id/notification-templates - Create the wording for a template key and locale
+// Body: { key, locale? (en-GB), title, message, isActive? (true) }; text uses {variables} of the key
+router.post('/:id/notification-templates', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  const template = await notificationTemplateService.create(id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: template,
+  });
+}));
+
+// POST /api/v1/businesses/:id/notification-templates/preview - Render what customers would get (or a draft) with sample variables
+// Body: { key, locale?, title?, message?, variables? }
+router.post('/:id/notification-templates/preview', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  await loadBusiness(id);
+
+  res.json({
+    success: true,
+    data: await notificationTemplateService.preview(id, req.body),
+  });
+}));
+
+// PUT /api/v1/businesses/:id/notification-templates/:templateId - Update a template (title, message, isActive)
+router.put('/:id/notification-templates/:templateId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const template = await notificationTemplateService.update(req.params.id, req.params.templateId, req.body);
+
+  res.json({
+    success: true,
+    data: template,
+  });
+}));
+
+// DELETE /api/v1/businesses/:id/notification-templates/:templateId - Delete a template (platform wording applies again)
+router.delete('/:id/notification-templates/:templateId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await notificationTemplateService.remove(req.params.id, req.params.templateId);
+
+  res.json({
+    success: true,
+    message: 'Notification template deleted',
+  });
+}));
+
 // GET /api/v1/businesses/:id/stats - Get business statistics
-router.get('/:id/stats', asyncHandler(async (req: Request, res: Response) => {
+// locations: stamps, redemptions, check-ins and distinct customers per location
+router.get('/:id/stats', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { period = 'month' } = req.query;
   
@@ -332,6 +649,7 @@ router.get('/:id/stats', asyncHandler(async (req: Request, res: Response) => {
       stampsThisWeek: 0,
       redemptionsThisWeek: 0,
       topReward: null,
+      locations: await locationService.statsForBusiness(id),
     },
   });
 }));
@@ -2,15 +2,45 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { redis, REDIS_KEYS, redisClient } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromParam, IdResolver } from '../middleware/auth';
 import { Campaign, ApiResponse } from '../types';
 import { saveEntityCopy } from '../services/repositoryCopyService';
+import { windowMismatches, campaignWindow } from '../utils/schedule';
+import { concurrencyService } from '../services/concurrencyService';
+import { segmentService } from '../services/segmentService';
+import { campaignSchedulerService, actorOf } from '../services/campaignSchedulerService';
+import { checkConditions } from '../services/campaignEffectService';
+import { readPrecondition, setVersionHeader } from '../middleware/concurrency';
 import { captureClientUpload, captureServerDownload } from '../services/debugCaptureService';
 // ⚠️ TEMPORARY DEBUG: Redis write monitor - REMOVE BEFORE PRODUCTION
 import { redisWriteMonitor } from '../middleware/redisWriteMonitor';
 
 const router = Router();
 
-// GET /api/v1/campaigns - Get all campaigns for a business
+/**
+ * Business that owns the stored campaign (/:id, or body.id on POST sync).
+ * A POST for a campaign that does not exist yet belongs to body.businessId.
+ */
+const campaignOwner: IdResolver = async (req) => {
+  const id = req.params.id ?? req.body?.id;
+  if (id && typeof id === 'string') {
+    const data = await redisClient.get(REDIS_KEYS.campaign(id));
+    if (data) return (JSON.parse(data) as { businessId?: string }).businessId;
+  }
+  return req.params.id ? undefined : req.body?.businessId;
+};
+const owner = owningBusiness(campaignOwner);
+
+/** segmentId in a campaign body must name a segment of the campaign's business (absent/null: no segment). */
+async function checkSegment(businessId: string, segmentId: unknown): Promise<void> {
+  if (segmentId === undefined || segmentId === null) return;
+  const segment = typeof segmentId === 'string' && segmentId ? await segmentService.get(segmentId) : null;
+  if (!segment || segment.businessId !== businessId) {
+    throw new ApiError(400, 'segmentId is not a segment of this business');
+  }
+}
+
+// GET /api/v1/campaigns - Get all campaigns for a business (public)
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const { businessId, status } = req.query;
   
@@ -49,7 +79,8 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// GET /api/v1/campaigns/:id
+// GET /api/v1/campaigns/:id (public)
+// ETag carries the campaign version for If-Match on POST sync
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
@@ -59,22 +90,21 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
   
   const campaign = JSON.parse(data);
+  setVersionHeader(res, await concurrencyService.version(REDIS_KEYS.campaign(id)));
   
-  // Get campaign stats
-  const impressions = await redisClient.get(`campaign:${id}:impressions`) || '0';
-  const clicks = await redisClient.get(`campaign:${id}:clicks`) || '0';
-  const conversions = await redisClient.get(`campaign:${id}:conversions`) || '0';
+  // Campaign stats (opens, clicks and conversions of its notifications, plus scans it applied to)
+  const { impressions = 0, clicks = 0, conversions = 0 } = campaign.stats || {};
   
   res.json({
     success: true,
     data: {
       ...campaign,
       stats: {
-        impressions: parseInt(impressions),
-        clicks: parseInt(clicks),
-        conversions: parseInt(conversions),
-        conversionRate: parseInt(impressions) > 0 
-          ? ((parseInt(conversions) / parseInt(impressions)) * 100).toFixed(2) + '%'
+        impressions,
+        clicks,
+        conversions,
+        conversionRate: impressions > 0 
+          ? ((conversions / impressions) * 100).toFixed(2) + '%'
           : '0%',
       },
     },
@@ -82,10 +112,12 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // POST /api/v1/campaigns - Create a new campaign
+// If-Match: "<version>" rejects stale copies with 409 (+ server copy); X-Merge-Mode: fields merges them.
 // ⚠️ TEMPORARY: Monitor blocks unauthorized writes - REMOVE BEFORE PRODUCTION
-router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', authorize(owner, platformAdmin), redisWriteMonitor('campaign'), asyncHandler(async (req: Request, res: Response) => {
   // Accept full campaign object from client - API is a transparent forwarder
   const { id, businessId, name } = req.body;
+  const precondition = readPrecondition(req);
   
   // Capture client upload for debugging
   if (businessId) {
@@ -110,7 +142,10 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     });
   }
   
-  // API is transparent pipe - no validation, no requirements
+  // API is transparent pipe - no validation, no requirements (except that a targeted segment exists
+  // and bonusStamps is in range)
+  await checkSegment(businessId, req.body.segmentId);
+  checkConditions(req.body.conditions);
   // Forms/app UI mandate dataset - API just passes data through
   
   // Use provided ID if valid, otherwise generate new one
@@ -139,7 +174,7 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     
     // Campaign exists - API is transparent pipe, store exactly what app sends (full replacement)
     // App must send complete campaign record
-    const campaign: any = {
+    let campaign: any = {
       ...req.body, // Include ALL fields from request (complete record)
       id: campaignId, // Ensure ID can't be changed
       businessId: existingCampaign.businessId || businessId, // Preserve businessId
@@ -171,7 +206,9 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     });
     console.log(`💾 [CAMPAIGNS API] Full campaign object being saved to Redis (first 2000 chars):`, JSON.stringify(campaign).substring(0, 2000));
     
-    await redisClient.set(REDIS_KEYS.campaign(campaignId), JSON.stringify(campaign));
+    const saved = await concurrencyService.save(REDIS_KEYS.campaign(campaignId), campaign, precondition);
+    campaign = saved.doc;
+    setVersionHeader(res, saved.version);
     
     // 🔍 LOG: Verify what was actually saved to Redis
     const savedData = await redisClient.get(REDIS_KEYS.campaign(campaignId));
@@ -197,6 +234,9 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     // API is a transparent forwarder - does not modify business.updatedAt
     // App is responsible for updating business profile timestamp when syncing
     
+    // Status history and scheduled start/end transitions
+    await campaignSchedulerService.afterWrite(campaign, existingCampaign.status ?? null, actorOf(req.principal));
+    
     // Save repository copy when campaign is updated
     saveEntityCopy(businessId, 'campaign', campaignId).catch(err => {
       console.error('[CAMPAIGNS] Error saving repository copy:', err);
@@ -210,7 +250,7 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
   
   // API is a transparent forwarder - use request body as-is, only set defaults for required fields
   // Do NOT auto-update timestamps - app manages timestamps
-  const campaign: any = {
+  let campaign: any = {
     ...req.body, // Include ALL fields from request (conditions.rewardData, selectedProducts, pinCode, qrCode, timestamps, etc.)
     id: campaignId,
     businessId,
@@ -248,7 +288,9 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     console.log(`💾 [CAMPAIGNS API] Full campaign object being saved to Redis (first 2000 chars):`, JSON.stringify(campaign).substring(0, 2000));
   
     // Store campaign
-    await redisClient.set(REDIS_KEYS.campaign(campaignId), JSON.stringify(campaign));
+    const saved = await concurrencyService.save(REDIS_KEYS.campaign(campaignId), campaign, precondition);
+    campaign = saved.doc;
+    setVersionHeader(res, saved.version);
     
     // 🔍 LOG: Verify what was actually saved to Redis
     const savedData = await redisClient.get(REDIS_KEYS.campaign(campaignId));
@@ -284,6 +326,9 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
     // API is a transparent forwarder - does not modify business stats or timestamps
     // App is responsible for updating business profile and stats when syncing
     
+    // Status history and scheduled start/end transitions
+    await campaignSchedulerService.afterWrite(campaign, null, actorOf(req.principal));
+    
     // Save repository copy when campaign is created
     saveEntityCopy(businessId, 'campaign', campaignId).catch(err => {
       console.error('[CAMPAIGNS] Error saving repository copy:', err);
@@ -298,10 +343,12 @@ router.post('/', redisWriteMonitor('campaign'), asyncHandler(async (req: Request
 }));
 
 // PUT /api/v1/campaigns/:id
+// If-Match: "<version>" rejects stale copies with 409 (+ server copy); X-Merge-Mode: fields merges them.
 // ⚠️ TEMPORARY: Monitor blocks unauthorized writes - REMOVE BEFORE PRODUCTION
-router.put('/:id', redisWriteMonitor('campaign'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', authorize(owner, platformAdmin), redisWriteMonitor('campaign'), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const updates = req.body;
+  const precondition = readPrecondition(req);
   
   const data = await redisClient.get(REDIS_KEYS.campaign(id));
   if (!data) {
@@ -320,26 +367,36 @@ router.put('/:id', redisWriteMonitor('campaign'), asyncHandler(async (req: Reque
     throw new ApiError(400, 'Cannot update completed campaigns');
   }
   
+  await checkSegment(campaign.businessId, updates.segmentId);
+  checkConditions(updates.conditions);
+  
   // API is a transparent forwarder - preserve updatedAt from request, or keep existing
   // Do NOT auto-update timestamps - app manages timestamps
-  const updatedCampaign = {
+  const candidate = {
     ...campaign,
     ...updates,
+    id, // Ensure ID can't be changed
+    businessId: campaign.businessId, // Ensure business can't be changed
+    stats: campaign.stats ?? updates.stats, // Counted by the server (engagement, stamp-time effects): a client copy is stale
     updatedAt: updates.updatedAt !== undefined ? updates.updatedAt : campaign.updatedAt, // Preserve from request or existing
   };
-  delete (updatedCampaign as Record<string, unknown>).deletedAt; // undelete when saving
+  delete (candidate as Record<string, unknown>).deletedAt; // undelete when saving
 
-  await redisClient.set(REDIS_KEYS.campaign(id), JSON.stringify(updatedCampaign));
+  const saved = await concurrencyService.save(REDIS_KEYS.campaign(id), candidate, precondition);
+  const updatedCampaign = saved.doc;
+  setVersionHeader(res, saved.version);
 
   // Ensure campaign is in active list (undelete or normal update)
-  const bid = (updatedCampaign.businessId ?? campaign.businessId) as string;
-  if (bid) await redisClient.sadd(`business:${bid}:campaigns`, id);
+  if (campaign.businessId) await redisClient.sadd(`business:${campaign.businessId}:campaigns`, id);
 
   // Capture what was saved to Redis for debugging
   captureClientUpload('campaign', campaign.businessId, updatedCampaign).catch(err => 
     console.error('[DEBUG] Error capturing saved campaign:', err)
   );
   
+  // Status history and scheduled start/end transitions
+  await campaignSchedulerService.afterWrite(updatedCampaign, campaign.status ?? null, actorOf(req.principal));
+  
   // Save repository copy when campaign is updated
   saveEntityCopy(campaign.businessId, 'campaign', id).catch(err => {
     console.error('[CAMPAIGNS] Error saving repository copy:', err);
@@ -352,9 +409,11 @@ router.put('/:id', redisWriteMonitor('campaign'), asyncHandler(async (req: Reque
 }));
 
 // PUT /api/v1/campaigns/:id/status
-router.put('/:id/status', asyncHandler(async (req: Request, res: Response) => {
+// If-Match: "<version>" rejects a status change made against a stale copy with 409 (+ server copy).
+router.put('/:id/status', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { status } = req.body;
+  const precondition = readPrecondition(req);
   
   if (!['draft', 'scheduled', 'active', 'paused', 'completed', 'cancelled'].includes(status)) {
     throw new ApiError(400, 'Invalid status');
@@ -366,28 +425,46 @@ router.put('/:id/status', asyncHandler(async (req: Request, res: Response) => {
   }
   
   const campaign = JSON.parse(data);
+  const previousStatus = campaign.status ?? null;
   
   // API is a transparent forwarder - preserve updatedAt from request, or keep existing
   // Do NOT auto-update timestamps - admin/client manages timestamps
   campaign.status = status;
   campaign.updatedAt = req.body.updatedAt !== undefined ? req.body.updatedAt : campaign.updatedAt; // Preserve from request or existing
   
-  // If activating, send notifications
-  if (status === 'active' && campaign.notificationMessage) {
-    await queueNotifications(campaign.businessId, campaign);
+  const saved = await concurrencyService.save(REDIS_KEYS.campaign(id), campaign, precondition);
+  setVersionHeader(res, saved.version);
+  
+  // If activating, send notifications (only once the status change has been stored)
+  if (status === 'active' && saved.doc.notificationMessage) {
+    await campaignSchedulerService.announce(saved.doc);
   }
   
-  await redisClient.set(REDIS_KEYS.campaign(id), JSON.stringify(campaign));
+  await campaignSchedulerService.afterWrite(saved.doc, previousStatus, actorOf(req.principal));
   
   res.json({
     success: true,
-    data: campaign,
+    data: saved.doc,
     message: `Campaign status updated to ${status}`,
   });
 }));
 
+// GET /api/v1/campaigns/:id/status-history - Status changes (scheduler, manual and app writes), newest first
+router.get('/:id/status-history', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!await redisClient.exists(REDIS_KEYS.campaign(id))) {
+    throw new ApiError(404, 'Campaign not found');
+  }
+
+  res.json({
+    success: true,
+    data: await campaignSchedulerService.history(id),
+  });
+}));
+
 // DELETE /api/v1/campaigns/:id — soft delete: remove from active list, keep doc and token index for admin/history/undelete
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+// If-Match: "<version>" rejects deleting a stale copy with 409 (+ server copy).
+router.delete('/:id', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
 
   const data = await redisClient.get(REDIS_KEYS.campaign(id));
@@ -398,15 +475,16 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   const campaign = JSON.parse(data);
   const now = new Date().toISOString();
 
+  // Soft delete: set deletedAt, keep document and token index (historic data, Canny Carrot admin, undelete)
+  // Versioned like any other write so offline copies see the delete as a newer version
+  const saved = await concurrencyService.save(REDIS_KEYS.campaign(id), { ...campaign, deletedAt: now }, readPrecondition(req));
+  setVersionHeader(res, saved.version);
+
   // Remove from business's active campaign list (no longer returned by GET /campaigns or tokens/with-customers)
   await redisClient.srem(`business:${campaign.businessId}:campaigns`, id);
 
   // Remove from scheduled queue if present
-  await redisClient.zrem('campaigns:scheduled', id);
-
-  // Soft delete: set deletedAt, keep document and token index (historic data, Canny Carrot admin, undelete)
-  const updated = { ...campaign, deletedAt: now };
-  await redisClient.set(REDIS_KEYS.campaign(id), JSON.stringify(updated));
+  await redisClient.zrem(REDIS_KEYS.scheduledCampaigns(), id);
 
   res.json({
     success: true,
@@ -414,63 +492,9 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// Helper: Queue notifications for campaign
-async function queueNotifications(businessId: string, campaign: Campaign) {
-  const customerIds = await redisClient.smembers(REDIS_KEYS.businessCustomers(businessId));
-  
-  for (const customerId of customerIds) {
-    const customer = await redis.getCustomer(customerId);
-    if (customer && customer.preferences?.notifications) {
-      // Check target audience
-      let shouldNotify = true;
-      
-      if (campaign.targetAudience === 'new') {
-        // Only new customers (joined in last 30 days)
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        shouldNotify = new Date(customer.createdAt) > thirtyDaysAgo;
-      } else if (campaign.targetAudience === 'returning') {
-        // Only returning customers (more than 3 visits)
-        shouldNotify = (customer.totalStamps || 0) >= 3;
-      } else if (campaign.targetAudience === 'inactive') {
-        // Only inactive (no stamps in 30 days)
-        const lastStamp = await redisClient.lindex(
-          REDIS_KEYS.customerStamps(customerId, businessId), 
-          0
-        );
-        if (lastStamp) {
-          const stamp = JSON.parse(lastStamp);
-          const thirtyDaysAgo = new Date();
-          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-          shouldNotify = new Date(stamp.issuedAt) < thirtyDaysAgo;
-        } else {
-          shouldNotify = true; // Never visited
-        }
-      }
-      
-      if (shouldNotify) {
-        // Queue notification
-        await redisClient.lpush('notifications:queue', JSON.stringify({
-          type: 'campaign',
-          customerId,
-          campaignId: campaign.id,
-          businessId,
-          title: campaign.name,
-          message: campaign.notificationMessage,
-          data: {
-            type: campaign.type,
-            conditions: campaign.conditions,
-          },
-          createdAt: new Date().toISOString(),
-        }));
-      }
-    }
-  }
-}
-
 // GET /api/v1/campaigns/active/customer/:customerId
-// Get active campaigns relevant to a customer
-router.get('/active/customer/:customerId', asyncHandler(async (req: Request, res: Response) => {
+// Get active campaigns relevant to a customer; availableNow is false outside the campaign's days/hours (UK time)
+router.get('/active/customer/:customerId', authorize(customerSelf(fromParam('customerId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { customerId } = req.params;
   
   const customer = await redis.getCustomer(customerId);
@@ -482,6 +506,7 @@ router.get('/active/customer/:customerId', asyncHandler(async (req: Request, res
   const businessIds = await redisClient.smembers(REDIS_KEYS.customerBusinesses(customerId));
   
   const activeCampaigns = [];
+  const now = new Date();
   
   for (const businessId of businessIds) {
     const campaignIds = await redisClient.smembers(`business:${businessId}:campaigns`);
@@ -494,6 +519,7 @@ router.get('/active/customer/:customerId', asyncHandler(async (req: Request, res
           const business = await redis.getBusiness(businessId);
           activeCampaigns.push({
             ...campaign,
+            availableNow: windowMismatches(campaignWindow(campaign), now).length === 0,
             businessName: business?.name,
             businessLogo: business?.logo,
           });
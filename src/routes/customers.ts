@@ -2,14 +2,26 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { redis, redisClient, REDIS_KEYS } from '../config/redis';
 import { customerRecordService } from '../services/customerRecordService';
+import { stampService } from '../services/stampService';
+import { referralService } from '../services/referralService';
+import { engagementService } from '../services/engagementService';
+import { ledgerService } from '../services/ledgerService';
+import { programService } from '../services/programService';
+import { tierService, TierProgress } from '../services/tierService';
+import { concurrencyService } from '../services/concurrencyService';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { readPrecondition, setVersionHeader } from '../middleware/concurrency';
+import { authorize, customerSelf, owningBusiness, platformAdmin, fromParam, fromBody, fromQuery } from '../middleware/auth';
 import { Customer, ApiResponse } from '../types';
 import type { CustomerRecord } from '../types/customerRecord';
 
 const router = Router();
 
+const self = customerSelf(fromParam('id'));
+const selfByEmail = customerSelf((req) => redis.getCustomerIdByEmail(decodeURIComponent(req.params.email ?? '')));
+
 // GET /api/v1/customers - List all customers (paginated)
-router.get('/', asyncHandler(async (req: Request, res: Response) => {
+router.get('/', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
   
@@ -25,7 +37,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/v1/customers/by-email/:email - Resolve by email, return full record (account + rewards)
-router.get('/by-email/:email', asyncHandler(async (req: Request, res: Response) => {
+router.get('/by-email/:email', authorize(selfByEmail, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const email = decodeURIComponent((req.params.email ?? '').trim());
   if (!email) throw new ApiError(400, 'Email is required');
   const record = await customerRecordService.getByEmail(email);
@@ -33,7 +45,7 @@ router.get('/by-email/:email', asyncHandler(async (req: Request, res: Response)
   res.json({ success: true, data: record });
 }));
 
-// POST /api/v1/customers - Create a new customer
+// POST /api/v1/customers - Create a new customer (public: registration)
 router.post('/', asyncHandler(async (req: Request, res: Response) => {
   const { email, phone, firstName, lastName, preferences, dateOfBirth, birthDay, birthMonth } = req.body;
   
@@ -87,7 +99,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/v1/customers/:id/businesses - Token-link index: business UUIDs this customer has tokens with
-router.get('/:id/businesses', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/businesses', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const exists = await customerRecordService.getById(id);
   if (!exists) throw new ApiError(404, 'Customer not found');
@@ -96,7 +108,7 @@ router.get('/:id/businesses', asyncHandler(async (req: Request, res: Response) =
 }));
 
 // GET /api/v1/customers/:id/tokens - Token-link index: reward/campaign/action UUIDs this customer has
-router.get('/:id/tokens', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/tokens', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const exists = await customerRecordService.getById(id);
   if (!exists) throw new ApiError(404, 'Customer not found');
@@ -104,8 +116,8 @@ router.get('/:id/tokens', asyncHandler(async (req: Request, res: Response) => {
   res.json({ success: true, data: { tokenIds } });
 }));
 
-// GET /api/v1/customers/:id/summary - Businesses and tokens with points (for redemption / dashboard)
-router.get('/:id/summary', asyncHandler(async (req: Request, res: Response) => {
+// GET /api/v1/customers/:id/summary - Businesses and tokens with points, and program tiers with progress (for redemption / dashboard)
+router.get('/:id/summary', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const record = await customerRecordService.getById(id);
   if (!record) throw new ApiError(404, 'Customer not found');
@@ -133,26 +145,35 @@ router.get('/:id/summary', asyncHandler(async (req: Request, res: Response) => {
       canRedeem: pointsEarned >= pointsRequired,
     };
   });
+  // Tier and progress to the next tier in each program that has tiers
+  const tiers: TierProgress[] = [];
+  for (const { membership, program } of await programService.customerMemberships(id)) {
+    if (membership.status === 'cancelled' || await redisClient.hlen(REDIS_KEYS.programTiers(program.id)) === 0) continue;
+    tiers.push(await tierService.progress(id, program, membership));
+  }
   res.json({
     success: true,
     data: {
       businesses: businessIds.map((bid) => ({ businessId: bid, businessName: businessNames[bid] ?? bid })),
       tokens,
+      tiers,
     },
   });
 }));
 
 // GET /api/v1/customers/:id - Get full record (account + rewards)
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+// ETag carries the record version for If-Match on PUT /:id/sync
+router.get('/:id', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const record = await customerRecordService.getById(id);
   if (!record) throw new ApiError(404, 'Customer not found');
+  setVersionHeader(res, await concurrencyService.version(REDIS_KEYS.customer(id)));
   res.json({ success: true, data: record });
 }));
 
 // PUT /api/v1/customers/:id - Update a customer (merge)
 // API is pure pass-through: do not set updatedAt; use client-sent or existing only.
-router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const updates = req.body;
   
@@ -188,10 +209,12 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
 
 // PUT /api/v1/customers/:id/sync - Full replace: app sends { ...account, rewards }.
 // API is pure pass-through: store exactly what the client sent; do not set updatedAt or createdAt.
-router.put('/:id/sync', asyncHandler(async (req: Request, res: Response) => {
+// If-Match: "<version>" rejects stale copies with 409 (+ server copy); X-Merge-Mode: fields merges them.
+router.put('/:id/sync', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const body = req.body as Record<string, unknown>;
   if (!body || typeof body !== 'object') throw new ApiError(400, 'Request body must be an object');
+  const precondition = readPrecondition(req);
   const rewards = Array.isArray(body.rewards) ? body.rewards : [];
   const existing = await customerRecordService.getById(id);
   const { rewards: _r, ...account } = body;
@@ -205,12 +228,65 @@ router.put('/:id/sync', asyncHandler(async (req: Request, res: Response) => {
     updatedAt: (body.updatedAt as string) ?? existing?.updatedAt ?? (body.createdAt as string) ?? '',
     rewards: rewards as CustomerRecord['rewards'],
   };
-  await customerRecordService.replace(id, record);
-  res.json({ success: true, data: record });
+  const result = await customerRecordService.replace(id, record, precondition);
+  setVersionHeader(res, result.version);
+  res.json({ success: true, data: result.doc });
+}));
+
+// GET /api/v1/customers/:id/ledger - Points ledger, newest first
+// Query: businessId (filter + balance), programId (with businessId: one program's entries + balance),
+// cursor (from previous page's nextCursor), limit (default 50, max 200)
+router.get('/:id/ledger', authorize(self, owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { businessId, cursor, limit } = req.query;
+  const programId = typeof req.query.programId === 'string' && req.query.programId ? req.query.programId : undefined;
+  
+  if (programId && !businessId) {
+    throw new ApiError(400, 'programId requires businessId');
+  }
+  
+  const customer = await redis.getCustomer(id);
+  if (!customer) {
+    throw new ApiError(404, 'Customer not found');
+  }
+  
+  const page = await ledgerService.list(id, {
+    businessId: typeof businessId === 'string' && businessId ? businessId : undefined,
+    programId,
+    cursor: typeof cursor === 'string' && cursor ? cursor : undefined,
+    limit: limit ? parseInt(limit as string, 10) || undefined : undefined,
+  });
+  
+  res.json({
+    success: true,
+    data: {
+      customerId: id,
+      ...(typeof businessId === 'string' && businessId
+        ? { balance: await ledgerService.getBalance(id, businessId, programId) }
+        : {}),
+      transactions: page.transactions,
+      nextCursor: page.nextCursor,
+    },
+  });
+}));
+
+// GET /api/v1/customers/:id/memberships - Loyalty programs the customer is enrolled in, with balances
+router.get('/:id/memberships', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  const customer = await redis.getCustomer(id);
+  if (!customer) {
+    throw new ApiError(404, 'Customer not found');
+  }
+  
+  res.json({
+    success: true,
+    data: await programService.customerMemberships(id),
+  });
 }));
 
 // GET /api/v1/customers/:id/stamps - Get customer's stamps across all businesses
-router.get('/:id/stamps', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/stamps', authorize(self, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { businessId } = req.query;
   
@@ -243,7 +319,7 @@ router.get('/:id/stamps', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // POST /api/v1/customers/:id/stamps - Add a stamp to a customer's card
-router.post('/:id/stamps', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/stamps', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { businessId, rewardId, method = 'qr' } = req.body;
   
@@ -257,22 +333,27 @@ router.post('/:id/stamps', asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(404, 'Customer not found');
   }
   
-  // Add the stamp
+  // Add the stamp (atomic; recorded on the points ledger)
+  const { stamp, stampCount: newCount } = await stampService.issue({
+    memberId: id,
+    businessId,
+    rewardId,
+    method,
+  });
+  await referralService.onEarn(id, businessId);
+  await engagementService.attributeConversion(id, businessId);
   const stampData = {
-    id: uuidv4(),
+    id: stamp.id,
     rewardId,
     method,
-    issuedAt: new Date().toISOString(),
+    issuedAt: stamp.issuedAt,
   };
   
-  const newCount = await redis.addStamp(id, businessId, stampData);
-  
   // Update customer's total stamps. API pass-through: do not set updatedAt; preserve existing.
-  await redis.setCustomer(id, {
-    ...customer,
-    totalStamps: (customer.totalStamps || 0) + 1,
-    updatedAt: customer.updatedAt,
-  });
+  await concurrencyService.patch(REDIS_KEYS.customer(id), (doc: any) => ({
+    ...doc,
+    totalStamps: (doc.totalStamps || 0) + 1,
+  }));
   
   res.status(201).json({
     success: true,
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { redis, REDIS_KEYS, redisClient } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, customerSelf, platformAdmin, fromBody, fromParam } from '../middleware/auth';
+import { referralService } from '../services/referralService';
 
 const router = Router();
 
@@ -93,7 +95,7 @@ router.get('/achievements/:memberId', asyncHandler(async (req: Request, res: Res
   const totalStamps = member.totalStamps || 0;
   const totalRedemptions = member.totalRedemptions || 0;
   const businessCount = await redisClient.scard(`member:${memberId}:businesses`);
-  const referralCount = await redisClient.scard(`member:${memberId}:referrals`);
+  const referralCount = await redisClient.scard(REDIS_KEYS.memberReferrals(memberId));
   const shareCount = parseInt(await redisClient.get(`member:${memberId}:shares`) || '0');
   
   progress['first_stamp'] = totalStamps >= 1 ? 100 : 0;
@@ -148,7 +150,7 @@ router.get('/rank/:memberId', asyncHandler(async (req: Request, res: Response) =
       stats: {
         totalStamps: member.totalStamps || 0,
         totalRedemptions: member.totalRedemptions || 0,
-        referrals: await redisClient.scard(`member:${memberId}:referrals`),
+        referrals: await redisClient.scard(REDIS_KEYS.memberReferrals(memberId)),
         achievementPoints: (member.achievements || []).reduce((sum: number, id: string) => {
           const achievement = Object.values(ACHIEVEMENTS).find(a => a.id === id);
           return sum + (achievement?.points || 0);
@@ -208,7 +210,8 @@ router.post('/social-share', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // GET /api/v1/gamification/referral/:memberId
-router.get('/referral/:memberId', asyncHandler(async (req: Request, res: Response) => {
+// The member's referral code and referrals (pending → completed → rewarded, see referralService)
+router.get('/referral/:memberId', authorize(customerSelf(fromParam('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId } = req.params;
   
   const member = await redis.getMember(memberId);
@@ -217,80 +220,42 @@ router.get('/referral/:memberId', asyncHandler(async (req: Request, res: Respons
   }
   
   // Get or create referral code
-  let referralCode = member.referralCode;
-  if (!referralCode) {
-    referralCode = `CC${memberId.substring(0, 6).toUpperCase()}`;
-    await redis.setMember(memberId, {
-      ...member,
-      referralCode,
-    });
-  }
+  const referralCode = await referralService.codeFor(member);
   
-  const totalReferrals = await redisClient.scard(`member:${memberId}:referrals`);
-  const pendingRewards = await redisClient.scard(`member:${memberId}:pending_referral_rewards`);
+  const totalReferrals = await redisClient.scard(REDIS_KEYS.memberReferrals(memberId));
+  const referrals = await referralService.listForReferrer(memberId);
   
   res.json({
     success: true,
     data: {
       code: referralCode,
       totalReferrals,
-      pendingRewards,
-      rewardPerReferral: '1 bonus stamp at any business',
+      pendingRewards: referrals.filter((r) => r.status !== 'rewarded').length,
+      rewardedReferrals: referrals.filter((r) => r.status === 'rewarded').length,
+      referrals,
+      rewardPerReferral: "Set by each business's referral rules",
     },
   });
 }));
 
 // POST /api/v1/gamification/referral
-router.post('/referral', asyncHandler(async (req: Request, res: Response) => {
-  const { referralCode, newMemberId } = req.body;
+// Body: { referralCode, newMemberId, deviceId?, businessId? }. Creates a pending referral; it completes and
+// both sides are rewarded when the friend meets a business's referral rule. Self-referrals get 400 with
+// details.reason (SELF_REFERRAL, SAME_DEVICE, SAME_EMAIL); a member can be referred once (409).
+router.post('/referral', authorize(customerSelf(fromBody('newMemberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { referralCode, newMemberId, deviceId, businessId } = req.body;
   
-  if (!referralCode || !newMemberId) {
+  if (!referralCode || !newMemberId || typeof referralCode !== 'string' || typeof newMemberId !== 'string') {
     throw new ApiError(400, 'Referral code and new member ID are required');
   }
-  
-  // Find referrer by code
-  const memberKeys = await redisClient.keys('member:*');
-  let referrer = null;
-  
-  for (const key of memberKeys) {
-    if (key.includes(':stamps') || key.includes(':businesses')) continue;
-    const data = await redisClient.get(key);
-    if (data) {
-      const member = JSON.parse(data);
-      if (member.referralCode === referralCode.toUpperCase()) {
-        referrer = member;
-        break;
-      }
-    }
-  }
-  
-  if (!referrer) {
-    throw new ApiError(404, 'Invalid referral code');
-  }
-  
-  // Check if new member already exists
-  const newMember = await redis.getMember(newMemberId);
-  if (!newMember) {
-    throw new ApiError(404, 'New member not found');
-  }
-  
-  // Check if already referred
-  const alreadyReferred = await redisClient.sismember(`member:${referrer.id}:referrals`, newMemberId);
-  if (alreadyReferred) {
-    throw new ApiError(400, 'This member has already been referred');
+  if ((deviceId !== undefined && typeof deviceId !== 'string') || (businessId !== undefined && typeof businessId !== 'string')) {
+    throw new ApiError(400, 'deviceId and businessId must be strings');
   }
   
-  // Add referral
-  await redisClient.sadd(`member:${referrer.id}:referrals`, newMemberId);
-  
-  // Update leaderboard
-  await redisClient.zincrby(REDIS_KEYS.leaderboard('referrals'), 1, referrer.id);
-  
-  // Award bonus points to referrer
-  await redisClient.zincrby(REDIS_KEYS.leaderboard('stamps'), 10, referrer.id);
+  const { referral, referrer } = await referralService.create({ referralCode, referredId: newMemberId, deviceId, businessId });
   
   // Check for referral achievements
-  const referralCount = await redisClient.scard(`member:${referrer.id}:referrals`);
+  const referralCount = await redisClient.scard(REDIS_KEYS.memberReferrals(referrer.id));
   const achievements = referrer.achievements || [];
   
   if (referralCount === 1 && !achievements.includes('first_referral')) {
@@ -308,19 +273,15 @@ router.post('/referral', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
-  res.json({
+  res.status(201).json({
     success: true,
     data: {
+      referral,
       referrer: {
         id: referrer.id,
         firstName: referrer.firstName,
         newReferralCount: referralCount,
       },
-      reward: {
-        type: 'bonus_points',
-        amount: 10,
-        message: 'Thanks for referring a friend!',
-      },
     },
   });
 }));
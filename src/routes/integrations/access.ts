@@ -0,0 +1,29 @@
+// E-Commerce Integration Access Rules
+// Resolve the owning business of connections and orders for authorize()
+
+import { Request } from 'express';
+import { redisClient } from '../../config/redis';
+import { ECOMMERCE_REDIS_KEYS } from '../../types/ecommerce';
+import { IdResolver } from '../../middleware/auth';
+
+type Lookup = (req: Request) => unknown;
+
+/**
+ * Business that owns the connection whose id `lookup` returns
+ */
+export const connectionBusiness = (lookup: Lookup): IdResolver => async (req) => {
+  const connectionId = lookup(req);
+  if (typeof connectionId !== 'string' || !connectionId) return undefined;
+  const data = await redisClient.get(ECOMMERCE_REDIS_KEYS.connection(connectionId));
+  return data ? (JSON.parse(data) as { businessId?: string }).businessId : undefined;
+};
+
+/**
+ * Business that owns the order whose id `lookup` returns
+ */
+export const orderBusiness = (lookup: Lookup): IdResolver => async (req) => {
+  const orderId = lookup(req);
+  if (typeof orderId !== 'string' || !orderId) return undefined;
+  const data = await redisClient.get(ECOMMERCE_REDIS_KEYS.order(orderId));
+  return data ? (JSON.parse(data) as { businessId?: string }).businessId : undefined;
+};
@@ -5,11 +5,15 @@ import { Router, Request, Response } from 'express';
 import { ebayService } from '../../services/ebay.service';
 import { orderProcessor } from '../../services/order-processor.service';
 import { asyncHandler, ApiError } from '../../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromQuery } from '../../middleware/auth';
+import { connectionBusiness, orderBusiness } from './access';
 import { redisClient } from '../../config/redis';
 import { ECOMMERCE_REDIS_KEYS } from '../../types/ecommerce';
 
 const router = Router();
 
+const connectionOwner = owningBusiness(connectionBusiness((req) => req.params.connectionId));
+
 // ============================================
 // OAUTH FLOW
 // ============================================
@@ -19,7 +23,7 @@ const router = Router();
  * Start eBay OAuth flow
  * Query params: businessId
  */
-router.get('/connect', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connect', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.query;
   
   if (!businessId) {
@@ -168,7 +172,7 @@ async function handleAccountDeletion(data: any): Promise<void> {
  * POST /api/v1/integrations/ebay/sync
  * Trigger manual order sync for a connection
  */
-router.post('/sync', asyncHandler(async (req: Request, res: Response) => {
+router.post('/sync', authorize(owningBusiness(connectionBusiness((req) => req.body?.connectionId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.body;
   
   if (!connectionId) {
@@ -201,7 +205,7 @@ router.post('/sync', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/ebay/sync/status
  * Get sync status for a connection
  */
-router.get('/sync/status', asyncHandler(async (req: Request, res: Response) => {
+router.get('/sync/status', authorize(owningBusiness(connectionBusiness((req) => req.query.connectionId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.query;
   
   if (!connectionId) {
@@ -234,7 +238,7 @@ router.get('/sync/status', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/ebay/connections
  * Get eBay connections for a business
  */
-router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connections', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.query;
   
   if (!businessId) {
@@ -267,7 +271,7 @@ router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/ebay/connection/:connectionId
  * Get single eBay connection details
  */
-router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const connection = await ebayService.getConnection(connectionId);
@@ -304,7 +308,7 @@ router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: R
  * PUT /api/v1/integrations/ebay/connection/:connectionId/settings
  * Update connection settings
  */
-router.put('/connection/:connectionId/settings', asyncHandler(async (req: Request, res: Response) => {
+router.put('/connection/:connectionId/settings', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   const settings = req.body;
   
@@ -341,7 +345,7 @@ router.put('/connection/:connectionId/settings', asyncHandler(async (req: Reques
  * DELETE /api/v1/integrations/ebay/connection/:connectionId
  * Disconnect eBay account
  */
-router.delete('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const connection = await ebayService.getConnection(connectionId);
@@ -370,7 +374,7 @@ router.delete('/connection/:connectionId', asyncHandler(async (req: Request, res
  * GET /api/v1/integrations/ebay/orders
  * Get eBay orders for a connection
  */
-router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders', authorize(owningBusiness(connectionBusiness((req) => req.query.connectionId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId, status, limit = 50 } = req.query;
   
   if (!connectionId) {
@@ -419,7 +423,7 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/ebay/orders/unmatched
  * Get unmatched eBay orders (no member found)
  */
-router.get('/orders/unmatched', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders/unmatched', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, limit = 50 } = req.query;
   
   if (!businessId) {
@@ -449,7 +453,7 @@ router.get('/orders/unmatched', asyncHandler(async (req: Request, res: Response)
  * POST /api/v1/integrations/ebay/orders/:orderId/retry
  * Retry processing a failed order
  */
-router.post('/orders/:orderId/retry', asyncHandler(async (req: Request, res: Response) => {
+router.post('/orders/:orderId/retry', authorize(owningBusiness(orderBusiness((req) => req.params.orderId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { orderId } = req.params;
   
   const orderData = await redisClient.get(ECOMMERCE_REDIS_KEYS.order(orderId));
@@ -6,6 +6,7 @@ import shopifyRoutes from './shopify.routes';
 import ebayRoutes from './ebay.routes';
 import woocommerceRoutes from './woocommerce.routes';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromBody, fromQuery } from '../../middleware/auth';
 import { redisClient } from '../../config/redis';
 import { ECOMMERCE_REDIS_KEYS, EcommercePlatform } from '../../types/ecommerce';
 
@@ -143,7 +144,7 @@ router.get('/platforms', (req: Request, res: Response) => {
  * GET /api/v1/integrations/connections
  * Get all e-commerce connections for a business
  */
-router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connections', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.query;
   
   if (!businessId) {
@@ -181,7 +182,7 @@ router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/stats
  * Get integration statistics for a business
  */
-router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
+router.get('/stats', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.query;
   
   if (!businessId) {
@@ -240,7 +241,7 @@ router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
  * POST /api/v1/integrations/manual/order
  * Manually enter an online order (for Vinted, etc.)
  */
-router.post('/manual/order', asyncHandler(async (req: Request, res: Response) => {
+router.post('/manual/order', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { 
     businessId, 
     platform, 
@@ -262,13 +263,16 @@ router.post('/manual/order', asyncHandler(async (req: Request, res: Response) =>
   const { orderProcessor } = await import('../../services/order-processor.service');
   const { v4: uuidv4 } = await import('uuid');
   
+  // Without a reference, derive one from the Idempotency-Key so a retried entry is the same order
+  const idempotencyKey = req.get('idempotency-key');
+  
   // Create manual order
   const order = {
     id: uuidv4(),
     businessId,
     connectionId: 'manual',
     platform: platform || 'custom',
-    externalOrderId: orderReference || `MANUAL-${Date.now()}`,
+    externalOrderId: orderReference || (idempotencyKey ? `MANUAL-${idempotencyKey}` : `MANUAL-${Date.now()}`),
     externalOrderNumber: orderReference,
     customerEmail: customerEmail.toLowerCase(),
     orderDate: orderDate || new Date().toISOString(),
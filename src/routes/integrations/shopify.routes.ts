@@ -5,11 +5,15 @@ import { Router, Request, Response } from 'express';
 import { shopifyService } from '../../services/shopify.service';
 import { orderProcessor } from '../../services/order-processor.service';
 import { asyncHandler, ApiError } from '../../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromQuery } from '../../middleware/auth';
+import { connectionBusiness } from './access';
 import { redisClient } from '../../config/redis';
 import { ECOMMERCE_REDIS_KEYS } from '../../types/ecommerce';
 
 const router = Router();
 
+const connectionOwner = owningBusiness(connectionBusiness((req) => req.params.connectionId));
+
 // ============================================
 // OAUTH FLOW
 // ============================================
@@ -19,7 +23,7 @@ const router = Router();
  * Start Shopify OAuth flow
  * Query params: businessId, shop (e.g., mystore.myshopify.com)
  */
-router.get('/connect', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connect', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, shop } = req.query;
   
   if (!businessId || !shop) {
@@ -205,7 +209,7 @@ async function handleAppUninstalled(connectionId: string, shop: string): Promise
  * GET /api/v1/integrations/shopify/connections
  * Get Shopify connections for a business
  */
-router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connections', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.query;
   
   if (!businessId) {
@@ -239,7 +243,7 @@ router.get('/connections', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/shopify/connection/:connectionId
  * Get single Shopify connection details
  */
-router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const connection = await shopifyService.getConnection(connectionId);
@@ -273,7 +277,7 @@ router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: R
  * PUT /api/v1/integrations/shopify/connection/:connectionId/settings
  * Update connection settings
  */
-router.put('/connection/:connectionId/settings', asyncHandler(async (req: Request, res: Response) => {
+router.put('/connection/:connectionId/settings', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   const settings = req.body;
   
@@ -306,7 +310,7 @@ router.put('/connection/:connectionId/settings', asyncHandler(async (req: Reques
  * DELETE /api/v1/integrations/shopify/connection/:connectionId
  * Disconnect Shopify store
  */
-router.delete('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const connection = await shopifyService.getConnection(connectionId);
@@ -331,7 +335,7 @@ router.delete('/connection/:connectionId', asyncHandler(async (req: Request, res
  * GET /api/v1/integrations/shopify/orders
  * Get orders for a connection
  */
-router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders', authorize(owningBusiness(connectionBusiness((req) => req.query.connectionId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId, status, limit = 50 } = req.query;
   
   if (!connectionId) {
@@ -380,7 +384,7 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/shopify/orders/unmatched
  * Get unmatched orders (no member found)
  */
-router.get('/orders/unmatched', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders/unmatched', authorize(owningBusiness(fromQuery('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, limit = 50 } = req.query;
   
   if (!businessId) {
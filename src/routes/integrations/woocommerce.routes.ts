@@ -3,6 +3,8 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler, ApiError } from '../../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromBody } from '../../middleware/auth';
+import { connectionBusiness } from './access';
 import { wooCommerceService } from '../../services/woocommerce.service';
 import { redisClient } from '../../config/redis';
 import { ECOMMERCE_REDIS_KEYS } from '../../types/ecommerce';
@@ -10,6 +12,8 @@ import { orderProcessor } from '../../services/order-processor.service';
 
 const router = Router();
 
+const connectionOwner = owningBusiness(connectionBusiness((req) => req.params.connectionId));
+
 /**
  * POST /api/v1/integrations/woocommerce/connect
  * Connect a WooCommerce store
@@ -22,7 +26,7 @@ const router = Router();
  *   consumerSecret: string; // WooCommerce API Consumer Secret
  * }
  */
-router.post('/connect', asyncHandler(async (req: Request, res: Response) => {
+router.post('/connect', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, storeUrl, consumerKey, consumerSecret } = req.body;
   
   if (!businessId || !storeUrl || !consumerKey || !consumerSecret) {
@@ -58,7 +62,7 @@ router.post('/connect', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/v1/integrations/woocommerce/connection/:connectionId
  * Get connection details
  */
-router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const data = await redisClient.get(ECOMMERCE_REDIS_KEYS.connection(connectionId));
@@ -83,7 +87,7 @@ router.get('/connection/:connectionId', asyncHandler(async (req: Request, res: R
  * DELETE /api/v1/integrations/woocommerce/connection/:connectionId
  * Disconnect WooCommerce store
  */
-router.delete('/connection/:connectionId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/connection/:connectionId', authorize(connectionOwner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId } = req.params;
   
   const data = await redisClient.get(ECOMMERCE_REDIS_KEYS.connection(connectionId));
@@ -167,7 +171,7 @@ router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
  * POST /api/v1/integrations/woocommerce/sync
  * Manually sync orders from WooCommerce
  */
-router.post('/sync', asyncHandler(async (req: Request, res: Response) => {
+router.post('/sync', authorize(owningBusiness(connectionBusiness((req) => req.body?.connectionId)), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { connectionId, after } = req.body;
   
   if (!connectionId) {
@@ -0,0 +1,182 @@
+/**
+ * Job Routes - scheduled jobs triggered by a cron service
+ *
+ * Vercel Cron calls GET with `Authorization: Bearer $CRON_SECRET`; platform admins can also
+ * trigger a run by hand (POST with X-Admin-Key). Jobs are safe to run more often than scheduled.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { config } from '../config/env';
+import { expiryService } from '../services/expiryService';
+import { tierService } from '../services/tierService';
+import { geoService } from '../services/geoService';
+import { searchIndexService } from '../services/searchIndexService';
+import { campaignSchedulerService } from '../services/campaignSchedulerService';
+import { birthdayService } from '../services/birthdayService';
+import { pushService } from '../services/pushService';
+import { syncService } from '../services/syncService';
+import { referralService } from '../services/referralService';
+
+const router = Router();
+
+function isCronSecret(header: string | undefined): boolean {
+  if (!config.cronSecret || !header || !header.startsWith('Bearer ')) return false;
+  const given = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(config.cronSecret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Cron secret or platform admin. The cron secret is not a JWT, so authenticate leaves no principal. */
+const cronOrAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.principal?.type === 'admin' || isCronSecret(req.headers.authorization)) {
+    return next();
+  }
+  next(new ApiError(req.principal ? 403 : 401, 'Cron secret or platform admin required'));
+};
+
+// GET|POST /api/v1/jobs/expiry - Expire due program balances and queue 7-day expiry warnings
+const runExpiry = asyncHandler(async (req: Request, res: Response) => {
+  const result = await expiryService.run();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+router.get('/expiry', cronOrAdmin, runExpiry);
+router.post('/expiry', cronOrAdmin, runExpiry);
+
+// GET|POST /api/v1/jobs/tiers - Requalify program memberships over their tier window (applies downgrades)
+const runTiers = asyncHandler(async (req: Request, res: Response) => {
+  const result = await tierService.requalifyAll();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+router.get('/tiers', cronOrAdmin, runTiers);
+router.post('/tiers', cronOrAdmin, runTiers);
+
+// GET|POST /api/v1/jobs/campaigns - Start and complete campaigns whose startDate/endDate has been reached
+const runCampaigns = asyncHandler(async (req: Request, res: Response) => {
+  const result = await campaignSchedulerService.run();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+router.get('/campaigns', cronOrAdmin, runCampaigns);
+router.post('/campaigns', cronOrAdmin, runCampaigns);
+
+// POST /api/v1/jobs/campaigns/rebuild - Schedule every live campaign (campaigns written before the scheduler)
+router.post('/campaigns/rebuild', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = await campaignSchedulerService.rebuild();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+// GET|POST /api/v1/jobs/birthdays - Grant birthday rewards/bonuses for active birthday campaigns (once per customer per year)
+const runBirthdays = asyncHandler(async (req: Request, res: Response) => {
+  const result = await birthdayService.run();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+router.get('/birthdays', cronOrAdmin, runBirthdays);
+router.post('/birthdays', cronOrAdmin, runBirthdays);
+
+// GET|POST /api/v1/jobs/push - Deliver queued notifications to members' devices (retries, dead letters, receipts)
+const runPush = asyncHandler(async (req: Request, res: Response) => {
+  const result = await pushService.run();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+router.get('/push', cronOrAdmin, runPush);
+router.post('/push', cronOrAdmin, runPush);
+
+// GET /api/v1/jobs/push/dead-letters - Notifications that failed every delivery attempt (newest first)
+router.get('/push/dead-letters', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 200);
+  const deadLetters = await pushService.deadLetters(limit);
+
+  res.json({
+    success: true,
+    data: deadLetters,
+  });
+}));
+
+// GET /api/v1/jobs/push/deferred - Notifications held back by quiet hours or frequency caps (soonest due first)
+router.get('/push/deferred', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 200);
+  const deferred = await pushService.deferred(limit);
+
+  res.json({
+    success: true,
+    data: deferred,
+  });
+}));
+
+// POST /api/v1/jobs/push/dead-letters/requeue - Put dead-lettered notifications back on the queue
+router.post('/push/dead-letters/requeue', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(parseInt(String(req.body?.limit || '100'), 10) || 100, 1), 1000);
+  const result = await pushService.requeueDead(limit);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+// POST /api/v1/jobs/business-index - Add businesses missing from businesses:all (which the other jobs enumerate)
+router.post('/business-index', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = await syncService.rebuildBusinessIndex();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+// POST /api/v1/jobs/referral-codes - Index referral codes handed out before codes were indexed (one-off)
+router.post('/referral-codes', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = await referralService.rebuildCodeIndex();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+// POST /api/v1/jobs/geo-index - Rebuild the geo search index from all businesses and locations
+router.post('/geo-index', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = await geoService.reindex();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+// POST /api/v1/jobs/search-index - Rebuild the text search index from all businesses
+router.post('/search-index', cronOrAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = await searchIndexService.reindex();
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+export default router;
@@ -1,13 +1,42 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { redis, REDIS_KEYS, redisClient } from '../config/redis';
+import { config } from '../config/env';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromBody, fromParam } from '../middleware/auth';
+import { segmentService } from '../services/segmentService';
+import { notificationService } from '../services/notificationService';
+import { channelService, DEFAULT_CHANNELS, NOTIFICATION_CHANNELS } from '../services/channelService';
+import { notificationTemplateService, canonicalLocale } from '../services/notificationTemplateService';
+import { engagementService, EngagementEvent } from '../services/engagementService';
+import { notificationPolicyService } from '../services/notificationPolicyService';
+import type { NotificationChannel } from '../types';
 
 const router = Router();
 
+/** Requested channels (default in_app + push); 400 for anything else. */
+function parseChannels(value: unknown): NotificationChannel[] {
+  if (value === undefined) return DEFAULT_CHANNELS;
+  if (!Array.isArray(value) || value.length === 0 || value.some((channel) => !NOTIFICATION_CHANNELS.includes(channel))) {
+    throw new ApiError(400, `channels must be a non-empty list of ${NOTIFICATION_CHANNELS.join(', ')}`);
+  }
+  return [...new Set(value as NotificationChannel[])];
+}
+
+/** Requested channels the member's preferences allow for this notification type. */
+async function allowedChannels(member: any, channels: NotificationChannel[], type: string): Promise<NotificationChannel[]> {
+  const allowed: NotificationChannel[] = [];
+  for (const channel of channels) {
+    if (await channelService.allowed(member, channel, type)) allowed.push(channel);
+  }
+  return allowed;
+}
+
 // POST /api/v1/notifications/register - Register device for push notifications
-router.post('/register', asyncHandler(async (req: Request, res: Response) => {
-  const { memberId, token, platform } = req.body;
+// Web push: pass the browser's PushSubscription as `subscription` ({ endpoint, keys: { p256dh, auth } }); token defaults to its endpoint
+router.post('/register', authorize(customerSelf(fromBody('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { memberId, platform, subscription } = req.body;
+  const token = req.body.token || subscription?.endpoint;
   
   if (!memberId || !token || !platform) {
     throw new ApiError(400, 'Member ID, token, and platform are required');
@@ -16,16 +45,22 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
   if (!['ios', 'android', 'web'].includes(platform)) {
     throw new ApiError(400, 'Platform must be ios, android, or web');
   }
+
+  if (subscription !== undefined
+    && (typeof subscription?.endpoint !== 'string' || typeof subscription.keys?.p256dh !== 'string' || typeof subscription.keys?.auth !== 'string')) {
+    throw new ApiError(400, 'subscription must have endpoint and keys.p256dh and keys.auth');
+  }
   
   const member = await redis.getMember(memberId);
   if (!member) {
     throw new ApiError(404, 'Member not found');
   }
   
-  const deviceKey = `member:${memberId}:devices`;
+  const deviceKey = REDIS_KEYS.memberDevices(memberId);
   const device = {
     token,
     platform,
+    ...(subscription ? { subscription: { endpoint: subscription.endpoint, keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth } } } : {}),
     registeredAt: new Date().toISOString(),
     lastActive: new Date().toISOString(),
   };
@@ -40,9 +75,19 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // PUT /api/v1/notifications/preferences/:memberId
-router.put('/preferences/:memberId', asyncHandler(async (req: Request, res: Response) => {
+// Optional locale (e.g. en-GB, cy-GB) picks the language of notification templates
+// Optional quietHours { start, end } ("HH:MM", UK time) holds back push, email and SMS; null turns the default off
+router.put('/preferences/:memberId', authorize(customerSelf(fromParam('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId } = req.params;
-  const { push, email, sms, marketing, geofencing } = req.body;
+  const { push, email, sms, marketing, geofencing, quietHours } = req.body;
+  const locale = req.body.locale === undefined ? undefined : canonicalLocale(req.body.locale);
+  
+  if (locale === null) {
+    throw new ApiError(400, 'locale must be a language tag such as en-GB');
+  }
+  if (quietHours !== undefined && quietHours !== null && !notificationPolicyService.isQuietHours(quietHours)) {
+    throw new ApiError(400, 'quietHours must be { start, end } as different HH:MM times, or null');
+  }
   
   const member = await redis.getMember(memberId);
   if (!member) {
@@ -55,22 +100,26 @@ router.put('/preferences/:memberId', asyncHandler(async (req: Request, res: Resp
     sms: sms !== undefined ? sms : member.preferences?.sms ?? false,
     marketing: marketing !== undefined ? marketing : member.preferences?.marketing ?? false,
     geofencing: geofencing !== undefined ? geofencing : member.preferences?.geofencing ?? true,
+    quietHours: quietHours !== undefined
+      ? quietHours && { start: quietHours.start, end: quietHours.end }
+      : member.preferences?.quietHours,
   };
   
   await redis.setMember(memberId, {
     ...member,
     preferences,
+    ...(locale ? { locale } : {}),
     updatedAt: new Date().toISOString(),
   });
   
   res.json({
     success: true,
-    data: preferences,
+    data: { ...preferences, locale: locale ?? member.locale },
   });
 }));
 
 // GET /api/v1/notifications/history/:memberId
-router.get('/history/:memberId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/history/:memberId', authorize(customerSelf(fromParam('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId } = req.params;
   const { limit = '20', offset = '0' } = req.query;
   
@@ -100,8 +149,9 @@ router.get('/history/:memberId', asyncHandler(async (req: Request, res: Response
 }));
 
 // POST /api/v1/notifications/send - Send notification to a member (internal use / testing)
-router.post('/send', asyncHandler(async (req: Request, res: Response) => {
+router.post('/send', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId, title, message, data, type = 'general' } = req.body;
+  const channels = parseChannels(req.body.channels);
   
   if (!memberId || !title || !message) {
     throw new ApiError(400, 'Member ID, title, and message are required');
@@ -113,50 +163,31 @@ router.post('/send', asyncHandler(async (req: Request, res: Response) => {
   }
   
   // Check preferences
-  if (!member.preferences?.push) {
+  const allowed = await allowedChannels(member, channels, type);
+  if (allowed.length === 0) {
     return res.json({
       success: true,
-      message: 'Member has disabled push notifications',
+      message: 'Member has turned off these channels',
       sent: false,
     });
   }
   
-  const notification = {
-    id: uuidv4(),
-    type,
-    title,
-    message,
-    data: data || {},
-    createdAt: new Date().toISOString(),
-    read: false,
-  };
-  
-  // Store in member's notification history
-  const historyKey = `member:${memberId}:notifications`;
-  await redisClient.lpush(historyKey, JSON.stringify(notification));
-  
-  // Trim to last 100 notifications
-  await redisClient.ltrim(historyKey, 0, 99);
-  
-  // Queue for sending via push service
-  await redisClient.lpush('notifications:pending', JSON.stringify({
-    ...notification,
-    memberId,
-  }));
-  
-  // In production, you would integrate with Firebase Cloud Messaging or similar here
-  // For now, we just queue and acknowledge
+  // Stored in the member's history (in_app) and queued for the dispatcher, which checks preferences again at send time
+  const notification = await notificationService.queue(memberId, { type, title, message, data, channels });
   
   res.json({
     success: true,
     data: notification,
+    channels: allowed,
     sent: true,
   });
 }));
 
-// POST /api/v1/notifications/broadcast - Send to all members of a business
-router.post('/broadcast', asyncHandler(async (req: Request, res: Response) => {
-  const { businessId, title, message, data, targetAudience = 'all' } = req.body;
+// POST /api/v1/notifications/broadcast - Send to all members of a business, or to one of its segments (segmentId)
+// 402 when the business's monthly notification budget is used up; quiet hours and frequency caps may defer delivery
+router.post('/broadcast', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { businessId, title, message, data, targetAudience = 'all', segmentId } = req.body;
+  const channels = parseChannels(req.body.channels);
   
   if (!businessId || !title || !message) {
     throw new ApiError(400, 'Business ID, title, and message are required');
@@ -167,32 +198,30 @@ router.post('/broadcast', asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(404, 'Business not found');
   }
   
-  const memberIds = await redisClient.smembers(REDIS_KEYS.businessMembers(businessId));
+  // Broadcasts count against the plan's monthly notification budget (checked again per message when sent)
+  const budget = await notificationPolicyService.budget(businessId);
+  if (budget.remaining === 0) {
+    throw new ApiError(402, 'Monthly notification budget used up. Upgrade your plan to send more.', budget);
+  }
+  
+  const memberIds = segmentId !== undefined
+    ? await segmentService.memberIds(await segmentService.requireForBusiness(businessId, segmentId))
+    : await redisClient.smembers(REDIS_KEYS.businessMembers(businessId));
   
   let queuedCount = 0;
   
   for (const memberId of memberIds) {
     const member = await redis.getMember(memberId);
-    if (member && member.preferences?.push) {
-      const notification = {
-        id: uuidv4(),
+    if (member && (await allowedChannels(member, channels, 'business_broadcast')).length > 0) {
+      await notificationService.queue(memberId, {
         type: 'business_broadcast',
         businessId,
         businessName: business.name,
         title,
         message,
-        data: data || {},
-        createdAt: new Date().toISOString(),
-        read: false,
-      };
-      
-      await redisClient.lpush(`member:${memberId}:notifications`, JSON.stringify(notification));
-      await redisClient.ltrim(`member:${memberId}:notifications`, 0, 99);
-      
-      await redisClient.lpush('notifications:pending', JSON.stringify({
-        ...notification,
-        memberId,
-      }));
+        data,
+        channels,
+      });
       
       queuedCount++;
     }
@@ -207,7 +236,7 @@ router.post('/broadcast', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // POST /api/v1/notifications/geofence - Handle geofence trigger
-router.post('/geofence', asyncHandler(async (req: Request, res: Response) => {
+router.post('/geofence', authorize(customerSelf(fromBody('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId, businessId, action } = req.body;
   
   if (!memberId || !businessId || !action) {
@@ -267,10 +296,12 @@ router.post('/geofence', asyncHandler(async (req: Request, res: Response) => {
     // Get member's stamp count at this business
     const stampCount = await redis.getStampCount(memberId, businessId);
     
-    // Craft personalized message
-    let message = `You're near ${business.name}!`;
+    // Craft personalized message (wording from the business's or platform templates)
+    let template = 'geofence_enter.nearby';
+    const variables: Record<string, string | number> = { businessName: business.name, stampCount };
     if (activeOffer) {
-      message = `${business.name} has a special offer: ${activeOffer.name}!`;
+      template = 'geofence_enter.offer';
+      variables.offerName = activeOffer.name;
     } else if (stampCount > 0) {
       const rewardIds = await redisClient.smembers(REDIS_KEYS.businessRewards(businessId));
       for (const rewardId of rewardIds) {
@@ -280,20 +311,23 @@ router.post('/geofence', asyncHandler(async (req: Request, res: Response) => {
           if (reward.isActive) {
             const remaining = reward.stampsRequired - stampCount;
             if (remaining > 0 && remaining <= 3) {
-              message = `Only ${remaining} more stamps at ${business.name} for your free ${reward.name}!`;
+              template = 'geofence_enter.reward_close';
+              variables.stampsRemaining = remaining;
+              variables.rewardName = reward.name;
             }
             break;
           }
         }
       }
     }
+    const { title, message } = await notificationTemplateService.render(template, { businessId, customerId: memberId }, variables);
     
     notification = {
       id: uuidv4(),
       type: 'geofence_enter',
       businessId,
       businessName: business.name,
-      title: `📍 ${business.name}`,
+      title,
       message,
       data: {
         stampCount,
@@ -331,8 +365,170 @@ router.post('/geofence', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+const unsubscribePage = (heading: string, body: string, form = '') => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${heading}</title></head>
+<body style="font-family:Helvetica,Arial,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#222">
+<h1 style="font-size:22px">${heading}</h1><p>${body}</p>${form}
+</body></html>`;
+
+/** Subject and signature of an unsubscribe link; 400 when they do not match. */
+function unsubscribeSubject(req: Request): string {
+  const subject = String(req.query.s || '');
+  const signature = String(req.query.t || '');
+  if (!/^[ce]:.+/.test(subject) || !channelService.verifyUnsubscribe(subject, signature)) {
+    throw new ApiError(400, 'Invalid unsubscribe link');
+  }
+  return subject;
+}
+
+// GET /api/v1/notifications/unsubscribe?s=&t= - Unsubscribe page from an email link (public: signed link)
+// Confirms with a POST so link scanners that open the link do not unsubscribe anyone
+router.get('/unsubscribe', asyncHandler(async (req: Request, res: Response) => {
+  unsubscribeSubject(req);
+  
+  res.type('html').send(unsubscribePage(
+    'Unsubscribe from Canny Carrot emails',
+    'You will stop getting emails from us. You can turn them back on in the app at any time.',
+    `<form method="post"><button type="submit" style="background:#f07f13;color:#fff;border:0;border-radius:6px;padding:10px 18px;font-size:16px">Unsubscribe</button></form>`,
+  ));
+}));
+
+// POST /api/v1/notifications/unsubscribe?s=&t= - Turn email off (public: signed link; also List-Unsubscribe one-click)
+router.post('/unsubscribe', asyncHandler(async (req: Request, res: Response) => {
+  const subject = unsubscribeSubject(req);
+  
+  if (!await channelService.unsubscribe(subject)) {
+    throw new ApiError(404, 'Customer not found');
+  }
+  
+  res.type('html').send(unsubscribePage(
+    "You're unsubscribed",
+    "We won't email you again. You can turn emails back on in the app's notification settings.",
+  ));
+}));
+
+/** 1×1 transparent GIF returned by the open-tracking image. */
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/** Record an open or click reported by the app; 404 when the notification is not in the member's history. */
+async function recordEngagement(req: Request, res: Response, event: EngagementEvent) {
+  const { memberId, notificationId } = req.body;
+  
+  if (!memberId || !notificationId) {
+    throw new ApiError(400, 'Member ID and notification ID are required');
+  }
+  
+  const notification = await engagementService.record(memberId, notificationId, event);
+  if (!notification) {
+    throw new ApiError(404, 'Notification not found');
+  }
+  
+  res.json({
+    success: true,
+    data: notification,
+  });
+}
+
+// POST /api/v1/notifications/opened - The customer opened a notification (app)
+router.post('/opened', authorize(customerSelf(fromBody('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await recordEngagement(req, res, 'open');
+}));
+
+// POST /api/v1/notifications/clicked - The customer followed a notification's link (app)
+router.post('/clicked', authorize(customerSelf(fromBody('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await recordEngagement(req, res, 'click');
+}));
+
+// GET /api/v1/notifications/track/click/:token - Record a click and redirect to the link (public: signed link)
+// A link that is not ours, or whose target is not allowed (see engagementService), goes to the customer app
+router.get('/track/click/:token', asyncHandler(async (req: Request, res: Response) => {
+  const payload = engagementService.verify(req.params.token);
+  if (!payload) {
+    return res.redirect(302, config.customerAppUrl);
+  }
+  
+  try {
+    await engagementService.record(payload.memberId, payload.notificationId, 'click');
+  } catch (error: any) {
+    console.error(`❌ [ENGAGEMENT] Failed to record click on ${payload.notificationId}:`, error.message);
+  }
+  
+  res.redirect(302, await engagementService.linkTarget(payload.target, payload.businessId));
+}));
+
+// GET /api/v1/notifications/track/open/:token - Record an email open; returns a 1×1 image (public: signed link)
+router.get('/track/open/:token', asyncHandler(async (req: Request, res: Response) => {
+  const payload = engagementService.verify(req.params.token);
+  if (payload) {
+    try {
+      await engagementService.record(payload.memberId, payload.notificationId, 'open');
+    } catch (error: any) {
+      console.error(`❌ [ENGAGEMENT] Failed to record open of ${payload.notificationId}:`, error.message);
+    }
+  }
+  
+  res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+  res.type('gif').send(TRACKING_PIXEL);
+}));
+
+// GET /api/v1/notifications/templates/catalogue - Template keys with their variables and default wording (public)
+router.get('/templates/catalogue', asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: notificationTemplateService.catalogue(),
+  });
+}));
+
+// GET /api/v1/notifications/templates - Platform templates (replace the built-in defaults for every business)
+router.get('/templates', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: await notificationTemplateService.list(null),
+  });
+}));
+
+// POST /api/v1/notifications/templates - Create a platform template
+// Body: { key, locale? (en-GB), title, message, isActive? (true) }
+router.post('/templates', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const template = await notificationTemplateService.create(null, req.body);
+  
+  res.status(201).json({
+    success: true,
+    data: template,
+  });
+}));
+
+// POST /api/v1/notifications/templates/preview - Render platform wording (or a draft title/message) with sample variables
+// Body: { key, locale?, title?, message?, variables? }
+router.post('/templates/preview', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: await notificationTemplateService.preview(null, req.body),
+  });
+}));
+
+// PUT /api/v1/notifications/templates/:templateId - Update a platform template (title, message, isActive)
+router.put('/templates/:templateId', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const template = await notificationTemplateService.update(null, req.params.templateId, req.body);
+  
+  res.json({
+    success: true,
+    data: template,
+  });
+}));
+
+// DELETE /api/v1/notifications/templates/:templateId - Delete a platform template (the built-in default applies again)
+router.delete('/templates/:templateId', authorize(platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  await notificationTemplateService.remove(null, req.params.templateId);
+  
+  res.json({
+    success: true,
+    message: 'Notification template deleted',
+  });
+}));
+
 // POST /api/v1/notifications/mark-read
-router.post('/mark-read', asyncHandler(async (req: Request, res: Response) => {
+router.post('/mark-read', authorize(customerSelf(fromBody('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId, notificationIds } = req.body;
   
   if (!memberId || !notificationIds || !Array.isArray(notificationIds)) {
@@ -364,7 +560,7 @@ router.post('/mark-read', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/v1/notifications/unread-count/:memberId
-router.get('/unread-count/:memberId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/unread-count/:memberId', authorize(customerSelf(fromParam('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { memberId } = req.params;
   
   const historyKey = `member:${memberId}:notifications`;
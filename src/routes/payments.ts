@@ -6,8 +6,11 @@
 import { Router, Request, Response } from 'express';
 import Stripe from 'stripe';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, platformAdmin, fromBody, fromParam } from '../middleware/auth';
 import { redis, redisClient } from '../config/redis';
 import { config } from '../config/env';
+import { PLANS, planIdOf } from '../config/plans';
+import { notificationPolicyService } from '../services/notificationPolicyService';
 
 const router = Router();
 
@@ -26,91 +29,37 @@ function getStripe(): Stripe {
   return stripe;
 }
 
-// Pricing Plans
-const PLANS = {
-  free: {
-    id: 'free',
-    name: 'Free',
-    price: 0,
-    interval: null,
-    features: [
-      '1 reward program',
-      'Up to 50 members',
-      'Basic analytics',
-      'QR code scanning',
-    ],
-    limits: {
-      rewards: 1,
-      customers: 50,
-      campaigns: 0,
-      notifications: 0,
-    },
-  },
-  starter: {
-    id: 'starter',
-    name: 'Starter',
-    price: 1999, // £19.99/month in pence
-    interval: 'month',
-    features: [
-      '3 reward programs',
-      'Up to 500 customers',
-      'Full analytics dashboard',
-      'Email campaigns',
-      'QR code scanning',
-      'Email support',
-    ],
-    limits: {
-      rewards: 3,
-      customers: 500,
-      campaigns: 3,
-      notifications: 500,
-    },
-  },
-  professional: {
-    id: 'professional',
-    name: 'Professional',
-    price: 3999, // £39.99/month in pence
-    interval: 'month',
-    features: [
-      'Unlimited reward programs',
-      'Unlimited customers',
-      'Advanced analytics',
-      'Push notifications',
-      'Geofencing campaigns',
-      'Priority support',
-      'Custom branding',
-    ],
-    limits: {
-      rewards: -1, // Unlimited
-      customers: -1,
-      campaigns: -1,
-      notifications: -1,
-    },
-  },
-  enterprise: {
-    id: 'enterprise',
-    name: 'Enterprise',
-    price: null, // Custom pricing
-    interval: 'month',
-    features: [
-      'Everything in Professional',
-      'Multi-location support',
-      'BID integration',
-      'API access',
-      'Dedicated account manager',
-      'Custom integrations',
-      'SLA guarantee',
-    ],
-    limits: {
-      rewards: -1,
-      customers: -1,
-      campaigns: -1,
-      notifications: -1,
-    },
-  },
-};
+/** Share of a limit used, in percent: 0 when unlimited (-1), 100 when the plan allows none. */
+const percentOf = (current: number, limit: number) => (limit === -1 ? 0 : limit === 0 ? 100 : (current / limit) * 100);
 
-// GET /api/v1/payments/plans - Get available plans
+/**
+ * Copy a Stripe subscription's status and period end onto the business's subscription record, which
+ * decide the plan it gives (planIdOf). The business comes from the metadata set at checkout.
+ */
+async function syncSubscription(stripeSubscription: Stripe.Subscription, ended: boolean): Promise<void> {
+  const businessId = stripeSubscription.metadata?.businessId;
+  const stored = businessId ? await redisClient.get(`subscription:${businessId}`) : null;
+  const subscription = stored ? JSON.parse(stored) : null;
+  if (!subscription || subscription.stripeSubscriptionId !== stripeSubscription.id) {
+    console.log(`Ignoring Stripe subscription ${stripeSubscription.id}: not a business's current subscription`);
+    return;
+  }
+
+  const periodEnd = ended
+    ? stripeSubscription.ended_at ?? Math.floor(Date.now() / 1000)
+    : stripeSubscription.items.data[0]?.current_period_end;
+  subscription.status = ended || stripeSubscription.cancel_at_period_end || stripeSubscription.status === 'canceled'
+    ? 'cancelled'
+    : stripeSubscription.status;
+  if (periodEnd) {
+    subscription.currentPeriodEnd = new Date(periodEnd * 1000).toISOString();
+  }
+  subscription.updatedAt = new Date().toISOString();
+  await redisClient.set(`subscription:${businessId}`, JSON.stringify(subscription));
+  console.log(`Subscription ${stripeSubscription.id} for business ${businessId}: ${subscription.status} until ${subscription.currentPeriodEnd}`);
+}
+
+// GET /api/v1/payments/plans - Get available plans (public)
 router.get('/plans', asyncHandler(async (req: Request, res: Response) => {
   res.json({
     success: true,
@@ -119,7 +68,7 @@ router.get('/plans', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/v1/payments/subscription/:businessId - Get business subscription
-router.get('/subscription/:businessId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/subscription/:businessId', authorize(owningBusiness(fromParam('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.params;
   
   const subscriptionData = await redisClient.get(`subscription:${businessId}`);
@@ -149,7 +98,7 @@ router.get('/subscription/:businessId', asyncHandler(async (req: Request, res: R
 }));
 
 // POST /api/v1/payments/create-checkout - Create Stripe checkout session
-router.post('/create-checkout', asyncHandler(async (req: Request, res: Response) => {
+router.post('/create-checkout', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, planId, successUrl, cancelUrl } = req.body;
   
   if (!businessId || !planId) {
@@ -187,6 +136,8 @@ router.post('/create-checkout', asyncHandler(async (req: Request, res: Response)
     success_url: successUrl + '?session_id={CHECKOUT_SESSION_ID}',
     cancel_url: cancelUrl,
     metadata: { businessId, planId },
+    // Copied to the subscription, so its updates can be matched to the business
+    subscription_data: { metadata: { businessId, planId } },
     customer_email: business.email,
   });
   
@@ -199,18 +150,32 @@ router.post('/create-checkout', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
-// POST /api/v1/payments/webhook - Stripe webhook handler
+// POST /api/v1/payments/webhook - Stripe webhook handler (public: called by Stripe, signed with STRIPE_WEBHOOK_SECRET)
+// src/index.ts leaves this path's body raw, as the signature covers the exact bytes
 router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
-  // In production, verify Stripe signature:
-  // const sig = req.headers['stripe-signature'];
-  // const event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+  if (!config.stripe.webhookSecret) {
+    throw new ApiError(503, 'Stripe webhooks are not configured');
+  }
+  const signature = req.headers['stripe-signature'];
+  if (!Buffer.isBuffer(req.body) || typeof signature !== 'string') {
+    throw new ApiError(400, 'Stripe-Signature header and raw body are required');
+  }
   
-  const event = req.body;
+  let event: Stripe.Event;
+  try {
+    event = Stripe.webhooks.constructEvent(req.body, signature, config.stripe.webhookSecret);
+  } catch (error: any) {
+    throw new ApiError(400, `Invalid Stripe signature: ${error.message}`);
+  }
   
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object;
-      const { businessId, planId } = session.metadata;
+      const { businessId, planId } = session.metadata ?? {};
+      if (!businessId || !planId) {
+        console.log(`Checkout session ${session.id} has no business or plan`);
+        break;
+      }
       
       // Update subscription
       const subscription = {
@@ -231,21 +196,21 @@ router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
     
     case 'invoice.payment_succeeded': {
       const invoice = event.data.object;
-      console.log(`Payment succeeded for subscription ${invoice.subscription}`);
+      console.log(`Payment succeeded for invoice ${invoice.id}`);
       break;
     }
     
     case 'invoice.payment_failed': {
       const invoice = event.data.object;
-      console.log(`Payment failed for subscription ${invoice.subscription}`);
-      // Would update subscription status and notify business
+      // Stripe retries; the subscription's status (past_due, unpaid) arrives as customer.subscription.updated
+      console.log(`Payment failed for invoice ${invoice.id}`);
       break;
     }
     
+    // Renewals, cancellations and failed payments: the plan lasts while the status and period allow (planIdOf)
+    case 'customer.subscription.updated':
     case 'customer.subscription.deleted': {
-      const subscription = event.data.object;
-      // Find business by subscription ID and downgrade to free
-      console.log(`Subscription cancelled: ${subscription.id}`);
+      await syncSubscription(event.data.object, event.type === 'customer.subscription.deleted');
       break;
     }
   }
@@ -254,7 +219,7 @@ router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // POST /api/v1/payments/cancel - Cancel subscription
-router.post('/cancel', asyncHandler(async (req: Request, res: Response) => {
+router.post('/cancel', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.body;
   
   if (!businessId) {
@@ -284,16 +249,14 @@ router.post('/cancel', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/v1/payments/usage/:businessId - Get usage against limits
-router.get('/usage/:businessId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/usage/:businessId', authorize(owningBusiness(fromParam('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId } = req.params;
   
-  // Get subscription
+  // Plan the subscription gives now (free once a cancelled or lapsed subscription's period is over)
   const subscriptionData = await redisClient.get(`subscription:${businessId}`);
-  const planId = subscriptionData 
-    ? JSON.parse(subscriptionData).planId 
-    : 'free';
+  const planId = planIdOf(subscriptionData ? JSON.parse(subscriptionData) : null);
   
-  const plan = PLANS[planId as keyof typeof PLANS];
+  const plan = PLANS[planId];
   
   // Get current usage
   const business = await redis.getBusiness(businessId);
@@ -301,31 +264,29 @@ router.get('/usage/:businessId', asyncHandler(async (req: Request, res: Response
   const rewardCount = await redisClient.scard(`business:${businessId}:rewards`);
   const campaignCount = await redisClient.scard(`business:${businessId}:campaigns`);
   
-  // Get notification count for current month
-  const now = new Date();
-  const monthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-  const notificationCount = parseInt(await redisClient.get(`notifications:${businessId}:${monthKey}`) || '0');
+  // Marketing notifications sent this month (counted by the notification policy)
+  const { used: notificationCount } = await notificationPolicyService.budget(businessId);
   
   const usage = {
     customers: {
       current: customerCount,
       limit: plan.limits.customers,
-      percentage: plan.limits.customers === -1 ? 0 : (customerCount / plan.limits.customers) * 100,
+      percentage: percentOf(customerCount, plan.limits.customers),
     },
     rewards: {
       current: rewardCount,
       limit: plan.limits.rewards,
-      percentage: plan.limits.rewards === -1 ? 0 : (rewardCount / plan.limits.rewards) * 100,
+      percentage: percentOf(rewardCount, plan.limits.rewards),
     },
     campaigns: {
       current: campaignCount,
       limit: plan.limits.campaigns,
-      percentage: plan.limits.campaigns === -1 ? 0 : (campaignCount / plan.limits.campaigns) * 100,
+      percentage: percentOf(campaignCount, plan.limits.campaigns),
     },
     notifications: {
       current: notificationCount,
       limit: plan.limits.notifications,
-      percentage: plan.limits.notifications === -1 ? 0 : (notificationCount / plan.limits.notifications) * 100,
+      percentage: percentOf(notificationCount, plan.limits.notifications),
     },
   };
   
@@ -337,6 +298,13 @@ router.get('/usage/:businessId', asyncHandler(async (req: Request, res: Response
   if (usage.rewards.percentage >= 100 && plan.limits.rewards !== -1) {
     warnings.push('You\'ve reached your reward program limit');
   }
+  if (plan.limits.notifications === 0) {
+    warnings.push('Your plan does not include campaign and broadcast notifications');
+  } else if (usage.notifications.percentage >= 100 && plan.limits.notifications !== -1) {
+    warnings.push('You\'ve used this month\'s notification budget; campaign and broadcast notifications are paused');
+  } else if (usage.notifications.percentage >= 80 && plan.limits.notifications !== -1) {
+    warnings.push(`You're using ${Math.round(usage.notifications.percentage)}% of this month's notification budget`);
+  }
   
   res.json({
     success: true,
@@ -351,7 +319,7 @@ router.get('/usage/:businessId', asyncHandler(async (req: Request, res: Response
 }));
 
 // POST /api/v1/payments/customer-portal - Create customer portal session
-router.post('/customer-portal', asyncHandler(async (req: Request, res: Response) => {
+router.post('/customer-portal', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { businessId, returnUrl } = req.body;
   
   if (!businessId) {
@@ -384,7 +352,7 @@ router.post('/customer-portal', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
-// GET /api/v1/payments/config - Get Stripe publishable key for client
+// GET /api/v1/payments/config - Get Stripe publishable key for client (public)
 router.get('/config', asyncHandler(async (req: Request, res: Response) => {
   res.json({
     success: true,
@@ -0,0 +1,328 @@
+/**
+ * Program Routes - loyalty programs, tiers and customer memberships
+ *
+ * A business can run several programs at once (stamp card, points, tiered). Program reads and
+ * tier lists are public; changes need the owning business. Customers enroll, pause and cancel
+ * their own memberships and resume their own pauses; the business can manage any membership in
+ * its programs.
+ * Stamps and redemptions are scoped to a program through POST /api/v1/stamps (body.programId).
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromBody, fromParam, IdResolver } from '../middleware/auth';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { programService, MembershipAction, MembershipActor } from '../services/programService';
+import { ledgerService } from '../services/ledgerService';
+import { ruleEngineService } from '../services/ruleEngineService';
+import type { CustomerMembership } from '../types/extended';
+import type { Reward } from '../types';
+
+const router = Router();
+
+/** Business that owns the program in /:id. */
+const programBusiness: IdResolver = async (req) => (await programService.get(req.params.id))?.businessId;
+const owner = owningBusiness(programBusiness);
+
+const MEMBERSHIP_STATUSES: CustomerMembership['status'][] = ['active', 'paused', 'cancelled'];
+
+async function loadProgram(id: string) {
+  const program = await programService.get(id);
+  if (!program) {
+    throw new ApiError(404, 'Program not found');
+  }
+  return program;
+}
+
+// GET /api/v1/programs?businessId= - List a business's programs (public)
+// Optional ?status= filter (draft | active | paused | ended)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { businessId, status } = req.query;
+
+  if (typeof businessId !== 'string' || !businessId) {
+    throw new ApiError(400, 'businessId is required');
+  }
+
+  const programs = await programService.listForBusiness(businessId);
+
+  res.json({
+    success: true,
+    data: status ? programs.filter((p) => p.status === status) : programs,
+  });
+}));
+
+// POST /api/v1/programs - Create a program
+// Body: { businessId, name, type: points|stamp|tiered|subscription, currency?, status?, defaultEarnRate?, tierWindowMonths? }
+router.post('/', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { businessId } = req.body;
+
+  if (!businessId) {
+    throw new ApiError(400, 'Business ID is required');
+  }
+
+  const business = await redis.getBusiness(businessId);
+  if (!business) {
+    throw new ApiError(404, 'Business not found');
+  }
+
+  const program = await programService.create(businessId, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: program,
+  });
+}));
+
+// GET /api/v1/programs/:id - Get a program with its tiers (public)
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+
+  res.json({
+    success: true,
+    data: { ...program, tiers: await programService.listTiers(program.id) },
+  });
+}));
+
+// PUT /api/v1/programs/:id - Update name, status, defaultEarnRate or tierWindowMonths
+router.put('/:id', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await programService.update(req.params.id, req.body);
+
+  res.json({
+    success: true,
+    data: program,
+  });
+}));
+
+// DELETE /api/v1/programs/:id - End a program
+// Programs are never removed: balances and the ledger still reference them.
+router.delete('/:id', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await programService.update(req.params.id, { status: 'ended' });
+
+  res.json({
+    success: true,
+    data: program,
+  });
+}));
+
+// GET /api/v1/programs/:id/tiers - List tiers, lowest level first (public)
+router.get('/:id/tiers', asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+
+  res.json({
+    success: true,
+    data: await programService.listTiers(program.id),
+  });
+}));
+
+// POST /api/v1/programs/:id/tiers - Add a tier
+// Body: { name, level, minPoints?, minSpend?, benefits?: string[], badgeIcon? }
+router.post('/:id/tiers', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const tier = await programService.saveTier(program.id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: tier,
+  });
+}));
+
+// PUT /api/v1/programs/:id/tiers/:tierId - Replace a tier
+router.put('/:id/tiers/:tierId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const tier = await programService.saveTier(program.id, req.body, req.params.tierId);
+
+  res.json({
+    success: true,
+    data: tier,
+  });
+}));
+
+// DELETE /api/v1/programs/:id/tiers/:tierId - Remove a tier
+router.delete('/:id/tiers/:tierId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  await programService.deleteTier(program.id, req.params.tierId);
+
+  res.json({
+    success: true,
+    message: 'Tier deleted',
+  });
+}));
+
+// GET /api/v1/programs/:id/rules - List rules in evaluation order
+router.get('/:id/rules', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+
+  res.json({
+    success: true,
+    data: await programService.listRules(program.id),
+  });
+}));
+
+// POST /api/v1/programs/:id/rules - Add a rule (inactive unless isActive: true)
+// Body: { name, type: earn|burn|expiry|bonus, conditions?, action, priority?, isActive? }
+router.post('/:id/rules', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const rule = await programService.saveRule(program.id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: rule,
+  });
+}));
+
+// POST /api/v1/programs/:id/rules/evaluate - Dry run: what would this purchase earn (or this reward cost)?
+// Body: { type?: earn|burn, spend?, occurredAt?, locationId?, items?: [{ sku, category? }],
+//         rewardId? (burn), ruleIds? (evaluate these rules, active or not), includeInactive? }
+// Nothing is written. Defaults to the program's active rules.
+router.post('/:id/rules/evaluate', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const { type = 'earn', ruleIds, includeInactive, rewardId } = req.body ?? {};
+
+  if (type !== 'earn' && type !== 'burn') {
+    throw new ApiError(400, 'type must be earn or burn');
+  }
+  if (ruleIds !== undefined && (!Array.isArray(ruleIds) || ruleIds.some((id) => typeof id !== 'string'))) {
+    throw new ApiError(400, 'ruleIds must be an array of rule ids');
+  }
+
+  const event = ruleEngineService.parseEvent(req.body);
+  const allRules = await programService.listRules(program.id);
+  let rules = includeInactive === true ? allRules : allRules.filter((r) => r.isActive);
+  if (ruleIds) {
+    const missing = ruleIds.filter((id: string) => !allRules.some((r) => r.id === id));
+    if (missing.length) {
+      throw new ApiError(404, `Rule not found: ${missing.join(', ')}`);
+    }
+    rules = allRules.filter((r) => ruleIds.includes(r.id));
+  }
+
+  if (type === 'earn') {
+    return res.json({
+      success: true,
+      data: { type, event, ...ruleEngineService.evaluateEarn(program, rules, event) },
+    });
+  }
+
+  if (!rewardId) {
+    throw new ApiError(400, 'rewardId is required to evaluate burn rules');
+  }
+  const rewardData = await redisClient.get(REDIS_KEYS.reward(rewardId));
+  const reward: Reward | null = rewardData ? JSON.parse(rewardData) : null;
+  if (!reward || reward.businessId !== program.businessId) {
+    throw new ApiError(404, 'Reward not found');
+  }
+
+  res.json({
+    success: true,
+    data: {
+      type,
+      event,
+      rewardId,
+      ...ruleEngineService.evaluateBurn(program, rules, event, programService.rewardCost(reward, program)),
+    },
+  });
+}));
+
+// PUT /api/v1/programs/:id/rules/:ruleId - Replace a rule
+router.put('/:id/rules/:ruleId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const rule = await programService.saveRule(program.id, req.body, req.params.ruleId);
+
+  res.json({
+    success: true,
+    data: rule,
+  });
+}));
+
+// DELETE /api/v1/programs/:id/rules/:ruleId - Remove a rule
+router.delete('/:id/rules/:ruleId', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  await programService.deleteRule(program.id, req.params.ruleId);
+
+  res.json({
+    success: true,
+    message: 'Rule deleted',
+  });
+}));
+
+// GET /api/v1/programs/:id/memberships - List members (optional ?status=)
+router.get('/:id/memberships', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const program = await loadProgram(req.params.id);
+  const { status } = req.query;
+
+  if (status !== undefined && !MEMBERSHIP_STATUSES.includes(status as CustomerMembership['status'])) {
+    throw new ApiError(400, `status must be one of: ${MEMBERSHIP_STATUSES.join(', ')}`);
+  }
+
+  res.json({
+    success: true,
+    data: await programService.listMemberships(program.id, status as CustomerMembership['status'] | undefined),
+  });
+}));
+
+// POST /api/v1/programs/:id/memberships - Enroll a customer
+// Body: { customerId }. 201 when enrolled, 200 when already a member (a cancelled membership is reactivated).
+router.post('/:id/memberships', authorize(customerSelf(fromBody('customerId')), owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { customerId } = req.body;
+
+  if (!customerId) {
+    throw new ApiError(400, 'Customer ID is required');
+  }
+
+  const program = await loadProgram(req.params.id);
+
+  const customer = await redis.getCustomer(customerId);
+  if (!customer) {
+    throw new ApiError(404, 'Customer not found');
+  }
+
+  const { membership, created } = await programService.enroll(program, customerId);
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    data: membership,
+  });
+}));
+
+// GET /api/v1/programs/:id/memberships/:customerId - A customer's membership and program balance
+router.get('/:id/memberships/:customerId', authorize(customerSelf(fromParam('customerId')), owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { customerId } = req.params;
+  const program = await loadProgram(req.params.id);
+
+  const membership = await programService.getMembership(program.id, customerId);
+  if (!membership) {
+    throw new ApiError(404, 'Membership not found');
+  }
+
+  res.json({
+    success: true,
+    data: {
+      membership,
+      balance: await ledgerService.getBalance(customerId, program.businessId, program.id),
+    },
+  });
+}));
+
+const MEMBERSHIP_ACTIONS: MembershipAction[] = ['pause', 'resume', 'cancel'];
+
+// POST /api/v1/programs/:id/memberships/:customerId/:action - pause | resume | cancel
+// pause accepts body.until (ISO date) to resume automatically; cancelled members re-join via POST /memberships
+// Customers may resume only a pause they applied (403 for a pause by the business)
+router.post('/:id/memberships/:customerId/:action', authorize(customerSelf(fromParam('customerId')), owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { customerId, action } = req.params;
+
+  if (!MEMBERSHIP_ACTIONS.includes(action as MembershipAction)) {
+    throw new ApiError(400, `action must be one of: ${MEMBERSHIP_ACTIONS.join(', ')}`);
+  }
+
+  const program = await loadProgram(req.params.id);
+  const actor: MembershipActor = req.principal?.type === 'customer' ? 'customer' : 'business';
+  const membership = await programService.updateMembership(program.id, customerId, action as MembershipAction, actor, req.body?.until);
+
+  res.json({
+    success: true,
+    data: membership,
+  });
+}));
+
+export default router;
@@ -3,18 +3,78 @@
  * 
  * This endpoint allows the business and customer apps to perform
  * Redis operations through the API, enabling offline-first sync.
+ * 
+ * ⚠️ DEPRECATED: superseded by the typed, scoped sync API (/api/v1/sync).
+ * Off unless REDIS_PROXY_ENABLED=true (for apps that have not migrated yet); every call is
+ * counted in stats:redis-proxy:{date} (see GET /api/v1/redis/usage).
+ * Callers must be signed in and only reach the documents the apps kept here (see ownedKeys);
+ * platform admins reach everything.
  */
 
 import express from 'express';
-import { redisClient, REDIS_KEYS, connectRedis } from '../config/redis';
+import { redisClient, REDIS_KEYS, connectRedis, isDocumentId } from '../config/redis';
+import { config } from '../config/env';
+import { authorize, platformAdmin, AccessRule, Principal } from '../middleware/auth';
 
 const router = express.Router();
 
+/** Usage counters are kept for 90 days. */
+const USAGE_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Record one proxy call: total, per command and per key prefix (customer, business, reward…),
+ * so we can see which documents the apps still move through the proxy.
+ */
+const recordProxyUsage = async (command: string, key: unknown): Promise<void> => {
+  const usageKey = REDIS_KEYS.redisProxyUsage(new Date().toISOString().split('T')[0]);
+  const prefix = typeof key === 'string' && key ? key.split(':')[0] : 'none';
+  await redisClient.multi()
+    .hincrby(usageKey, 'total', 1)
+    .hincrby(usageKey, `command:${command.toLowerCase()}`, 1)
+    .hincrby(usageKey, `prefix:${prefix}`, 1)
+    .expire(usageKey, USAGE_TTL_SECONDS)
+    .exec();
+};
+
+/** Any signed-in caller (keys are then scoped with keyInScope). */
+const signedIn: AccessRule = () => true;
+
+/** Keys a proxied command touches (KEYS takes a pattern, MSET alternates keys and values). */
+const commandKeys = (command: string, args: unknown[]): unknown[] => {
+  switch (command) {
+    case 'mget': return args;
+    case 'mset': return args.filter((_, i) => i % 2 === 0);
+    default: return args.slice(0, 1);
+  }
+};
+
 /**
- * Return token-link index contents (for scripts/inspection).
+ * The exact keys a caller may use: the documents and index sets the apps moved through the proxy.
+ * Not a prefix: platform indexes share it (business:auth:{email}, business:slug:{slug}), as do
+ * server-owned keys (business:{id}:auth:{email}, member:{id}:devices).
+ */
+const ownedKeys = (principal: Exclude<Principal, { type: 'admin' }>): string[] => {
+  if (principal.type === 'business') {
+    const id = principal.businessId;
+    if (!isDocumentId(id)) return [];
+    return [REDIS_KEYS.business(id), REDIS_KEYS.businessCustomers(id), REDIS_KEYS.businessRewards(id), REDIS_KEYS.businessCampaigns(id)];
+  }
+  const id = principal.customerId;
+  if (!isDocumentId(id)) return [];
+  return [REDIS_KEYS.customer(id), REDIS_KEYS.member(id), REDIS_KEYS.customerBusinesses(id), REDIS_KEYS.customerTokens(id)];
+};
+
+/** Whether a key belongs to the principal (admins: any key). */
+const keyInScope = (principal: Principal, key: unknown): boolean => {
+  if (principal.type === 'admin') return true;
+  return typeof key === 'string' && ownedKeys(principal).includes(key);
+};
+
+/**
+ * Return token-link index contents (for scripts/inspection; admin only).
  * GET /api/v1/redis/index — must be before /:command so GET /index is matched.
  */
-router.get('/index', async (req, res) => {
+router.get('/index', authorize(platformAdmin), async (req, res) => {
   try {
     await connectRedis();
     const patterns = ['business:*:customers', 'token:*:customers', 'customer:*:businesses', 'customer:*:tokens'];
@@ -36,6 +96,28 @@ router.get('/index', async (req, res) => {
   }
 });
 
+/**
+ * Deprecated proxy usage per day (admin only).
+ * GET /api/v1/redis/usage?days=7
+ */
+router.get('/usage', authorize(platformAdmin), async (req, res) => {
+  try {
+    await connectRedis();
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 7, 1), 90);
+    const usage: Record<string, Record<string, number>> = {};
+    for (let i = 0; i < days; i++) {
+      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const counts = await redisClient.hgetall(REDIS_KEYS.redisProxyUsage(date));
+      usage[date] = Object.fromEntries(
+        Object.entries(counts).map(([field, value]) => [field, parseInt(value, 10) || 0])
+      );
+    }
+    res.json({ data: { enabled: config.redisProxy.enabled, successor: '/api/v1/sync', usage } });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to read proxy usage' });
+  }
+});
+
 /**
  * Health check for Redis connection.
  * GET /api/v1/redis/health
@@ -59,11 +141,11 @@ router.get('/health', async (req, res) => {
 });
 
 /**
- * Execute Redis command via HTTP API
+ * Execute Redis command via HTTP API (signed in; keys scoped to the caller)
  * POST /api/v1/redis/:command
  * Body: { args: any[] }
  */
-router.post('/:command', async (req, res) => {
+router.post('/:command', authorize(signedIn), async (req, res) => {
   try {
     // Ensure Redis is connected (lazy connection)
     await connectRedis();
@@ -71,6 +153,20 @@ router.post('/:command', async (req, res) => {
     const { command } = req.params;
     const { args = [] } = req.body;
 
+    // Deprecated: point callers at the sync API and count what still uses the proxy
+    res.setHeader('Deprecation', 'true');
+    res.setHeader('Link', '</api/v1/sync>; rel="successor-version"');
+    recordProxyUsage(command, args[0]).catch(err =>
+      console.error('[REDIS PROXY] Error recording usage:', err.message)
+    );
+
+    if (!config.redisProxy.enabled) {
+      console.warn(`⚠️ [REDIS PROXY] Disabled - rejected ${command} ${args[0] ?? ''}`);
+      return res.status(410).json({
+        error: 'The Redis proxy has been retired. Use the sync API at /api/v1/sync.',
+      });
+    }
+
     // Log all Redis requests for debugging
     console.log(`\n🔵 [API SERVER] Redis command received: ${command}`, {
       key: args[0],
@@ -94,6 +190,16 @@ router.post('/:command', async (req, res) => {
       });
     }
 
+    // Tenant scope: KEYS patterns (could match anyone's keys) are admin only
+    const principal = req.principal!;
+    const keys = commandKeys(command.toLowerCase(), Array.isArray(args) ? args : []);
+    if (command.toLowerCase() === 'keys' ? principal.type !== 'admin' : keys.length === 0 || !keys.every((key) => keyInScope(principal, key))) {
+      console.warn(`⚠️ [REDIS PROXY] Out of scope - rejected ${command} ${args[0] ?? ''} for ${principal.type}`);
+      return res.status(403).json({
+        error: 'You do not have access to this key',
+      });
+    }
+
     // Log customer registration data when saving to Redis
     if (command.toLowerCase() === 'set' && args.length >= 2 && args[0].startsWith('customer:')) {
       try {
@@ -2,15 +2,33 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { redis, REDIS_KEYS, redisClient } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromQuery, IdResolver } from '../middleware/auth';
 import { Reward, ApiResponse } from '../types';
 import { saveEntityCopy } from '../services/repositoryCopyService';
+import { concurrencyService } from '../services/concurrencyService';
+import { rewardConstraintService } from '../services/rewardConstraintService';
+import { readPrecondition, setVersionHeader } from '../middleware/concurrency';
 import { captureClientUpload, captureServerDownload } from '../services/debugCaptureService';
 // ⚠️ TEMPORARY DEBUG: Redis write monitor - REMOVE BEFORE PRODUCTION
 import { redisWriteMonitor } from '../middleware/redisWriteMonitor';
 
 const router = Router();
 
-// GET /api/v1/rewards - List rewards (optionally filtered by business)
+/**
+ * Business that owns the stored reward (/:id, or body.id on POST sync).
+ * A POST for a reward that does not exist yet belongs to body.businessId.
+ */
+const rewardOwner: IdResolver = async (req) => {
+  const id = req.params.id ?? req.body?.id;
+  if (id && typeof id === 'string') {
+    const data = await redisClient.get(REDIS_KEYS.reward(id));
+    if (data) return (JSON.parse(data) as { businessId?: string }).businessId;
+  }
+  return req.params.id ? undefined : req.body?.businessId;
+};
+const owner = owningBusiness(rewardOwner);
+
+// GET /api/v1/rewards - List rewards (optionally filtered by business) (public)
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const { businessId, active } = req.query;
   
@@ -50,7 +68,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 
 // POST /api/v1/rewards - Create a new reward
 // ⚠️ TEMPORARY: Monitor blocks unauthorized writes - REMOVE BEFORE PRODUCTION
-router.post('/', redisWriteMonitor('reward'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', authorize(owner, platformAdmin), redisWriteMonitor('reward'), asyncHandler(async (req: Request, res: Response) => {
   // Accept full reward object from client - API is a transparent forwarder
   const { id, businessId, name, stampsRequired } = req.body;
   
@@ -164,7 +182,8 @@ router.post('/', redisWriteMonitor('reward'), asyncHandler(async (req: Request,
     res.status(201).json(response);
 }));
 
-// GET /api/v1/rewards/:id - Get a specific reward
+// GET /api/v1/rewards/:id - Get a specific reward (public)
+// ETag carries the reward version for If-Match on PUT /:id
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
@@ -175,6 +194,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
   
   const reward = JSON.parse(data);
+  setVersionHeader(res, await concurrencyService.version(REDIS_KEYS.reward(id)));
   
   const response: ApiResponse<Reward> = {
     success: true,
@@ -184,11 +204,51 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   res.json(response);
 }));
 
+// GET /api/v1/rewards/:id/eligibility?memberId=&locationId=&spend= - Can the member redeem this reward now?
+// Returns every failed constraint as a structured rejection (balance is checked at redemption).
+router.get('/:id/eligibility', authorize(owner, customerSelf(fromQuery('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { memberId, locationId, spend } = req.query;
+
+  if (typeof memberId !== 'string' || !memberId) {
+    throw new ApiError(400, 'memberId is required');
+  }
+  const spendAmount = spend === undefined ? undefined : Number(spend);
+  if (spendAmount !== undefined && (!Number.isFinite(spendAmount) || spendAmount < 0)) {
+    throw new ApiError(400, 'spend must be a non-negative number (£)');
+  }
+
+  const data = await redisClient.get(REDIS_KEYS.reward(id));
+  if (!data) {
+    throw new ApiError(404, 'Reward not found');
+  }
+  const reward: Reward = JSON.parse(data);
+
+  const rejections = await rewardConstraintService.check(reward, {
+    memberId,
+    locationId: typeof locationId === 'string' && locationId ? locationId : undefined,
+    spend: spendAmount,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      rewardId: id,
+      memberId,
+      eligible: rejections.length === 0,
+      rejections,
+      uses: await rewardConstraintService.usesByMember(id, memberId),
+    },
+  });
+}));
+
 // PUT /api/v1/rewards/:id - Update a reward
+// If-Match: "<version>" rejects stale copies with 409 (+ server copy); X-Merge-Mode: fields merges them.
 // ⚠️ TEMPORARY: Monitor blocks unauthorized writes - REMOVE BEFORE PRODUCTION
-router.put('/:id', redisWriteMonitor('reward'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', authorize(owner, platformAdmin), redisWriteMonitor('reward'), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const updates = req.body;
+  const precondition = readPrecondition(req);
   
   // Capture client upload for debugging
   const data = await redisClient.get(REDIS_KEYS.reward(id));
@@ -205,14 +265,13 @@ router.put('/:id', redisWriteMonitor('reward'), asyncHandler(async (req: Request
   
   const existing = JSON.parse(data);
   
-  const updated: Reward = {
+  const { doc: updated, version } = await concurrencyService.save<Reward>(REDIS_KEYS.reward(id), {
     ...existing,
     ...updates,
     id, // Ensure ID can't be changed
     businessId: existing.businessId, // Ensure business can't be changed
-  };
-  
-  await redisClient.set(REDIS_KEYS.reward(id), JSON.stringify(updated));
+  }, precondition);
+  setVersionHeader(res, version);
   
   // Capture what was saved to Redis for debugging
   captureClientUpload('reward', existing.businessId, updated).catch(err => 
@@ -233,7 +292,7 @@ router.put('/:id', redisWriteMonitor('reward'), asyncHandler(async (req: Request
 }));
 
 // DELETE /api/v1/rewards/:id - Deactivate a reward
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', authorize(owner, platformAdmin), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
   const data = await redisClient.get(REDIS_KEYS.reward(id));
@@ -2,14 +2,28 @@
  * GeoSearch Routes
  * POST /api/v1/search/text - Text-based search
  * POST /api/v1/search/map - Map-based search
- * 
- * Returns businesses with their rewards and campaigns based on search criteria
+ *
+ * Returns businesses with their rewards and campaigns based on search criteria.
+ * openNow / openAt (ISO) keep businesses with a location open at that time (UK time, see utils/schedule).
+ *
+ * Geo: businesses and their branches are in a Redis GEO index (see geoService). /text with
+ * `near` and `distance` is a radius query; /map with `bounds` is a bounding-box query. Both report
+ * distanceMiles/distanceKm to the nearest branch and can sort by real distance.
+ * Text: businessName is looked up in the full-text index (see searchIndexService): every word must
+ * match exactly, as a prefix or with a typo; results carry `relevance` and `highlights`, and sort by
+ * relevance unless sortBy or a geo filter says otherwise. Until the index is built it is a substring match.
+ * Pagination: pass the returned nextCursor as `cursor`. Cursors hold the last result's sort key
+ * and id, so pages neither repeat nor skip results when businesses are added or removed meanwhile.
+ * `page` (offset paging) is still accepted when no cursor is sent.
  */
 
 import { Router, Request, Response } from 'express';
 import { redis, REDIS_KEYS, redisClient, connectRedis } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
 import { Business } from '../types';
+import { locationService } from '../services/locationService';
+import { geoService, checkLatLng, GeoMatch, GeoBounds, DistanceUnit, KM_PER_MILE } from '../services/geoService';
+import { searchIndexService, SearchHit } from '../services/searchIndexService';
 
 const router = Router();
 
@@ -25,10 +39,19 @@ interface SearchCriteria {
   };
   rewardsOnly?: boolean;
   campaignsOnly?: boolean;
-  distance?: number; // in miles
+  /** Centre of a radius search (with distance). */
+  near?: { lat: number; lng: number };
+  distance?: number; // radius, in `unit` (default miles)
+  unit?: DistanceUnit;
+  /** Only businesses with a location open now (UK time). */
+  openNow?: boolean;
+  /** Only businesses with a location open at this ISO time. */
+  openAt?: string;
   sortBy?: 'distance' | 'name' | 'relevance';
   page?: number;
   pageSize?: number;
+  /** nextCursor from the previous page. */
+  cursor?: string;
 }
 
 interface MapBounds {
@@ -41,362 +64,318 @@ interface SearchResult {
   totalCount: number;
   page?: number;
   hasMore?: boolean;
+  nextCursor?: string | null;
 }
 
-/**
- * POST /api/v1/search/text
- * Text-based search for businesses
- */
-router.post('/text', asyncHandler(async (req: Request, res: Response) => {
-  await connectRedis();
+type SortKey = 'distance' | 'name' | 'relevance';
 
-  const criteria: SearchCriteria = req.body;
-  const page = criteria.page || 1;
-  const pageSize = criteria.pageSize || 20;
+interface Cursor {
+  sortBy: SortKey;
+  key: number | string;
+  id: string;
+}
 
-  // Get all business IDs from Redis
-  let businessIds: string[] = [];
-  
-  try {
-    const allBusinessIds = await redisClient.smembers('businesses:all');
-    if (allBusinessIds && allBusinessIds.length > 0) {
-      businessIds = allBusinessIds;
-    } else {
-      // Fallback: scan for business:* keys
-      const keys: string[] = [];
-      let cursor = '0';
-      
-      do {
-        const [nextCursor, foundKeys] = await redisClient.scan(
-          cursor,
-          'MATCH',
-          'business:*',
-          'COUNT',
-          '100'
-        );
-        cursor = nextCursor;
-        keys.push(...foundKeys);
-        if (keys.length >= 1000) break;
-      } while (cursor !== '0');
-      
-      businessIds = keys
-        .map(key => key.replace('business:', ''))
-        .filter(id => id.length > 0);
+/** Default radius for `near` without `distance`. */
+const DEFAULT_RADIUS_MILES = 5;
+const MAX_RADIUS_KM = 200;
+const MAX_PAGE_SIZE = 100;
+
+/** Businesses considered when there is no geo filter (full scan). */
+const MAX_SCANNED_BUSINESSES = 500;
+
+/** Time to check opening hours at, from openNow/openAt; null when results are not filtered by hours. */
+function openFilterTime(criteria: SearchCriteria): Date | null {
+  if (criteria.openAt !== undefined) {
+    if (typeof criteria.openAt !== 'string' || Number.isNaN(Date.parse(criteria.openAt))) {
+      throw new ApiError(400, 'openAt must be an ISO date');
     }
-  } catch (error: any) {
-    console.error('[SEARCH] Error fetching business IDs:', error);
-    return res.json({
-      success: true,
-      data: {
-        results: [],
-        totalCount: 0,
-        page,
-      },
-    });
+    return new Date(criteria.openAt);
   }
+  return criteria.openNow === true ? new Date() : null;
+}
 
-  // Fetch businesses and apply filters
-  const matchingBusinesses: Business[] = [];
-  
-  for (const businessId of businessIds.slice(0, 500)) { // Limit to prevent timeout
-    try {
-      const businessAny = await redis.getBusiness(businessId) as any;
-      if (!businessAny || !businessAny.status || businessAny.status.toLowerCase() !== 'active') {
-        continue;
-      }
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sortBy, cursor.key, cursor.id])).toString('base64url');
+}
 
-      // Apply filters
-      if (criteria.businessName) {
-        const nameLower = (businessAny.name || '').toLowerCase();
-        const searchLower = criteria.businessName.toLowerCase();
-        if (!nameLower.includes(searchLower)) {
-          continue;
-        }
-      }
+function decodeCursor(value: unknown, sortBy: SortKey): Cursor {
+  try {
+    const [cursorSort, key, id] = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    if (cursorSort === sortBy && typeof id === 'string' && (typeof key === 'number' || typeof key === 'string')) {
+      return { sortBy, key, id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new ApiError(400, 'Invalid cursor (it must come from a search with the same sortBy)');
+}
 
-      if (criteria.sector) {
-        const sectorLower = (businessAny.category || businessAny.sector || '').toLowerCase();
-        const searchLower = criteria.sector.toLowerCase();
-        if (!sectorLower.includes(searchLower)) {
-          continue;
-        }
-      }
+/** Every business id, from businesses:all or (if that index is empty) a key scan. */
+async function allBusinessIds(): Promise<string[]> {
+  const indexed = await redisClient.smembers(REDIS_KEYS.allBusinesses());
+  if (indexed.length > 0) return indexed;
+
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const [nextCursor, foundKeys] = await redisClient.scan(cursor, 'MATCH', 'business:*', 'COUNT', '100');
+    cursor = nextCursor;
+    keys.push(...foundKeys);
+    if (keys.length >= 1000) break;
+  } while (cursor !== '0');
+
+  // business:{id} only; skip sub-keys such as business:{id}:rewards
+  return keys
+    .map(key => key.replace('business:', ''))
+    .filter(id => id.length > 0 && !id.includes(':'));
+}
 
-      if (criteria.location) {
-        const loc = criteria.location;
-        if (loc.city && businessAny.profile?.city && 
-            !businessAny.profile.city.toLowerCase().includes(loc.city.toLowerCase())) {
-          continue;
-        }
-        if (loc.region && businessAny.profile?.region && 
-            !businessAny.profile.region.toLowerCase().includes(loc.region.toLowerCase())) {
-          continue;
-        }
-        if (loc.postcode && businessAny.profile?.postcode && 
-            !businessAny.profile.postcode.toLowerCase().includes(loc.postcode.toLowerCase())) {
-          continue;
-        }
-      }
+async function loadDocs(ids: string[], key: (id: string) => string, limit: number): Promise<any[]> {
+  const docs = [];
+  for (const id of ids.slice(0, limit)) {
+    try {
+      const data = await redisClient.get(key(id));
+      if (data) docs.push(JSON.parse(data));
+    } catch (err) {
+      // Skip invalid documents
+    }
+  }
+  return docs;
+}
 
-      // Fetch rewards and campaigns for this business
-      const rewardIds = await redisClient.smembers(REDIS_KEYS.businessRewards(businessId)).catch(() => []);
-      const campaignIds = await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId)).catch(() => []);
-
-      const rewards = [];
-      for (const rewardId of rewardIds.slice(0, 50)) {
-        try {
-          const reward = await redisClient.get(REDIS_KEYS.reward(rewardId));
-          if (reward) {
-            const parsedReward = JSON.parse(reward);
-            if (!criteria.rewardsOnly || parsedReward.isActive) {
-              rewards.push(parsedReward);
-            }
-          }
-        } catch (err) {
-          // Skip invalid rewards
-        }
-      }
+/** Search result for one business if it passes the filters, otherwise null. */
+async function matchBusiness(
+  businessId: string,
+  criteria: SearchCriteria,
+  openAt: Date | null,
+  geo: GeoMatch | undefined,
+  hit: SearchHit | undefined,
+): Promise<any | null> {
+  const businessAny = await redis.getBusiness(businessId) as any;
+  if (!businessAny || !businessAny.status || businessAny.status.toLowerCase() !== 'active') {
+    return null;
+  }
 
-      const campaigns = [];
-      for (const campaignId of campaignIds.slice(0, 50)) {
-        try {
-          const campaign = await redisClient.get(REDIS_KEYS.campaign(campaignId));
-          if (campaign) {
-            const parsedCampaign = JSON.parse(campaign);
-            if (!criteria.campaignsOnly || parsedCampaign.status === 'active') {
-              campaigns.push(parsedCampaign);
-            }
-          }
-        } catch (err) {
-          // Skip invalid campaigns
-        }
-      }
+  // Apply filters (a text index hit has already matched the name)
+  if (criteria.businessName && !hit) {
+    const nameLower = (businessAny.name || '').toLowerCase();
+    if (!nameLower.includes(criteria.businessName.toLowerCase())) return null;
+  }
 
-      // Filter by rewardsOnly/campaignsOnly
-      if (criteria.rewardsOnly && criteria.campaignsOnly) {
-        // Both: must have at least one reward OR one campaign
-        if (rewards.length === 0 && campaigns.length === 0) {
-          continue;
-        }
-      } else if (criteria.rewardsOnly) {
-        // Rewards only: must have at least one reward
-        if (rewards.length === 0) {
-          continue;
-        }
-      } else if (criteria.campaignsOnly) {
-        // Campaigns only: must have at least one campaign
-        if (campaigns.length === 0) {
-          continue;
-        }
-      }
+  if (criteria.sector) {
+    const sectorLower = (businessAny.category || businessAny.sector || '').toLowerCase();
+    if (!sectorLower.includes(criteria.sector.toLowerCase())) return null;
+  }
 
-      // Build business result
-      const businessResult: any = {
-        id: businessId,
-        name: businessAny.name || '',
-        sector: businessAny.category || businessAny.sector || '',
-        location: {
-          country: businessAny.profile?.country || 'UK',
-          region: businessAny.profile?.region || businessAny.address?.region || 'tees-valley',
-          city: businessAny.profile?.city || businessAny.address?.city || '',
-          street: businessAny.profile?.addressLine1 || businessAny.address?.line1 || '',
-          postcode: businessAny.profile?.postcode || businessAny.address?.postcode || '',
-          coordinates: {
-            lat: 0,
-            lng: 0,
-          },
-          formattedAddress: [
-            businessAny.profile?.addressLine1 || businessAny.address?.line1,
-            businessAny.profile?.city || businessAny.address?.city,
-            businessAny.profile?.postcode || businessAny.address?.postcode,
-          ].filter(Boolean).join(', '),
-        },
-        rewardsPrograms: rewards,
-        campaigns: campaigns,
-        status: businessAny.status || 'active',
-        createdDate: new Date(businessAny.createdAt || Date.now()),
-      };
-
-      matchingBusinesses.push(businessResult);
-    } catch (error) {
-      // Skip invalid businesses
-      continue;
+  if (criteria.location) {
+    const loc = criteria.location;
+    if (loc.city && businessAny.profile?.city &&
+        !businessAny.profile.city.toLowerCase().includes(loc.city.toLowerCase())) {
+      return null;
+    }
+    if (loc.region && businessAny.profile?.region &&
+        !businessAny.profile.region.toLowerCase().includes(loc.region.toLowerCase())) {
+      return null;
+    }
+    if (loc.postcode && businessAny.profile?.postcode &&
+        !businessAny.profile.postcode.toLowerCase().includes(loc.postcode.toLowerCase())) {
+      return null;
     }
   }
 
-  // Sort results
-  if (criteria.sortBy === 'name') {
-    matchingBusinesses.sort((a, b) => a.name.localeCompare(b.name));
+  // Opening hours come from the business's locations; unknown hours do not match
+  if (openAt && !await locationService.isBusinessOpenAt(businessId, openAt)) {
+    return null;
   }
 
-  // Paginate
-  const totalCount = matchingBusinesses.length;
-  const start = (page - 1) * pageSize;
-  const end = start + pageSize;
-  const paginatedResults = matchingBusinesses.slice(start, end);
+  // Fetch rewards and campaigns for this business
+  const rewardIds = await redisClient.smembers(REDIS_KEYS.businessRewards(businessId)).catch(() => []);
+  const campaignIds = await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId)).catch(() => []);
+  const rewards = (await loadDocs(rewardIds, REDIS_KEYS.reward, 50))
+    .filter((reward) => !criteria.rewardsOnly || reward.isActive);
+  const campaigns = (await loadDocs(campaignIds, REDIS_KEYS.campaign, 50))
+    .filter((campaign) => !criteria.campaignsOnly || campaign.status === 'active');
+
+  // Filter by rewardsOnly/campaignsOnly
+  if (criteria.rewardsOnly && criteria.campaignsOnly) {
+    // Both: must have at least one reward OR one campaign
+    if (rewards.length === 0 && campaigns.length === 0) return null;
+  } else if (criteria.rewardsOnly) {
+    if (rewards.length === 0) return null;
+  } else if (criteria.campaignsOnly) {
+    if (campaigns.length === 0) return null;
+  }
 
-  const result: SearchResult = {
-    results: paginatedResults,
-    totalCount,
-    page,
-    hasMore: end < totalCount,
+  // Build business result
+  return {
+    id: businessId,
+    name: businessAny.name || '',
+    sector: businessAny.category || businessAny.sector || '',
+    location: {
+      country: businessAny.profile?.country || 'UK',
+      region: businessAny.profile?.region || businessAny.address?.region || 'tees-valley',
+      city: businessAny.profile?.city || businessAny.address?.city || '',
+      street: businessAny.profile?.addressLine1 || businessAny.address?.line1 || '',
+      postcode: businessAny.profile?.postcode || businessAny.address?.postcode || '',
+      coordinates: geo?.coordinates ?? {
+        lat: businessAny.coordinates?.latitude ?? 0,
+        lng: businessAny.coordinates?.longitude ?? 0,
+      },
+      formattedAddress: [
+        businessAny.profile?.addressLine1 || businessAny.address?.line1,
+        businessAny.profile?.city || businessAny.address?.city,
+        businessAny.profile?.postcode || businessAny.address?.postcode,
+      ].filter(Boolean).join(', '),
+    },
+    ...(geo ? {
+      distanceMiles: geo.distanceMiles,
+      distanceKm: geo.distanceKm,
+      ...(geo.locationId ? { nearestLocationId: geo.locationId } : {}),
+    } : {}),
+    ...(hit ? {
+      relevance: hit.score,
+      highlights: searchIndexService.highlights(businessAny, hit),
+    } : {}),
+    rewardsPrograms: rewards,
+    campaigns: campaigns,
+    status: businessAny.status || 'active',
+    createdDate: new Date(businessAny.createdAt || Date.now()),
   };
-
-  res.json({
-    success: true,
-    data: result,
-  });
-}));
+}
 
 /**
- * POST /api/v1/search/map
- * Map-based search for businesses within bounds
+ * Filter, sort and page the candidates. `geo` (nearest-first matches) restricts the candidates to an
+ * area and a text query to the index hits; without either every business is scanned.
  */
-router.post('/map', asyncHandler(async (req: Request, res: Response) => {
-  await connectRedis();
+async function runSearch(criteria: SearchCriteria, geo: GeoMatch[] | null): Promise<SearchResult> {
+  const openAt = openFilterTime(criteria);
+  const pageSize = Math.min(Math.max(parseInt(String(criteria.pageSize), 10) || 20, 1), MAX_PAGE_SIZE);
+  if (criteria.sortBy === 'distance' && !geo) {
+    throw new ApiError(400, 'sortBy distance needs near (text search) or bounds (map search)');
+  }
 
-  const { bounds, ...criteria }: { bounds: MapBounds } & SearchCriteria = req.body;
+  const text = typeof criteria.businessName === 'string' ? criteria.businessName.trim() : '';
+  let hits: Map<string, SearchHit> | null = null;
+  if (text && await searchIndexService.isBuilt()) {
+    hits = new Map((await searchIndexService.search(text)).map((hit) => [hit.businessId, hit]));
+  }
+
+  const sortBy: SortKey = criteria.sortBy === 'name' ? 'name'
+    : criteria.sortBy === 'distance' ? 'distance'
+    : criteria.sortBy === 'relevance' && hits ? 'relevance'
+    : geo ? 'distance' : hits ? 'relevance' : 'name';
+  const cursor = criteria.cursor ? decodeCursor(criteria.cursor, sortBy) : null;
 
-  // For now, use same logic as text search
-  // In production, this would filter by geographic bounds
-  // Get all business IDs
-  let businessIds: string[] = [];
-  
+  const geoById = new Map((geo ?? []).map((match) => [match.businessId, match]));
+  let candidates: string[] = [];
   try {
-    const allBusinessIds = await redisClient.smembers('businesses:all');
-    businessIds = allBusinessIds || [];
+    if (geo) {
+      candidates = geo.map((match) => match.businessId).filter((id) => !hits || hits.has(id));
+    } else if (hits) {
+      candidates = [...hits.keys()].slice(0, MAX_SCANNED_BUSINESSES);
+    } else {
+      candidates = (await allBusinessIds()).slice(0, MAX_SCANNED_BUSINESSES);
+    }
   } catch (error: any) {
     console.error('[SEARCH] Error fetching business IDs:', error);
-    return res.json({
-      success: true,
-      data: {
-        results: [],
-        totalCount: 0,
-      },
-    });
   }
 
-  const page = criteria.page || 1;
-  const pageSize = criteria.pageSize || 20;
-
-  // Fetch businesses (same logic as text search)
-  const matchingBusinesses: Business[] = [];
-  
-  for (const businessId of businessIds.slice(0, 500)) {
+  const matching: { result: any; key: number | string }[] = [];
+  for (const businessId of candidates) {
     try {
-      const businessAny = await redis.getBusiness(businessId) as any;
-      if (!businessAny || !businessAny.status || businessAny.status.toLowerCase() !== 'active') {
-        continue;
+      const match = geoById.get(businessId);
+      const hit = hits?.get(businessId);
+      const result = await matchBusiness(businessId, criteria, openAt, match, hit);
+      if (result) {
+        const key = sortBy === 'distance' ? match!.distanceKm
+          : sortBy === 'relevance' ? -hit!.score
+          : String(result.name).toLowerCase();
+        matching.push({ result, key });
       }
+    } catch (error) {
+      // Skip invalid businesses
+      continue;
+    }
+  }
 
-      // Apply filters
-      if (criteria.businessName) {
-        const nameLower = (businessAny.name || '').toLowerCase();
-        const searchLower = criteria.businessName.toLowerCase();
-        if (!nameLower.includes(searchLower)) {
-          continue;
-        }
-      }
+  // (sort key, id) is a total order, so a cursor marks an exact position
+  const compare = (a: { key: number | string; id: string }, b: { key: number | string; id: string }) =>
+    (a.key < b.key ? -1 : a.key > b.key ? 1 : 0) || a.id.localeCompare(b.id);
+  matching.sort((a, b) => compare({ key: a.key, id: a.result.id }, { key: b.key, id: b.result.id }));
 
-      // Fetch rewards and campaigns
-      const rewardIds = await redisClient.smembers(REDIS_KEYS.businessRewards(businessId)).catch(() => []);
-      const campaignIds = await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId)).catch(() => []);
-
-      const rewards = [];
-      for (const rewardId of rewardIds.slice(0, 50)) {
-        try {
-          const reward = await redisClient.get(REDIS_KEYS.reward(rewardId));
-          if (reward) {
-            const parsedReward = JSON.parse(reward);
-            if (!criteria.rewardsOnly || parsedReward.isActive) {
-              rewards.push(parsedReward);
-            }
-          }
-        } catch (err) {
-          // Skip invalid rewards
-        }
-      }
+  const totalCount = matching.length;
+  const page = criteria.page || 1;
+  const start = cursor
+    ? matching.findIndex((m) => compare({ key: m.key, id: m.result.id }, cursor) > 0)
+    : (page - 1) * pageSize;
+  const pageItems = start < 0 ? [] : matching.slice(start, start + pageSize);
+  const last = pageItems[pageItems.length - 1];
+  const hasMore = start >= 0 && start + pageSize < totalCount;
+
+  return {
+    results: pageItems.map((m) => m.result),
+    totalCount,
+    ...(cursor ? {} : { page }),
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor({ sortBy, key: last.key, id: last.result.id }) : null,
+  };
+}
 
-      const campaigns = [];
-      for (const campaignId of campaignIds.slice(0, 50)) {
-        try {
-          const campaign = await redisClient.get(REDIS_KEYS.campaign(campaignId));
-          if (campaign) {
-            const parsedCampaign = JSON.parse(campaign);
-            if (!criteria.campaignsOnly || parsedCampaign.status === 'active') {
-              campaigns.push(parsedCampaign);
-            }
-          }
-        } catch (err) {
-          // Skip invalid campaigns
-        }
-      }
+/**
+ * POST /api/v1/search/text
+ * Text-based search for businesses
+ * Optional near: { lat, lng } + distance (radius, default 5) + unit ('mi' | 'km', default 'mi') for a radius search
+ */
+router.post('/text', asyncHandler(async (req: Request, res: Response) => {
+  await connectRedis();
 
-      // Filter by rewardsOnly/campaignsOnly
-      if (criteria.rewardsOnly && criteria.campaignsOnly) {
-        if (rewards.length === 0 && campaigns.length === 0) {
-          continue;
-        }
-      } else if (criteria.rewardsOnly) {
-        if (rewards.length === 0) {
-          continue;
-        }
-      } else if (criteria.campaignsOnly) {
-        if (campaigns.length === 0) {
-          continue;
-        }
-      }
+  const criteria: SearchCriteria = req.body ?? {};
 
-      // Build business result
-      const businessResult: any = {
-        id: businessId,
-        name: businessAny.name || '',
-        sector: businessAny.category || businessAny.sector || '',
-        location: {
-          country: businessAny.profile?.country || 'UK',
-          region: businessAny.profile?.region || 'tees-valley',
-          city: businessAny.profile?.city || '',
-          street: businessAny.profile?.addressLine1 || '',
-          postcode: businessAny.profile?.postcode || '',
-          coordinates: {
-            lat: 0,
-            lng: 0,
-          },
-          formattedAddress: [
-            businessAny.profile?.addressLine1,
-            businessAny.profile?.city,
-            businessAny.profile?.postcode,
-          ].filter(Boolean).join(', '),
-        },
-        rewardsPrograms: rewards,
-        campaigns: campaigns,
-        status: businessAny.status || 'active',
-        createdDate: new Date(businessAny.createdAt || Date.now()),
-      };
-
-      matchingBusinesses.push(businessResult);
-    } catch (error) {
-      continue;
+  let geo: GeoMatch[] | null = null;
+  if (criteria.near !== undefined) {
+    const center = checkLatLng(criteria.near, 'near');
+    if (criteria.unit !== undefined && criteria.unit !== 'mi' && criteria.unit !== 'km') {
+      throw new ApiError(400, "unit must be 'mi' or 'km'");
+    }
+    const unit: DistanceUnit = criteria.unit ?? 'mi';
+    const radius = criteria.distance ?? (unit === 'mi' ? DEFAULT_RADIUS_MILES : DEFAULT_RADIUS_MILES * KM_PER_MILE);
+    const radiusKm = unit === 'km' ? radius : radius * KM_PER_MILE;
+    if (typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0 || radiusKm > MAX_RADIUS_KM) {
+      throw new ApiError(400, `distance must be a positive radius of at most ${MAX_RADIUS_KM} km`);
     }
+    geo = await geoService.withinRadius(center, radius, unit);
+  } else if (criteria.distance !== undefined) {
+    throw new ApiError(400, 'distance needs near: { lat, lng }');
   }
 
-  // Sort results
-  if (criteria.sortBy === 'name') {
-    matchingBusinesses.sort((a, b) => a.name.localeCompare(b.name));
-  }
+  const result = await runSearch(criteria, geo);
 
-  // Paginate
-  const totalCount = matchingBusinesses.length;
-  const start = (page - 1) * pageSize;
-  const end = start + pageSize;
-  const paginatedResults = matchingBusinesses.slice(start, end);
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
 
-  const result: SearchResult = {
-    results: paginatedResults,
-    totalCount,
-    page,
-    hasMore: end < totalCount,
-  };
+/**
+ * POST /api/v1/search/map
+ * Map-based search for businesses within bounds (nearest to the centre of the map first)
+ */
+router.post('/map', asyncHandler(async (req: Request, res: Response) => {
+  await connectRedis();
+
+  const { bounds, ...criteria }: { bounds?: MapBounds } & SearchCriteria = req.body ?? {};
+
+  // Without bounds the map search behaves like a text search over every business
+  let geo: GeoMatch[] | null = null;
+  if (bounds !== undefined) {
+    const area: GeoBounds = {
+      northeast: checkLatLng(bounds?.northeast, 'bounds.northeast'),
+      southwest: checkLatLng(bounds?.southwest, 'bounds.southwest'),
+    };
+    geo = await geoService.withinBounds(area);
+  }
+
+  const result = await runSearch(criteria, geo);
 
   res.json({
     success: true,
@@ -405,4 +384,3 @@ router.post('/map', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 export default router;
-
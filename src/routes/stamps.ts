@@ -1,14 +1,30 @@
 import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { redis, REDIS_KEYS, redisClient } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
-import { Stamp, Redemption, ApiResponse } from '../types';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromBody, fromQuery } from '../middleware/auth';
+import { stampService } from '../services/stampService';
+import { ledgerService } from '../services/ledgerService';
+import { programService } from '../services/programService';
+import { ruleEngineService } from '../services/ruleEngineService';
+import { locationService } from '../services/locationService';
+import { rewardConstraintService } from '../services/rewardConstraintService';
+import { campaignEffectService } from '../services/campaignEffectService';
+import { referralService } from '../services/referralService';
+import { engagementService } from '../services/engagementService';
+import { windowMismatches, describeWindow, campaignWindow } from '../utils/schedule';
+import { Reward, Campaign } from '../types';
 
 const router = Router();
 
 // POST /api/v1/stamps - Issue a stamp (QR code scanned)
-router.post('/', asyncHandler(async (req: Request, res: Response) => {
-  const { memberId, businessId, rewardId, method = 'qr', staffId } = req.body;
+// Optional body.idempotencyKey (e.g. scan id): a retried scan returns the original stamp (200) instead of issuing another
+// Optional body.programId: earn into that program (enrolls the member on first earn). The program's active
+// rules decide the amount from body.spend (£, required for points programs), body.locationId and body.items.
+// Optional body.locationId: the branch that issued the stamp (an active location of the business).
+// Active double_stamps/happy_hour/bonus_reward campaigns of the business multiply or add to the scan
+// (body.spend counts towards their minPurchase); the response lists them in appliedCampaigns.
+router.post('/', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { memberId, businessId, rewardId, method = 'qr', staffId, idempotencyKey, programId, locationId } = req.body;
   
   if (!memberId || !businessId) {
     throw new ApiError(400, 'Member ID and Business ID are required');
@@ -26,44 +42,79 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(404, 'Business not found');
   }
   
-  const id = uuidv4();
-  const now = new Date().toISOString();
+  const location = locationId !== undefined ? await locationService.requireActive(businessId, locationId) : undefined;
   
-  const stamp: Stamp = {
-    id,
-    customerId: memberId,  // Map memberId to customerId
-    memberId,              // Keep memberId for backward compatibility
-    businessId,
-    rewardId: rewardId || '',
-    issuedAt: now,
-    issuedBy: staffId || 'system',
-    method,
-  };
-  
-  // Store stamp
-  await redisClient.set(REDIS_KEYS.stamp(id), JSON.stringify(stamp));
-  
-  // Add to member's stamp list for this business
-  const stampCount = await redis.addStamp(memberId, businessId, stamp);
-  
-  // Add member to business's member set
-  await redisClient.sadd(REDIS_KEYS.businessMembers(businessId), memberId);
-  
-  // Update business stats
-  const updatedBusiness = {
-    ...business,
-    stats: {
-      ...business.stats,
-      totalStampsIssued: (business.stats.totalStampsIssued || 0) + 1,
-    },
-    updatedAt: now,
-  };
-  await redis.setBusiness(businessId, updatedBusiness);
+  // A campaign token (rewardId names a campaign) can only be collected on the campaign's days and hours
+  const campaignData = rewardId ? await redisClient.get(REDIS_KEYS.campaign(rewardId)) : null;
+  if (campaignData) {
+    const campaign: Campaign = JSON.parse(campaignData);
+    const window = campaignWindow(campaign);
+    if (campaign.businessId === businessId && windowMismatches(window, new Date()).length) {
+      throw new ApiError(400, `${campaign.name} only runs ${describeWindow(window)} (UK time)`, { window });
+    }
+  }
+  
+  const scope = programId
+    ? await programService.scopeFor(businessId, programId, memberId, { enroll: true })
+    : undefined;
+  
+  let earned;
+  if (scope) {
+    const event = ruleEngineService.parseEvent(req.body);
+    earned = { event, ...ruleEngineService.evaluateEarn(scope.program, await programService.listRules(scope.program.id, { activeOnly: true }), event) };
+    if (earned.total < 1) {
+      throw new ApiError(400, `This purchase earns no ${scope.program.currency}`);
+    }
+  }
+  
+  // Campaign multipliers and bonuses; their per-member uses are reserved until the stamp is written
+  const event = earned?.event ?? ruleEngineService.parseEvent({ spend: req.body.spend });
+  const effect = await campaignEffectService.claim(businessId, earned?.total ?? 1, { memberId, member, spend: event.spend });
+  const appliedCampaigns = effect.applied.map((c) => c.campaignId);
+  
+  // Stamp, stamp list, member set and daily stats are written in one atomic script
+  let issued;
+  try {
+    issued = await stampService.issue({
+      memberId,
+      businessId,
+      rewardId,
+      method,
+      staffId,
+      idempotencyKey,
+      locationId: location?.id,
+      amount: effect.amount,
+      ...(appliedCampaigns.length ? { metadata: { appliedCampaigns } } : {}),
+      ...(scope && earned ? {
+        program: scope.program,
+        membershipId: scope.membership.id,
+        monetaryValue: earned.event.spend,
+        event: earned.event,
+        metadata: {
+          appliedRules: earned.trace.filter((t) => t.applied).map((t) => t.ruleId),
+          ...(appliedCampaigns.length ? { appliedCampaigns } : {}),
+        },
+      } : {}),
+    });
+  } catch (error) {
+    await campaignEffectService.release(memberId, effect.applied);
+    throw error;
+  }
+  const { stamp, stampCount, duplicate } = issued;
+  
+  // A replayed scan applied nothing this time
+  if (duplicate) {
+    await campaignEffectService.release(memberId, effect.applied);
+  } else {
+    await campaignEffectService.recordConversions(effect.applied);
+    // The member may have just qualified a referral (both sides are rewarded)
+    await referralService.onEarn(memberId, businessId, scope?.program.id);
+    // A notification of the business the member opened recently converted (campaigns applied here already counted it)
+    await engagementService.attributeConversion(memberId, businessId, effect.applied.map((c) => c.campaignId));
+  }
   
-  // Update daily stats for analytics
-  const today = new Date().toISOString().split('T')[0];
-  await redis.incrementStat(REDIS_KEYS.dailyStats(today), 'stamps', 1);
-  await redis.incrementStat(REDIS_KEYS.dailyStats(today), `stamps:${businessId}`, 1);
+  // An earn that qualified the member for a higher tier upgraded them (issue also rolled the expiry forward)
+  const tierChange = issued.tierChange ?? null;
   
   // Check if reward threshold reached
   let rewardAvailable = false;
@@ -73,26 +124,42 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     const rewardData = await redisClient.get(REDIS_KEYS.reward(rewardId));
     if (rewardData) {
       reward = JSON.parse(rewardData);
-      if (stampCount >= reward.stampsRequired) {
+      if (stampCount >= programService.rewardCost(reward, scope?.program)) {
         rewardAvailable = true;
       }
     }
   }
   
-  res.status(201).json({
+  res.status(duplicate ? 200 : 201).json({
     success: true,
     data: {
       stamp,
       currentStampCount: stampCount,
+      ...(scope && earned ? {
+        programId: scope.program.id,
+        membershipId: scope.membership.id,
+        earned: effect.amount,
+        appliedRules: earned.trace.filter((t) => t.applied),
+        tierChange,
+      } : {}),
+      ...(scope || duplicate ? {} : { stampsEarned: effect.amount }),
+      appliedCampaigns: duplicate ? [] : effect.applied,
       rewardAvailable,
       reward: rewardAvailable ? reward : null,
+      duplicate,
     },
   });
 }));
 
 // POST /api/v1/stamps/redeem - Redeem a reward
-router.post('/redeem', asyncHandler(async (req: Request, res: Response) => {
-  const { memberId, businessId, rewardId, staffId } = req.body;
+// Stamp count, maxRedemptions, maxUsesPerMember and stamp deduction are checked and applied atomically.
+// Reward.constraints and validFrom/validTo are enforced; a 400 lists every failed check in details.rejections
+// (e.g. { code: 'OUTSIDE_TIME_WINDOW', window }). Optional body.spend (£) for constraints.minSpend.
+// Optional body.idempotencyKey: a retried redemption returns the original redemption (200).
+// A reward with a programId (or body.programId) is paid for from that program's balance.
+// Optional body.locationId: the branch where the reward is redeemed.
+router.post('/redeem', authorize(owningBusiness(fromBody('businessId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { memberId, businessId, rewardId, staffId, idempotencyKey, programId, locationId } = req.body;
   
   if (!memberId || !businessId || !rewardId) {
     throw new ApiError(400, 'Member ID, Business ID, and Reward ID are required');
@@ -116,99 +183,90 @@ router.post('/redeem', asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(404, 'Reward not found');
   }
   
-  const reward = JSON.parse(rewardData);
+  const reward: Reward = JSON.parse(rewardData);
   
-  if (!reward.isActive) {
-    throw new ApiError(400, 'This reward is no longer active');
+  if (reward.businessId && reward.businessId !== businessId) {
+    throw new ApiError(400, 'This reward belongs to another business');
   }
   
-  // Check stamp count
-  const stampCount = await redis.getStampCount(memberId, businessId);
-  
-  if (stampCount < reward.stampsRequired) {
-    throw new ApiError(400, `Not enough stamps. Need ${reward.stampsRequired}, have ${stampCount}`);
+  const location = locationId !== undefined ? await locationService.requireActive(businessId, locationId) : undefined;
+  const event = ruleEngineService.parseEvent({ spend: req.body.spend, locationId: location?.id });
+  
+  // Active, valid dates, days/hours, locations, minSpend and per-member uses; all failures go in details.rejections.
+  // A retry of a redemption that already went through is replayed instead of re-checked.
+  const replay = typeof idempotencyKey === 'string' && idempotencyKey
+    && await redisClient.exists(REDIS_KEYS.redeemIdempotency(businessId, idempotencyKey));
+  if (!replay) {
+    const rejections = await rewardConstraintService.check(reward, { memberId, locationId: location?.id, spend: event.spend });
+    if (rejections.length) {
+      throw rewardConstraintService.rejected(rejections);
+    }
   }
   
-  // Check max redemptions
-  if (reward.maxRedemptions && reward.currentRedemptions >= reward.maxRedemptions) {
-    throw new ApiError(400, 'This reward has reached its maximum redemptions');
+  if (programId && reward.programId && reward.programId !== programId) {
+    throw new ApiError(400, 'This reward belongs to another program');
   }
-  
-  const id = uuidv4();
-  const now = new Date().toISOString();
-  
-  const redemption: Redemption = {
-    id,
-    customerId: memberId,  // Map memberId to customerId
-    memberId,              // Keep memberId for backward compatibility
+  const scopedProgramId = programId || reward.programId;
+  const scope = scopedProgramId
+    ? await programService.scopeFor(businessId, scopedProgramId, memberId)
+    : undefined;
+  
+  // Burn rules (e.g. half-price rewards on Mondays) can change the cost within a program
+  const burn = scope
+    ? ruleEngineService.evaluateBurn(
+        scope.program,
+        await programService.listRules(scope.program.id, { activeOnly: true }),
+        event,
+        programService.rewardCost(reward, scope.program),
+      )
+    : undefined;
+  
+  const { redemption, newStampCount, duplicate } = await stampService.redeem({
+    memberId,
     businessId,
-    rewardId,
-    redeemedAt: now,
-    verifiedBy: staffId,
-    status: 'completed',
-  };
-  
-  // Store redemption
-  await redisClient.set(REDIS_KEYS.redemption(id), JSON.stringify(redemption));
-  
-  // Reset member's stamps for this business (or deduct the required amount)
-  const key = REDIS_KEYS.memberStamps(memberId, businessId);
-  // Remove the stamps used for this reward
-  for (let i = 0; i < reward.stampsRequired; i++) {
-    await redisClient.lpop(key);
-  }
-  
-  // Update reward redemption count
-  const updatedReward = {
-    ...reward,
-    currentRedemptions: (reward.currentRedemptions || 0) + 1,
-  };
-  await redisClient.set(REDIS_KEYS.reward(rewardId), JSON.stringify(updatedReward));
-  
-  // Update business stats
-  const updatedBusiness = {
-    ...business,
-    stats: {
-      ...business.stats,
-      totalRedemptions: (business.stats.totalRedemptions || 0) + 1,
-    },
-    updatedAt: now,
-  };
-  await redis.setBusiness(businessId, updatedBusiness);
-  
-  // Update member stats
-  await redis.setMember(memberId, {
-    ...member,
-    totalRedemptions: (member.totalRedemptions || 0) + 1,
-    updatedAt: now,
+    reward,
+    staffId,
+    idempotencyKey,
+    program: scope?.program,
+    membershipId: scope?.membership.id,
+    cost: burn?.cost,
+    locationId: location?.id,
   });
+  if (!duplicate) {
+    await engagementService.attributeConversion(memberId, businessId);
+  }
   
-  // Update daily stats
-  const today = new Date().toISOString().split('T')[0];
-  await redis.incrementStat(REDIS_KEYS.dailyStats(today), 'redemptions', 1);
-  
-  const newStampCount = await redis.getStampCount(memberId, businessId);
-  
-  res.status(201).json({
+  res.status(duplicate ? 200 : 201).json({
     success: true,
     data: {
       redemption,
       reward,
       newStampCount,
+      duplicate,
       message: `Successfully redeemed: ${reward.name}`,
     },
   });
 }));
 
 // GET /api/v1/stamps/check - Check stamp count for member at business
-router.get('/check', asyncHandler(async (req: Request, res: Response) => {
-  const { memberId, businessId } = req.query;
+// Optional ?programId= checks that program's balance and rewards instead of the business-wide card
+router.get('/check', authorize(owningBusiness(fromQuery('businessId')), customerSelf(fromQuery('memberId')), platformAdmin), asyncHandler(async (req: Request, res: Response) => {
+  const { memberId, businessId, programId } = req.query;
   
   if (!memberId || !businessId) {
     throw new ApiError(400, 'Member ID and Business ID are required');
   }
   
-  const stampCount = await redis.getStampCount(memberId as string, businessId as string);
+  const program = typeof programId === 'string' && programId
+    ? await programService.get(programId) ?? undefined
+    : undefined;
+  if (programId && (!program || program.businessId !== businessId)) {
+    throw new ApiError(404, 'Program not found');
+  }
+  
+  const stampCount = program
+    ? (await ledgerService.getBalance(memberId as string, businessId as string, program.id)).availablePoints
+    : await redis.getStampCount(memberId as string, businessId as string);
   
   // Get active rewards for this business
   const rewardIds = await redisClient.smembers(REDIS_KEYS.businessRewards(businessId as string));
@@ -220,23 +278,26 @@ router.get('/check', asyncHandler(async (req: Request, res: Response) => {
     })
   );
   
-  const activeRewards = rewards.filter(r => r && r.isActive);
+  // Rewards of the requested program, or rewards outside any program
+  const cost = (r: Reward) => programService.rewardCost(r, program);
+  const activeRewards: Reward[] = rewards.filter(r => r && r.isActive && (r.programId || undefined) === program?.id);
   
   // Check which rewards are available
-  const availableRewards = activeRewards.filter(r => stampCount >= r.stampsRequired);
+  const availableRewards = activeRewards.filter(r => stampCount >= cost(r));
   const nextReward = activeRewards
-    .filter(r => stampCount < r.stampsRequired)
-    .sort((a, b) => a.stampsRequired - b.stampsRequired)[0];
+    .filter(r => stampCount < cost(r))
+    .sort((a, b) => cost(a) - cost(b))[0];
   
   res.json({
     success: true,
     data: {
       memberId,
       businessId,
+      ...(program ? { programId: program.id } : {}),
       stampCount,
       availableRewards,
       nextReward,
-      stampsUntilNextReward: nextReward ? nextReward.stampsRequired - stampCount : null,
+      stampsUntilNextReward: nextReward ? cost(nextReward) - stampCount : null,
     },
   });
 }));
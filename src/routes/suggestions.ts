@@ -3,13 +3,15 @@
  * GET /api/v1/suggestions/{fieldType}?query={searchTerm}
  * 
  * Returns autocomplete suggestions for search fields.
- * For businessName fieldType, returns suggestions from active businesses in Redis.
+ * For businessName fieldType, returns suggestions from active businesses in Redis, ranked by the
+ * text search index (word prefixes and typos match) once it is built.
  */
 
 import { Router, Request, Response } from 'express';
 import { redis, REDIS_KEYS, redisClient, connectRedis } from '../config/redis';
 import { asyncHandler, ApiError } from '../middleware/errorHandler';
 import { Business } from '../types';
+import { searchIndexService } from '../services/searchIndexService';
 
 const router = Router();
 
@@ -35,6 +37,8 @@ router.get('/:fieldType', asyncHandler(async (req: Request, res: Response) => {
 
   const queryLower = query.toLowerCase().trim();
   const suggestions: AutocompleteSuggestion[] = [];
+  // Suggestions already in relevance order (from the text index)
+  let ranked = false;
 
   // For businessName, require at least 2 characters
   // For sector (fixed list), show all options if query is empty
@@ -53,33 +57,38 @@ router.get('/:fieldType', asyncHandler(async (req: Request, res: Response) => {
     let businessIds: string[] = [];
     
     try {
-      const allBusinessIds = await redisClient.smembers('businesses:all');
-      if (allBusinessIds && allBusinessIds.length > 0) {
-        businessIds = allBusinessIds;
+      if (await searchIndexService.isBuilt()) {
+        businessIds = (await searchIndexService.search(query)).map(hit => hit.businessId);
+        ranked = true;
       } else {
-        // Fallback: scan for business:* keys
-        // Note: SCAN is expensive, so prefer using businesses:all set
-        const keys: string[] = [];
-        let cursor = '0';
-        
-        do {
-          const [nextCursor, foundKeys] = await redisClient.scan(
-            cursor,
-            'MATCH',
-            'business:*',
-            'COUNT',
-            '100'
-          );
-          cursor = nextCursor;
-          keys.push(...foundKeys);
-          // Limit scan to prevent timeout (max 1000 businesses)
-          if (keys.length >= 1000) break;
-        } while (cursor !== '0');
-        
-        // Extract business IDs from keys (format: business:{id})
-        businessIds = keys
-          .map(key => key.replace('business:', ''))
-          .filter(id => id.length > 0);
+        const allBusinessIds = await redisClient.smembers('businesses:all');
+        if (allBusinessIds && allBusinessIds.length > 0) {
+          businessIds = allBusinessIds;
+        } else {
+          // Fallback: scan for business:* keys
+          // Note: SCAN is expensive, so prefer using businesses:all set
+          const keys: string[] = [];
+          let cursor = '0';
+
+          do {
+            const [nextCursor, foundKeys] = await redisClient.scan(
+              cursor,
+              'MATCH',
+              'business:*',
+              'COUNT',
+              '100'
+            );
+            cursor = nextCursor;
+            keys.push(...foundKeys);
+            // Limit scan to prevent timeout (max 1000 businesses)
+            if (keys.length >= 1000) break;
+          } while (cursor !== '0');
+
+          // Extract business IDs from keys (format: business:{id})
+          businessIds = keys
+            .map(key => key.replace('business:', ''))
+            .filter(id => id.length > 0);
+        }
       }
     } catch (error: any) {
       console.error('[SUGGESTIONS] Error fetching business IDs:', error);
@@ -95,6 +104,7 @@ router.get('/:fieldType', asyncHandler(async (req: Request, res: Response) => {
         // Check for active status (case-insensitive: 'active', 'ACTIVE', 'Active')
         if (business && business.status && business.status.toLowerCase() === 'active') {
           businesses.push(business);
+          if (ranked && businesses.length >= limit) break;
         }
       } catch (error) {
         // Skip invalid businesses
@@ -103,7 +113,7 @@ router.get('/:fieldType', asyncHandler(async (req: Request, res: Response) => {
     }
 
     // Filter businesses by name match - prioritize names starting with query (from first 2+ characters)
-    const matchingBusinesses = businesses
+    const matchingBusinesses = ranked ? businesses : businesses
       .filter(business => {
         const nameLower = business.name.toLowerCase();
         // Match if business name starts with the query (from first 2+ characters input)
@@ -287,7 +297,7 @@ router.get('/:fieldType', asyncHandler(async (req: Request, res: Response) => {
     
     if (aStarts && !bStarts) return -1;
     if (!aStarts && bStarts) return 1;
-    return a.value.localeCompare(b.value);
+    return ranked ? 0 : a.value.localeCompare(b.value);
   });
 
   res.json({
@@ -0,0 +1,100 @@
+/**
+ * Sync Routes - typed, scoped document sync for the business and customer apps
+ *
+ * Successor to the raw Redis proxy (/api/v1/redis/:command). Apps pull and push whole
+ * documents by entity + id; the API validates, versions and indexes them.
+ * Businesses sync their own business, rewards and campaigns; customers sync their own record.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import { authorize, owningBusiness, customerSelf, platformAdmin, fromQuery, IdResolver } from '../middleware/auth';
+import { syncService, SyncManifestEntry } from '../services/syncService';
+
+const router = Router();
+
+/** Business owning the addressed document (stored copy, or the incoming data for a new one). */
+const documentBusiness: IdResolver = async (req) => {
+  const { entity, id } = req.params;
+  if (!syncService.isEntity(entity)) return undefined;
+  return syncService.businessOf(entity, id, req.body?.data);
+};
+
+/** Customer addressed by a customer document route. */
+const documentCustomer: IdResolver = (req) =>
+  req.params.entity === 'customer' ? req.params.id : undefined;
+
+/** Reject unknown entities and non-id ids before any lookup or access check. */
+const validTarget = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    syncService.target(req.params.entity, req.params.id);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const documentAccess = authorize(owningBusiness(documentBusiness), customerSelf(documentCustomer), platformAdmin);
+
+// GET /api/v1/sync/manifest?businessId=|customerId= - Ids and versions of every document in scope
+// Apps compare this against their local versions to decide what to pull.
+router.get('/manifest', authorize(
+  owningBusiness(fromQuery('businessId')),
+  customerSelf(fromQuery('customerId')),
+  platformAdmin,
+), asyncHandler(async (req: Request, res: Response) => {
+  const { businessId, customerId } = req.query;
+
+  let documents: SyncManifestEntry[];
+  if (typeof businessId === 'string' && businessId) {
+    documents = await syncService.businessManifest(businessId);
+  } else if (typeof customerId === 'string' && customerId) {
+    documents = await syncService.customerManifest(customerId);
+  } else {
+    throw new ApiError(400, 'businessId or customerId is required');
+  }
+
+  res.json({
+    success: true,
+    data: { documents, generatedAt: new Date().toISOString() },
+  });
+}));
+
+// GET /api/v1/sync/:entity/:id - Pull one document with its version
+router.get('/:entity/:id', validTarget, documentAccess, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const entity = syncService.target(req.params.entity, id);
+
+  const doc = await syncService.get(entity, id);
+  if (!doc.data) {
+    throw new ApiError(404, `${entity} not found`);
+  }
+
+  res.json({ success: true, data: doc });
+}));
+
+// PUT /api/v1/sync/:entity/:id - Push a full document
+// Body: { data: {...complete document}, baseVersion?: number, merge?: boolean }
+// baseVersion is the version last pulled; a mismatch returns 409 with the current server copy,
+// or with merge: true, non-overlapping edits are merged into the newer server copy.
+router.put('/:entity/:id', validTarget, documentAccess, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const entity = syncService.target(req.params.entity, id);
+  const { data, baseVersion, merge } = req.body ?? {};
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ApiError(400, 'Request body must be { data: {...}, baseVersion?: number, merge?: boolean }');
+  }
+  if (baseVersion !== undefined && (!Number.isInteger(baseVersion) || baseVersion < 0)) {
+    throw new ApiError(400, 'baseVersion must be a non-negative integer');
+  }
+  if (merge && baseVersion === undefined) {
+    throw new ApiError(400, 'merge requires baseVersion');
+  }
+
+  const doc = await syncService.put(entity, id, data, baseVersion, merge === true);
+
+  res.json({ success: true, data: doc });
+}));
+
+export default router;
@@ -0,0 +1,110 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { birthdayService, birthdayYear } from '../birthdayService';
+import { ledgerService } from '../ledgerService';
+import { programService } from '../programService';
+import type { Campaign } from '../../types';
+
+const businessId = 'business-1';
+const customerId = 'customer-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Monday 15 June 2026, 09:00 UTC. */
+const at = new Date('2026-06-15T09:00:00.000Z');
+
+async function birthdayCampaign(conditions: Campaign['conditions'] = {}): Promise<void> {
+  await redisClient.set(REDIS_KEYS.campaign('birthday-1'), JSON.stringify({
+    id: 'birthday-1',
+    businessId,
+    name: 'Happy birthday',
+    type: 'birthday',
+    status: 'active',
+    targetAudience: 'all',
+    conditions,
+    stats: { impressions: 0, clicks: 0, conversions: 0 },
+  }));
+  await redisClient.sadd(REDIS_KEYS.businessCampaigns(businessId), 'birthday-1');
+}
+
+async function customer(fields: Record<string, unknown>): Promise<void> {
+  await redisClient.set(REDIS_KEYS.customer(customerId), JSON.stringify({ id: customerId, firstName: 'Ann', preferences: { notifications: true }, ...fields }));
+  await redisClient.sadd(REDIS_KEYS.businessCustomers(businessId), customerId);
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe' }));
+  await redisClient.sadd(REDIS_KEYS.allBusinesses(), businessId);
+});
+
+describe('birthdayYear', () => {
+  it('finds a birthday within the window, across the new year', () => {
+    expect(birthdayYear('1990-06-15', '2026-06-15', 0)).toBe(2026);
+    expect(birthdayYear('1990-06-17', '2026-06-15', 0)).toBeNull();
+    expect(birthdayYear('1990-06-17', '2026-06-15', 2)).toBe(2026);
+    expect(birthdayYear('1990-01-02', '2026-12-31', 3)).toBe(2027);
+  });
+
+  it('celebrates 29 February on 28 February outside leap years', () => {
+    expect(birthdayYear('2000-02-29', '2026-02-28', 0)).toBe(2026);
+    expect(birthdayYear('2000-02-29', '2028-02-28', 0)).toBeNull();
+    expect(birthdayYear('2000-02-29', '2028-02-29', 0)).toBe(2028);
+  });
+
+  it('ignores missing or malformed dates of birth', () => {
+    expect(birthdayYear(undefined, '2026-06-15', 0)).toBeNull();
+    expect(birthdayYear('15/06/1990', '2026-06-15', 0)).toBeNull();
+  });
+});
+
+describe('birthdayService.run', () => {
+  it('grants the bonus once per birthday year and notifies the customer', async () => {
+    await birthdayCampaign({ bonusStamps: 2 });
+    await customer({ dateOfBirth: '1990-06-15' });
+
+    expect(await birthdayService.run(at)).toMatchObject({ campaigns: 1, granted: 1, notified: 1, failed: 0 });
+    expect(await birthdayService.run(at)).toMatchObject({ granted: 0 });
+
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(customerId, businessId))).toBe(2);
+    const [queued] = await redisClient.lrange(REDIS_KEYS.memberNotifications(customerId), 0, 0);
+    expect(JSON.parse(queued)).toMatchObject({ type: 'campaign', data: { campaignId: 'birthday-1', amount: 2 } });
+    expect(JSON.parse((await redisClient.get(REDIS_KEYS.campaign('birthday-1')))!).stats.conversions).toBe(1);
+  });
+
+  it('skips customers whose birthday is not today and does not notify those who opted out', async () => {
+    await birthdayCampaign();
+    await customer({ dateOfBirth: '1990-06-16', preferences: { notifications: false } });
+
+    expect(await birthdayService.run(at)).toMatchObject({ granted: 0 });
+    expect(await birthdayService.run(new Date('2026-06-16T09:00:00.000Z'))).toMatchObject({ granted: 1, notified: 0 });
+  });
+
+  it('grants a program reward with the program\'s expiry rule and tier upgrade applied', async () => {
+    const program = await programService.create(businessId, { name: 'Coffee club', type: 'tiered', currency: 'points' });
+    const silver = await programService.saveTier(program.id, { name: 'Silver', level: 1, minPoints: 10 });
+    await programService.saveRule(program.id, { type: 'expiry', name: 'Use within 90 days', action: { expiryDays: 90 }, isActive: true });
+    await redisClient.set(REDIS_KEYS.reward('reward-1'), JSON.stringify({ id: 'reward-1', businessId, name: 'Free cake', programId: program.id, costPoints: 20, isActive: true }));
+    await birthdayCampaign({ rewardId: 'reward-1' });
+    await customer({ dateOfBirth: '1990-06-15' });
+
+    expect(await birthdayService.run(at)).toMatchObject({ granted: 1 });
+
+    const balance = await ledgerService.getBalance(customerId, businessId, program.id);
+    expect(balance.availablePoints).toBe(20);
+    expect(Date.parse(balance.expiresAt!)).toBeGreaterThan(Date.now() + 89 * DAY_MS);
+    expect((await programService.getMembership(program.id, customerId))?.currentTierId).toBe(silver.id);
+  });
+
+  it('releases the grant when issuing fails so the next run retries', async () => {
+    await birthdayCampaign({ rewardId: 'missing-reward', bonusStamps: 5000 });
+    await customer({ dateOfBirth: '1990-06-15' });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await birthdayService.run(at)).toMatchObject({ granted: 0, failed: 1 });
+    expect(await redisClient.exists(REDIS_KEYS.birthdayGrant(businessId, customerId, 2026))).toBe(0);
+  });
+
+  it('skips a run while another holds the lock', async () => {
+    await redisClient.set(REDIS_KEYS.jobLock('birthdays'), 'other');
+
+    expect(await birthdayService.run(at)).toMatchObject({ locked: true });
+  });
+});
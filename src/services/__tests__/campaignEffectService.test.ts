@@ -0,0 +1,101 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { campaignEffectService } from '../campaignEffectService';
+import type { Campaign } from '../../types';
+
+const businessId = 'business-1';
+const memberId = 'member-1';
+const member = { id: memberId, createdAt: '2020-01-01T00:00:00.000Z', totalStamps: 10 };
+/** Monday 15 June 2026, 13:30 in the UK (BST). */
+const at = new Date('2026-06-15T12:30:00.000Z');
+
+let created = 0;
+async function campaign(fields: Partial<Campaign>): Promise<Campaign> {
+  const doc = {
+    id: `campaign-${++created}`,
+    businessId,
+    name: `Campaign ${created}`,
+    type: 'double_stamps',
+    status: 'active',
+    targetAudience: 'all',
+    createdAt: `2026-01-01T00:00:${String(created % 60).padStart(2, '0')}.000Z`,
+    stats: { impressions: 0, clicks: 0, conversions: 0 },
+    ...fields,
+  } as Campaign;
+  await redisClient.set(REDIS_KEYS.campaign(doc.id), JSON.stringify(doc));
+  await redisClient.sadd(REDIS_KEYS.businessCampaigns(businessId), doc.id);
+  return doc;
+}
+
+const claim = (base = 1, context: Record<string, unknown> = {}) =>
+  campaignEffectService.claim(businessId, base, { memberId, member, at, ...context });
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('campaignEffectService.claim', () => {
+  it('applies one multiplier and adds up the bonuses', async () => {
+    const double = await campaign({ type: 'double_stamps' });
+    await campaign({ type: 'double_stamps' });
+    const bonus = await campaign({ type: 'bonus_reward', conditions: { bonusStamps: 3 } });
+
+    const effect = await claim(2);
+
+    expect(effect.amount).toBe(7);
+    expect(effect.applied).toEqual([
+      expect.objectContaining({ campaignId: double.id, multiplier: 2, extra: 2 }),
+      expect.objectContaining({ campaignId: bonus.id, bonusStamps: 3, extra: 3 }),
+    ]);
+  });
+
+  it('applies happy hour only inside its days and hours', async () => {
+    await campaign({ type: 'happy_hour', conditions: { daysOfWeek: [1], startTime: '13:00', endTime: '14:00' } });
+
+    expect((await claim()).amount).toBe(2);
+    expect((await claim(1, { at: new Date('2026-06-15T14:30:00.000Z') })).amount).toBe(1);
+  });
+
+  it('honours minPurchase and the per-member cap', async () => {
+    await campaign({ type: 'bonus_reward', conditions: { bonusStamps: 1, minPurchase: 5, maxUsesPerMember: 1 } });
+
+    expect((await claim(1, { spend: 4 })).applied).toEqual([]);
+    expect((await claim(1, { spend: 5 })).amount).toBe(2);
+    expect((await claim(1, { spend: 5 })).amount).toBe(1);
+  });
+
+  it('gives back the uses of a scan that was not written', async () => {
+    await campaign({ type: 'double_stamps', conditions: { maxUsesPerMember: 1 } });
+
+    const { applied } = await claim();
+    await campaignEffectService.release(memberId, applied);
+
+    expect((await claim()).amount).toBe(2);
+  });
+
+  it('ignores a stored bonusStamps above the maximum', async () => {
+    await campaign({ type: 'bonus_reward', conditions: { bonusStamps: 1e9 } });
+    await campaign({ type: 'happy_hour', conditions: { bonusStamps: 101 } });
+
+    expect(await claim()).toEqual({ amount: 1, applied: [] });
+  });
+
+  it('stops applying campaigns once the scan would earn more than one issue allows', async () => {
+    await campaign({ type: 'bonus_reward', conditions: { bonusStamps: 100 } });
+    await campaign({ type: 'double_stamps' });
+
+    const effect = await claim(900);
+
+    expect(effect.amount).toBe(1000);
+    expect(effect.applied.map((c) => c.type)).toEqual(['bonus_reward']);
+  });
+});
+
+describe('campaignEffectService.recordConversions', () => {
+  it('counts a conversion on each applied campaign', async () => {
+    const double = await campaign({ type: 'double_stamps' });
+
+    await campaignEffectService.recordConversions((await claim()).applied);
+
+    expect(JSON.parse((await redisClient.get(REDIS_KEYS.campaign(double.id)))!).stats.conversions).toBe(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { campaignSchedulerService } from '../campaignSchedulerService';
+import type { Campaign } from '../../types';
+
+const businessId = 'business-1';
+/** Monday 15 June 2026, 12:00 UTC (13:00 in London). */
+const now = new Date('2026-06-15T12:00:00.000Z');
+
+let created = 0;
+async function campaign(fields: Partial<Campaign>): Promise<Campaign> {
+  const doc = {
+    id: `campaign-${++created}`,
+    businessId,
+    name: `Campaign ${created}`,
+    type: 'double_stamps',
+    status: 'scheduled',
+    ...fields,
+  } as Campaign;
+  await redisClient.set(REDIS_KEYS.campaign(doc.id), JSON.stringify(doc));
+  await redisClient.sadd(REDIS_KEYS.businessCampaigns(businessId), doc.id);
+  await campaignSchedulerService.schedule(doc);
+  return doc;
+}
+
+const status = async (id: string) => JSON.parse((await redisClient.get(REDIS_KEYS.campaign(id)))!).status;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe' }));
+});
+
+describe('campaignSchedulerService.boundaries', () => {
+  it('reads date-only boundaries as whole days in the business timezone', async () => {
+    const bounds = await campaignSchedulerService.boundaries({ businessId, startDate: '2026-06-15', endDate: '2026-06-15' } as Campaign);
+
+    expect(bounds).toEqual({
+      startsAt: new Date('2026-06-14T23:00:00.000Z'),
+      endsAt: new Date('2026-06-15T23:00:00.000Z'),
+      timeZone: 'Europe/London',
+    });
+  });
+
+  it('reads local date-times in the business timezone and keeps absolute ones', async () => {
+    await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, timezone: 'America/New_York' }));
+
+    const bounds = await campaignSchedulerService.boundaries({ businessId, startDate: '2026-06-15T09:00', endDate: '2026-06-20T09:00:00Z' } as Campaign);
+
+    expect(bounds.startsAt).toEqual(new Date('2026-06-15T13:00:00.000Z'));
+    expect(bounds.endsAt).toEqual(new Date('2026-06-20T09:00:00.000Z'));
+  });
+});
+
+describe('campaignSchedulerService.run', () => {
+  it('activates campaigns that have started and completes those that have ended', async () => {
+    const starting = await campaign({ startDate: '2026-06-15T13:00', endDate: '2026-06-30' });
+    const later = await campaign({ startDate: '2026-06-16' });
+    const ending = await campaign({ status: 'active', endDate: '2026-06-14' });
+    const missed = await campaign({ startDate: '2026-06-01', endDate: '2026-06-10' });
+    const draft = await campaign({ status: 'draft', startDate: '2026-06-01' });
+
+    const result = await campaignSchedulerService.run(now);
+
+    expect(result).toMatchObject({ activated: 1, completed: 2, skipped: 0, locked: false });
+    expect(await status(starting.id)).toBe('active');
+    expect(await status(later.id)).toBe('scheduled');
+    expect(await status(ending.id)).toBe('completed');
+    expect(await status(missed.id)).toBe('completed');
+    expect(await status(draft.id)).toBe('draft');
+  });
+
+  it('keeps the started campaign indexed for its end and leaves finished ones out of the index', async () => {
+    const starting = await campaign({ startDate: '2026-06-15', endDate: '2026-06-30' });
+    const ending = await campaign({ status: 'active', endDate: '2026-06-14' });
+
+    await campaignSchedulerService.run(now);
+
+    expect(await redisClient.zscore(REDIS_KEYS.scheduledCampaigns(), starting.id)).toBe(String(Date.parse('2026-06-30T23:00:00.000Z')));
+    expect(await redisClient.zscore(REDIS_KEYS.scheduledCampaigns(), ending.id)).toBeNull();
+    expect(await campaignSchedulerService.run(now)).toMatchObject({ activated: 0, completed: 0 });
+  });
+
+  it('records each transition in the status history', async () => {
+    const starting = await campaign({ startDate: '2026-06-15' });
+
+    await campaignSchedulerService.run(now);
+
+    expect(await campaignSchedulerService.history(starting.id)).toEqual([{
+      from: 'scheduled',
+      to: 'active',
+      at: now.toISOString(),
+      actor: 'scheduler',
+      reason: 'startDate reached (2026-06-14T23:00:00.000Z, Europe/London)',
+    }]);
+  });
+
+  it('announces an activated campaign to customers who allow notifications', async () => {
+    await redisClient.sadd(REDIS_KEYS.businessCustomers(businessId), 'customer-1', 'customer-2');
+    await redisClient.set(REDIS_KEYS.customer('customer-1'), JSON.stringify({ id: 'customer-1', preferences: { notifications: true } }));
+    await redisClient.set(REDIS_KEYS.customer('customer-2'), JSON.stringify({ id: 'customer-2', preferences: { notifications: false } }));
+    await campaign({ startDate: '2026-06-15', notificationMessage: 'Double stamps today' });
+
+    await campaignSchedulerService.run(now);
+
+    const [queued] = await redisClient.lrange(REDIS_KEYS.memberNotifications('customer-1'), 0, 0);
+    expect(JSON.parse(queued)).toMatchObject({ type: 'campaign', message: 'Double stamps today' });
+    expect(await redisClient.llen(REDIS_KEYS.memberNotifications('customer-2'))).toBe(0);
+  });
+
+  it('skips a run while another holds the lock', async () => {
+    await redisClient.set(REDIS_KEYS.jobLock('campaigns'), 'other');
+
+    expect(await campaignSchedulerService.run(now)).toMatchObject({ locked: true });
+  });
+});
+
+describe('campaignSchedulerService.afterWrite', () => {
+  it('records manual status changes with the actor and re-indexes the campaign', async () => {
+    const paused = await campaign({ status: 'paused', endDate: '2026-06-30' });
+
+    await campaignSchedulerService.afterWrite(paused, 'active', 'business:business-1');
+
+    expect(await campaignSchedulerService.history(paused.id)).toEqual([expect.objectContaining({ from: 'active', to: 'paused', actor: 'business:business-1' })]);
+    expect(await redisClient.zscore(REDIS_KEYS.scheduledCampaigns(), paused.id)).not.toBeNull();
+  });
+
+  it('drops cancelled campaigns from the index', async () => {
+    const cancelled = await campaign({ startDate: '2026-06-20' });
+
+    await campaignSchedulerService.afterWrite({ ...cancelled, status: 'cancelled' }, 'scheduled', 'admin');
+
+    expect(await redisClient.zscore(REDIS_KEYS.scheduledCampaigns(), cancelled.id)).toBeNull();
+  });
+});
+
+describe('campaignSchedulerService.rebuild', () => {
+  it('indexes the live campaigns of every business', async () => {
+    await redisClient.sadd(REDIS_KEYS.allBusinesses(), businessId);
+    await campaign({ startDate: '2026-06-20' });
+    await campaign({ status: 'completed' });
+    await redisClient.del(REDIS_KEYS.scheduledCampaigns());
+
+    expect(await campaignSchedulerService.rebuild()).toEqual({ scheduled: 1 });
+  });
+});
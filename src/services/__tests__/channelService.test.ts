@@ -0,0 +1,165 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { channelService, toE164, DEFAULT_CHANNELS } from '../channelService';
+import { messageProviders, isMailAddress, EmailMessage, SmsMessage, MessageResult } from '../messageProviders';
+import type { Customer } from '../../types';
+
+// Email and SMS are off in tests (EMAIL_PROVIDER/SMS_PROVIDER=none) until a provider with that name is registered
+const emails: EmailMessage[] = [];
+const texts: SmsMessage[] = [];
+const bounce = (to: string): MessageResult => (to.includes('bounce') ? { status: 'invalid', error: 'No such user' } : { status: 'sent' });
+
+const customer = (fields: Record<string, unknown> = {}): Customer => ({
+  id: 'customer-1',
+  firstName: 'Sam',
+  email: 'sam@example.com',
+  phone: '07700 900123',
+  preferences: { notifications: true, push: true, email: true, sms: true, marketing: false },
+  ...fields,
+} as unknown as Customer);
+
+const notification = { type: 'stamp_earned', title: 'Stamp earned', message: 'You earned a stamp', businessName: 'Cafe' };
+
+/** Subject and signature of the unsubscribe link in an email's List-Unsubscribe header. */
+function unsubscribeLink(email: EmailMessage): { subject: string; signature: string } {
+  const url = new URL(email.headers!['List-Unsubscribe'].slice(1, -1));
+  return { subject: url.searchParams.get('s')!, signature: url.searchParams.get('t')! };
+}
+
+beforeAll(() => {
+  messageProviders.registerEmail({ name: 'none', configured: () => true, send: async (message) => (emails.push(message), bounce(message.to)) });
+  messageProviders.registerSms({ name: 'none', configured: () => true, send: async (message) => (texts.push(message), { status: 'sent' }) });
+});
+
+beforeEach(() => {
+  emails.length = 0;
+  texts.length = 0;
+});
+
+describe('channelService.channelsFor', () => {
+  it('uses a campaign\'s channel masks, or in-app and push without any', () => {
+    expect(channelService.channelsFor({})).toEqual(DEFAULT_CHANNELS);
+    expect(channelService.channelsFor({ channelMasks: { push: false, email: true, sms: true, inApp: true, geo: false } })).toEqual(['in_app', 'email', 'sms']);
+  });
+});
+
+describe('channelService.allowed', () => {
+  it('follows the customer\'s channel preferences', async () => {
+    expect(await channelService.allowed(customer(), 'email')).toBe(true);
+    expect(await channelService.allowed(customer({ preferences: { email: false } }), 'email')).toBe(false);
+    expect(await channelService.allowed(customer({ preferences: {} }), 'sms')).toBe(false);
+    expect(await channelService.allowed(customer({ preferences: { notifications: false, push: true } }), 'push')).toBe(false);
+    expect(await channelService.allowed(customer({ preferences: { notifications: false } }), 'in_app')).toBe(true);
+  });
+
+  it('sends marketing by email or SMS only to customers who opted in to it', async () => {
+    expect(await channelService.allowed(customer(), 'email', 'campaign')).toBe(false);
+    expect(await channelService.allowed(customer(), 'push', 'campaign')).toBe(true);
+    expect(await channelService.allowed(customer({ preferences: { sms: true, marketing: true } }), 'sms', 'campaign')).toBe(true);
+  });
+
+  it('needs one well-formed address or number that is not suppressed', async () => {
+    expect(await channelService.allowed(customer({ email: 'sam@example.com\r\nBcc: all@example.com' }), 'email')).toBe(false);
+    expect(await channelService.allowed(customer({ phone: '12345' }), 'sms')).toBe(false);
+    await redisClient.sadd(REDIS_KEYS.suppressedEmails(), 'sam@example.com');
+
+    expect(await channelService.allowed(customer({ email: 'Sam@Example.com' }), 'email')).toBe(false);
+  });
+});
+
+describe('channelService.deliver', () => {
+  it('emails the notification with the customer\'s name and a one-click unsubscribe link', async () => {
+    const result = await channelService.deliver('email', customer(), notification);
+
+    expect(result).toMatchObject({ status: 'sent' });
+    const [email] = emails;
+    expect(email).toMatchObject({ to: 'sam@example.com', subject: 'Stamp earned', headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' } });
+    expect(email.text).toContain('Hi Sam,');
+    expect(email.text).toContain('— Cafe');
+    expect(email.html).toContain('Unsubscribe');
+  });
+
+  it('tracks the button and opens of a stored notification', async () => {
+    await channelService.deliver('email', customer(), { ...notification, id: 'n-1' });
+
+    expect(emails[0].html).toContain('/api/v1/notifications/track/click/');
+    expect(emails[0].html).toContain('/api/v1/notifications/track/open/');
+  });
+
+  it('escapes the notification in the HTML part', async () => {
+    await channelService.deliver('email', customer(), { ...notification, title: '<b>Free</b>', message: 'Tea & "cake"' });
+
+    expect(emails[0].html).toContain('&lt;b&gt;Free&lt;/b&gt;');
+    expect(emails[0].html).toContain('Tea &amp; &quot;cake&quot;');
+  });
+
+  it('texts an E.164 number, adding the opt-out line to marketing', async () => {
+    const marketing = customer({ preferences: { sms: true, marketing: true } });
+
+    await channelService.deliver('sms', customer(), notification);
+    await channelService.deliver('sms', marketing, { ...notification, type: 'campaign', message: 'x'.repeat(400) });
+
+    expect(texts[0]).toEqual({ to: '+447700900123', body: 'Cafe: You earned a stamp' });
+    expect(texts[1].body).toHaveLength(306);
+    expect(texts[1].body.endsWith('… Reply STOP to opt out')).toBe(true);
+  });
+
+  it('suppresses an address the provider says does not exist', async () => {
+    const bounced = customer({ email: 'bounce@example.com' });
+
+    expect(await channelService.deliver('email', bounced, notification)).toMatchObject({ status: 'invalid' });
+    expect(await channelService.deliver('email', bounced, notification)).toBeNull();
+    expect(emails).toHaveLength(1);
+  });
+
+  it('sends nothing on a channel the customer turned off', async () => {
+    expect(await channelService.deliver('sms', customer({ preferences: { sms: false } }), notification)).toBeNull();
+    expect(texts).toHaveLength(0);
+  });
+});
+
+describe('channelService unsubscribe links', () => {
+  it('turn email off in the customer\'s preferences', async () => {
+    await redisClient.set(REDIS_KEYS.customer('customer-1'), JSON.stringify(customer()));
+    await channelService.deliver('email', customer(), notification);
+    const { subject, signature } = unsubscribeLink(emails[0]);
+
+    expect(channelService.verifyUnsubscribe(subject, signature)).toBe(true);
+    expect(await channelService.unsubscribe(subject)).toBe(true);
+
+    const saved = JSON.parse((await redisClient.get(REDIS_KEYS.customer('customer-1')))!);
+    expect(saved.preferences).toMatchObject({ email: false, sms: true });
+  });
+
+  it('suppress an address that is not a customer', async () => {
+    await channelService.emailAddress('Friend@Example.com', { title: 'Join us', message: 'Join Cafe on Canny Carrot' });
+    const { subject, signature } = unsubscribeLink(emails[0]);
+
+    expect(subject).toBe('e:friend@example.com');
+    expect(channelService.verifyUnsubscribe(subject, signature)).toBe(true);
+    await channelService.unsubscribe(subject);
+
+    expect(await channelService.emailAddress('friend@example.com', { title: 'Join us', message: 'Again' })).toBeNull();
+  });
+
+  it('are rejected when the signature does not match the subject', () => {
+    expect(channelService.verifyUnsubscribe('c:customer-2', 'forged')).toBe(false);
+  });
+});
+
+describe('isMailAddress', () => {
+  it('accepts one bare address and nothing that could add headers or recipients', () => {
+    expect(isMailAddress('sam.smith+cafe@example.co.uk')).toBe(true);
+    for (const value of ['sam@example.com\r\nBcc: all@example.com', 'Sam <sam@example.com>', 'sam@example.com, jo@example.com', 'sam@example', 42]) {
+      expect(isMailAddress(value)).toBe(false);
+    }
+  });
+});
+
+describe('toE164', () => {
+  it('reads UK and international numbers', () => {
+    expect(toE164('07700 900123')).toBe('+447700900123');
+    expect(toE164('0044 (7700) 900-123')).toBe('+447700900123');
+    expect(toE164('+1 212 555 0100')).toBe('+12125550100');
+    expect(toE164('0770')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { Request } from 'express';
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { ApiError } from '../../middleware/errorHandler';
+import { readPrecondition } from '../../middleware/concurrency';
+import { concurrencyService } from '../concurrencyService';
+
+const key = REDIS_KEYS.reward('reward-1');
+
+const withHeaders = (headers: Record<string, string>): Request =>
+  ({ get: (name: string) => headers[name.toLowerCase()] }) as unknown as Request;
+
+/** The ApiError a rejected promise failed with. */
+const failure = (promise: Promise<unknown>): Promise<ApiError> =>
+  promise.then(() => { throw new Error('expected a failure'); }, (error: ApiError) => error);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('readPrecondition', () => {
+  it('reads If-Match as the expected version', () => {
+    expect(readPrecondition(withHeaders({ 'if-match': '"3"' }))).toEqual({ expectedVersion: 3, merge: false });
+    expect(readPrecondition(withHeaders({ 'if-match': 'W/"3"' }))).toEqual({ expectedVersion: 3, merge: false });
+    expect(readPrecondition(withHeaders({ 'if-match': '*' }))).toEqual({ expectedVersion: undefined, merge: false });
+  });
+
+  it('turns on merging with X-Merge-Mode: fields, which needs If-Match', () => {
+    expect(readPrecondition(withHeaders({ 'if-match': '"2"', 'x-merge-mode': 'fields' }))).toEqual({ expectedVersion: 2, merge: true });
+    expect(() => readPrecondition(withHeaders({ 'x-merge-mode': 'fields' }))).toThrow(expect.objectContaining({ statusCode: 428 }));
+    expect(() => readPrecondition(withHeaders({ 'if-match': 'abc' }))).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('concurrencyService.save', () => {
+  it('bumps the version on every write', async () => {
+    expect((await concurrencyService.save(key, { name: 'Coffee' })).version).toBe(1);
+    expect((await concurrencyService.save(key, { name: 'Tea' }, { expectedVersion: 1 })).version).toBe(2);
+    expect(await concurrencyService.version(key)).toBe(2);
+  });
+
+  it('rejects a stale If-Match with 409 and the server copy', async () => {
+    await concurrencyService.save(key, { name: 'Coffee' });
+    await concurrencyService.save(key, { name: 'Tea' });
+
+    const error = await failure(concurrencyService.save(key, { name: 'Cake' }, { expectedVersion: 1 }));
+    expect(error.statusCode).toBe(409);
+    expect(error.details).toMatchObject({ expectedVersion: 1, currentVersion: 2, current: { name: 'Tea' } });
+  });
+
+  it('merges edits to different fields made from the same version', async () => {
+    await concurrencyService.save(key, { name: 'Coffee', stampsRequired: 5 });
+    await concurrencyService.save(key, { name: 'Flat white', stampsRequired: 5 }, { expectedVersion: 1 });
+
+    const result = await concurrencyService.save(key, { name: 'Coffee', stampsRequired: 8 }, { expectedVersion: 1, merge: true });
+    expect(result.merged).toBe(true);
+    expect(result.version).toBe(3);
+    expect(result.doc).toEqual({ name: 'Flat white', stampsRequired: 8 });
+  });
+
+  it('rejects a replace from before a server-side patch', async () => {
+    await concurrencyService.save(key, { name: 'Coffee', stats: { clicks: 0 } });
+    await concurrencyService.patch(key, (doc) => ({ ...doc, stats: { clicks: doc.stats.clicks + 1 } }));
+
+    const error = await failure(concurrencyService.save(key, { name: 'Tea', stats: { clicks: 0 } }, { expectedVersion: 1 }));
+    expect(error.statusCode).toBe(409);
+    expect(error.details).toMatchObject({ currentVersion: 2, current: { stats: { clicks: 1 } } });
+  });
+
+  it('merges a client edit with a server-side patch made since the client read', async () => {
+    await concurrencyService.save(key, { name: 'Coffee', stats: { clicks: 0 } });
+    await concurrencyService.patch(key, (doc) => ({ ...doc, stats: { clicks: doc.stats.clicks + 1 } }));
+
+    const result = await concurrencyService.save(key, { name: 'Tea', stats: { clicks: 0 } }, { expectedVersion: 1, merge: true });
+    expect(result.doc).toEqual({ name: 'Tea', stats: { clicks: 1 } });
+  });
+
+  it('rejects a merge when both sides changed the same field', async () => {
+    await concurrencyService.save(key, { name: 'Coffee' });
+    await concurrencyService.save(key, { name: 'Flat white' }, { expectedVersion: 1 });
+
+    const error = await failure(concurrencyService.save(key, { name: 'Latte' }, { expectedVersion: 1, merge: true }));
+    expect(error.statusCode).toBe(409);
+    expect(error.details).toMatchObject({ conflicts: ['name'] });
+    expect(await concurrencyService.version(key)).toBe(2);
+  });
+});
+
+describe('concurrencyService.patch', () => {
+  it('does not lose concurrent increments and bumps the version for each', async () => {
+    await concurrencyService.save(key, { clicks: 0 });
+
+    await Promise.all(Array.from({ length: 5 }, () =>
+      concurrencyService.patch<{ clicks: number }>(key, (doc) => ({ clicks: doc.clicks + 1 }))));
+
+    expect(await concurrencyService.snapshot(key, 6)).toEqual({ clicks: 5 });
+    expect(await concurrencyService.version(key)).toBe(6);
+  });
+
+  it('re-applies the change over a write made without versioning', async () => {
+    await redisClient.set(key, JSON.stringify({ name: 'Coffee', clicks: 0 }));
+    const get = redisClient.get.bind(redisClient);
+    // A legacy path replaces the document between patch()'s read and its write
+    jest.spyOn(redisClient, 'get').mockImplementationOnce(async (...args: Parameters<typeof redisClient.get>) => {
+      const raw = await get(...args);
+      await redisClient.set(key, JSON.stringify({ name: 'Tea', clicks: 0 }));
+      return raw;
+    });
+
+    const result = await concurrencyService.patch<Record<string, any>>(key, (doc) => ({ ...doc, clicks: doc.clicks + 1 }));
+    expect(result).toEqual({ name: 'Tea', clicks: 1 });
+  });
+
+  it('returns null for a missing document', async () => {
+    expect(await concurrencyService.patch(key, (doc) => doc)).toBeNull();
+  });
+});
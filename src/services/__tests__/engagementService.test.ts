@@ -0,0 +1,126 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { config } from '../../config/env';
+import { concurrencyService } from '../concurrencyService';
+import { engagementService } from '../engagementService';
+import { notificationService } from '../notificationService';
+
+const memberId = 'member-1';
+const businessId = 'business-1';
+const campaignId = 'campaign-1';
+const HOUR_MS = 60 * 60 * 1000;
+
+const queue = () => notificationService.queue(memberId, {
+  type: 'campaign',
+  title: 'Double stamps',
+  message: 'Double stamps all week',
+  businessId,
+  data: { campaignId },
+});
+
+const stats = async () => JSON.parse((await redisClient.get(REDIS_KEYS.campaign(campaignId)))!).stats;
+
+async function stored(id: string): Promise<Record<string, any> | undefined> {
+  const history = await redisClient.lrange(REDIS_KEYS.memberNotifications(memberId), 0, -1);
+  return history.map((raw) => JSON.parse(raw)).find((notification) => notification.id === id);
+}
+
+beforeEach(async () => {
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe', profile: { website: 'https://www.cafe.example/' } }));
+  await concurrencyService.save(REDIS_KEYS.campaign(campaignId), { id: campaignId, businessId, stats: { impressions: 0, clicks: 0, conversions: 0 } });
+});
+
+describe('engagementService.linkTarget', () => {
+  it('allows our own sites and the business\'s website', async () => {
+    for (const target of ['https://cannycarrot.com/offers', 'https://shop.cannycarrot.com/', `${config.customerAppUrl}/rewards`, `${config.apiBaseUrl}/health`]) {
+      expect(await engagementService.linkTarget(target)).toBe(target);
+    }
+    expect(await engagementService.linkTarget('https://cafe.example/menu', businessId)).toBe('https://cafe.example/menu');
+    expect(await engagementService.linkTarget('http://www.CAFE.example/menu', businessId)).toBe('http://www.CAFE.example/menu');
+  });
+
+  it('sends anything else to the customer app', async () => {
+    for (const target of [
+      'https://evil.example/phish',
+      'https://cannycarrot.com.evil.example/',
+      'https://evilcannycarrot.com/',
+      'javascript:alert(1)',
+      '//evil.example',
+      'not a url',
+      undefined,
+    ]) {
+      expect(await engagementService.linkTarget(target, businessId)).toBe(config.customerAppUrl);
+    }
+    expect(await engagementService.linkTarget('https://cafe.example/menu', 'business-2')).toBe(config.customerAppUrl);
+  });
+});
+
+describe('engagementService tracked links', () => {
+  it('sign the allowed target, and replace one that is not allowed', async () => {
+    const token = (link: string) => link.split('/').pop()!;
+
+    const allowed = await engagementService.trackedLink(memberId, 'n-1', 'https://cafe.example/menu', businessId);
+    const other = await engagementService.trackedLink(memberId, 'n-1', 'https://evil.example/', businessId);
+
+    expect(engagementService.verify(token(allowed))).toEqual({ memberId, notificationId: 'n-1', target: 'https://cafe.example/menu', businessId });
+    expect(engagementService.verify(token(other))?.target).toBe(config.customerAppUrl);
+  });
+
+  it('are rejected when the payload or signature is changed', async () => {
+    const [data, signature] = (await engagementService.trackedLink(memberId, 'n-1')).split('/').pop()!.split('.');
+    const forged = Buffer.from(JSON.stringify({ m: memberId, n: 'n-1', u: 'https://evil.example/' })).toString('base64url');
+
+    expect(engagementService.verify(`${forged}.${signature}`)).toBeNull();
+    expect(engagementService.verify(`${data}.${signature.slice(1)}`)).toBeNull();
+    expect(engagementService.verify(data)).toBeNull();
+  });
+});
+
+describe('engagementService.record', () => {
+  it('sets the first open and click and counts each once towards the campaign', async () => {
+    const notification = await queue();
+
+    await engagementService.record(memberId, notification.id, 'open');
+    const clicked = await engagementService.record(memberId, notification.id, 'click');
+    await engagementService.record(memberId, notification.id, 'click');
+
+    expect(clicked).toMatchObject({ openedAt: expect.any(String), clickedAt: expect.any(String) });
+    expect((await stored(notification.id))?.clickedAt).toBe(clicked?.clickedAt);
+    expect(await stats()).toEqual({ impressions: 1, clicks: 1, conversions: 0 });
+  });
+
+  it('returns null for a notification no longer in the history', async () => {
+    expect(await engagementService.record(memberId, 'gone', 'open')).toBeNull();
+  });
+});
+
+describe('engagementService.attributeConversion', () => {
+  it('converts the last opened notification of the business once', async () => {
+    const notification = await queue();
+    await engagementService.record(memberId, notification.id, 'open');
+
+    await engagementService.attributeConversion(memberId, businessId);
+    await engagementService.attributeConversion(memberId, businessId);
+
+    expect((await stored(notification.id))?.convertedAt).toEqual(expect.any(String));
+    expect((await stats()).conversions).toBe(1);
+  });
+
+  it('does not count a conversion the scan already counted for the campaign', async () => {
+    const notification = await queue();
+    await engagementService.record(memberId, notification.id, 'click');
+
+    await engagementService.attributeConversion(memberId, businessId, [campaignId]);
+
+    expect((await stored(notification.id))?.convertedAt).toEqual(expect.any(String));
+    expect((await stats()).conversions).toBe(0);
+  });
+
+  it('ignores an open from before the attribution window', async () => {
+    const notification = await queue();
+    await engagementService.record(memberId, notification.id, 'open', new Date(Date.now() - 73 * HOUR_MS));
+
+    await engagementService.attributeConversion(memberId, businessId);
+
+    expect((await stored(notification.id))?.convertedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { expiryService } from '../expiryService';
+import { ledgerService } from '../ledgerService';
+import { programService } from '../programService';
+import type { LoyaltyProgram } from '../../types/extended';
+
+const customerId = 'customer-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-15T12:00:00.000Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+let program: LoyaltyProgram;
+
+const earn = (amountPoints: number) =>
+  ledgerService.record({ customerId, businessId: 'business-1', programId: program.id, type: 'earn', source: 'qr', amountPoints });
+
+const available = async () => (await ledgerService.getBalance(customerId, 'business-1', program.id)).availablePoints;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  program = await programService.create('business-1', { name: 'Coffee points', type: 'points' });
+  await redisClient.set(REDIS_KEYS.customer(customerId), JSON.stringify({ id: customerId, firstName: 'Ann' }));
+});
+
+describe('expiryService.extend', () => {
+  it('moves the expiry later but never earlier', async () => {
+    await earn(5);
+    await expiryService.extend(customerId, program.id, daysFromNow(30));
+    await expiryService.extend(customerId, program.id, daysFromNow(10));
+
+    expect((await ledgerService.getBalance(customerId, 'business-1', program.id)).expiresAt).toBe(daysFromNow(30).toISOString());
+  });
+});
+
+describe('expiryService.run', () => {
+  it('expires what is left of a due balance as one ledger entry', async () => {
+    await earn(5);
+    await expiryService.extend(customerId, program.id, daysFromNow(-1));
+
+    const result = await expiryService.run(now);
+
+    expect(result).toMatchObject({ expired: 1, pointsExpired: 5, skipped: 0 });
+    expect(await available()).toBe(0);
+    const [latest] = (await ledgerService.list(customerId)).transactions;
+    expect(latest).toMatchObject({ type: 'expire', amountPoints: -5, programId: program.id });
+    expect(await redisClient.zcard(REDIS_KEYS.expirySchedule())).toBe(0);
+  });
+
+  it('leaves a balance that was spent between the read and the expiry for the next run', async () => {
+    await earn(5);
+    await expiryService.extend(customerId, program.id, daysFromNow(-1));
+    const balanceKey = REDIS_KEYS.programBalance(customerId, program.id);
+    const hmget = redisClient.hmget.bind(redisClient);
+    jest.spyOn(redisClient, 'hmget').mockImplementationOnce((async (...args: Parameters<typeof hmget>) => {
+      const read = await hmget(...args);
+      await ledgerService.record({ customerId, businessId: 'business-1', programId: program.id, type: 'redeem', source: 'manual', amountPoints: -2 });
+      return read;
+    }) as unknown as typeof redisClient.hmget);
+
+    const raced = await expiryService.run(now);
+    expect(raced).toMatchObject({ expired: 0, skipped: 1 });
+    expect(await redisClient.hget(balanceKey, 'availablePoints')).toBe('3');
+
+    expect(await expiryService.run(now)).toMatchObject({ expired: 1, pointsExpired: 3 });
+  });
+
+  it('does not expire a balance whose expiry an earn moved on', async () => {
+    await earn(5);
+    await expiryService.extend(customerId, program.id, daysFromNow(-1));
+    await expiryService.extend(customerId, program.id, daysFromNow(20));
+
+    expect(await expiryService.run(now)).toMatchObject({ expired: 0 });
+    expect(await available()).toBe(5);
+  });
+
+  it('warns once per expiry date for a balance expiring within 7 days', async () => {
+    await earn(5);
+    await expiryService.extend(customerId, program.id, daysFromNow(3));
+
+    expect((await expiryService.run(now)).warned).toBe(1);
+    expect((await expiryService.run(now)).warned).toBe(0);
+    const [queued] = await redisClient.lrange(REDIS_KEYS.memberNotifications(customerId), 0, 0);
+    expect(JSON.parse(queued)).toMatchObject({ type: 'points_expiring', data: { programId: program.id, availablePoints: 5 } });
+  });
+
+  it('skips a run while another holds the lock', async () => {
+    await redisClient.set(REDIS_KEYS.jobLock('expiry'), 'other');
+
+    expect(await expiryService.run(now)).toMatchObject({ locked: true });
+  });
+});
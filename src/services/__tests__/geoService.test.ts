@@ -0,0 +1,93 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { geoService, haversineKm } from '../geoService';
+import { locationService } from '../locationService';
+
+const middlesbrough = { lat: 54.5742, lng: -1.2349 };
+const stockton = { lat: 54.5705, lng: -1.3187 };
+const darlington = { lat: 54.5236, lng: -1.5528 };
+const newcastle = { lat: 54.9783, lng: -1.6178 };
+
+const at = ({ lat, lng }: { lat: number; lng: number }) => ({ coordinates: { latitude: lat, longitude: lng } });
+
+const branch = (position: { lat: number; lng: number }) => ({
+  name: 'Branch',
+  address: { line1: '1 High Street', city: 'Town', postcode: 'TS1 1AA' },
+  ...at(position),
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('geoService.withinRadius', () => {
+  it('returns businesses in range, nearest first, with distances in km and miles', async () => {
+    await geoService.indexBusiness('stockton', at(stockton));
+    await geoService.indexBusiness('darlington', at(darlington));
+    await geoService.indexBusiness('newcastle', at(newcastle));
+
+    const matches = await geoService.withinRadius(middlesbrough, 30, 'km');
+
+    expect(matches.map((m) => m.businessId)).toEqual(['stockton', 'darlington']);
+    const expectedKm = haversineKm(middlesbrough, darlington);
+    expect(matches[1].distanceKm).toBeCloseTo(expectedKm, 0);
+    expect(matches[1].distanceMiles).toBeCloseTo(expectedKm / 1.609344, 0);
+  });
+
+  it('reads the radius in miles', async () => {
+    await geoService.indexBusiness('darlington', at(darlington));
+
+    expect(await geoService.withinRadius(middlesbrough, 10, 'mi')).toEqual([]);
+    expect(await geoService.withinRadius(middlesbrough, 15, 'mi')).toHaveLength(1);
+  });
+
+  it('matches a business once, through its nearest branch', async () => {
+    await geoService.indexBusiness('chain', at(newcastle));
+    const near = await locationService.create('chain', branch(stockton));
+    await locationService.create('chain', branch(darlington));
+
+    const [match, ...rest] = await geoService.withinRadius(middlesbrough, 100, 'km');
+
+    expect(rest).toEqual([]);
+    expect(match).toMatchObject({ businessId: 'chain', locationId: near.id });
+  });
+
+  it('drops a business whose coordinates are removed', async () => {
+    await geoService.indexBusiness('stockton', at(stockton));
+    await geoService.indexBusiness('stockton', { name: 'No address' });
+
+    expect(await geoService.withinRadius(middlesbrough, 30, 'km')).toEqual([]);
+  });
+});
+
+describe('geoService.withinBounds', () => {
+  it('keeps only positions inside the bounds, nearest to the centre first', async () => {
+    await geoService.indexBusiness('stockton', at(stockton));
+    await geoService.indexBusiness('darlington', at(darlington));
+    await geoService.indexBusiness('newcastle', at(newcastle));
+
+    const matches = await geoService.withinBounds({ northeast: { lat: 54.6, lng: -1.2 }, southwest: { lat: 54.5, lng: -1.6 } });
+
+    expect(matches.map((m) => m.businessId)).toEqual(['stockton', 'darlington']);
+  });
+
+  it('rejects bounds given the wrong way round', async () => {
+    await expect(geoService.withinBounds({ northeast: { lat: 54.5, lng: -1.6 }, southwest: { lat: 54.6, lng: -1.2 } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('geoService.reindex', () => {
+  it('rebuilds the index from businesses and active branches', async () => {
+    await redisClient.sadd(REDIS_KEYS.allBusinesses(), 'stockton', 'chain');
+    await redisClient.set(REDIS_KEYS.business('stockton'), JSON.stringify({ id: 'stockton', profile: at(stockton) }));
+    await redisClient.set(REDIS_KEYS.business('chain'), JSON.stringify({ id: 'chain' }));
+    const open = await locationService.create('chain', branch(darlington));
+    const closed = await locationService.create('chain', branch(newcastle));
+    await locationService.deactivate('chain', closed.id);
+    await redisClient.del(REDIS_KEYS.geoPlaces());
+    await redisClient.geoadd(REDIS_KEYS.geoPlaces(), 0, 0, 'deleted-business');
+
+    expect(await geoService.reindex()).toEqual({ businesses: 1, locations: 1 });
+    expect((await redisClient.zrange(REDIS_KEYS.geoPlaces(), 0, -1)).sort()).toEqual([`chain:${open.id}`, 'stockton']);
+  });
+});
@@ -0,0 +1,82 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { ledgerService, NewTransaction } from '../ledgerService';
+
+const customerId = 'customer-1';
+
+const earn = (businessId: string, amountPoints = 1, fields: Partial<NewTransaction> = {}) =>
+  ledgerService.record({ customerId, businessId, type: 'earn', source: 'qr', amountPoints, ...fields });
+
+const burn = (businessId: string, amountPoints: number) =>
+  ledgerService.record({ customerId, businessId, type: 'redeem', source: 'manual', amountPoints: -amountPoints });
+
+describe('ledgerService.record', () => {
+  it('keeps the balance equal to the sum of the ledger', async () => {
+    await earn('business-1', 5);
+    const { balance } = await burn('business-1', 3);
+
+    expect(balance).toMatchObject({ availablePoints: 2, lifetimePoints: 5, lifetimeRedeemed: 3 });
+    expect((await ledgerService.list(customerId)).transactions.map((t) => t.amountPoints)).toEqual([-3, 5]);
+  });
+
+  it('refuses a burn beyond the balance without writing to the ledger', async () => {
+    await earn('business-1', 2);
+
+    await expect(burn('business-1', 3)).rejects.toMatchObject({ statusCode: 400 });
+    expect(await redisClient.xlen(REDIS_KEYS.customerLedger(customerId))).toBe(1);
+  });
+
+  it('never overdraws when burns race', async () => {
+    await earn('business-1', 3);
+    const results = await Promise.allSettled([burn('business-1', 2), burn('business-1', 2)]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect((await ledgerService.getBalance(customerId, 'business-1')).availablePoints).toBe(1);
+  });
+
+  it('seeds a business balance from stamps collected before the ledger, but not a program balance', async () => {
+    await redisClient.rpush(REDIS_KEYS.customerStamps(customerId, 'business-1'), '{}', '{}', '{}');
+
+    expect((await earn('business-1')).balance.availablePoints).toBe(4);
+    expect((await earn('business-1', 1, { programId: 'program-1' })).balance.availablePoints).toBe(1);
+  });
+
+  it('rejects zero and fractional amounts', async () => {
+    await expect(earn('business-1', 0)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(earn('business-1', 1.5)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('ledgerService.list', () => {
+  it('pages newest first without gaps or repeats, filtered to one business', async () => {
+    for (let i = 1; i <= 7; i++) {
+      await earn('business-1', i);
+      await earn('business-2', 100);
+    }
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await ledgerService.list(customerId, { businessId: 'business-1', limit: 3, cursor });
+      seen.push(...page.transactions.map((t) => t.amountPoints));
+      if (!page.nextCursor) break;
+      cursor = page.nextCursor;
+    }
+
+    expect(seen).toEqual([7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it('rejects a cursor that is not a ledger entry id', async () => {
+    await expect(ledgerService.list(customerId, { cursor: 'abc' })).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('ledgerService.earnedSince', () => {
+  it('counts earns and spend in scope, not burns', async () => {
+    await earn('business-1', 4, { monetaryValue: 12.5 });
+    await earn('business-1', 2, { monetaryValue: 0.25 });
+    await burn('business-1', 3);
+    await earn('business-2', 9);
+
+    expect(await ledgerService.earnedSince(customerId, new Date(0), { businessId: 'business-1' })).toEqual({ points: 6, spend: 12.75 });
+  });
+});
@@ -0,0 +1,77 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { locationService } from '../locationService';
+import { stampService } from '../stampService';
+
+const businessId = 'business-1';
+
+const branch = (fields: Record<string, unknown> = {}) => ({
+  name: 'High Street',
+  address: { line1: '1 High Street', city: 'Middlesbrough', postcode: 'ts1 1aa' },
+  coordinates: { latitude: 54.5742, longitude: -1.2349 },
+  openingHours: { monday: { open: '09:00', close: '17:00' } },
+  ...fields,
+});
+
+describe('locationService.create', () => {
+  it('stores a validated location and indexes it for geo search', async () => {
+    const location = await locationService.create(businessId, branch());
+
+    expect(location).toMatchObject({ businessId, isActive: true, address: { postcode: 'TS1 1AA', country: 'GB' } });
+    expect(await redisClient.smembers(REDIS_KEYS.businessLocations(businessId))).toEqual([location.id]);
+    expect(await redisClient.zscore(REDIS_KEYS.geoPlaces(), `${businessId}:${location.id}`)).not.toBeNull();
+  });
+
+  it('rejects bad coordinates, unknown weekdays and malformed hours', async () => {
+    await expect(locationService.create(businessId, branch({ coordinates: { latitude: 91, longitude: 0 } }))).rejects.toMatchObject({ statusCode: 400 });
+    await expect(locationService.create(businessId, branch({ openingHours: { funday: { open: '09:00', close: '17:00' } } }))).rejects.toMatchObject({ statusCode: 400 });
+    await expect(locationService.create(businessId, branch({ openingHours: { monday: { open: '9am', close: '17:00' } } }))).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('locationService.update', () => {
+  it('is limited to the owning business, and deactivating takes the location out of the geo index', async () => {
+    const location = await locationService.create(businessId, branch());
+
+    await expect(locationService.update('business-2', location.id, { name: 'Mine' })).rejects.toMatchObject({ statusCode: 404 });
+    await locationService.deactivate(businessId, location.id);
+
+    expect(await redisClient.zscore(REDIS_KEYS.geoPlaces(), `${businessId}:${location.id}`)).toBeNull();
+    await expect(locationService.requireActive(businessId, location.id)).rejects.toMatchObject({ statusCode: 400 });
+    expect(await locationService.listForBusiness(businessId, { activeOnly: true })).toEqual([]);
+  });
+});
+
+describe('per-location activity', () => {
+  it('counts stamps and check-ins per location and distinct customers', async () => {
+    const location = await locationService.create(businessId, branch());
+
+    await stampService.issue({ memberId: 'customer-1', businessId, locationId: location.id, amount: 2 });
+    await locationService.checkIn(location, 'customer-1', { method: 'qr' });
+    await locationService.checkIn(location, 'customer-2', {});
+
+    expect(await locationService.statsForBusiness(businessId)).toEqual([
+      expect.objectContaining({ locationId: location.id, stamps: 2, checkIns: 2, redemptions: 0, customers: 2 }),
+    ]);
+    await expect(locationService.checkIn(location, 'customer-1', { method: 'carrier pigeon' })).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('does not attribute activity to another business\'s location', async () => {
+    const location = await locationService.create('business-2', branch());
+
+    await expect(locationService.requireActive(businessId, location.id)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('locationService.isBusinessOpenAt', () => {
+  it('is open when any active branch is, and unknown without hours', async () => {
+    expect(await locationService.isBusinessOpenAt(businessId, new Date('2026-06-15T10:00:00Z'))).toBeNull();
+
+    await locationService.create(businessId, branch());
+    await locationService.create(businessId, branch({ name: 'Late shop', openingHours: { monday: { open: '18:00', close: '02:00' } } }));
+
+    // Monday 15 June 2026 (BST): 11:00, 17:30 and 01:30 on Tuesday morning
+    expect(await locationService.isBusinessOpenAt(businessId, new Date('2026-06-15T10:00:00Z'))).toBe(true);
+    expect(await locationService.isBusinessOpenAt(businessId, new Date('2026-06-15T16:30:00Z'))).toBe(false);
+    expect(await locationService.isBusinessOpenAt(businessId, new Date('2026-06-16T00:30:00Z'))).toBe(true);
+  });
+});
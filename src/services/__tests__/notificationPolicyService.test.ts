@@ -0,0 +1,167 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { notificationPolicyService, PolicySubject } from '../notificationPolicyService';
+import type { Customer } from '../../types';
+
+const businessId = 'business-1';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Monday 15 June 2026, 13:00 in the UK (BST). */
+const monday = new Date('2026-06-15T12:00:00.000Z');
+
+const customer = (id = 'customer-1', quietHours?: Customer['preferences']['quietHours']): Customer =>
+  ({ id, preferences: { notifications: true, push: true, ...(quietHours !== undefined ? { quietHours } : {}) } } as unknown as Customer);
+
+let sent = 0;
+const campaign = (fields: Partial<PolicySubject> = {}): PolicySubject =>
+  ({ id: `n-${++sent}`, type: 'campaign', businessId, createdAt: monday.toISOString(), ...fields });
+
+/** A starter plan subscription (500 marketing notifications a month; the free plan has none). */
+const subscribe = (fields: Record<string, unknown> = {}, id = businessId) =>
+  redisClient.set(`subscription:${id}`, JSON.stringify({ businessId: id, planId: 'starter', status: 'active', ...fields }));
+
+beforeEach(async () => {
+  for (const id of [businessId, 'business-2', 'business-3', 'business-4', 'business-5']) {
+    await subscribe({}, id);
+  }
+});
+
+describe('notificationPolicyService.quietUntil', () => {
+  it('holds marketing during the platform quiet hours in UK time, but not other notifications', () => {
+    // 22:30 BST
+    const evening = new Date('2026-06-15T21:30:00.000Z');
+
+    expect(notificationPolicyService.quietUntil(customer(), 'campaign', evening)).toEqual(new Date('2026-06-16T07:00:00.000Z'));
+    expect(notificationPolicyService.quietUntil(customer(), 'stamp_earned', evening)).toBeNull();
+    expect(notificationPolicyService.quietUntil(customer(), 'campaign', monday)).toBeNull();
+  });
+
+  it('ends quiet hours after midnight on the same morning', () => {
+    // 01:00 GMT on Thursday 15 January
+    expect(notificationPolicyService.quietUntil(customer(), 'campaign', new Date('2026-01-15T01:00:00.000Z'))).toEqual(new Date('2026-01-15T08:00:00.000Z'));
+  });
+
+  it('applies the customer\'s own quiet hours to every notification, and none when they turned them off', () => {
+    const own = customer('customer-1', { start: '12:30', end: '14:00' });
+
+    expect(notificationPolicyService.quietUntil(own, 'stamp_earned', monday)).toEqual(new Date('2026-06-15T13:00:00.000Z'));
+    expect(notificationPolicyService.quietUntil(customer('customer-1', null), 'campaign', new Date('2026-06-15T21:30:00.000Z'))).toBeNull();
+  });
+});
+
+describe('notificationPolicyService.admit', () => {
+  it('defers marketing in quiet hours, and suppresses geofence offers instead', async () => {
+    const evening = new Date('2026-06-15T21:30:00.000Z');
+
+    expect(await notificationPolicyService.admit(customer(), campaign(), evening)).toEqual({
+      action: 'defer',
+      until: new Date('2026-06-16T07:00:00.000Z'),
+      reason: 'quiet_hours',
+    });
+    expect(await notificationPolicyService.admit(customer(), campaign({ type: 'geofence_enter' }), evening)).toEqual({ action: 'suppress', reason: 'quiet_hours' });
+  });
+
+  it('suppresses a message that would be sent more than 48 hours after it was queued', async () => {
+    const queuedAt = new Date(monday.getTime() - 40 * HOUR_MS).toISOString();
+
+    expect(await notificationPolicyService.admit(customer(), campaign({ createdAt: queuedAt }), new Date('2026-06-15T21:30:00.000Z')))
+      .toEqual({ action: 'suppress', reason: 'expired' });
+  });
+
+  it('caps marketing from one business at 2 a day, until the oldest send is a day old', async () => {
+    await notificationPolicyService.admit(customer(), campaign(), monday);
+    await notificationPolicyService.admit(customer(), campaign(), new Date(monday.getTime() + HOUR_MS));
+
+    const third = await notificationPolicyService.admit(customer(), campaign(), new Date(monday.getTime() + 2 * HOUR_MS));
+
+    expect(third).toEqual({ action: 'defer', until: new Date(monday.getTime() + DAY_MS), reason: 'frequency_cap' });
+    expect(await notificationPolicyService.admit(customer(), campaign({ businessId: 'business-2' }), monday)).toEqual({ action: 'send' });
+    expect(await notificationPolicyService.admit(customer('customer-2'), campaign(), monday)).toEqual({ action: 'send' });
+  });
+
+  it('caps marketing per customer across businesses at 5 a day', async () => {
+    for (let i = 1; i <= 5; i++) {
+      expect(await notificationPolicyService.admit(customer(), campaign({ businessId: `business-${i}` }), monday)).toEqual({ action: 'send' });
+    }
+
+    expect(await notificationPolicyService.admit(customer(), campaign({ businessId: 'business-2' }), monday)).toMatchObject({ reason: 'frequency_cap' });
+  });
+
+  it('caps marketing from one business at 5 a week', async () => {
+    const onDay = (day: number) => new Date(monday.getTime() + day * DAY_MS);
+    for (let day = 0; day < 5; day++) {
+      expect(await notificationPolicyService.admit(customer(), campaign({ createdAt: onDay(day).toISOString() }), onDay(day))).toEqual({ action: 'send' });
+    }
+
+    expect(await notificationPolicyService.admit(customer(), campaign({ createdAt: onDay(5).toISOString() }), onDay(5)))
+      .toEqual({ action: 'defer', until: new Date(monday.getTime() + 7 * DAY_MS), reason: 'frequency_cap' });
+  });
+
+  it('does not cap or count other notifications, or a retry of one already admitted', async () => {
+    const retried = campaign();
+    await notificationPolicyService.admit(customer(), retried, monday);
+    await notificationPolicyService.admit(customer(), campaign(), monday);
+
+    expect(await notificationPolicyService.admit(customer(), retried, monday)).toEqual({ action: 'send' });
+    expect(await notificationPolicyService.admit(customer(), campaign({ type: 'stamp_earned' }), monday)).toEqual({ action: 'send' });
+    expect((await notificationPolicyService.budget(businessId, monday)).used).toBe(2);
+  });
+
+  it('suppresses marketing once the month\'s budget is used', async () => {
+    await redisClient.set(REDIS_KEYS.businessNotificationCount(businessId, '2026-06'), '500');
+
+    expect(await notificationPolicyService.admit(customer(), campaign(), monday)).toEqual({ action: 'suppress', reason: 'budget' });
+  });
+});
+
+describe('notificationPolicyService.release', () => {
+  it('gives back the budget and cap slots of a message that was not sent, once', async () => {
+    const unsent = campaign();
+    await notificationPolicyService.admit(customer(), unsent, monday);
+    await notificationPolicyService.admit(customer(), campaign(), monday);
+
+    expect(await notificationPolicyService.release('customer-1', unsent)).toBe(true);
+    expect(await notificationPolicyService.release('customer-1', unsent)).toBe(false);
+
+    expect((await notificationPolicyService.budget(businessId, monday)).used).toBe(1);
+    expect(await notificationPolicyService.admit(customer(), campaign(), monday)).toEqual({ action: 'send' });
+  });
+
+  it('gives the budget back to the month it was admitted in', async () => {
+    const unsent = campaign();
+    // 23:30 BST on 30 June
+    const endOfJune = new Date('2026-06-30T22:30:00.000Z');
+    await notificationPolicyService.admit(customer('customer-1', null), unsent, endOfJune);
+    await redisClient.set(REDIS_KEYS.businessNotificationCount(businessId, '2026-07'), '3');
+
+    await notificationPolicyService.release('customer-1', unsent);
+
+    expect((await notificationPolicyService.budget(businessId, endOfJune)).used).toBe(0);
+    expect((await notificationPolicyService.budget(businessId, new Date('2026-07-01T12:00:00.000Z'))).used).toBe(3);
+  });
+});
+
+describe('notificationPolicyService.budget', () => {
+  it('uses the plan\'s monthly limit, and the free plan\'s without a subscription', async () => {
+    expect(await notificationPolicyService.budget(businessId, monday)).toEqual({ month: '2026-06', used: 0, limit: 500, remaining: 500 });
+    expect(await notificationPolicyService.budget('business-9', monday)).toMatchObject({ limit: 0, remaining: 0 });
+  });
+
+  it('keeps a cancelled plan until the end of its period', async () => {
+    await subscribe({ status: 'cancelled', currentPeriodEnd: '2026-06-20T00:00:00.000Z' });
+
+    expect((await notificationPolicyService.budget(businessId, monday)).limit).toBe(500);
+    expect((await notificationPolicyService.budget(businessId, new Date('2026-06-21T00:00:00.000Z'))).limit).toBe(0);
+  });
+
+  it('drops to the free plan once a period is over or the subscription stopped', async () => {
+    await subscribe({ currentPeriodEnd: '2026-06-01T00:00:00.000Z' });
+    expect((await notificationPolicyService.budget(businessId, monday)).limit).toBe(0);
+
+    await subscribe({ status: 'unpaid', currentPeriodEnd: '2026-07-01T00:00:00.000Z' });
+    expect((await notificationPolicyService.budget(businessId, monday)).limit).toBe(0);
+
+    await subscribe({ status: 'cancelled' });
+    expect((await notificationPolicyService.budget(businessId, monday)).limit).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { notificationTemplateService, renderText, canonicalLocale } from '../notificationTemplateService';
+
+const businessId = 'business-1';
+const key = 'points_expiring';
+const wording = (locale: string, message = `{amount} {currency} (${locale})`) => ({ key, locale, title: `Expiring (${locale})`, message });
+
+beforeEach(async () => {
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe' }));
+  await redisClient.set(REDIS_KEYS.customer('customer-1'), JSON.stringify({ id: 'customer-1', firstName: 'Sam', locale: 'cy-GB' }));
+});
+
+describe('renderText', () => {
+  it('picks the singular only for a count of exactly one', () => {
+    const text = '{days} {days|day|days} left';
+
+    expect(renderText(text, { days: 1 }).text).toBe('1 day left');
+    expect(renderText(text, { days: 0 }).text).toBe('0 days left');
+    expect(renderText(text, { days: 2 }).text).toBe('2 days left');
+    expect(renderText(text, { days: '1' }).text).toBe('1 day left');
+  });
+
+  it('renders missing values empty, uses the plural form for them and reports them', () => {
+    expect(renderText('Hi {firstName}, {days|day|days}', { firstName: '' })).toEqual({ text: 'Hi , days', missing: ['firstName', 'days'] });
+  });
+
+  it('leaves text that is not a placeholder alone', () => {
+    expect(renderText('{not a placeholder} {a|b} {}', {}).text).toBe('{not a placeholder} {a|b} {}');
+  });
+});
+
+describe('canonicalLocale', () => {
+  it('canonicalises language tags and rejects anything else', () => {
+    expect(canonicalLocale('en-gb')).toBe('en-GB');
+    expect(canonicalLocale(' cy ')).toBe('cy');
+    expect(canonicalLocale('not a locale')).toBeNull();
+    expect(canonicalLocale(42)).toBeNull();
+  });
+});
+
+describe('notificationTemplateService.resolve', () => {
+  it('uses the built-in en-GB wording without templates', async () => {
+    expect(await notificationTemplateService.resolve(key, businessId, 'fr-FR')).toMatchObject({ locale: 'en-GB', source: 'default', title: 'Your {currency} expire soon' });
+  });
+
+  it('prefers the business\'s wording over the platform\'s for the same locale', async () => {
+    await notificationTemplateService.create(null, wording('en-GB'));
+    const own = await notificationTemplateService.create(businessId, wording('en-GB'));
+
+    expect(await notificationTemplateService.resolve(key, businessId)).toMatchObject({ source: 'business', templateId: own.id });
+    expect(await notificationTemplateService.resolve(key, 'business-2')).toMatchObject({ source: 'platform' });
+  });
+
+  it('falls back from the locale to its language, then to en-GB, before trying other sources', async () => {
+    await notificationTemplateService.create(businessId, wording('en-GB'));
+    await notificationTemplateService.create(null, wording('cy'));
+
+    expect(await notificationTemplateService.resolve(key, businessId, 'cy-GB')).toMatchObject({ locale: 'cy', source: 'platform' });
+    expect(await notificationTemplateService.resolve(key, businessId, 'fr-FR')).toMatchObject({ locale: 'en-GB', source: 'business' });
+    expect(await notificationTemplateService.resolve(key, businessId, 'nonsense locale')).toMatchObject({ locale: 'en-GB', source: 'business' });
+  });
+
+  it('skips inactive templates', async () => {
+    const paused = await notificationTemplateService.create(businessId, { ...wording('cy'), isActive: false });
+
+    expect(await notificationTemplateService.resolve(key, businessId, 'cy')).toMatchObject({ source: 'default' });
+
+    await notificationTemplateService.update(businessId, paused.id, { isActive: true });
+    expect(await notificationTemplateService.resolve(key, businessId, 'cy')).toMatchObject({ source: 'business', locale: 'cy' });
+  });
+});
+
+describe('notificationTemplateService.render', () => {
+  it('renders in the customer\'s locale with their name and the business name', async () => {
+    await notificationTemplateService.create(businessId, {
+      key,
+      locale: 'cy',
+      title: 'Helo {firstName}',
+      message: '{amount} {currency} yn {businessName}, {days} {days|diwrnod|diwrnodau}',
+    });
+
+    const rendered = await notificationTemplateService.render(key, { businessId, customerId: 'customer-1' }, { amount: 5, currency: 'pwynt', days: 1 });
+
+    expect(rendered).toMatchObject({ title: 'Helo Sam', message: '5 pwynt yn Cafe, 1 diwrnod', locale: 'cy', missingVariables: [] });
+  });
+
+  it('reports variables the caller did not supply', async () => {
+    const rendered = await notificationTemplateService.render(key, { businessId }, { amount: 5 });
+
+    expect(rendered.missingVariables.sort()).toEqual(['currency', 'days', 'expiresOn']);
+  });
+});
+
+describe('notificationTemplateService.create', () => {
+  it('rejects unknown keys, locales and variables and a second template for a key and locale', async () => {
+    await expect(notificationTemplateService.create(businessId, { ...wording('en-GB'), key: 'nope' })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(notificationTemplateService.create(businessId, wording('not a locale'))).rejects.toMatchObject({ statusCode: 400 });
+    await expect(notificationTemplateService.create(businessId, wording('en-GB', 'Hi {rewardName}'))).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'message uses unknown variables: rewardName',
+    });
+
+    await notificationTemplateService.create(businessId, wording('en-gb'));
+    await expect(notificationTemplateService.create(businessId, wording('en-GB'))).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('notificationTemplateService.preview', () => {
+  it('renders a draft with the catalogue samples and the business name', async () => {
+    const preview = await notificationTemplateService.preview(businessId, { key, message: '{amount} {currency} in {days} {days|day|days}' });
+
+    expect(preview).toMatchObject({ message: '120 points in 7 days', source: 'business', missingVariables: [] });
+    expect(preview.title).toBe('Your points expire soon');
+  });
+
+  it('renders the saved wording for a locale with the given variables', async () => {
+    await notificationTemplateService.create(businessId, wording('cy'));
+
+    expect(await notificationTemplateService.preview(businessId, { key, locale: 'cy', variables: { amount: 1, currency: 'stamp' } }))
+      .toMatchObject({ title: 'Expiring (cy)', message: '1 stamp (cy)' });
+  });
+});
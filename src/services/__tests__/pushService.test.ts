@@ -0,0 +1,171 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { fakePushOutbox } from '../pushProviders';
+import { notificationService, NewNotification } from '../notificationService';
+import { notificationPolicyService } from '../notificationPolicyService';
+import { pushService } from '../pushService';
+
+const memberId = 'member-1';
+const businessId = 'business-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function addMember(tokens: string[], fields: Record<string, unknown> = {}): Promise<void> {
+  await redisClient.set(REDIS_KEYS.customer(memberId), JSON.stringify({ id: memberId, firstName: 'Sam', ...fields }));
+  for (const token of tokens) {
+    await redisClient.hset(REDIS_KEYS.memberDevices(memberId), token, JSON.stringify({ token, platform: 'android' }));
+  }
+}
+
+/** A business on the starter plan (500 marketing notifications a month; the free plan has none). */
+const subscribe = () => redisClient.set(`subscription:${businessId}`, JSON.stringify({ businessId, planId: 'starter', status: 'active' }));
+
+const queue = (fields: Partial<NewNotification> = {}) =>
+  notificationService.queue(memberId, { type: 'stamp_earned', title: 'Stamp earned', message: 'You earned a stamp', ...fields });
+
+/** The stored copy of a notification in the member's in-app history. */
+async function stored(id: string): Promise<Record<string, any> | undefined> {
+  const history = await redisClient.lrange(REDIS_KEYS.memberNotifications(memberId), 0, -1);
+  return history.map((raw) => JSON.parse(raw)).find((notification) => notification.id === id);
+}
+
+beforeEach(() => {
+  fakePushOutbox.length = 0;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('pushService.run', () => {
+  it('claims a queued notification, delivers it to every device and acknowledges it', async () => {
+    await addMember(['phone-1', 'tablet-1']);
+    const notification = await queue();
+
+    const result = await pushService.run();
+
+    expect(result).toMatchObject({ claimed: 1, sent: 1, delivered: 1, retried: 0 });
+    expect(fakePushOutbox.map((send) => send.token).sort()).toEqual(['phone-1', 'tablet-1']);
+    expect(await redisClient.llen(REDIS_KEYS.pendingNotifications())).toBe(0);
+    expect(await redisClient.llen(REDIS_KEYS.processingNotifications())).toBe(0);
+    expect(await redisClient.zcard(REDIS_KEYS.inflightNotifications())).toBe(0);
+    expect(await stored(notification.id)).toMatchObject({ sentAt: expect.any(String), deliveredAt: expect.any(String) });
+  });
+
+  it('takes back a claim that expired and delivers it', async () => {
+    await addMember(['phone-1']);
+    const raw = JSON.stringify({ id: 'n-1', memberId, type: 'stamp_earned', title: 'Hi', message: 'Hi', channels: ['push'] });
+    await redisClient.lpush(REDIS_KEYS.processingNotifications(), raw);
+    await redisClient.zadd(REDIS_KEYS.inflightNotifications(), Date.now() - 1000, raw);
+
+    const result = await pushService.run();
+
+    expect(result).toMatchObject({ reaped: 1, claimed: 1, delivered: 1 });
+    expect(await redisClient.llen(REDIS_KEYS.processingNotifications())).toBe(0);
+  });
+
+  it('prunes unregistered tokens', async () => {
+    await addMember(['phone-1', 'invalid-1']);
+    await queue();
+
+    const result = await pushService.run();
+
+    expect(result).toMatchObject({ sent: 1, pruned: 1 });
+    expect(await redisClient.hkeys(REDIS_KEYS.memberDevices(memberId))).toEqual(['phone-1']);
+  });
+
+  it('retries only the devices that failed, then dead-letters the message after the last attempt', async () => {
+    await addMember(['phone-1', 'retry-1']);
+    const notification = await queue();
+
+    const first = await pushService.run();
+    expect(first).toMatchObject({ sent: 1, retried: 1 });
+    const [retry] = (await redisClient.zrange(REDIS_KEYS.retryNotifications(), 0, -1)).map((raw) => JSON.parse(raw));
+    expect(retry).toMatchObject({ id: notification.id, attempts: 1, channels: ['push'], tokens: ['retry-1'] });
+
+    // Backoff has passed for each later run
+    let at = Date.now();
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      at += DAY_MS;
+      await pushService.run(new Date(at));
+    }
+
+    expect(fakePushOutbox.map((send) => send.token)).toEqual(['phone-1']);
+    expect(await redisClient.zcard(REDIS_KEYS.retryNotifications())).toBe(0);
+    const [dead] = await pushService.deadLetters();
+    expect(dead).toMatchObject({ id: notification.id, attempts: 5, lastError: 'Unavailable' });
+
+    expect(await pushService.requeueDead()).toEqual({ requeued: 1 });
+    const [requeued] = (await redisClient.lrange(REDIS_KEYS.pendingNotifications(), 0, -1)).map((raw) => JSON.parse(raw));
+    expect(requeued.attempts).toBeUndefined();
+  });
+
+  it('defers marketing during quiet hours and sends it once they are over', async () => {
+    // 22:00 in the UK (GMT in January): inside the default 21:00-08:00 quiet hours
+    jest.useFakeTimers({ now: new Date('2026-01-15T22:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    await addMember(['phone-1']);
+    await subscribe();
+    const notification = await queue({ type: 'campaign', businessId });
+
+    const result = await pushService.run();
+
+    expect(result).toMatchObject({ deferred: 1, sent: 0 });
+    expect(fakePushOutbox).toHaveLength(0);
+    const [deferred] = await pushService.deferred();
+    expect(deferred).toMatchObject({ id: notification.id, deferredReason: 'quiet_hours', deferredUntil: '2026-01-16T08:00:00.000Z' });
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(0);
+
+    jest.setSystemTime(new Date('2026-01-16T08:05:00Z'));
+    const later = await pushService.run();
+
+    expect(later).toMatchObject({ undeferred: 1, sent: 1 });
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(1);
+  });
+
+  it('gives back the budget of a marketing message that was dead-lettered without being sent', async () => {
+    let at = new Date('2026-01-15T12:00:00Z').getTime();
+    jest.useFakeTimers({ now: at, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    await addMember(['retry-1']);
+    await subscribe();
+    await queue({ type: 'campaign', businessId });
+
+    await pushService.run();
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(1);
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      at += 60 * 60 * 1000;
+      jest.setSystemTime(at);
+      await pushService.run();
+    }
+
+    expect(await pushService.deadLetters()).toHaveLength(1);
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(0);
+    expect(await redisClient.zcard(REDIS_KEYS.memberNotificationSends(memberId))).toBe(0);
+  });
+
+  it('keeps the budget of a message sent on one channel while another is retried', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-15T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    await addMember(['phone-1', 'retry-1']);
+    await subscribe();
+    await queue({ type: 'campaign', businessId });
+
+    await pushService.run();
+    const [retry] = (await redisClient.zrange(REDIS_KEYS.retryNotifications(), 0, -1)).map((raw) => JSON.parse(raw));
+
+    expect(retry.sentAt).toEqual(expect.any(String));
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(1);
+  });
+
+  it('does not use the business budget for a member with nowhere to send it', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-15T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    await addMember([]);
+    await subscribe();
+    await queue({ type: 'campaign', businessId });
+
+    const result = await pushService.run();
+
+    expect(result).toMatchObject({ claimed: 1, sent: 0, suppressed: 0 });
+    expect(await redisClient.llen(REDIS_KEYS.processingNotifications())).toBe(0);
+    expect((await notificationPolicyService.budget(businessId)).used).toBe(0);
+    expect(await redisClient.zcard(REDIS_KEYS.memberNotificationSends(memberId))).toBe(0);
+  });
+});
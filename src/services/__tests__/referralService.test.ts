@@ -0,0 +1,167 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { referralService, normaliseEmail } from '../referralService';
+import { stampService } from '../stampService';
+import { ledgerService } from '../ledgerService';
+import { programService } from '../programService';
+import type { Referral } from '../../types/extended';
+
+const businessId = 'business-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function customer(id: string, fields: Record<string, unknown> = {}): Promise<any> {
+  const doc = { id, email: `${id}@example.com`, ...fields };
+  await redisClient.set(REDIS_KEYS.customer(id), JSON.stringify(doc));
+  return doc;
+}
+
+const stored = async (id: string) => JSON.parse((await redisClient.get(REDIS_KEYS.customer(id)))!);
+
+async function refer(referredId: string, fields: Record<string, unknown> = {}): Promise<Referral> {
+  const code = await referralService.codeFor(await stored('referrer'));
+  return (await referralService.create({ referralCode: code, referredId, ...fields })).referral;
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, name: 'Cafe' }));
+  await customer('referrer', { email: 'Jo.Smith@gmail.com', deviceTokens: [{ deviceId: 'phone-1', token: 'push-1' }] });
+});
+
+describe('normaliseEmail', () => {
+  it('ignores case, +tags and Gmail dots', () => {
+    expect(normaliseEmail(' Jo.Smith+promo@GoogleMail.com')).toBe('josmith@gmail.com');
+    expect(normaliseEmail('jo.smith+promo@example.com')).toBe('jo.smith@example.com');
+  });
+});
+
+describe('referralService.codeFor', () => {
+  it('creates a code once and stores it without losing other changes to the customer', async () => {
+    const referrer = await stored('referrer');
+    const code = await referralService.codeFor(referrer);
+
+    expect(code).toMatch(/^CC[A-HJ-NP-Z2-9]{6}$/);
+    expect(await referralService.codeFor(await stored('referrer'))).toBe(code);
+    expect(await redisClient.get(REDIS_KEYS.referralCode(code))).toBe('referrer');
+    expect(await stored('referrer')).toMatchObject({ referralCode: code, deviceTokens: [{ deviceId: 'phone-1' }] });
+  });
+
+  it('returns the code another request stored first and frees its own', async () => {
+    const stale = await stored('referrer');
+    const first = await referralService.codeFor(stale);
+
+    expect(await referralService.codeFor(stale)).toBe(first);
+    expect((await redisClient.keys(REDIS_KEYS.referralCode('*'))).length).toBe(1);
+  });
+
+  it('stores the code on customers kept only under the legacy member key', async () => {
+    await redisClient.set(REDIS_KEYS.member('legacy'), JSON.stringify({ id: 'legacy' }));
+
+    const code = await referralService.codeFor({ id: 'legacy' });
+
+    expect(JSON.parse((await redisClient.get(REDIS_KEYS.member('legacy')))!).referralCode).toBe(code);
+  });
+});
+
+describe('referralService.create', () => {
+  it('records a pending referral once per referred customer', async () => {
+    await customer('friend');
+
+    const referral = await refer('friend');
+
+    expect(referral).toMatchObject({ referrerId: 'referrer', referredId: 'friend', status: 'pending' });
+    expect((await stored('friend')).referredBy).toBe('referrer');
+    await expect(refer('friend')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('rejects the referrer referring themselves', async () => {
+    await expect(refer('referrer')).rejects.toMatchObject({ statusCode: 400, details: { reason: 'SELF_REFERRAL' } });
+  });
+
+  it('rejects a friend on one of the referrer\'s devices', async () => {
+    await customer('same-phone', { deviceTokens: [{ token: 'push-1' }] });
+    await customer('signing-up-on-phone');
+
+    await expect(refer('same-phone')).rejects.toMatchObject({ details: { reason: 'SAME_DEVICE' } });
+    await expect(refer('signing-up-on-phone', { deviceId: 'phone-1' })).rejects.toMatchObject({ details: { reason: 'SAME_DEVICE' } });
+  });
+
+  it('rejects matching email addresses but not a similar name elsewhere', async () => {
+    await customer('alias', { email: 'josmith+2@gmail.com' });
+    await customer('numbered', { email: 'jo_smith2@gmail.com' });
+    await customer('namesake', { email: 'jo.smith@example.com' });
+
+    await expect(refer('alias')).rejects.toMatchObject({ details: { reason: 'SAME_EMAIL' } });
+    await expect(refer('numbered')).rejects.toMatchObject({ details: { reason: 'SAME_EMAIL' } });
+    await expect(refer('namesake')).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('rejects unknown codes and customers', async () => {
+    await customer('friend');
+
+    await expect(referralService.create({ referralCode: 'CCZZZZZZ', referredId: 'friend' })).rejects.toMatchObject({ statusCode: 404 });
+    await expect(refer('nobody')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('referralService.onEarn', () => {
+  it('completes and rewards both sides once the friend earns their first stamp', async () => {
+    await customer('friend');
+    await referralService.createRule(businessId, { name: 'Bring a friend', referrerReward: 2, referredReward: 1 });
+    const referral = await refer('friend');
+
+    await stampService.issue({ memberId: 'friend', businessId });
+    const rewarded = await referralService.onEarn('friend', businessId);
+
+    expect(rewarded).toMatchObject({ id: referral.id, status: 'rewarded', rewardAmount: 2, referredRewardAmount: 1 });
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps('referrer', businessId))).toBe(2);
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps('friend', businessId))).toBe(2);
+    expect(await redisClient.zscore(REDIS_KEYS.leaderboard('referrals'), 'referrer')).toBe('1');
+    expect(await referralService.onEarn('friend', businessId)).toBeNull();
+  });
+
+  it('gives program rewards the program\'s expiry rule and tier upgrade', async () => {
+    const program = await programService.create(businessId, { name: 'Coffee club', type: 'tiered', currency: 'points' });
+    const silver = await programService.saveTier(program.id, { name: 'Silver', level: 1, minPoints: 10 });
+    await programService.saveRule(program.id, { type: 'expiry', name: 'Use within 90 days', action: { expiryDays: 90 }, isActive: true });
+    await customer('friend');
+    await referralService.createRule(businessId, { name: 'Bring a friend', programId: program.id, referrerReward: 20, referredReward: 0 });
+    await refer('friend');
+
+    await ledgerService.record({ customerId: 'friend', businessId, programId: program.id, type: 'earn', source: 'qr', amountPoints: 1 });
+    await referralService.onEarn('friend', businessId, program.id);
+
+    const balance = await ledgerService.getBalance('referrer', businessId, program.id);
+    expect(balance.availablePoints).toBe(20);
+    expect(Date.parse(balance.expiresAt!)).toBeGreaterThan(Date.now() + 89 * DAY_MS);
+    expect((await programService.getMembership(program.id, 'referrer'))?.currentTierId).toBe(silver.id);
+  });
+
+  it('does not complete a referral after the rule\'s window', async () => {
+    await customer('friend');
+    await referralService.createRule(businessId, { name: 'Bring a friend', windowDays: 30 });
+    const referral = await refer('friend');
+    await redisClient.set(REDIS_KEYS.referral(referral.id), JSON.stringify({ ...referral, createdAt: new Date(Date.now() - 31 * DAY_MS).toISOString() }));
+
+    await stampService.issue({ memberId: 'friend', businessId });
+
+    expect(await referralService.onEarn('friend', businessId)).toBeNull();
+    expect((await referralService.get(referral.id))?.status).toBe('pending');
+  });
+
+  it('completes but stops rewarding a referrer past maxRewardsPerReferrer', async () => {
+    await customer('friend-1');
+    await customer('friend-2');
+    await referralService.createRule(businessId, { name: 'Bring a friend', referrerReward: 1, referredReward: 1, maxRewardsPerReferrer: 1 });
+    await refer('friend-1');
+    await refer('friend-2');
+
+    for (const friend of ['friend-1', 'friend-2']) {
+      await stampService.issue({ memberId: friend, businessId });
+      await referralService.onEarn(friend, businessId);
+    }
+
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps('referrer', businessId))).toBe(1);
+    expect(await redisClient.zscore(REDIS_KEYS.leaderboard('referrals'), 'referrer')).toBe('2');
+  });
+});
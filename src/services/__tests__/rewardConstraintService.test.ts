@@ -0,0 +1,99 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { rewardConstraintService } from '../rewardConstraintService';
+import type { Reward } from '../../types';
+
+const memberId = 'member-1';
+
+const reward = (fields: Partial<Reward> = {}): Reward => ({
+  id: 'reward-1',
+  businessId: 'business-1',
+  name: 'Free coffee',
+  description: '',
+  stampsRequired: 3,
+  type: 'freebie',
+  isActive: true,
+  validFrom: '2020-01-01T00:00:00.000Z',
+  createdAt: '2020-01-01T00:00:00.000Z',
+  updatedAt: '2020-01-01T00:00:00.000Z',
+  currentRedemptions: 0,
+  ...fields,
+});
+
+/** Monday 15 June 2026, 13:30 in the UK (BST). */
+const at = new Date('2026-06-15T12:30:00.000Z');
+
+const codes = async (fields: Partial<Reward>, context: Record<string, unknown> = {}) =>
+  (await rewardConstraintService.check(reward(fields), { memberId, at, ...context })).map((r) => r.code);
+
+describe('rewardConstraintService.check', () => {
+  it('accepts an unconstrained active reward', async () => {
+    expect(await codes({})).toEqual([]);
+  });
+
+  it('rejects inactive rewards and rewards outside validFrom/validTo', async () => {
+    expect(await codes({ isActive: false })).toEqual(['REWARD_INACTIVE']);
+    expect(await codes({ validFrom: '2026-07-01T00:00:00.000Z' })).toEqual(['NOT_YET_VALID']);
+    expect(await codes({ validTo: '2026-06-01T00:00:00.000Z' })).toEqual(['REWARD_EXPIRED']);
+    expect(await codes({ expiresAt: '2026-06-01T00:00:00.000Z' })).toEqual(['REWARD_EXPIRED']);
+  });
+
+  it('checks the day and time window in UK time and returns the window', async () => {
+    const lunch = { constraints: { dayOfWeek: [1], timeRange: { start: '13:00', end: '14:00' } } };
+    const evenings = { constraints: { timeRange: { start: '17:00', end: '23:00' } } };
+
+    expect(await codes(lunch)).toEqual([]);
+    expect(await rewardConstraintService.check(reward(evenings), { memberId, at })).toEqual([
+      { code: 'OUTSIDE_TIME_WINDOW', window: { daysOfWeek: undefined, start: '17:00', end: '23:00' } },
+    ]);
+    expect(await codes({ constraints: { dayOfWeek: [0, 6] } })).toEqual(['OUTSIDE_TIME_WINDOW']);
+  });
+
+  it('needs an allowed location and the minimum spend', async () => {
+    const constrained = { constraints: { locations: ['location-1'], minSpend: 5 } };
+
+    expect(await codes(constrained, { locationId: 'location-1', spend: 5 })).toEqual([]);
+    expect(await rewardConstraintService.check(reward(constrained), { memberId, at, locationId: 'location-2', spend: 4.5 })).toEqual([
+      { code: 'LOCATION_NOT_ALLOWED', locations: ['location-1'], locationId: 'location-2' },
+      { code: 'MIN_SPEND_NOT_MET', minSpend: 5, spend: 4.5 },
+    ]);
+    expect(await codes(constrained)).toEqual(['LOCATION_NOT_ALLOWED', 'MIN_SPEND_NOT_MET']);
+  });
+
+  it('counts uses per member and redemptions per reward', async () => {
+    await redisClient.hset(REDIS_KEYS.rewardMemberUses('reward-1'), memberId, '2');
+    await redisClient.set(REDIS_KEYS.rewardRedemptionCount('reward-1'), '10');
+
+    expect(await rewardConstraintService.check(reward({ constraints: { maxUsesPerMember: 2 } }), { memberId, at })).toEqual([
+      { code: 'MAX_USES_PER_MEMBER', maxUsesPerMember: 2, used: 2 },
+    ]);
+    expect(await codes({ constraints: { maxUsesPerMember: 2 } }, { memberId: 'member-2' })).toEqual([]);
+    expect(await codes({ maxRedemptions: 10 })).toEqual(['MAX_REDEMPTIONS']);
+    expect(await codes({ maxRedemptions: 11 })).toEqual([]);
+  });
+
+  it('falls back to currentRedemptions before the redemption counter exists', async () => {
+    expect(await codes({ maxRedemptions: 3, currentRedemptions: 3 })).toEqual(['MAX_REDEMPTIONS']);
+  });
+
+  it('returns every failed check, not just the first', async () => {
+    expect(await codes({ isActive: false, validTo: '2026-06-01T00:00:00.000Z', constraints: { minSpend: 10 } })).toEqual([
+      'REWARD_INACTIVE',
+      'REWARD_EXPIRED',
+      'MIN_SPEND_NOT_MET',
+    ]);
+  });
+});
+
+describe('rewardConstraintService.rejected', () => {
+  it('is a 400 explaining the first reason, with all of them in the details', () => {
+    const rejections = [
+      { code: 'OUTSIDE_TIME_WINDOW' as const, window: { daysOfWeek: [1, 2], start: '12:00', end: '14:00' } },
+      { code: 'MIN_SPEND_NOT_MET' as const, minSpend: 5, spend: null },
+    ];
+
+    const error = rewardConstraintService.rejected(rejections);
+
+    expect(error).toMatchObject({ statusCode: 400, message: 'This reward can only be redeemed Mon, Tue 12:00-14:00 (UK time)' });
+    expect(error.details).toEqual({ rejections });
+  });
+});
@@ -0,0 +1,117 @@
+import { ruleEngineService } from '../ruleEngineService';
+import type { LoyaltyProgram, ProgramRule } from '../../types/extended';
+
+const program = (fields: Partial<LoyaltyProgram> = {}): LoyaltyProgram => ({
+  id: 'program-1',
+  businessId: 'business-1',
+  name: 'Coffee points',
+  type: 'points',
+  currency: 'points',
+  status: 'active',
+  defaultEarnRate: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+let created = 0;
+const rule = (type: ProgramRule['type'], fields: Partial<ProgramRule> = {}): ProgramRule => ({
+  id: `rule-${++created}`,
+  programId: 'program-1',
+  type,
+  name: `${type} ${created}`,
+  conditions: {},
+  action: {},
+  priority: 10,
+  isActive: true,
+  createdAt: `2026-01-01T00:00:${String(created % 60).padStart(2, '0')}.000Z`,
+  ...fields,
+});
+
+/** Monday 15 June 2026, 13:30 in the UK (BST). */
+const mondayLunch = { spend: 10.5, occurredAt: '2026-06-15T12:30:00.000Z' };
+
+describe('ruleEngineService.evaluateEarn', () => {
+  it('earns floor(spend × rate) points, or one stamp, with no rules', () => {
+    expect(ruleEngineService.evaluateEarn(program({ defaultEarnRate: 1.1 }), [], mondayLunch).total).toBe(11);
+    expect(ruleEngineService.evaluateEarn(program({ currency: 'stamps', type: 'stamp' }), [], { occurredAt: mondayLunch.occurredAt }).total).toBe(1);
+    expect(() => ruleEngineService.evaluateEarn(program(), [], { occurredAt: mondayLunch.occurredAt })).toThrow('spend');
+  });
+
+  it('applies only the first matching earn rule, in priority order', () => {
+    const later = rule('earn', { priority: 20, action: { multiplier: 3 } });
+    const first = rule('earn', { priority: 5, action: { multiplier: 2, bonusPoints: 1 } });
+
+    const result = ruleEngineService.evaluateEarn(program(), [later, first], mondayLunch);
+
+    expect(result).toMatchObject({ base: 10, multiplier: 2, bonus: 1, total: 21 });
+    expect(result.trace.map((t) => [t.ruleId, t.applied])).toEqual([[first.id, true], [later.id, false]]);
+  });
+
+  it('stacks every matching bonus rule on top of the earn rule', () => {
+    const rules = [
+      rule('earn', { action: { multiplier: 2 } }),
+      rule('bonus', { action: { multiplier: 1.5, bonusPoints: 2 } }),
+      rule('bonus', { action: { bonusPoints: 3 } }),
+    ];
+
+    expect(ruleEngineService.evaluateEarn(program(), rules, mondayLunch)).toMatchObject({ multiplier: 3, bonus: 5, total: 35 });
+  });
+
+  it('matches days and times in UK local time and reports the unmet conditions', () => {
+    const lunch = rule('bonus', { conditions: { dayOfWeek: [1], timeRange: { start: '13:00', end: '14:00' } }, action: { bonusPoints: 5 } });
+    const weekend = rule('bonus', { conditions: { dayOfWeek: [0, 6], minSpend: 20 }, action: { bonusPoints: 50 } });
+
+    const result = ruleEngineService.evaluateEarn(program(), [lunch, weekend], mondayLunch);
+
+    expect(result.bonus).toBe(5);
+    expect(result.trace.find((t) => t.ruleId === weekend.id)).toMatchObject({ matched: false, unmet: ['minSpend', 'dayOfWeek'] });
+  });
+
+  it('matches locations and product categories against the purchase', () => {
+    const branch = rule('bonus', { conditions: { locations: ['location-1'], productCategories: ['cake'] }, action: { bonusPoints: 4 } });
+
+    expect(ruleEngineService.evaluateEarn(program(), [branch], { ...mondayLunch, locationId: 'location-1', items: [{ sku: 'c1', category: 'cake' }] }).bonus).toBe(4);
+    expect(ruleEngineService.evaluateEarn(program(), [branch], { ...mondayLunch, locationId: 'location-2' }).bonus).toBe(0);
+  });
+
+  it('takes expiryDays from the first matching expiry rule and ignores burn rules', () => {
+    const rules = [
+      rule('expiry', { priority: 1, action: { expiryDays: 30 } }),
+      rule('expiry', { priority: 2, action: { expiryDays: 90 } }),
+      rule('burn', { action: { multiplier: 0.5 } }),
+    ];
+
+    const result = ruleEngineService.evaluateEarn(program(), rules, mondayLunch);
+
+    expect(result).toMatchObject({ total: 10, expiryDays: 30 });
+    expect(result.trace.filter((t) => t.applied)).toHaveLength(1);
+  });
+
+  it('is deterministic: rules of equal priority run in creation order whatever order they are passed in', () => {
+    const a = rule('earn', { action: { multiplier: 2 } });
+    const b = rule('earn', { action: { multiplier: 5 } });
+
+    expect(ruleEngineService.evaluateEarn(program(), [b, a], mondayLunch)).toEqual(ruleEngineService.evaluateEarn(program(), [a, b], mondayLunch));
+    expect(ruleEngineService.evaluateEarn(program(), [b, a], mondayLunch).multiplier).toBe(2);
+  });
+});
+
+describe('ruleEngineService.evaluateBurn', () => {
+  it('scales the cost by the first matching burn rule, rounding up', () => {
+    const rules = [
+      rule('burn', { priority: 1, conditions: { dayOfWeek: [1] }, action: { multiplier: 0.75 } }),
+      rule('burn', { priority: 2, action: { multiplier: 0.1 } }),
+    ];
+
+    expect(ruleEngineService.evaluateBurn(program(), rules, mondayLunch, 10)).toMatchObject({ multiplier: 0.75, cost: 8 });
+  });
+});
+
+describe('ruleEngineService.parseEvent', () => {
+  it('rejects malformed purchases', () => {
+    expect(() => ruleEngineService.parseEvent({ spend: -1 })).toThrow('spend');
+    expect(() => ruleEngineService.parseEvent({ occurredAt: 'yesterday' })).toThrow('occurredAt');
+    expect(() => ruleEngineService.parseEvent({ items: [{ category: 'cake' }] })).toThrow('items');
+  });
+});
@@ -0,0 +1,93 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { searchIndexService, tokenize } from '../searchIndexService';
+
+const business = (name: string, fields: Record<string, unknown> = {}) => ({ name, status: 'active', ...fields });
+
+const ids = async (query: string) => (await searchIndexService.search(query)).map((hit) => hit.businessId);
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await searchIndexService.index('corner', business('Coffee Corner', { category: 'Cafe', address: { city: 'Stockton' } }));
+  await searchIndexService.index('bakery', business('Greggs', { category: 'Coffee', products: ['Sausage roll', { name: 'Flat white' }] }));
+  await searchIndexService.index('nero', business('Café Nero', { profile: { city: 'Middlesbrough' } }));
+});
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and apostrophes and drops stop words', () => {
+    expect(tokenize("The Joe's Café & Bar")).toEqual(['joes', 'cafe', 'bar']);
+  });
+});
+
+describe('searchIndexService.search', () => {
+  it('ranks a word in the name above the same word in the category', async () => {
+    const hits = await searchIndexService.search('coffee');
+
+    expect(hits.map((hit) => hit.businessId)).toEqual(['corner', 'bakery']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('matches as you type, and across products and city', async () => {
+    expect(await ids('cof')).toEqual(['corner', 'bakery']);
+    expect(await ids('sausage')).toEqual(['bakery']);
+    expect(await ids('middlesbrough')).toEqual(['nero']);
+  });
+
+  it('tolerates a typo in words of four letters or more', async () => {
+    expect(await ids('cofee')).toEqual(['corner', 'bakery']);
+    expect(await ids('greggz')).toEqual(['bakery']);
+    // A partly typed word is compared with the start of longer words, and is one typo from "cafe"
+    expect(await ids('cofe')).toEqual(['corner', 'nero', 'bakery']);
+    expect(await ids('nro')).toEqual([]);
+  });
+
+  it('needs every word to match and ignores accents in the query', async () => {
+    expect(await ids('coffee stockton')).toEqual(['corner']);
+    expect(await ids('coffee middlesbrough')).toEqual([]);
+    expect(await ids('CAFÉ')).toEqual(['nero', 'corner']);
+  });
+});
+
+describe('searchIndexService.index', () => {
+  it('replaces the words of an edited business and drops it when inactive', async () => {
+    await searchIndexService.index('corner', business('Tea Rooms'));
+
+    expect(await ids('corner')).toEqual([]);
+    expect(await ids('tea')).toEqual(['corner']);
+
+    await searchIndexService.index('corner', business('Tea Rooms', { status: 'suspended' }));
+    expect(await ids('tea')).toEqual([]);
+    expect(await redisClient.sismember(REDIS_KEYS.searchDocs(), 'corner')).toBe(0);
+  });
+
+  it('forgets a word for typo matching once no business uses it', async () => {
+    await searchIndexService.index('bakery', business('Greggs'));
+    await searchIndexService.index('corner', business('Tea Rooms'));
+
+    expect(await redisClient.hexists(REDIS_KEYS.searchVocabulary(), 'coffee')).toBe(0);
+    expect(await ids('cofee')).toEqual([]);
+  });
+});
+
+describe('searchIndexService.reindex', () => {
+  it('indexes stored businesses and removes ones that no longer exist', async () => {
+    await redisClient.sadd(REDIS_KEYS.allBusinesses(), 'corner', 'new');
+    await redisClient.set(REDIS_KEYS.business('corner'), JSON.stringify(business('Coffee Corner')));
+    await redisClient.set(REDIS_KEYS.business('new'), JSON.stringify(business('Fresh Juice')));
+
+    expect(await searchIndexService.reindex()).toEqual({ indexed: 2, removed: 2 });
+    expect(await ids('juice')).toEqual(['new']);
+    expect(await ids('greggs')).toEqual([]);
+  });
+});
+
+describe('searchIndexService.highlights', () => {
+  it('marks the matched words in each field', async () => {
+    const doc = business('Coffee Corner', { category: 'Coffee shop' });
+    const [hit] = await searchIndexService.search('cof');
+
+    expect(searchIndexService.highlights(doc, hit)).toEqual([
+      { field: 'name', value: 'Coffee Corner', ranges: [[0, 6]] },
+      { field: 'category', value: 'Coffee shop', ranges: [[0, 6]] },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { segmentService } from '../segmentService';
+import { ledgerService } from '../ledgerService';
+import { locationService } from '../locationService';
+
+const businessId = 'business-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+const visit = (customerId: string, monetaryValue: number, at = businessId) =>
+  ledgerService.record({ customerId, businessId: at, type: 'earn', source: 'qr', amountPoints: 1, monetaryValue });
+
+const members = async (criteria: Record<string, unknown>, at?: Date) =>
+  (await segmentService.evaluate(businessId, criteria, at)).sort();
+
+beforeEach(async () => {
+  await redisClient.set(REDIS_KEYS.business(businessId), JSON.stringify({ id: businessId, category: 'Cafe' }));
+  await redisClient.set(REDIS_KEYS.business('business-2'), JSON.stringify({ id: 'business-2', category: 'Bakery' }));
+  await redisClient.sadd(REDIS_KEYS.businessCustomers(businessId), 'big-spender', 'regular', 'signed-up');
+  await visit('big-spender', 60);
+  await visit('big-spender', 40);
+  await visit('regular', 10);
+  await visit('big-spender', 5, 'business-2');
+});
+
+describe('segmentService.evaluate', () => {
+  it('holds every customer without criteria', async () => {
+    expect(await members({})).toEqual(['big-spender', 'regular', 'signed-up']);
+  });
+
+  it('filters on spend at this business, inclusive', async () => {
+    expect(await members({ totalSpend: { min: 100 } })).toEqual(['big-spender']);
+    expect(await members({ totalSpend: { max: 10 } })).toEqual(['regular', 'signed-up']);
+  });
+
+  it('filters on recent visits and flags customers who stopped coming', async () => {
+    expect(await members({ lastVisitDays: 7 })).toEqual(['big-spender', 'regular']);
+    expect(await members({ lastVisitDays: 7 }, daysFromNow(10))).toEqual([]);
+    expect(await members({ predictedChurn: true })).toEqual([]);
+    expect(await members({ predictedChurn: true }, daysFromNow(40))).toEqual(['big-spender', 'regular']);
+  });
+
+  it('counts the top fifth of paying customers as high value', async () => {
+    expect(await members({ highValue: true })).toEqual(['big-spender']);
+    expect(await members({ highValue: false })).toEqual(['regular', 'signed-up']);
+  });
+
+  it('matches favourite categories across every business the customer visits', async () => {
+    expect(await members({ favoriteCategories: ['bakery'] })).toEqual(['big-spender']);
+    expect(await members({ favoriteCategories: ['cafe'] })).toEqual(['big-spender', 'regular']);
+  });
+
+  it('matches customers seen at a location', async () => {
+    const location = await locationService.create(businessId, {
+      name: 'High Street',
+      address: { line1: '1 High Street', city: 'Middlesbrough', postcode: 'TS1 1AA' },
+      coordinates: { latitude: 54.5742, longitude: -1.2349 },
+    });
+    await locationService.checkIn(location, 'signed-up', {});
+
+    expect(await members({ location: [location.id] })).toEqual(['signed-up']);
+  });
+});
+
+describe('segmentService.create', () => {
+  it('materializes the members with memberCount and lastCalculatedAt', async () => {
+    const segment = await segmentService.create(businessId, { name: 'Big spenders', criteria: { totalSpend: { min: 50 } } });
+
+    expect(segment).toMatchObject({ type: 'saved', memberCount: 1, lastCalculatedAt: expect.any(String) });
+    expect(await redisClient.smembers(REDIS_KEYS.segmentMembers(segment.id))).toEqual(['big-spender']);
+    expect(await segmentService.listForBusiness(businessId)).toEqual([segment]);
+  });
+
+  it('rejects unknown criteria, bad ranges and other businesses\' locations', async () => {
+    const other = await locationService.create('business-2', {
+      name: 'Elsewhere',
+      address: { line1: '1 Other Street', city: 'Darlington', postcode: 'DL1 1AA' },
+      coordinates: { latitude: 54.5236, longitude: -1.5528 },
+    });
+
+    for (const criteria of [{ ageRange: [18, 30] }, { totalSpend: { min: 10, max: 5 } }, { lastVisitDays: 0 }, { location: [other.id] }, { highValue: 'yes' }]) {
+      await expect(segmentService.create(businessId, { name: 'Bad', criteria })).rejects.toMatchObject({ statusCode: 400 });
+    }
+  });
+});
+
+describe('segmentService.update', () => {
+  it('recalculates members when the criteria change', async () => {
+    const segment = await segmentService.create(businessId, { name: 'Spenders', criteria: { totalSpend: { min: 50 } } });
+
+    const updated = await segmentService.update(businessId, segment.id, { criteria: { lastVisitDays: 30 } });
+
+    expect(updated.memberCount).toBe(2);
+    await expect(segmentService.update('business-2', segment.id, { name: 'Mine' })).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('segmentService.memberIds', () => {
+  it('recalculates dynamic segments but reads saved ones as stored', async () => {
+    const saved = await segmentService.create(businessId, { name: 'Recent', criteria: { lastVisitDays: 30 } });
+    const dynamic = await segmentService.create(businessId, { name: 'Recent', type: 'dynamic', criteria: { lastVisitDays: 30 } });
+    await redisClient.sadd(REDIS_KEYS.businessCustomers(businessId), 'newcomer');
+    await visit('newcomer', 3);
+
+    expect((await segmentService.memberIds(saved)).sort()).toEqual(['big-spender', 'regular']);
+    expect((await segmentService.memberIds(dynamic)).sort()).toEqual(['big-spender', 'newcomer', 'regular']);
+  });
+});
+
+describe('segmentService.remove', () => {
+  it('refuses while a live campaign targets the segment', async () => {
+    const segment = await segmentService.create(businessId, { name: 'Recent', criteria: { lastVisitDays: 30 } });
+    await redisClient.set(REDIS_KEYS.campaign('campaign-1'), JSON.stringify({ id: 'campaign-1', name: 'Summer', status: 'active', segmentId: segment.id }));
+    await redisClient.sadd(REDIS_KEYS.businessCampaigns(businessId), 'campaign-1');
+
+    await expect(segmentService.remove(businessId, segment.id)).rejects.toMatchObject({ statusCode: 409 });
+
+    await redisClient.set(REDIS_KEYS.campaign('campaign-1'), JSON.stringify({ id: 'campaign-1', name: 'Summer', status: 'completed', segmentId: segment.id }));
+    await segmentService.remove(businessId, segment.id);
+    expect(await segmentService.get(segment.id)).toBeNull();
+    expect(await redisClient.exists(REDIS_KEYS.segmentMembers(segment.id))).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { ApiError } from '../../middleware/errorHandler';
+import { stampService } from '../stampService';
+import type { Reward } from '../../types';
+
+const memberId = 'member-1';
+const businessId = 'business-1';
+
+const reward = (fields: Partial<Reward> = {}): Reward => ({
+  id: 'reward-1',
+  businessId,
+  name: 'Free coffee',
+  description: '',
+  stampsRequired: 3,
+  type: 'freebie',
+  isActive: true,
+  validFrom: '2020-01-01T00:00:00.000Z',
+  createdAt: '2020-01-01T00:00:00.000Z',
+  updatedAt: '2020-01-01T00:00:00.000Z',
+  currentRedemptions: 0,
+  ...fields,
+});
+
+async function issue(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await stampService.issue({ memberId, businessId });
+  }
+}
+
+/** The rejection code of a failed redemption. */
+async function rejection(promise: Promise<unknown>): Promise<string | undefined> {
+  const error = await promise.then(() => undefined, (e: unknown) => e);
+  expect(error).toBeInstanceOf(ApiError);
+  return ((error as ApiError).details as { rejections: Array<{ code: string }> }).rejections[0].code;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('stampService.issue', () => {
+  it('adds one list entry per stamp earned and counts them in the stats', async () => {
+    const result = await stampService.issue({ memberId, businessId, amount: 3 });
+
+    expect(result.duplicate).toBe(false);
+    expect(result.stampCount).toBe(3);
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(3);
+    const stats = await redisClient.hgetall(REDIS_KEYS.dailyStats(new Date().toISOString().split('T')[0]));
+    expect(stats).toMatchObject({ stamps: '3', [`stamps:${businessId}`]: '3' });
+  });
+
+  it('turns a retried scan with the same idempotency key into a no-op that returns the original stamp', async () => {
+    const first = await stampService.issue({ memberId, businessId, idempotencyKey: 'scan-1' });
+    const retry = await stampService.issue({ memberId, businessId, idempotencyKey: 'scan-1' });
+
+    expect(retry.duplicate).toBe(true);
+    expect(retry.stamp.id).toBe(first.stamp.id);
+    expect(retry.stampCount).toBe(1);
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(1);
+  });
+
+  it('rejects an amount that is not a whole number of at most 1000, before writing anything', async () => {
+    for (const amount of [0, 1.5, 1001, 1e9]) {
+      await expect(stampService.issue({ memberId, businessId, amount })).rejects.toMatchObject({ statusCode: 400 });
+    }
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(0);
+    await expect(stampService.issue({ memberId, businessId, amount: 1000 })).resolves.toMatchObject({ stampCount: 1000 });
+  });
+
+  it('keeps idempotency keys separate per business', async () => {
+    await stampService.issue({ memberId, businessId, idempotencyKey: 'scan-1' });
+    const other = await stampService.issue({ memberId, businessId: 'business-2', idempotencyKey: 'scan-1' });
+
+    expect(other.duplicate).toBe(false);
+  });
+});
+
+describe('stampService.redeem', () => {
+  it('uses the stamps and counts the redemption', async () => {
+    await issue(4);
+    const result = await stampService.redeem({ memberId, businessId, reward: reward() });
+
+    expect(result.duplicate).toBe(false);
+    expect(result.newStampCount).toBe(1);
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(1);
+    expect(await redisClient.get(REDIS_KEYS.rewardRedemptionCount('reward-1'))).toBe('1');
+  });
+
+  it('rejects a member without enough stamps and leaves their stamps alone', async () => {
+    await issue(2);
+
+    expect(await rejection(stampService.redeem({ memberId, businessId, reward: reward() }))).toBe('INSUFFICIENT_BALANCE');
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(2);
+  });
+
+  it('redeems once for a retried request with the same idempotency key', async () => {
+    await issue(6);
+    const first = await stampService.redeem({ memberId, businessId, reward: reward(), idempotencyKey: 'redeem-1' });
+    const retry = await stampService.redeem({ memberId, businessId, reward: reward(), idempotencyKey: 'redeem-1' });
+
+    expect(retry.duplicate).toBe(true);
+    expect(retry.redemption.id).toBe(first.redemption.id);
+    expect(retry.newStampCount).toBe(3);
+    expect(await redisClient.get(REDIS_KEYS.rewardRedemptionCount('reward-1'))).toBe('1');
+  });
+
+  it('stops at maxRedemptions, counting redemptions made before the counter existed', async () => {
+    await issue(9);
+    const capped = reward({ maxRedemptions: 2, currentRedemptions: 1 });
+
+    await stampService.redeem({ memberId, businessId, reward: capped });
+    expect(await rejection(stampService.redeem({ memberId, businessId, reward: capped }))).toBe('MAX_REDEMPTIONS');
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(6);
+  });
+
+  it('stops a member at maxUsesPerMember while others can still redeem', async () => {
+    await issue(6);
+    await stampService.issue({ memberId: 'member-2', businessId, amount: 3 });
+    const limited = reward({ constraints: { maxUsesPerMember: 1 } });
+
+    await stampService.redeem({ memberId, businessId, reward: limited });
+    expect(await rejection(stampService.redeem({ memberId, businessId, reward: limited }))).toBe('MAX_USES_PER_MEMBER');
+    await expect(stampService.redeem({ memberId: 'member-2', businessId, reward: limited })).resolves.toMatchObject({ duplicate: false });
+  });
+
+  it('does not let concurrent redemptions spend the same stamps twice', async () => {
+    await issue(3);
+    const results = await Promise.allSettled([
+      stampService.redeem({ memberId, businessId, reward: reward() }),
+      stampService.redeem({ memberId, businessId, reward: reward() }),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(await redisClient.llen(REDIS_KEYS.customerStamps(memberId, businessId))).toBe(0);
+  });
+});
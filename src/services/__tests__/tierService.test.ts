@@ -0,0 +1,92 @@
+import { redisClient, REDIS_KEYS } from '../../config/redis';
+import { tierService } from '../tierService';
+import { ledgerService } from '../ledgerService';
+import { programService } from '../programService';
+import type { LoyaltyProgram, ProgramTier } from '../../types/extended';
+
+const customerId = 'customer-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+let program: LoyaltyProgram;
+let silver: ProgramTier;
+let gold: ProgramTier;
+
+const earn = (amountPoints: number, monetaryValue?: number) =>
+  ledgerService.record({ customerId, businessId: 'business-1', programId: program.id, type: 'earn', source: 'qr', amountPoints, monetaryValue });
+
+const currentTierId = async () => (await programService.getMembership(program.id, customerId))?.currentTierId;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  program = await programService.create('business-1', { name: 'Coffee club', type: 'tiered', currency: 'points', tierWindowMonths: 1 });
+  silver = await programService.saveTier(program.id, { name: 'Silver', level: 1, minPoints: 10 });
+  gold = await programService.saveTier(program.id, { name: 'Gold', level: 2, minPoints: 50, minSpend: 100 });
+  await programService.enroll(program, customerId);
+  await redisClient.sadd(REDIS_KEYS.allBusinesses(), 'business-1');
+});
+
+describe('tierService.evaluate', () => {
+  it('upgrades to the highest tier whose thresholds are all met', async () => {
+    await earn(60, 40);
+
+    expect(await tierService.evaluate(customerId, program)).toMatchObject({ direction: 'upgrade', to: { id: silver.id } });
+
+    await earn(1, 60);
+    expect(await tierService.evaluate(customerId, program)).toMatchObject({ direction: 'upgrade', from: { id: silver.id }, to: { id: gold.id } });
+    expect(await currentTierId()).toBe(gold.id);
+  });
+
+  it('does not count redemptions against the qualifying points', async () => {
+    await earn(12);
+    await ledgerService.record({ customerId, businessId: 'business-1', programId: program.id, type: 'redeem', source: 'manual', amountPoints: -12 });
+
+    expect(await tierService.evaluate(customerId, program)).toMatchObject({ to: { id: silver.id } });
+  });
+
+  it('only downgrades when asked to', async () => {
+    await earn(12);
+    await tierService.evaluate(customerId, program);
+
+    expect(await tierService.evaluate(customerId, program, { at: daysFromNow(45) })).toBeNull();
+    expect(await tierService.evaluate(customerId, program, { allowDowngrade: true, at: daysFromNow(45) })).toMatchObject({ direction: 'downgrade', to: null });
+  });
+
+  it('queues a tier_changed notification', async () => {
+    await redisClient.set(REDIS_KEYS.customer(customerId), JSON.stringify({ id: customerId, firstName: 'Ann' }));
+    await earn(12);
+    await tierService.evaluate(customerId, program);
+
+    const [queued] = await redisClient.lrange(REDIS_KEYS.memberNotifications(customerId), 0, 0);
+    expect(JSON.parse(queued)).toMatchObject({ type: 'tier_changed', data: { direction: 'upgrade', toTierId: silver.id } });
+  });
+});
+
+describe('tierService.requalifyAll', () => {
+  it('downgrades in the daily run once the qualifying earns have left the window', async () => {
+    await earn(12);
+    await tierService.evaluate(customerId, program);
+
+    expect(await tierService.requalifyAll(daysFromNow(20))).toMatchObject({ evaluated: 1, downgraded: 0 });
+    expect(await tierService.requalifyAll(daysFromNow(45))).toMatchObject({ evaluated: 1, downgraded: 1 });
+    expect(await currentTierId()).toBeUndefined();
+  });
+
+  it('skips a run while another holds the lock', async () => {
+    await redisClient.set(REDIS_KEYS.jobLock('tiers'), 'other');
+
+    expect(await tierService.requalifyAll()).toMatchObject({ locked: true });
+  });
+});
+
+describe('tierService.progress', () => {
+  it('reports what is left to reach the next tier', async () => {
+    await earn(30, 20);
+    await tierService.evaluate(customerId, program);
+    const membership = (await programService.getMembership(program.id, customerId))!;
+
+    const progress = await tierService.progress(customerId, program, membership);
+
+    expect(progress).toMatchObject({ currentTier: { id: silver.id }, nextTier: { id: gold.id }, toNextTier: { points: 20, spend: 80 } });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Birthday service — daily birthday grants for businesses with an active birthday campaign
+ *
+ * A customer of the business (business:{id}:customers or :members, or the campaign's segment when
+ * segmentId is set) whose birthday falls within conditions.birthdayWindowDays from today (default 0:
+ * on the day, in the business's timezone) gets the campaign's grant through stampService.issue:
+ * - conditions.rewardId: enough stamps/points to redeem that reward (in the reward's program, if any)
+ * - otherwise conditions.bonusStamps (default 1) on the business-wide card
+ * and a campaign notification. A 29 February birthday is celebrated on 28 February in other years.
+ *
+ * Each customer gets at most one grant per business per birthday year: birthday:granted:{business}:{customer}:{year}
+ * is claimed before issuing (and released if issuing fails), and the stamp carries an idempotency key too.
+ * run() is invoked by GET/POST /api/v1/jobs/birthdays (daily cron) and is safe to run more often.
+ */
+
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { stampService } from './stampService';
+import { programService } from './programService';
+import { notificationService } from './notificationService';
+import { channelService } from './channelService';
+import { notificationTemplateService } from './notificationTemplateService';
+import { segmentService } from './segmentService';
+import { campaignSchedulerService, inAudience } from './campaignSchedulerService';
+import { campaignEffectService } from './campaignEffectService';
+import { zonedDate } from '../utils/ukTime';
+import type { Campaign, Reward } from '../types';
+
+export interface BirthdayRunResult {
+  /** Active birthday campaigns looked at. */
+  campaigns: number;
+  /** Customers granted their birthday reward or bonus. */
+  granted: number;
+  /** Birthday notifications queued. */
+  notified: number;
+  /** Grants that failed (e.g. the reward's program is paused); retried on the next run. */
+  failed: number;
+  /** True when another run held the lock and this one did nothing. */
+  locked: boolean;
+  ranAt: string;
+}
+
+/** Grants per run, so one run stays inside a serverless timeout; the rest wait for the next run. */
+const MAX_GRANTS_PER_RUN = 500;
+
+/** Longest accepted birthdayWindowDays. */
+const MAX_WINDOW_DAYS = 31;
+
+const LOCK_TTL_SECONDS = 10 * 60;
+
+/** The grant marker outlives the birthday year. */
+const GRANT_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_OF_BIRTH = /^(\d{4})-(\d{2})-(\d{2})/;
+
+const isLeapYear = (year: number) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+/**
+ * Year of the birthday that falls within `windowDays` from `today` (YYYY-MM-DD), or null when none does.
+ */
+export function birthdayYear(dateOfBirth: unknown, today: string, windowDays: number): number | null {
+  const match = typeof dateOfBirth === 'string' ? DATE_OF_BIRTH.exec(dateOfBirth) : null;
+  if (!match) return null;
+  const month = match[2];
+  const day = match[3];
+
+  for (let offset = 0; offset <= windowDays; offset++) {
+    const date = new Date(Date.parse(`${today}T00:00:00Z`) + offset * DAY_MS).toISOString().slice(0, 10);
+    const year = parseInt(date.slice(0, 4), 10);
+    const celebrated = month === '02' && day === '29' && !isLeapYear(year) ? '02-28' : `${month}-${day}`;
+    if (date.slice(5) === celebrated) return year;
+  }
+  return null;
+}
+
+function windowDaysOf(campaign: Campaign): number {
+  const days = campaign.conditions?.birthdayWindowDays;
+  return typeof days === 'number' && Number.isFinite(days) && days > 0 ? Math.min(Math.floor(days), MAX_WINDOW_DAYS) : 0;
+}
+
+/** Active, in-date birthday campaigns of a business. */
+async function birthdayCampaigns(businessId: string, at: Date): Promise<Campaign[]> {
+  const campaigns: Campaign[] = [];
+  for (const id of await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId))) {
+    const data = await redisClient.get(REDIS_KEYS.campaign(id));
+    if (!data) continue;
+    const campaign: Campaign = JSON.parse(data);
+    if (campaign.type !== 'birthday' || campaign.status !== 'active' || (campaign as any).deletedAt) continue;
+    const { startsAt, endsAt } = await campaignSchedulerService.boundaries(campaign);
+    if ((startsAt && at < startsAt) || (endsAt && at >= endsAt)) continue;
+    campaigns.push(campaign);
+  }
+  return campaigns;
+}
+
+/** Customers the campaign can reach: its segment, or everyone with a card or token at the business. */
+async function audienceOf(campaign: Campaign): Promise<string[]> {
+  if (campaign.segmentId) {
+    const segment = await segmentService.get(campaign.segmentId);
+    return segment ? segmentService.memberIds(segment) : [];
+  }
+  return redisClient.sunion(
+    REDIS_KEYS.businessCustomers(campaign.businessId),
+    REDIS_KEYS.businessMembers(campaign.businessId),
+  );
+}
+
+/** Issue the birthday reward or bonus. Returns what was granted, for the notification. */
+async function grant(campaign: Campaign, customerId: string, year: number): Promise<{ amount: number; currency: string; reward: Reward | null }> {
+  const { businessId } = campaign;
+  const rewardData = campaign.conditions?.rewardId
+    ? await redisClient.get(REDIS_KEYS.reward(campaign.conditions.rewardId))
+    : null;
+  const reward: Reward | null = rewardData ? JSON.parse(rewardData) : null;
+  const scope = reward?.programId
+    ? await programService.scopeFor(businessId, reward.programId, customerId, { enroll: true })
+    : undefined;
+  const amount = reward
+    ? Math.max(1, programService.rewardCost(reward, scope?.program))
+    : Math.max(1, Math.floor(campaign.conditions?.bonusStamps || 1));
+
+  await stampService.issue({
+    memberId: customerId,
+    businessId,
+    rewardId: reward?.id,
+    method: 'manual',
+    staffId: 'system',
+    idempotencyKey: `birthday:${campaign.id}:${customerId}:${year}`,
+    amount,
+    metadata: { campaignId: campaign.id, birthdayYear: year },
+    ...(scope ? { program: scope.program, membershipId: scope.membership.id } : {}),
+  });
+  return { amount, currency: scope?.program.currency ?? 'stamps', reward };
+}
+
+export const birthdayService = {
+  /** Grant every due birthday for businesses with an active birthday campaign. */
+  async run(at = new Date()): Promise<BirthdayRunResult> {
+    const now = at.toISOString();
+    const result: BirthdayRunResult = { campaigns: 0, granted: 0, notified: 0, failed: 0, locked: false, ranAt: now };
+
+    const lockKey = REDIS_KEYS.jobLock('birthdays');
+    if (!await redisClient.set(lockKey, now, 'EX', LOCK_TTL_SECONDS, 'NX')) {
+      return { ...result, locked: true };
+    }
+
+    try {
+      const businessIds = await redisClient.smembers(REDIS_KEYS.allBusinesses());
+      for (const businessId of businessIds) {
+        const campaigns = await birthdayCampaigns(businessId, at);
+        if (campaigns.length === 0) continue;
+        const business = await redis.getBusiness(businessId);
+
+        for (const campaign of campaigns) {
+          result.campaigns++;
+          const { timeZone } = await campaignSchedulerService.boundaries(campaign);
+          const today = zonedDate(at, timeZone);
+          const windowDays = windowDaysOf(campaign);
+
+          for (const customerId of await audienceOf(campaign)) {
+            if (result.granted + result.failed >= MAX_GRANTS_PER_RUN) break;
+            const customer = await redis.getCustomer(customerId);
+            const year = customer ? birthdayYear(customer.dateOfBirth, today, windowDays) : null;
+            if (!customer || year === null) continue;
+            if (!campaign.segmentId && !await inAudience(campaign, customer)) continue;
+
+            // One grant per business per birthday year, whichever birthday campaign gets there first
+            const grantKey = REDIS_KEYS.birthdayGrant(businessId, customerId, year);
+            if (!await redisClient.set(grantKey, `${campaign.id}:${now}`, 'EX', GRANT_TTL_SECONDS, 'NX')) continue;
+
+            let granted;
+            try {
+              granted = await grant(campaign, customerId, year);
+            } catch (error: any) {
+              await redisClient.del(grantKey);
+              result.failed++;
+              console.error(`❌ [BIRTHDAYS] Grant failed for ${customerId} (campaign ${campaign.id}):`, error.message);
+              continue;
+            }
+            result.granted++;
+            await campaignEffectService.recordConversions([{ campaignId: campaign.id }]);
+
+            if (customer.preferences?.notifications === false) continue;
+            const { title, message } = await notificationTemplateService.render(
+              granted.reward ? 'campaign.birthday_reward' : 'campaign.birthday_bonus',
+              { businessId, locale: customer.locale },
+              {
+                firstName: customer.firstName,
+                businessName: business?.name || campaign.name,
+                rewardName: granted.reward?.name,
+                amount: granted.amount,
+                currency: granted.currency,
+              },
+            );
+            await notificationService.queue(customerId, {
+              type: 'campaign',
+              channels: channelService.channelsFor(campaign),
+              businessId,
+              businessName: business?.name,
+              title,
+              message: campaign.notificationMessage || message,
+              data: {
+                campaignId: campaign.id,
+                campaignType: campaign.type,
+                amount: granted.amount,
+                ...(granted.reward ? { rewardId: granted.reward.id } : {}),
+              },
+            }, now);
+            result.notified++;
+          }
+        }
+      }
+
+      await redisClient.hset(REDIS_KEYS.jobLastRun('birthdays'), {
+        ranAt: now,
+        campaigns: result.campaigns,
+        granted: result.granted,
+        notified: result.notified,
+        failed: result.failed,
+      });
+      console.log(`[BIRTHDAYS] ${result.granted} birthday grants across ${result.campaigns} campaigns, ${result.notified} notifications queued, ${result.failed} failed`);
+      return result;
+    } finally {
+      await redisClient.del(lockKey);
+    }
+  },
+};
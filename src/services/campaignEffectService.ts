@@ -0,0 +1,194 @@
+/**
+ * Campaign effect service — what the business's active campaigns add to a stamp scan
+ *
+ * - double_stamps: the scan earns 2×
+ * - happy_hour: 2× inside the campaign's days/hours, or + conditions.bonusStamps when set
+ * - bonus_reward: + conditions.bonusStamps on top of the scan
+ * Multipliers do not stack (the first applicable one wins, so two double-stamp campaigns still earn 2×);
+ * bonuses add up. Birthday campaigns are granted by their own job, not per scan.
+ * conditions.bonusStamps is at most MAX_BONUS_STAMPS (checked when the campaign is saved, and again
+ * per scan for campaigns stored before that), and campaigns stop applying once the scan would earn
+ * more than one issue allows (stampService MAX_AMOUNT).
+ *
+ * A campaign applies when it is active and inside its start/end dates (business timezone), the scan
+ * falls in its daysOfWeek/startTime/endTime (UK time), the spend meets minPurchase, and the member is
+ * in its segment (segmentId, as last calculated) or targetAudience. conditions.maxUsesPerMember is
+ * reserved atomically per campaign before the stamp is written; release() hands the uses back when the
+ * scan turns out to be a replay. Applied campaigns count as a conversion in campaign.stats.
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { MAX_AMOUNT } from './stampService';
+import { engagementService } from './engagementService';
+import { campaignSchedulerService, inAudience } from './campaignSchedulerService';
+import { windowMismatches, campaignWindow } from '../utils/schedule';
+import type { Campaign, CampaignType } from '../types';
+
+export interface AppliedCampaign {
+  campaignId: string;
+  name: string;
+  type: CampaignType;
+  /** Set for multiplier campaigns. */
+  multiplier?: number;
+  /** Set for bonus campaigns. */
+  bonusStamps?: number;
+  /** Stamps/points this campaign added to the scan. */
+  extra: number;
+}
+
+export interface CampaignEffect {
+  /** Stamps/points the scan earns with campaigns applied. */
+  amount: number;
+  applied: AppliedCampaign[];
+}
+
+export interface ScanContext {
+  memberId: string;
+  /** The member document (for targetAudience). */
+  member: { id: string; createdAt?: string; totalStamps?: number };
+  /** £ spent in the visit (for conditions.minPurchase). */
+  spend?: number;
+  /** Defaults to now. */
+  at?: Date;
+}
+
+/** Multiplier of double_stamps and bonus-less happy_hour campaigns. */
+const CAMPAIGN_MULTIPLIER = 2;
+
+/** Most stamps one campaign may add (conditions.bonusStamps). */
+export const MAX_BONUS_STAMPS = 100;
+
+/** Campaign types that change what a scan earns. */
+const SCAN_TYPES: CampaignType[] = ['double_stamps', 'happy_hour', 'bonus_reward'];
+
+/**
+ * KEYS[1] per-member use counts; ARGV[1] member id, ARGV[2] max uses per member (0 = unlimited)
+ * Returns the member's uses including this one, or -1 when the cap is reached.
+ */
+const RESERVE_USE = `
+local max = tonumber(ARGV[2])
+local used = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0')
+if max > 0 and used >= max then return -1 end
+return redis.call('HINCRBY', KEYS[1], ARGV[1], 1)
+`;
+
+/** bonusStamps as saved: unset, or a whole number 0-MAX_BONUS_STAMPS (0 = no bonus). */
+const isBonus = (value: unknown): boolean =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_BONUS_STAMPS);
+
+/** Validate the campaign conditions that change what a scan earns, when a campaign is saved. */
+export function checkConditions(conditions: unknown): void {
+  if (conditions === undefined || conditions === null || typeof conditions !== 'object') return;
+  if (!isBonus((conditions as Campaign['conditions'])?.bonusStamps)) {
+    throw new ApiError(400, `conditions.bonusStamps must be a whole number (0-${MAX_BONUS_STAMPS})`);
+  }
+}
+
+/** Multiplier or bonus a campaign would apply, or null for campaigns that do not change scans. */
+function effectOf(campaign: Campaign): Pick<AppliedCampaign, 'multiplier' | 'bonusStamps'> | null {
+  const bonus = campaign.conditions?.bonusStamps;
+  if (!isBonus(bonus)) {
+    console.error(`❌ [CAMPAIGNS] Campaign ${campaign.id} has an invalid bonusStamps (${bonus}); not applied`);
+    return null;
+  }
+  switch (campaign.type) {
+    case 'double_stamps':
+      return { multiplier: CAMPAIGN_MULTIPLIER };
+    case 'happy_hour':
+      return bonus ? { bonusStamps: bonus } : { multiplier: CAMPAIGN_MULTIPLIER };
+    case 'bonus_reward':
+      return bonus ? { bonusStamps: bonus } : null;
+    default:
+      return null;
+  }
+}
+
+/** Whether the campaign's dates, days/hours, minPurchase and audience allow it for this scan. */
+async function applies(campaign: Campaign, context: ScanContext, at: Date): Promise<boolean> {
+  if (campaign.status !== 'active' || (campaign as any).deletedAt) return false;
+
+  const { startsAt, endsAt } = await campaignSchedulerService.boundaries(campaign);
+  if ((startsAt && at < startsAt) || (endsAt && at >= endsAt)) return false;
+
+  if (windowMismatches(campaignWindow(campaign), at).length) return false;
+
+  const minPurchase = campaign.conditions?.minPurchase;
+  if (typeof minPurchase === 'number' && minPurchase > 0 && (context.spend ?? 0) < minPurchase) return false;
+
+  if (campaign.segmentId) {
+    return await redisClient.sismember(REDIS_KEYS.segmentMembers(campaign.segmentId), context.memberId) === 1;
+  }
+  return inAudience(campaign, context.member);
+}
+
+export const campaignEffectService = {
+  /** Active campaigns of a business that change what a scan earns, oldest first. */
+  async scanCampaigns(businessId: string): Promise<Campaign[]> {
+    const campaignIds = await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId));
+    const campaigns: Campaign[] = [];
+    for (const id of campaignIds) {
+      const data = await redisClient.get(REDIS_KEYS.campaign(id));
+      if (!data) continue;
+      const campaign: Campaign = JSON.parse(data);
+      if (campaign.businessId === businessId && campaign.status === 'active' && SCAN_TYPES.includes(campaign.type)) {
+        campaigns.push(campaign);
+      }
+    }
+    return campaigns.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+  },
+
+  /**
+   * Apply the business's campaigns to a scan that earns `base`, reserving each applied campaign's
+   * per-member use. Campaigns whose member cap is used up, or that would take the scan over
+   * MAX_AMOUNT, are left out.
+   */
+  async claim(businessId: string, base: number, context: ScanContext): Promise<CampaignEffect> {
+    const at = context.at ?? new Date();
+    const applied: AppliedCampaign[] = [];
+    let multiplier = 1;
+    let bonus = 0;
+
+    for (const campaign of await campaignEffectService.scanCampaigns(businessId)) {
+      const effect = effectOf(campaign);
+      if (!effect || (effect.multiplier && multiplier > 1)) continue;
+      if (base * (effect.multiplier ?? multiplier) + bonus + (effect.bonusStamps ?? 0) > MAX_AMOUNT) continue;
+      if (!await applies(campaign, context, at)) continue;
+
+      const uses = await redisClient.eval(
+        RESERVE_USE,
+        1,
+        REDIS_KEYS.campaignMemberUses(campaign.id),
+        context.memberId,
+        String(campaign.conditions?.maxUsesPerMember || 0),
+      ) as number;
+      if (uses < 0) continue;
+
+      if (effect.multiplier) multiplier = effect.multiplier;
+      bonus += effect.bonusStamps ?? 0;
+      applied.push({
+        campaignId: campaign.id,
+        name: campaign.name,
+        type: campaign.type,
+        ...effect,
+        extra: effect.multiplier ? base * (effect.multiplier - 1) : effect.bonusStamps ?? 0,
+      });
+    }
+
+    return { amount: base * multiplier + bonus, applied };
+  },
+
+  /** Give back the uses reserved by claim() when the scan was not written (e.g. an idempotent replay). */
+  async release(memberId: string, applied: AppliedCampaign[]): Promise<void> {
+    for (const campaign of applied) {
+      await redisClient.hincrby(REDIS_KEYS.campaignMemberUses(campaign.campaignId), memberId, -1);
+    }
+  },
+
+  /** Count a conversion on each applied campaign. Best effort: the stamp is already written. */
+  async recordConversions(applied: Pick<AppliedCampaign, 'campaignId'>[]): Promise<void> {
+    for (const { campaignId } of applied) {
+      await engagementService.countCampaign(campaignId, 'conversions');
+    }
+  },
+};
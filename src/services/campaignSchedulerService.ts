@@ -0,0 +1,332 @@
+/**
+ * Campaign scheduler — moves campaigns between statuses at their start and end dates
+ *
+ * - scheduled → active when startDate is reached (→ completed directly if endDate has also passed)
+ * - active or paused → completed when endDate has passed
+ * Draft, completed and cancelled campaigns are never touched; pausing and cancelling stay manual.
+ *
+ * Dates are read in the business's timezone (business.timezone, default Europe/London): a date-only
+ * startDate starts at local midnight, a date-only endDate runs to the end of that day, and a date-time
+ * without an offset is local wall-clock time. Date-times with Z or an offset are absolute.
+ *
+ * campaigns:scheduled (sorted set, score = next boundary in ms) holds the campaigns that have a
+ * transition ahead, so a run only reads due campaigns. Campaign writes call afterWrite() to keep it in
+ * step. Every status change (scheduler, manual or app write) is appended to the campaign's status
+ * history. Activation queues the campaign notification just like a manual activation.
+ * run() is called by GET/POST /api/v1/jobs/campaigns (cron) or on an interval by the server
+ * (CAMPAIGN_SCHEDULER_INTERVAL_SECONDS).
+ */
+
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { segmentService } from './segmentService';
+import { notificationService } from './notificationService';
+import { channelService } from './channelService';
+import { UK_TIME_ZONE, isTimeZone, zonedInstant } from '../utils/ukTime';
+import type { Campaign, CampaignStatus } from '../types';
+import type { Principal } from '../middleware/auth';
+
+export interface CampaignTransition {
+  from: CampaignStatus | null;
+  to: CampaignStatus;
+  at: string;
+  /** 'scheduler', 'sync', 'admin', 'business:{id}' … */
+  actor: string;
+  reason?: string;
+}
+
+export interface CampaignRunResult {
+  activated: number;
+  completed: number;
+  /** Campaigns changed by someone else mid-run, left for the next run. */
+  skipped: number;
+  /** True when another run held the lock and this one did nothing. */
+  locked: boolean;
+  ranAt: string;
+}
+
+export interface CampaignBoundaries {
+  startsAt: Date | null;
+  endsAt: Date | null;
+  timeZone: string;
+}
+
+/** Due campaigns handled per run, so one run stays inside a serverless timeout. */
+const MAX_PER_RUN = 500;
+
+const LOCK_TTL_SECONDS = 5 * 60;
+
+/** Status history entries kept per campaign. */
+const HISTORY_LENGTH = 200;
+
+/** Window for the new/inactive target audiences. */
+const AUDIENCE_DAYS = 30;
+
+const DATE_ONLY = /^(\d{4}-\d{2}-\d{2})$/;
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+const nextDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/** A campaign start/end value as an instant in `timeZone`; date-only ends cover the whole day. */
+function boundary(value: unknown, timeZone: string, edge: 'start' | 'end'): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const dateOnly = DATE_ONLY.exec(value);
+  if (dateOnly) {
+    return zonedInstant(edge === 'start' ? dateOnly[1] : nextDay(dateOnly[1]), 0, timeZone);
+  }
+  const local = LOCAL_DATE_TIME.exec(value);
+  if (local) {
+    return zonedInstant(local[1], parseInt(local[2], 10) * 60 + parseInt(local[3], 10), timeZone);
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/** Status a campaign should have at `at`, or null when it should stay as it is. */
+function dueStatus(campaign: Campaign, bounds: CampaignBoundaries, at: Date): CampaignStatus | null {
+  const ended = !!bounds.endsAt && at >= bounds.endsAt;
+  switch (campaign.status) {
+    case 'scheduled':
+      if (ended) return 'completed';
+      return bounds.startsAt && at >= bounds.startsAt ? 'active' : null;
+    case 'active':
+    case 'paused':
+      return ended ? 'completed' : null;
+    default:
+      return null;
+  }
+}
+
+/** When the campaign's next transition is due (ms), or null if none is ahead. */
+function nextBoundary(campaign: Campaign, bounds: CampaignBoundaries): number | null {
+  if ((campaign as any).deletedAt) return null;
+  if (campaign.status === 'scheduled') {
+    return (bounds.startsAt ?? bounds.endsAt)?.getTime() ?? null;
+  }
+  if (campaign.status === 'active' || campaign.status === 'paused') {
+    return bounds.endsAt?.getTime() ?? null;
+  }
+  return null;
+}
+
+/** Who made a change, for the status history. */
+export function actorOf(principal: Principal | undefined): string {
+  if (!principal) return 'unknown';
+  if (principal.type === 'business') return `business:${principal.businessId}`;
+  if (principal.type === 'customer') return `customer:${principal.customerId}`;
+  return 'admin';
+}
+
+/**
+ * Whether a customer is in the campaign's targetAudience at its business: new = joined in the last
+ * 30 days, returning = 3+ stamps, inactive = no stamp there in 30 days (or never).
+ */
+export async function inAudience(campaign: Campaign, customer: { id: string; createdAt?: string; totalStamps?: number }): Promise<boolean> {
+  const thirtyDaysAgo = Date.now() - AUDIENCE_DAYS * 24 * 60 * 60 * 1000;
+  switch (campaign.targetAudience) {
+    case 'new':
+      return !!customer.createdAt && Date.parse(customer.createdAt) > thirtyDaysAgo;
+    case 'returning':
+      return (customer.totalStamps || 0) >= 3;
+    case 'inactive': {
+      // The stamp list is appended to, so the newest stamp is last
+      const lastStamp = await redisClient.lindex(REDIS_KEYS.customerStamps(customer.id, campaign.businessId), -1);
+      return !lastStamp || Date.parse(JSON.parse(lastStamp).issuedAt) < thirtyDaysAgo;
+    }
+    default:
+      return true;
+  }
+}
+
+export const campaignSchedulerService = {
+  /** Start/end instants of a campaign in its business's timezone. */
+  async boundaries(campaign: Campaign): Promise<CampaignBoundaries> {
+    const business = await redis.getBusiness(campaign.businessId) as any;
+    const timeZone = isTimeZone(business?.timezone) ? business.timezone : UK_TIME_ZONE;
+    return {
+      startsAt: boundary(campaign.startDate ?? campaign.startAt, timeZone, 'start'),
+      endsAt: boundary(campaign.endDate ?? campaign.endAt, timeZone, 'end'),
+      timeZone,
+    };
+  },
+
+  /** Index the campaign's next transition (or drop it from the index). */
+  async schedule(campaign: Campaign): Promise<void> {
+    const next = nextBoundary(campaign, await campaignSchedulerService.boundaries(campaign));
+    if (next === null) {
+      await redisClient.zrem(REDIS_KEYS.scheduledCampaigns(), campaign.id);
+    } else {
+      await redisClient.zadd(REDIS_KEYS.scheduledCampaigns(), next, campaign.id);
+    }
+  },
+
+  /**
+   * After any campaign write: record a status change and re-index the next transition.
+   * Best effort: the write has already been committed.
+   */
+  async afterWrite(campaign: Campaign, previousStatus: CampaignStatus | null, actor: string): Promise<void> {
+    try {
+      if (campaign.status !== previousStatus) {
+        await campaignSchedulerService.record(campaign.id, {
+          from: previousStatus,
+          to: campaign.status,
+          at: new Date().toISOString(),
+          actor,
+        });
+      }
+      await campaignSchedulerService.schedule(campaign);
+    } catch (error: any) {
+      console.error(`❌ [CAMPAIGN SCHEDULER] Failed to schedule campaign ${campaign.id}:`, error.message);
+    }
+  },
+
+  /** Append to a campaign's status history. */
+  async record(campaignId: string, transition: CampaignTransition): Promise<void> {
+    const key = REDIS_KEYS.campaignStatusHistory(campaignId);
+    await redisClient.lpush(key, JSON.stringify(transition));
+    await redisClient.ltrim(key, 0, HISTORY_LENGTH - 1);
+  },
+
+  /** Status changes of a campaign, newest first. */
+  async history(campaignId: string): Promise<CampaignTransition[]> {
+    const entries = await redisClient.lrange(REDIS_KEYS.campaignStatusHistory(campaignId), 0, -1);
+    return entries.map((entry) => JSON.parse(entry));
+  },
+
+  /**
+   * Apply the transition due for one campaign. Returns the new status, null when nothing was due,
+   * or 'skipped' when the campaign changed meanwhile (it stays due and the next run looks again).
+   */
+  async transition(campaignId: string, at = new Date()): Promise<CampaignStatus | 'skipped' | null> {
+    const key = REDIS_KEYS.campaign(campaignId);
+    const version = await concurrencyService.version(key);
+    const data = await redisClient.get(key);
+    if (!data) {
+      await redisClient.zrem(REDIS_KEYS.scheduledCampaigns(), campaignId);
+      return null;
+    }
+    const campaign: Campaign = JSON.parse(data);
+    const bounds = await campaignSchedulerService.boundaries(campaign);
+    const status = (campaign as any).deletedAt ? null : dueStatus(campaign, bounds, at);
+    if (!status) {
+      await campaignSchedulerService.schedule(campaign);
+      return null;
+    }
+
+    const now = at.toISOString();
+    const updated: Campaign = { ...campaign, status, updatedAt: now };
+    try {
+      // Versioned write, so synced devices pull the new status and stale copies cannot revert it
+      await concurrencyService.save(key, updated, { expectedVersion: version });
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 409) return 'skipped';
+      throw error;
+    }
+
+    const boundaryAt = status === 'active' ? bounds.startsAt : bounds.endsAt;
+    await campaignSchedulerService.record(campaignId, {
+      from: campaign.status,
+      to: status,
+      at: now,
+      actor: 'scheduler',
+      reason: `${status === 'active' ? 'startDate' : 'endDate'} reached (${boundaryAt?.toISOString()}, ${bounds.timeZone})`,
+    });
+    await campaignSchedulerService.schedule(updated);
+    console.log(`[CAMPAIGN SCHEDULER] ${campaign.name || campaignId}: ${campaign.status} → ${status}`);
+
+    if (status === 'active' && updated.notificationMessage) {
+      await campaignSchedulerService.announce(updated);
+    }
+    return status;
+  },
+
+  /** Apply every transition that is due. */
+  async run(at = new Date()): Promise<CampaignRunResult> {
+    const now = at.toISOString();
+    const result: CampaignRunResult = { activated: 0, completed: 0, skipped: 0, locked: false, ranAt: now };
+
+    const lockKey = REDIS_KEYS.jobLock('campaigns');
+    if (!await redisClient.set(lockKey, now, 'EX', LOCK_TTL_SECONDS, 'NX')) {
+      return { ...result, locked: true };
+    }
+
+    try {
+      const due = await redisClient.zrangebyscore(REDIS_KEYS.scheduledCampaigns(), '-inf', at.getTime(), 'LIMIT', 0, MAX_PER_RUN);
+      for (const campaignId of due) {
+        try {
+          const status = await campaignSchedulerService.transition(campaignId, at);
+          if (status === 'active') result.activated++;
+          else if (status === 'completed') result.completed++;
+          else if (status === 'skipped') result.skipped++;
+        } catch (error: any) {
+          console.error(`❌ [CAMPAIGN SCHEDULER] Campaign ${campaignId} failed:`, error.message);
+          result.skipped++;
+        }
+      }
+      await redisClient.hset(REDIS_KEYS.jobLastRun('campaigns'), {
+        ranAt: now,
+        activated: result.activated,
+        completed: result.completed,
+        skipped: result.skipped,
+      });
+    } finally {
+      await redisClient.del(lockKey);
+    }
+
+    if (result.activated || result.completed) {
+      console.log(`[CAMPAIGN SCHEDULER] Activated ${result.activated}, completed ${result.completed}, skipped ${result.skipped}`);
+    }
+    return result;
+  },
+
+  /** Index every live campaign of every business (for campaigns written before the scheduler). */
+  async rebuild(): Promise<{ scheduled: number }> {
+    let scheduled = 0;
+    for (const businessId of await redisClient.smembers(REDIS_KEYS.allBusinesses())) {
+      for (const campaignId of await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId))) {
+        const data = await redisClient.get(REDIS_KEYS.campaign(campaignId));
+        if (!data) continue;
+        const campaign: Campaign = JSON.parse(data);
+        await campaignSchedulerService.schedule(campaign);
+        if (await redisClient.zscore(REDIS_KEYS.scheduledCampaigns(), campaignId) !== null) scheduled++;
+      }
+    }
+    return { scheduled };
+  },
+
+  /**
+   * Queue the campaign notification for its audience: the segment's members when segmentId is set,
+   * otherwise the business's customers filtered by targetAudience.
+   */
+  async announce(campaign: Campaign): Promise<void> {
+    const businessId = campaign.businessId;
+    const segment = campaign.segmentId ? await segmentService.get(campaign.segmentId) : null;
+    const customerIds = segment
+      ? await segmentService.memberIds(segment)
+      : await redisClient.smembers(REDIS_KEYS.businessCustomers(businessId));
+
+    for (const customerId of customerIds) {
+      const customer = await redis.getCustomer(customerId);
+      if (customer && customer.preferences?.notifications) {
+        // Segment members are the audience; otherwise check the target audience
+        const shouldNotify = segment || await inAudience(campaign, customer);
+
+        if (shouldNotify) {
+          await notificationService.queue(customerId, {
+            type: 'campaign',
+            channels: channelService.channelsFor(campaign),
+            businessId,
+            title: campaign.name,
+            message: campaign.notificationMessage || '',
+            data: {
+              campaignId: campaign.id,
+              campaignType: campaign.type,
+              conditions: campaign.conditions,
+            },
+          });
+        }
+      }
+    }
+  },
+};
@@ -0,0 +1,258 @@
+/**
+ * Channel service — which channels a notification goes out on, and email/SMS rendering and delivery
+ *
+ * A notification asks for channels (default in_app + push; campaigns use their channelMasks). At send
+ * time each is checked against the customer's preferences:
+ * - nothing but in_app when preferences.notifications is false
+ * - push unless preferences.push is false; email unless preferences.email is false; sms only when preferences.sms is true
+ * - marketing (campaigns, broadcasts, geofence offers) by email or SMS also needs preferences.marketing
+ * - email needs an address and sms a mobile number that is not suppressed (unsubscribed, bounced or opted out)
+ *
+ * Email links of stored notifications are tracked (engagementService): the button records a click and
+ * an image records the open.
+ *
+ * Every email carries a signed unsubscribe link (and List-Unsubscribe headers for one-click unsubscribe);
+ * following it turns preferences.email off, or suppresses the address for people who are not customers yet.
+ */
+
+import crypto from 'crypto';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { config } from '../config/env';
+import { messageProviders, isMailAddress, EmailMessage, MessageResult } from './messageProviders';
+import { engagementService } from './engagementService';
+import type { Campaign, Customer, NotificationChannel } from '../types';
+
+/** Channels of a notification queued without any. */
+export const DEFAULT_CHANNELS: NotificationChannel[] = ['in_app', 'push'];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'email', 'sms', 'in_app'];
+
+/** What an email or SMS says (the notification, or a one-off message such as an invitation). */
+export interface ChannelContent {
+  title: string;
+  message: string;
+  businessName?: string;
+  /** Greeting name. */
+  firstName?: string;
+  /** Call to action; defaults to the customer app. */
+  link?: string;
+  /** Marketing adds the opt-out line to SMS. */
+  marketing?: boolean;
+  /** Image that records the email being opened. */
+  openPixel?: string;
+}
+
+/** Notification types that are marketing (email/SMS need preferences.marketing). */
+const MARKETING_TYPES = ['campaign', 'business_broadcast', 'geofence_enter'];
+
+/** Two concatenated SMS segments. */
+const SMS_MAX_LENGTH = 306;
+
+const SMS_OPT_OUT = 'Reply STOP to opt out';
+
+const normaliseAddress = (email: string) => email.toLowerCase().trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+/** E.164 form of a phone number (UK numbers without a country code are +44), or null. */
+export function toE164(phone: unknown): string | null {
+  if (typeof phone !== 'string') return null;
+  let digits = phone.replace(/[\s().-]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  if (/^0\d{10}$/.test(digits)) digits = `+44${digits.slice(1)}`;
+  return /^\+[1-9]\d{7,14}$/.test(digits) ? digits : null;
+}
+
+/** Unsubscribe subject: a customer (c:{id}) or an address that is not a customer (e:{email}). */
+const unsubscribeSignature = (subject: string) =>
+  crypto.createHmac('sha256', config.jwtSecret).update(`unsubscribe:${subject}`).digest('base64url');
+
+function unsubscribeUrl(subject: string): string {
+  const query = new URLSearchParams({ s: subject, t: unsubscribeSignature(subject) });
+  return `${config.apiBaseUrl}/api/v1/notifications/unsubscribe?${query}`;
+}
+
+function renderEmail(to: string, content: ChannelContent, unsubscribeSubject: string): EmailMessage {
+  const unsubscribe = unsubscribeUrl(unsubscribeSubject);
+  const link = content.link || config.customerAppUrl;
+  const signOff = content.businessName || 'Canny Carrot';
+  const greeting = content.firstName ? `Hi ${content.firstName},` : 'Hi,';
+
+  const text = [
+    greeting,
+    '',
+    content.message,
+    '',
+    `— ${signOff}`,
+    '',
+    `Open Canny Carrot: ${link}`,
+    '',
+    `Unsubscribe from these emails: ${unsubscribe}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html><body style="margin:0;padding:24px;background:#f6f6f4;font-family:Helvetica,Arial,sans-serif;color:#222">
+<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+<h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(content.title)}</h1>
+<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(content.message).replace(/\n/g, '<br>')}</p>
+<p>— ${escapeHtml(signOff)}</p>
+<p><a href="${escapeHtml(link)}" style="display:inline-block;background:#f07f13;color:#fff;padding:10px 18px;border-radius:6px;text-decoration:none">Open Canny Carrot</a></p>
+</div>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#777;text-align:center">
+<a href="${escapeHtml(unsubscribe)}" style="color:#777">Unsubscribe</a> from these emails
+</p>${content.openPixel ? `\n<img src="${escapeHtml(content.openPixel)}" width="1" height="1" alt="" style="display:block;border:0">` : ''}
+</body></html>`;
+
+  return {
+    to,
+    subject: content.title,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribe}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+function renderSms(content: ChannelContent): string {
+  const prefix = content.businessName ? `${content.businessName}: ` : '';
+  const suffix = content.marketing ? ` ${SMS_OPT_OUT}` : '';
+  const room = SMS_MAX_LENGTH - prefix.length - suffix.length;
+  const message = content.message.length > room ? `${content.message.slice(0, room - 1)}…` : content.message;
+  return `${prefix}${message}${suffix}`;
+}
+
+async function emailSuppressed(email: string): Promise<boolean> {
+  return await redisClient.sismember(REDIS_KEYS.suppressedEmails(), normaliseAddress(email)) === 1;
+}
+
+/** Send an email, suppressing the address when the provider says it does not exist. Null when email is off. */
+async function sendEmail(message: EmailMessage): Promise<MessageResult | null> {
+  const provider = messageProviders.email();
+  if (!provider) return null;
+  let result: MessageResult;
+  try {
+    result = await provider.send(message);
+  } catch (error: any) {
+    result = { status: 'retry', error: error.message };
+  }
+  if (result.status === 'invalid') {
+    await redisClient.sadd(REDIS_KEYS.suppressedEmails(), normaliseAddress(message.to));
+  }
+  return result;
+}
+
+export const channelService = {
+  isMarketing(type: string | undefined): boolean {
+    return !!type && MARKETING_TYPES.includes(type);
+  },
+
+  /** Channels a campaign's notifications use: its channelMasks, or in_app + push. */
+  channelsFor(campaign: Pick<Campaign, 'channelMasks'>): NotificationChannel[] {
+    const masks = campaign.channelMasks;
+    if (!masks) return DEFAULT_CHANNELS;
+    return [
+      ...(masks.inApp ? ['in_app' as const] : []),
+      ...(masks.push ? ['push' as const] : []),
+      ...(masks.email ? ['email' as const] : []),
+      ...(masks.sms ? ['sms' as const] : []),
+    ];
+  },
+
+  /** Whether email or SMS has a provider (messageProviders); without one the channel is off. */
+  configured(channel: 'email' | 'sms'): boolean {
+    return !!(channel === 'email' ? messageProviders.email() : messageProviders.sms());
+  },
+
+  /** Whether the customer's preferences (and suppression lists) allow this notification on a channel. Email needs one well-formed address. */
+  async allowed(customer: Customer, channel: NotificationChannel, type?: string): Promise<boolean> {
+    if (channel === 'in_app') return true;
+    const preferences: Partial<Customer['preferences']> = customer.preferences ?? {};
+    if (preferences.notifications === false) return false;
+    if (channel === 'push') return preferences.push !== false;
+
+    if (channelService.isMarketing(type) && preferences.marketing !== true) return false;
+    if (channel === 'email') {
+      return isMailAddress(customer.email) && preferences.email !== false && !await emailSuppressed(customer.email);
+    }
+    const phone = toE164(customer.phone);
+    return !!phone && preferences.sms === true
+      && await redisClient.sismember(REDIS_KEYS.suppressedPhones(), phone) === 0;
+  },
+
+  /**
+   * Send a notification to a customer by email or SMS. Null when the channel is not allowed for the
+   * customer or has no provider. Unreachable addresses and numbers are suppressed.
+   */
+  async deliver(
+    channel: 'email' | 'sms',
+    customer: Customer,
+    notification: { id?: string; type?: string; title: string; message: string; businessId?: string; businessName?: string; data?: Record<string, any> },
+  ): Promise<MessageResult | null> {
+    if (!await channelService.allowed(customer, channel, notification.type)) return null;
+    const link = typeof notification.data?.link === 'string' ? notification.data.link : undefined;
+    const content: ChannelContent = {
+      title: notification.title,
+      message: notification.message,
+      businessName: notification.businessName,
+      firstName: customer.firstName,
+      link,
+      marketing: channelService.isMarketing(notification.type),
+    };
+
+    if (channel === 'email') {
+      if (notification.id) {
+        content.link = await engagementService.trackedLink(customer.id, notification.id, link, notification.businessId);
+        content.openPixel = engagementService.openPixel(customer.id, notification.id);
+      }
+      return sendEmail(renderEmail(customer.email, content, `c:${customer.id}`));
+    }
+
+    const provider = messageProviders.sms();
+    const phone = toE164(customer.phone);
+    if (!provider || !phone) return null;
+    let result: MessageResult;
+    try {
+      result = await provider.send({ to: phone, body: renderSms(content) });
+    } catch (error: any) {
+      result = { status: 'retry', error: error.message };
+    }
+    if (result.status === 'invalid') {
+      await redisClient.sadd(REDIS_KEYS.suppressedPhones(), phone);
+    }
+    return result;
+  },
+
+  /** Email someone who is not a customer (e.g. an invitation). Null when email is off or the address is malformed or suppressed. */
+  async emailAddress(to: string, content: ChannelContent): Promise<MessageResult | null> {
+    if (!isMailAddress(to) || await emailSuppressed(to)) return null;
+    return sendEmail(renderEmail(to, content, `e:${normaliseAddress(to)}`));
+  },
+
+  /** Whether an unsubscribe link's signature matches its subject. */
+  verifyUnsubscribe(subject: string, signature: string): boolean {
+    const expected = Buffer.from(unsubscribeSignature(subject));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  },
+
+  /** Turn email off for an unsubscribe subject. Returns false when the customer no longer exists. */
+  async unsubscribe(subject: string): Promise<boolean> {
+    if (subject.startsWith('e:')) {
+      await redisClient.sadd(REDIS_KEYS.suppressedEmails(), normaliseAddress(subject.slice(2)));
+      return true;
+    }
+    const customerId = subject.slice(2);
+    const customer = await redis.getMember(customerId);
+    if (!customer) return false;
+    await redis.setMember(customerId, {
+      ...customer,
+      preferences: { ...customer.preferences, email: false },
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  },
+};
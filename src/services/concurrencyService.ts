@@ -0,0 +1,266 @@
+/**
+ * Concurrency service — versioned writes for full-record documents
+ *
+ * Every versioned document key has a counter at sync:version:{docKey} (shared with the sync API)
+ * and a short-lived snapshot per version at sync:snapshot:{docKey}:{version}.
+ * - save() is a compare-and-set against the version the client last read (If-Match / baseVersion)
+ * - on a mismatch it either rejects with 409 + the server copy, or, in field-level merge mode,
+ *   three-way merges base snapshot / server copy / client copy so offline edits to different
+ *   rewards[] items or customerProgress entries are combined instead of overwritten
+ * - patch() is a lost-update-free read-modify-write for server-side counters inside documents; it
+ *   bumps the version too, so a client holding an older copy cannot replace it unnoticed
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+
+/** Snapshots are the merge base for offline devices; 30 days covers a long time offline. */
+const SNAPSHOT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Merge attempts before giving up when other writers keep winning the race. */
+const MAX_MERGE_ATTEMPTS = 3;
+
+/** Append-only logs: merged as a union rather than compared. Customer transactionLog is capped at 300. */
+const APPEND_ONLY_LOGS: Record<string, number> = { transactionLog: 300 };
+
+export interface WritePrecondition {
+  /** Version the client last read; undefined = unconditional write. */
+  expectedVersion?: number;
+  /** Three-way merge with the server copy instead of rejecting on a version mismatch. */
+  merge?: boolean;
+}
+
+export interface SaveResult<T> {
+  doc: T;
+  version: number;
+  /** Document that was stored before this write (null if new). */
+  previous: Record<string, any> | null;
+  /** True when the client copy was merged with newer server changes. */
+  merged: boolean;
+}
+
+export interface MergeResult {
+  merged: Record<string, any>;
+  /** Dotted paths edited differently on the server and the client. */
+  conflicts: string[];
+}
+
+/**
+ * KEYS[1] doc, KEYS[2] version counter, KEYS[3] snapshot key prefix
+ * ARGV[1] document JSON, ARGV[2] expected version ('' = unconditional), ARGV[3] snapshot TTL,
+ * ARGV[4] (optional) the stored JSON the write was computed from: also required to be unchanged
+ * (patch(): documents are also written by unversioned paths).
+ * Returns { applied (0/1), version, previous document or nil }.
+ */
+const COMPARE_AND_SET = `
+local current = tonumber(redis.call('GET', KEYS[2]) or '0')
+local stored = redis.call('GET', KEYS[1])
+if (ARGV[2] ~= '' and tonumber(ARGV[2]) ~= current) or (ARGV[4] and stored ~= ARGV[4]) then
+  return {0, current, stored}
+end
+local nextVersion = current + 1
+redis.call('SET', KEYS[1], ARGV[1])
+redis.call('SET', KEYS[2], nextVersion)
+redis.call('SET', KEYS[3] .. nextVersion, ARGV[1], 'EX', tonumber(ARGV[3]))
+return {1, nextVersion, stored}
+`;
+
+/** Read-modify-write attempts before patch() gives up. */
+const MAX_PATCH_ATTEMPTS = 10;
+
+const parseDoc = (data: string | null | undefined): Record<string, any> | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+};
+
+/** Arrays of { id } items (customer rewards[]) are merged per item, keyed by id. */
+const isKeyedArray = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string' && item.id);
+
+const byId = (items: unknown): Record<string, any> => {
+  const map: Record<string, any> = {};
+  if (isKeyedArray(items)) {
+    for (const item of items) map[item.id] = item;
+  }
+  return map;
+};
+
+function mergeValue(base: unknown, server: unknown, client: unknown, path: string, conflicts: string[]): unknown {
+  if (isEqual(server, client)) return server;
+  if (isEqual(base, client)) return server;   // only the server changed
+  if (isEqual(base, server)) return client;   // only the client changed
+
+  const field = path.split('.').pop() as string;
+
+  if (field === 'updatedAt' && typeof server === 'string' && typeof client === 'string') {
+    return server > client ? server : client;
+  }
+
+  if (field in APPEND_ONLY_LOGS && Array.isArray(server) && Array.isArray(client)) {
+    const union = [...server];
+    for (const entry of client) {
+      if (!union.some((existing) => isEqual(existing, entry))) union.push(entry);
+    }
+    return union.slice(-APPEND_ONLY_LOGS[field]);
+  }
+
+  if ((isKeyedArray(server) || server === undefined) && (isKeyedArray(client) || client === undefined)) {
+    const merged = mergeObject(byId(base), byId(server), byId(client), path, conflicts);
+    // Keep server order, then items the client added, in client order
+    const order = [...(server as Array<{ id: string }> ?? []), ...(client as Array<{ id: string }> ?? [])]
+      .map((item) => item.id)
+      .filter((id, i, ids) => ids.indexOf(id) === i && id in merged);
+    return order.map((id) => merged[id]);
+  }
+
+  if (isPlainObject(server) && isPlainObject(client)) {
+    return mergeObject(isPlainObject(base) ? base : {}, server, client, path, conflicts);
+  }
+
+  conflicts.push(path);
+  return server;
+}
+
+function mergeObject(
+  base: Record<string, any>,
+  server: Record<string, any>,
+  client: Record<string, any>,
+  path: string,
+  conflicts: string[],
+): Record<string, any> {
+  const merged: Record<string, any> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(server), ...Object.keys(client)]);
+  for (const key of keys) {
+    const value = mergeValue(base[key], server[key], client[key], path ? `${path}.${key}` : key, conflicts);
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+export const concurrencyService = {
+  /** Current version of a document key (0 = never written with versioning). */
+  async version(key: string): Promise<number> {
+    const value = await redisClient.get(REDIS_KEYS.syncVersion(key));
+    return value ? parseInt(value, 10) || 0 : 0;
+  },
+
+  /** Stored copy of a document at a given version, while its snapshot is retained. */
+  async snapshot(key: string, version: number): Promise<Record<string, any> | null> {
+    return parseDoc(await redisClient.get(REDIS_KEYS.syncSnapshot(key, version)));
+  },
+
+  /**
+   * Three-way merge of a client copy edited from `base` with the current server copy.
+   * Non-overlapping edits are combined; fields edited differently on both sides are conflicts.
+   */
+  merge(base: Record<string, any>, server: Record<string, any>, client: Record<string, any>): MergeResult {
+    const conflicts: string[] = [];
+    const merged = mergeObject(base, server, client, '', conflicts);
+    return { merged, conflicts };
+  },
+
+  /**
+   * Read-modify-write a JSON document without losing concurrent updates (e.g. stats counters):
+   * the write only lands if the stored value and version are unchanged since they were read,
+   * otherwise re-read and re-apply. Bumps the version and snapshots the result like save(), so
+   * an If-Match from before the patch gets 409. Returns null if the document does not exist.
+   */
+  async patch<T = Record<string, any>>(key: string, mutate: (doc: T) => T): Promise<T | null> {
+    for (let attempt = 0; attempt < MAX_PATCH_ATTEMPTS; attempt++) {
+      const [raw, version] = await Promise.all([redisClient.get(key), concurrencyService.version(key)]);
+      if (!raw) return null;
+      const next = mutate(JSON.parse(raw));
+      const [applied] = await redisClient.eval(
+        COMPARE_AND_SET,
+        3,
+        key,
+        REDIS_KEYS.syncVersion(key),
+        REDIS_KEYS.syncSnapshot(key, ''),
+        JSON.stringify(next),
+        String(version),
+        String(SNAPSHOT_TTL_SECONDS),
+        raw,
+      ) as [number];
+      if (applied) return next;
+    }
+    throw new ApiError(409, 'Document is being updated concurrently, retry');
+  },
+
+  /**
+   * Store `doc` at `key` and bump its version.
+   * Throws 409 with the server copy when expectedVersion is stale and the write cannot be merged.
+   */
+  async save<T extends Record<string, any>>(key: string, doc: T, precondition: WritePrecondition = {}): Promise<SaveResult<T>> {
+    let candidate: Record<string, any> = doc;
+    let expected = precondition.expectedVersion;
+    let merged = false;
+
+    for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+      const [applied, version, stored] = await redisClient.eval(
+        COMPARE_AND_SET,
+        3,
+        key,
+        REDIS_KEYS.syncVersion(key),
+        REDIS_KEYS.syncSnapshot(key, ''),
+        JSON.stringify(candidate),
+        expected === undefined ? '' : String(expected),
+        String(SNAPSHOT_TTL_SECONDS),
+      ) as [number, number, string | null | undefined];
+
+      const previous = parseDoc(stored);
+      if (applied) {
+        return { doc: candidate as T, version, previous, merged };
+      }
+
+      const conflict = (reason: string, conflicts?: string[]) => new ApiError(409, reason, {
+        expectedVersion: precondition.expectedVersion,
+        currentVersion: version,
+        current: previous,
+        ...(conflicts ? { conflicts } : {}),
+      });
+
+      if (!precondition.merge) {
+        throw conflict(`Version conflict: document is at version ${version}`);
+      }
+
+      const base = await concurrencyService.snapshot(key, precondition.expectedVersion as number);
+      if (!base || !previous) {
+        throw conflict(`Version conflict: version ${precondition.expectedVersion} is no longer available to merge against`);
+      }
+
+      const result = concurrencyService.merge(base, previous, doc);
+      if (result.conflicts.length > 0) {
+        throw conflict('Version conflict: the same fields were changed on the server', result.conflicts);
+      }
+
+      console.log(`[CONCURRENCY] Merged ${key} from version ${precondition.expectedVersion} onto ${version}`);
+      candidate = result.merged;
+      expected = version;
+      merged = true;
+    }
+
+    throw new ApiError(409, 'Version conflict: document is being updated concurrently, retry');
+  },
+};
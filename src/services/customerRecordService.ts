@@ -11,6 +11,7 @@
  */
 
 import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { concurrencyService, WritePrecondition, SaveResult } from './concurrencyService';
 import type { CustomerRecord } from '../types/customerRecord';
 
 type RewardItem = { id?: string; businessId?: string; businessName?: string };
@@ -50,16 +51,25 @@ export const customerRecordService = {
   /**
    * Full replace: store record at customer:{id}, update email index, then rebuild token-link indexes.
    * Removes customer from old business/token sets and adds to new so indexes stay accurate.
+   * The write is versioned: pass the client's If-Match precondition to reject (or merge) stale copies.
    */
-  async replace(id: string, record: CustomerRecord): Promise<void> {
-    const existing = await redis.getCustomer(id);
-    const oldRewards = Array.isArray((existing as { rewards?: RewardItem[] })?.rewards)
-      ? (existing as { rewards: RewardItem[] }).rewards
+  async replace(id: string, record: CustomerRecord, precondition?: WritePrecondition): Promise<SaveResult<CustomerRecord>> {
+    const doc = { ...record, id };
+    const result = await concurrencyService.save(REDIS_KEYS.customer(id), doc, precondition);
+    await customerRecordService.reindex(id, result.previous, result.doc);
+    return result;
+  },
+
+  /**
+   * Update email index and token-link indexes after customer:{id} has been written.
+   * `previous` is the record that was stored before the write (null for a new customer).
+   */
+  async reindex(id: string, previous: unknown, record: CustomerRecord): Promise<void> {
+    const oldRewards = Array.isArray((previous as { rewards?: RewardItem[] })?.rewards)
+      ? (previous as { rewards: RewardItem[] }).rewards
       : [];
     const newRewards = Array.isArray(record.rewards) ? (record.rewards as RewardItem[]) : [];
 
-    const doc = { ...record, id };
-    await redis.setCustomer(id, doc);
     const email = (record.email ?? '').toString().toLowerCase().trim();
     if (email) await redis.setCustomerEmailIndex(email, id);
 
@@ -0,0 +1,190 @@
+/**
+ * Engagement service — opens, clicks and conversions of notifications
+ *
+ * - open: the app reports it (POST /notifications/opened) or an email's tracking pixel loads
+ * - click: the app reports it (POST /notifications/clicked) or the customer follows a tracked link
+ *   (push data.trackingUrl, email buttons); a click is also an open
+ * - conversion: a stamp or redemption at the notification's business within ATTRIBUTION_WINDOW_HOURS
+ *   of the last open/click of one of its notifications (once per open/click)
+ * The first of each sets openedAt/clickedAt/convertedAt on the stored notification and, for campaign
+ * notifications, counts towards the campaign's stats (impressions = opens, clicks, conversions).
+ *
+ * Tracked links are signed, so the redirect only goes where the notification said, and only to an http(s)
+ * page of ours (customer app, this API, cannycarrot.com) or the sending business's website; any other
+ * target goes to the customer app instead, both when the link is signed and when it is followed.
+ */
+
+import crypto from 'crypto';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { config } from '../config/env';
+import { concurrencyService } from './concurrencyService';
+import { notificationService } from './notificationService';
+import type { CampaignStats, Notification } from '../types';
+
+export type EngagementEvent = 'open' | 'click';
+
+/** A tracked link's payload: member, notification and (for clicks) where to go. */
+export interface TrackingPayload {
+  memberId: string;
+  notificationId: string;
+  target?: string;
+  /** Business whose website the target may be. */
+  businessId?: string;
+}
+
+/** Stamps and redemptions this long after an open or click count as its conversion. */
+const ATTRIBUTION_WINDOW_HOURS = 72;
+
+/** KEYS[1] attribution; returns and deletes it (one conversion per open/click). */
+const TAKE = `
+local value = redis.call('GET', KEYS[1])
+if value then redis.call('DEL', KEYS[1]) end
+return value
+`;
+
+/** Our own domain; the customer app and this API are allowed wherever they are hosted. */
+const OWN_DOMAIN = 'cannycarrot.com';
+
+/** Lower-case hostname without www., or undefined for anything but an http(s) URL. */
+function siteOf(url: unknown): string | undefined {
+  if (typeof url !== 'string' || !url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed.hostname.toLowerCase().replace(/^www\./, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Websites a business lists on its profile (or its online store). */
+function businessSites(business: any): string[] {
+  return [business?.profile?.website, business?.website, business?.websiteUrl]
+    .map(siteOf)
+    .filter((site): site is string => !!site);
+}
+
+const sign = (data: string) => crypto.createHmac('sha256', config.jwtSecret).update(`track:${data}`).digest('base64url');
+
+function trackingToken(payload: TrackingPayload): string {
+  const data = Buffer.from(JSON.stringify({ m: payload.memberId, n: payload.notificationId, u: payload.target, b: payload.businessId })).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+const campaignOf = (notification: Notification): string | undefined =>
+  notification.campaignId ?? (typeof notification.data?.campaignId === 'string' ? notification.data.campaignId : undefined);
+
+export const engagementService = {
+  /** `target` when a tracked link may redirect there (see the header), otherwise the customer app. */
+  async linkTarget(target: string | undefined, businessId?: string): Promise<string> {
+    const site = siteOf(target);
+    if (!site) return config.customerAppUrl;
+    if (site === OWN_DOMAIN || site.endsWith(`.${OWN_DOMAIN}`)
+      || site === siteOf(config.customerAppUrl) || site === siteOf(config.apiBaseUrl)) {
+      return target as string;
+    }
+    const business = businessId ? await redis.getBusiness(businessId) : null;
+    return businessSites(business).includes(site) ? target as string : config.customerAppUrl;
+  },
+
+  /** Signed link that records a click and redirects to the target (default: the customer app). */
+  async trackedLink(memberId: string, notificationId: string, target?: string, businessId?: string): Promise<string> {
+    const token = trackingToken({ memberId, notificationId, target: await engagementService.linkTarget(target, businessId), businessId });
+    return `${config.apiBaseUrl}/api/v1/notifications/track/click/${token}`;
+  },
+
+  /** Signed 1×1 image URL that records an open (emails). */
+  openPixel(memberId: string, notificationId: string): string {
+    return `${config.apiBaseUrl}/api/v1/notifications/track/open/${trackingToken({ memberId, notificationId })}`;
+  },
+
+  /** Payload of a tracked link, or null when it is not signed by us. */
+  verify(token: string): TrackingPayload | null {
+    const [data, signature] = token.split('.');
+    if (!data || !signature) return null;
+    const expected = Buffer.from(sign(data));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+    try {
+      const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+      if (typeof payload.m !== 'string' || typeof payload.n !== 'string') return null;
+      return {
+        memberId: payload.m,
+        notificationId: payload.n,
+        target: typeof payload.u === 'string' ? payload.u : undefined,
+        businessId: typeof payload.b === 'string' ? payload.b : undefined,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Record an open or click. Returns the notification with its engagement times, or null when it is no
+   * longer in the member's history.
+   */
+  async record(memberId: string, notificationId: string, event: EngagementEvent, at = new Date()): Promise<Notification | null> {
+    const now = at.toISOString();
+    const fields: Record<string, string> = event === 'click' ? { openedAt: now, clickedAt: now } : { openedAt: now };
+    const before = await notificationService.update(memberId, notificationId, fields, true);
+    if (!before) return null;
+
+    const campaignId = campaignOf(before);
+    if (campaignId) {
+      if (!before.openedAt) await engagementService.countCampaign(campaignId, 'impressions');
+      if (event === 'click' && !before.clickedAt) await engagementService.countCampaign(campaignId, 'clicks');
+    }
+    if (before.businessId) {
+      await redisClient.set(
+        REDIS_KEYS.notificationAttribution(memberId, before.businessId),
+        JSON.stringify({ notificationId, campaignId, at: now }),
+        'EX',
+        ATTRIBUTION_WINDOW_HOURS * 60 * 60,
+      );
+    }
+
+    const after: Notification = { ...before };
+    for (const [key, value] of Object.entries(fields)) {
+      (after as any)[key] ??= value;
+    }
+    return after;
+  },
+
+  /**
+   * A stamp or redemption at a business: converts the member's last opened/clicked notification of the
+   * business, if within the window. countedCampaignIds already counted this conversion (campaigns applied
+   * to the scan). Best effort: the stamp or redemption is already written.
+   */
+  async attributeConversion(memberId: string, businessId: string, countedCampaignIds: string[] = []): Promise<void> {
+    try {
+      const raw = await redisClient.eval(TAKE, 1, REDIS_KEYS.notificationAttribution(memberId, businessId)) as string | null;
+      if (!raw) return;
+      const attribution: { notificationId: string; campaignId?: string; at: string } = JSON.parse(raw);
+      if (Date.now() - Date.parse(attribution.at) > ATTRIBUTION_WINDOW_HOURS * 60 * 60 * 1000) return;
+
+      const before = await notificationService.update(memberId, attribution.notificationId, { convertedAt: new Date().toISOString() }, true);
+      if (before && !before.convertedAt && attribution.campaignId && !countedCampaignIds.includes(attribution.campaignId)) {
+        await engagementService.countCampaign(attribution.campaignId, 'conversions');
+      }
+    } catch (error: any) {
+      console.error(`❌ [ENGAGEMENT] Conversion attribution failed for ${memberId} at ${businessId}:`, error.message);
+    }
+  },
+
+  /** Add one to a campaign's stats. Best effort. */
+  async countCampaign(campaignId: string, stat: keyof CampaignStats): Promise<void> {
+    try {
+      await concurrencyService.patch(REDIS_KEYS.campaign(campaignId), (campaign) => ({
+        ...campaign,
+        stats: {
+          impressions: 0,
+          clicks: 0,
+          conversions: 0,
+          ...campaign.stats,
+          [stat]: (campaign.stats?.[stat] || 0) + 1,
+        },
+      }));
+    } catch (error: any) {
+      console.error(`❌ [CAMPAIGNS] Failed to count ${stat} on ${campaignId}:`, error.message);
+    }
+  },
+};
@@ -0,0 +1,256 @@
+/**
+ * Expiry service — scheduled expiry of program balances and pre-expiry warnings
+ *
+ * Expiry is rolling: when an earn matches a program `expiry` rule, the balance's expiresAt moves
+ * to earn time + expiryDays (it never moves earlier). When expiresAt passes without another
+ * qualifying earn, everything left in the balance expires as one `expire` transaction.
+ * Balances outside programs have no rules and never expire.
+ *
+ * expiry:schedule (sorted set, score = expiresAt ms) indexes balances that have an expiry date,
+ * so a run only touches balances that are due. run() is safe to call from several places:
+ * expiring is a conditional Lua script per balance, warnings are de-duplicated per expiry date,
+ * and a short lock skips overlapping runs. Invoked by GET/POST /api/v1/jobs/expiry (cron)
+ * or src/workers/expiryWorker.ts.
+ */
+
+import { redisClient, REDIS_KEYS, redis } from '../config/redis';
+import { ledgerService, LEDGER_LUA } from './ledgerService';
+import { programService } from './programService';
+import { notificationService } from './notificationService';
+import { notificationTemplateService } from './notificationTemplateService';
+import type { LoyaltyProgram } from '../types/extended';
+
+/** Warn this long before a balance expires. */
+export const EXPIRY_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Balances handled per batch, and batches per run, so one run stays inside a serverless timeout. */
+const BATCH_SIZE = 200;
+const MAX_BATCHES = 25;
+
+const LOCK_TTL_SECONDS = 5 * 60;
+
+/**
+ * KEYS[1] balance, KEYS[2] schedule; ARGV[1] expiresAt ISO, ARGV[2] expiresAt ms, ARGV[3] schedule member
+ * Moves expiresAt later (never earlier). Returns 1 if it moved.
+ */
+const EXTEND_EXPIRY = `
+local current = redis.call('HGET', KEYS[1], 'expiresAt')
+if current and current >= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'expiresAt', ARGV[1])
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[3])
+return 1
+`;
+
+/**
+ * KEYS[1] ledger stream, KEYS[2] balance, KEYS[3] schedule
+ * ARGV[1] expire transaction JSON, ARGV[2] available when read, ARGV[3] expiresAt when read, ARGV[4] now,
+ * ARGV[5] schedule member
+ * Expires the balance only if neither expiresAt nor the balance changed since they were read
+ * (an earn or redemption in between): returns 1, otherwise 0 and the next run retries.
+ */
+const EXPIRE_BALANCE = `${LEDGER_LUA}
+if redis.call('HGET', KEYS[2], 'expiresAt') ~= ARGV[3] then return 0 end
+local available = balance_available(KEYS[2], 0)
+if available ~= tonumber(ARGV[2]) then return 0 end
+if available > 0 then
+  ledger_append(KEYS[1], KEYS[2], ARGV[1], -available, 'expire', ARGV[4], 0)
+end
+redis.call('HDEL', KEYS[2], 'expiresAt')
+redis.call('ZREM', KEYS[3], ARGV[5])
+return 1
+`;
+
+export interface ExpiryRunResult {
+  /** Balances expired (including empty ones that were only unscheduled). */
+  expired: number;
+  /** Stamps/points removed across all programs. */
+  pointsExpired: number;
+  /** Pre-expiry notifications queued. */
+  warned: number;
+  /** Balances that changed mid-run and were left for the next run. */
+  skipped: number;
+  /** True when another run held the lock and this one did nothing. */
+  locked: boolean;
+  ranAt: string;
+}
+
+const scheduleMember = (programId: string, customerId: string) => `${programId}:${customerId}`;
+
+function parseMember(member: string): { programId: string; customerId: string } {
+  const split = member.indexOf(':');
+  return { programId: member.slice(0, split), customerId: member.slice(split + 1) };
+}
+
+/** Program documents are read once per run. */
+function programCache() {
+  const programs = new Map<string, Promise<LoyaltyProgram | null>>();
+  return (id: string) => {
+    if (!programs.has(id)) programs.set(id, programService.get(id));
+    return programs.get(id) as Promise<LoyaltyProgram | null>;
+  };
+}
+
+/** Expire one due balance. Returns the amount expired, or null if it changed and was skipped. */
+async function expireBalance(member: string, program: LoyaltyProgram | null, now: string): Promise<number | null> {
+  const { programId, customerId } = parseMember(member);
+  const balanceKey = REDIS_KEYS.programBalance(customerId, programId);
+  const [expiresAt, availableRaw] = await redisClient.hmget(balanceKey, 'expiresAt', 'availablePoints');
+
+  if (!expiresAt || !program) {
+    // Balance cleared or program gone: nothing left to expire
+    await redisClient.zrem(REDIS_KEYS.expirySchedule(), member);
+    return 0;
+  }
+
+  const available = parseInt(availableRaw || '0', 10) || 0;
+  const transaction = ledgerService.buildTransaction({
+    customerId,
+    businessId: program.businessId,
+    programId,
+    membershipId: await redisClient.get(REDIS_KEYS.programMembership(programId, customerId)) || undefined,
+    type: 'expire',
+    source: 'manual',
+    amountPoints: -available,
+    description: `${program.currency === 'stamps' ? 'Stamps' : 'Points'} expired`,
+    processedBy: 'system',
+    metadata: { expiresAt },
+  }, now);
+
+  const applied = await redisClient.eval(
+    EXPIRE_BALANCE,
+    3,
+    REDIS_KEYS.customerLedger(customerId),
+    balanceKey,
+    REDIS_KEYS.expirySchedule(),
+    JSON.stringify(transaction),
+    String(available),
+    expiresAt,
+    now,
+    member,
+  );
+  return applied === 1 ? available : null;
+}
+
+/** Queue the "expire in 7 days" notification once per expiry date. Returns true if queued. */
+async function warn(entry: string, program: LoyaltyProgram | null, now: string): Promise<boolean> {
+  const { programId, customerId } = parseMember(entry);
+  if (!program) return false;
+
+  const balance = await ledgerService.getBalance(customerId, program.businessId, programId);
+  if (!balance.expiresAt || balance.expiresAt <= now || balance.availablePoints <= 0) return false;
+
+  const customer = await redis.getMember(customerId);
+  if (!customer || customer.preferences?.push === false) return false;
+
+  const claimed = await redisClient.set(
+    REDIS_KEYS.expiryWarning(entry, balance.expiresAt),
+    now,
+    'EX',
+    (EXPIRY_WARNING_DAYS + 1) * 24 * 60 * 60,
+    'NX',
+  );
+  if (!claimed) return false;
+
+  const business = await redis.getBusiness(program.businessId);
+  const days = Math.max(1, Math.ceil((Date.parse(balance.expiresAt) - Date.parse(now)) / DAY_MS));
+  const { title, message } = await notificationTemplateService.render(
+    'points_expiring',
+    { businessId: program.businessId, locale: customer.locale },
+    {
+      firstName: customer.firstName,
+      businessName: business?.name || program.name,
+      amount: balance.availablePoints,
+      currency: program.currency,
+      days,
+      expiresOn: balance.expiresAt.split('T')[0],
+    },
+  );
+  await notificationService.queue(customerId, {
+    type: 'points_expiring',
+    businessId: program.businessId,
+    businessName: business?.name,
+    title,
+    message,
+    data: {
+      programId,
+      availablePoints: balance.availablePoints,
+      expiresAt: balance.expiresAt,
+    },
+  }, now);
+  return true;
+}
+
+export const expiryService = {
+  /**
+   * Move a program balance's expiry to `expiresAt` if that is later than the current one.
+   * Call after an earn that matched an expiry rule.
+   */
+  async extend(customerId: string, programId: string, expiresAt: Date): Promise<void> {
+    await redisClient.eval(
+      EXTEND_EXPIRY,
+      2,
+      REDIS_KEYS.programBalance(customerId, programId),
+      REDIS_KEYS.expirySchedule(),
+      expiresAt.toISOString(),
+      String(expiresAt.getTime()),
+      scheduleMember(programId, customerId),
+    );
+  },
+
+  /** Expire every due balance and queue warnings for balances expiring within 7 days. */
+  async run(at = new Date()): Promise<ExpiryRunResult> {
+    const now = at.toISOString();
+    const result: ExpiryRunResult = { expired: 0, pointsExpired: 0, warned: 0, skipped: 0, locked: false, ranAt: now };
+
+    const lockKey = REDIS_KEYS.jobLock('expiry');
+    if (!await redisClient.set(lockKey, now, 'EX', LOCK_TTL_SECONDS, 'NX')) {
+      return { ...result, locked: true };
+    }
+
+    try {
+      const program = programCache();
+      const schedule = REDIS_KEYS.expirySchedule();
+
+      // Due balances leave the schedule as they expire, so always read from the start
+      for (let batch = 0; batch < MAX_BATCHES; batch++) {
+        const due = await redisClient.zrangebyscore(schedule, '-inf', at.getTime(), 'LIMIT', result.skipped, BATCH_SIZE);
+        if (due.length === 0) break;
+        for (const member of due) {
+          const amount = await expireBalance(member, await program(parseMember(member).programId), now);
+          if (amount === null) {
+            result.skipped++;
+          } else {
+            result.expired++;
+            result.pointsExpired += amount;
+          }
+        }
+      }
+
+      const upcoming = await redisClient.zrangebyscore(
+        schedule,
+        `(${at.getTime()}`,
+        at.getTime() + EXPIRY_WARNING_DAYS * DAY_MS,
+        'LIMIT',
+        0,
+        BATCH_SIZE * MAX_BATCHES,
+      );
+      for (const member of upcoming) {
+        if (await warn(member, await program(parseMember(member).programId), now)) result.warned++;
+      }
+
+      await redisClient.hset(REDIS_KEYS.jobLastRun('expiry'), {
+        ranAt: now,
+        expired: result.expired,
+        pointsExpired: result.pointsExpired,
+        warned: result.warned,
+        skipped: result.skipped,
+      });
+      console.log(`[EXPIRY] ${result.expired} balances expired (${result.pointsExpired} points), ${result.warned} warnings queued, ${result.skipped} skipped`);
+      return result;
+    } finally {
+      await redisClient.del(lockKey);
+    }
+  },
+};
@@ -0,0 +1,183 @@
+/**
+ * Geo service — Redis GEO index of businesses and their branches, for map and radius search
+ *
+ * geo:places holds one member per position: "{businessId}" for a business's own coordinates
+ * and "{businessId}:{locationId}" for each active branch. Writes keep it in step (business
+ * create/update/sync, location create/update/deactivate), so searches are GEOSEARCH queries
+ * instead of loading every business. A business matches through its nearest position.
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { locationService } from './locationService';
+import type { Location } from '../types/extended';
+
+export type DistanceUnit = 'mi' | 'km';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GeoBounds {
+  northeast: LatLng;
+  southwest: LatLng;
+}
+
+export interface GeoMatch {
+  businessId: string;
+  /** Branch the distance is measured to; absent for the business's own position. */
+  locationId?: string;
+  distanceKm: number;
+  distanceMiles: number;
+  coordinates: LatLng;
+}
+
+export const KM_PER_MILE = 1.609344;
+const EARTH_RADIUS_KM = 6371.0088;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Great-circle distance in km. */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Validate { lat, lng } from a request body. */
+export function checkLatLng(value: any, field: string): LatLng {
+  const { lat, lng } = value ?? {};
+  if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -85.05 || lat > 85.05
+    || typeof lng !== 'number' || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+    throw new ApiError(400, `${field} must be { lat: -85..85, lng: -180..180 }`);
+  }
+  return { lat, lng };
+}
+
+/** Map position of a business document: coordinates or profile.coordinates ({ latitude, longitude }). */
+function businessPosition(doc: Record<string, any>): LatLng | null {
+  const coordinates = doc.coordinates ?? doc.profile?.coordinates;
+  const lat = coordinates?.latitude;
+  const lng = coordinates?.longitude;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng)
+    || Math.abs(lat) > 85.05 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+}
+
+/** GEOSEARCH ... WITHDIST WITHCOORD reply → nearest match per business. */
+function nearestPerBusiness(reply: unknown, unit: DistanceUnit): Map<string, GeoMatch> {
+  const matches = new Map<string, GeoMatch>();
+  for (const [member, distance, [lng, lat]] of reply as [string, string, [string, string]][]) {
+    const [businessId, locationId] = member.split(':');
+    const km = unit === 'km' ? parseFloat(distance) : parseFloat(distance) * KM_PER_MILE;
+    const existing = matches.get(businessId);
+    if (existing && existing.distanceKm <= km) continue;
+    matches.set(businessId, {
+      businessId,
+      ...(locationId ? { locationId } : {}),
+      distanceKm: round(km),
+      distanceMiles: round(km / KM_PER_MILE),
+      coordinates: { lat: parseFloat(lat), lng: parseFloat(lng) },
+    });
+  }
+  return matches;
+}
+
+export const geoService = {
+  /** Index (or un-index) a business's own position after a write. Best effort. */
+  async indexBusiness(businessId: string, doc: Record<string, any>): Promise<void> {
+    try {
+      const position = businessPosition(doc);
+      if (position) {
+        await redisClient.geoadd(REDIS_KEYS.geoPlaces(), position.lng, position.lat, businessId);
+      } else {
+        await redisClient.zrem(REDIS_KEYS.geoPlaces(), businessId);
+      }
+    } catch (error: any) {
+      console.error(`❌ [GEO] Failed to index business ${businessId}:`, error.message);
+    }
+  },
+
+  /** Index an active branch; inactive branches leave the index. */
+  async indexLocation(location: Location): Promise<void> {
+    const member = `${location.businessId}:${location.id}`;
+    if (location.isActive) {
+      await redisClient.geoadd(REDIS_KEYS.geoPlaces(), location.coordinates.longitude, location.coordinates.latitude, member);
+    } else {
+      await redisClient.zrem(REDIS_KEYS.geoPlaces(), member);
+    }
+  },
+
+  /**
+   * Rebuild the index from every business and branch (for data written before the index existed).
+   * Built under a temporary key and swapped in, so searches never see a half-built index.
+   */
+  async reindex(): Promise<{ businesses: number; locations: number }> {
+    const counts = { businesses: 0, locations: 0 };
+    const rebuildKey = `${REDIS_KEYS.geoPlaces()}:rebuild`;
+    await redisClient.del(rebuildKey);
+    for (const businessId of await redisClient.smembers(REDIS_KEYS.allBusinesses())) {
+      const data = await redisClient.get(REDIS_KEYS.business(businessId));
+      const position = data ? businessPosition(JSON.parse(data)) : null;
+      if (position) {
+        await redisClient.geoadd(rebuildKey, position.lng, position.lat, businessId);
+        counts.businesses++;
+      }
+      for (const location of await locationService.listForBusiness(businessId, { activeOnly: true })) {
+        await redisClient.geoadd(rebuildKey, location.coordinates.longitude, location.coordinates.latitude, `${businessId}:${location.id}`);
+        counts.locations++;
+      }
+    }
+    if (counts.businesses + counts.locations > 0) {
+      await redisClient.rename(rebuildKey, REDIS_KEYS.geoPlaces());
+    } else {
+      await redisClient.del(REDIS_KEYS.geoPlaces());
+    }
+    console.log(`[GEO] Reindexed ${counts.businesses} businesses and ${counts.locations} locations`);
+    return counts;
+  },
+
+  /** Businesses with a position within `radius` of `center`, nearest first. */
+  async withinRadius(center: LatLng, radius: number, unit: DistanceUnit): Promise<GeoMatch[]> {
+    const reply = await redisClient.call(
+      'GEOSEARCH', REDIS_KEYS.geoPlaces(),
+      'FROMLONLAT', String(center.lng), String(center.lat),
+      'BYRADIUS', String(radius), unit,
+      'WITHDIST', 'WITHCOORD', 'ASC',
+    );
+    return [...nearestPerBusiness(reply, unit).values()].sort((a, b) => a.distanceKm - b.distanceKm);
+  },
+
+  /**
+   * Businesses with a position inside the map bounds, nearest to the centre of the map first.
+   * GEOSEARCH BYBOX is centred and axis-aligned in km, so positions are re-checked against the bounds.
+   */
+  async withinBounds(bounds: GeoBounds): Promise<GeoMatch[]> {
+    const { northeast: ne, southwest: sw } = bounds;
+    if (ne.lat < sw.lat || ne.lng < sw.lng) {
+      throw new ApiError(400, 'bounds.northeast must be north-east of bounds.southwest');
+    }
+    const center = { lat: (ne.lat + sw.lat) / 2, lng: (ne.lng + sw.lng) / 2 };
+    // Widest east-west span is at the edge nearest the equator
+    const edgeLat = Math.abs(ne.lat) < Math.abs(sw.lat) ? ne.lat : sw.lat;
+    const widthKm = haversineKm({ lat: edgeLat, lng: sw.lng }, { lat: edgeLat, lng: ne.lng });
+    const heightKm = haversineKm({ lat: sw.lat, lng: center.lng }, { lat: ne.lat, lng: center.lng });
+
+    const reply = await redisClient.call(
+      'GEOSEARCH', REDIS_KEYS.geoPlaces(),
+      'FROMLONLAT', String(center.lng), String(center.lat),
+      'BYBOX', String(Math.max(widthKm, 0.001) * 1.01), String(Math.max(heightKm, 0.001) * 1.01), 'km',
+      'WITHDIST', 'WITHCOORD', 'ASC',
+    ) as [string, string, [string, string]][];
+    const inside = reply.filter(([, , [lng, lat]]) => {
+      const position = { lat: parseFloat(lat), lng: parseFloat(lng) };
+      return position.lat >= sw.lat && position.lat <= ne.lat && position.lng >= sw.lng && position.lng <= ne.lng;
+    });
+    return [...nearestPerBusiness(inside, 'km').values()].sort((a, b) => a.distanceKm - b.distanceKm);
+  },
+};
@@ -0,0 +1,306 @@
+/**
+ * Ledger service — append-only points ledger (Transaction) and balances (PointsBalance)
+ *
+ * Every earn and burn is a Transaction appended to the customer's ledger stream
+ * (customer:{id}:ledger) — entries are never edited or removed. The balance per business
+ * (customer:{id}:balance:{businessId}) is a hash updated in the same Lua call as the append,
+ * so the balance always equals the sum of the ledger.
+ *
+ * Stamps are points: one stamp earns 1 point, a redemption burns reward.stampsRequired.
+ * Balances that predate the ledger are seeded from the legacy stamp list length on first write.
+ * Transactions with a programId belong to that LoyaltyProgram: they move the program balance
+ * (customer:{id}:program:{programId}:balance) instead, which starts at zero.
+ *
+ * LEDGER_LUA is a Lua prelude; scripts that must append atomically with other writes
+ * (stampService) include it and call ledger_append().
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import type { Transaction, PointsBalance } from '../types/extended';
+
+export type TransactionType = Transaction['type'];
+export type TransactionSource = Transaction['source'];
+
+export interface LedgerEntry extends Transaction {
+  customerId: string;
+  /** Stream entry id — also the pagination cursor. */
+  cursor: string;
+}
+
+export interface LedgerPage {
+  transactions: LedgerEntry[];
+  /** Pass as ?cursor= to fetch older entries; null when there are no more. */
+  nextCursor: string | null;
+}
+
+export interface NewTransaction {
+  customerId: string;
+  businessId: string;
+  type: TransactionType;
+  source: TransactionSource;
+  /** Positive for earn/refund, negative for redeem/expire; adjust may be either. */
+  amountPoints: number;
+  /** LoyaltyProgram the points belong to; omitted for the business-wide balance. */
+  programId?: string;
+  /** Program membership id; defaults to the implicit business membership. */
+  membershipId?: string;
+  locationId?: string;
+  monetaryValue?: number;
+  receiptId?: string;
+  orderId?: string;
+  description?: string;
+  processedBy?: string;
+  metadata?: Record<string, any>;
+}
+
+/** Earn activity of a customer at one business, over the whole ledger. */
+export interface BusinessActivity {
+  businessId: string;
+  /** Earn transactions (scans, receipts, orders). */
+  visits: number;
+  /** £ spent (monetaryValue of those earns). */
+  spend: number;
+  firstVisitAt: string;
+  lastVisitAt: string;
+}
+
+export const DEFAULT_LEDGER_PAGE_SIZE = 50;
+export const MAX_LEDGER_PAGE_SIZE = 200;
+
+/**
+ * ledger_append(stream, balance, txJson, amount, type, now, seed)
+ * Seeds a missing balance with `seed` (legacy stamp count), applies the amount, appends the entry.
+ * Returns the stream entry id.
+ */
+export const LEDGER_LUA = `
+local function ledger_append(stream, balance, txJson, amount, txType, now, seed)
+  if redis.call('EXISTS', balance) == 0 then
+    redis.call('HSET', balance, 'availablePoints', seed, 'pendingPoints', 0, 'lifetimePoints', seed, 'lifetimeRedeemed', 0)
+  end
+  redis.call('HINCRBY', balance, 'availablePoints', amount)
+  if txType == 'earn' then
+    redis.call('HINCRBY', balance, 'lifetimePoints', amount)
+    redis.call('HSET', balance, 'lastEarnAt', now)
+  elseif txType == 'redeem' then
+    redis.call('HINCRBY', balance, 'lifetimeRedeemed', -amount)
+    redis.call('HSET', balance, 'lastRedeemAt', now)
+  end
+  redis.call('HSET', balance, 'updatedAt', now)
+  return redis.call('XADD', stream, '*', 'tx', txJson)
+end
+
+local function balance_available(balance, seed)
+  local available = redis.call('HGET', balance, 'availablePoints')
+  if available then return tonumber(available) end
+  return tonumber(seed)
+end
+`;
+
+/**
+ * KEYS[1] ledger stream, KEYS[2] balance, KEYS[3] legacy stamp list (balance seed)
+ * ARGV[1] tx JSON, ARGV[2] amount, ARGV[3] type, ARGV[4] now, ARGV[5] '1' to seed from the legacy list
+ * Burns that would take the balance below zero are refused: {0, available}. Otherwise {1, entryId, available}.
+ */
+const RECORD_TRANSACTION = `${LEDGER_LUA}
+local seed = 0
+if ARGV[5] == '1' then seed = redis.call('LLEN', KEYS[3]) end
+local amount = tonumber(ARGV[2])
+local available = balance_available(KEYS[2], seed)
+if amount < 0 and available + amount < 0 then
+  return {0, available}
+end
+local entryId = ledger_append(KEYS[1], KEYS[2], ARGV[1], amount, ARGV[3], ARGV[4], seed)
+return {1, entryId, tonumber(redis.call('HGET', KEYS[2], 'availablePoints'))}
+`;
+
+/** Implicit membership of a customer with a business, for points outside any program. */
+export const membershipIdFor = (customerId: string, businessId: string): string => `${customerId}:${businessId}`;
+
+/** Balance hash for a business-wide or program-scoped balance. */
+export const balanceKey = (customerId: string, businessId: string, programId?: string): string =>
+  programId ? REDIS_KEYS.programBalance(customerId, programId) : REDIS_KEYS.pointsBalance(customerId, businessId);
+
+/** The stream id immediately before `id`, for exclusive XREVRANGE paging. */
+function streamIdBefore(id: string): string | null {
+  const [ms, seq] = id.split('-').map((part) => BigInt(part));
+  if (seq > 0n) return `${ms}-${seq - 1n}`;
+  if (ms > 0n) return `${ms - 1n}-18446744073709551615`;
+  return null;
+}
+
+function toEntry(customerId: string, cursor: string, fields: string[]): LedgerEntry | null {
+  const index = fields.indexOf('tx');
+  if (index === -1) return null;
+  try {
+    return { ...JSON.parse(fields[index + 1]), customerId, cursor };
+  } catch {
+    return null;
+  }
+}
+
+/** Visit every ledger entry from stream id `start` onwards, oldest first. */
+async function scanForward(customerId: string, start: string, visit: (entry: LedgerEntry) => void): Promise<void> {
+  const key = REDIS_KEYS.customerLedger(customerId);
+  for (;;) {
+    const batch = await redisClient.xrange(key, start, '+', 'COUNT', MAX_LEDGER_PAGE_SIZE);
+    for (const [id, fields] of batch) {
+      const entry = toEntry(customerId, id, fields);
+      if (entry) visit(entry);
+    }
+    if (batch.length < MAX_LEDGER_PAGE_SIZE) break;
+    start = `(${batch[batch.length - 1][0]}`;
+  }
+}
+
+export const ledgerService = {
+  /** Build a Transaction for a ledger append (id, membership and timestamp filled in). */
+  buildTransaction(input: NewTransaction, occurredAt = new Date().toISOString()): Transaction {
+    const { customerId, membershipId, ...rest } = input;
+    return {
+      id: uuidv4(),
+      membershipId: membershipId || membershipIdFor(customerId, input.businessId),
+      ...rest,
+      processedBy: input.processedBy || 'system',
+      occurredAt,
+    };
+  },
+
+  /**
+   * Append a transaction and update the balance atomically.
+   * Throws 400 if a burn exceeds the available balance.
+   */
+  async record(input: NewTransaction): Promise<{ transaction: Transaction; balance: PointsBalance }> {
+    if (!Number.isInteger(input.amountPoints) || input.amountPoints === 0) {
+      throw new ApiError(400, 'amountPoints must be a non-zero integer');
+    }
+    const transaction = ledgerService.buildTransaction(input);
+    const [applied, detail] = await redisClient.eval(
+      RECORD_TRANSACTION,
+      3,
+      REDIS_KEYS.customerLedger(input.customerId),
+      balanceKey(input.customerId, input.businessId, input.programId),
+      REDIS_KEYS.customerStamps(input.customerId, input.businessId),
+      JSON.stringify(transaction),
+      String(input.amountPoints),
+      input.type,
+      transaction.occurredAt,
+      input.programId ? '0' : '1',
+    ) as [number, number | string];
+
+    if (!applied) {
+      throw new ApiError(400, `Insufficient points: ${detail} available, ${-input.amountPoints} required`);
+    }
+    return {
+      transaction,
+      balance: await ledgerService.getBalance(input.customerId, input.businessId, input.programId),
+    };
+  },
+
+  /**
+   * Current balance with a business, or in one of its programs when programId is given
+   * (zeros if the customer never earned there).
+   */
+  async getBalance(customerId: string, businessId: string, programId?: string): Promise<PointsBalance> {
+    const hash = await redisClient.hgetall(balanceKey(customerId, businessId, programId));
+    let available = parseInt(hash.availablePoints, 10);
+    let lifetime = parseInt(hash.lifetimePoints, 10);
+    if (Number.isNaN(available)) {
+      // Not on the ledger yet: legacy stamp list is the business balance; programs start empty
+      available = programId ? 0 : await redisClient.llen(REDIS_KEYS.customerStamps(customerId, businessId));
+      lifetime = available;
+    }
+    const membershipId = programId
+      ? await redisClient.get(REDIS_KEYS.programMembership(programId, customerId)) || ''
+      : membershipIdFor(customerId, businessId);
+    return {
+      id: programId ? `${customerId}:${programId}` : membershipIdFor(customerId, businessId),
+      membershipId,
+      availablePoints: available,
+      pendingPoints: parseInt(hash.pendingPoints, 10) || 0,
+      lifetimePoints: lifetime || 0,
+      lifetimeRedeemed: parseInt(hash.lifetimeRedeemed, 10) || 0,
+      ...(hash.lastEarnAt ? { lastEarnAt: hash.lastEarnAt } : {}),
+      ...(hash.lastRedeemAt ? { lastRedeemAt: hash.lastRedeemAt } : {}),
+      ...(hash.expiresAt ? { expiresAt: hash.expiresAt } : {}),
+      updatedAt: hash.updatedAt || new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Newest-first page of a customer's ledger, optionally for one business or program.
+   * `cursor` is the `cursor` of the last entry of the previous page.
+   */
+  async list(
+    customerId: string,
+    options: { businessId?: string; programId?: string; cursor?: string; limit?: number } = {},
+  ): Promise<LedgerPage> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_LEDGER_PAGE_SIZE, 1), MAX_LEDGER_PAGE_SIZE);
+    const key = REDIS_KEYS.customerLedger(customerId);
+    const transactions: LedgerEntry[] = [];
+
+    let end: string | null = '+';
+    if (options.cursor) {
+      if (!/^\d+-\d+$/.test(options.cursor)) throw new ApiError(400, 'Invalid cursor');
+      end = streamIdBefore(options.cursor);
+    }
+
+    // Read in batches so a business/program filter can still fill the page
+    while (end && transactions.length < limit) {
+      const batch = await redisClient.xrevrange(key, end, '-', 'COUNT', limit * 2);
+      if (batch.length === 0) {
+        end = null;
+        break;
+      }
+      for (const [id, fields] of batch) {
+        end = streamIdBefore(id);
+        const entry = toEntry(customerId, id, fields);
+        if (!entry || (options.businessId && entry.businessId !== options.businessId)) continue;
+        if (options.programId && entry.programId !== options.programId) continue;
+        transactions.push(entry);
+        if (transactions.length === limit) break;
+      }
+      if (batch.length < limit * 2 && transactions.length < limit) end = null;
+    }
+
+    const last = transactions[transactions.length - 1];
+    return { transactions, nextCursor: end && last ? last.cursor : null };
+  },
+
+  /**
+   * Points earned and £ spent (monetaryValue) by `earn` entries since `since`, in one program
+   * or business. Used for tier qualification; redemptions and expiries do not count against it.
+   */
+  async earnedSince(
+    customerId: string,
+    since: Date,
+    scope: { businessId?: string; programId?: string } = {},
+  ): Promise<{ points: number; spend: number }> {
+    const totals = { points: 0, spend: 0 };
+    await scanForward(customerId, `${since.getTime()}-0`, (entry) => {
+      if (entry.type !== 'earn') return;
+      if (scope.businessId && entry.businessId !== scope.businessId) return;
+      if (scope.programId && entry.programId !== scope.programId) return;
+      totals.points += entry.amountPoints;
+      totals.spend += entry.monetaryValue ?? 0;
+    });
+    totals.spend = Math.round(totals.spend * 100) / 100;
+    return totals;
+  },
+
+  /** Visits and £ spent per business over a customer's whole ledger (used by segments). */
+  async activityByBusiness(customerId: string): Promise<Map<string, BusinessActivity>> {
+    const activity = new Map<string, BusinessActivity>();
+    await scanForward(customerId, '-', (entry) => {
+      if (entry.type !== 'earn') return;
+      const current = activity.get(entry.businessId)
+        ?? { businessId: entry.businessId, visits: 0, spend: 0, firstVisitAt: entry.occurredAt, lastVisitAt: entry.occurredAt };
+      current.visits++;
+      current.spend = Math.round((current.spend + (entry.monetaryValue ?? 0)) * 100) / 100;
+      current.lastVisitAt = entry.occurredAt;
+      activity.set(entry.businessId, current);
+    });
+    return activity;
+  },
+};
@@ -0,0 +1,286 @@
+/**
+ * Location service — branches of a business, their opening hours and per-location activity
+ *
+ * A business with several branches has one Location per branch (address, coordinates, opening
+ * hours). Stamps, redemptions and check-ins can name a locationId; each one increments that
+ * location's counters so business stats can be broken down by branch.
+ *
+ * Storage:
+ * - location:{id} (JSON) + business:{id}:locations (set)
+ * - location:{id}:stats (hash: stamps, redemptions, checkIns), location:{id}:customers (set)
+ * - location:{id}:checkins (list of recent CheckIn JSON, newest first)
+ * Deleting a location deactivates it so historic stamps and stats keep their branch.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { parseClockTime } from '../utils/ukTime';
+import { isOpenAt } from '../utils/schedule';
+import { geoService } from './geoService';
+import type { Location, OpeningHours, DayHours, CheckIn } from '../types/extended';
+
+export const WEEKDAYS: (keyof Omit<OpeningHours, 'exceptions'>)[] = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+];
+
+export const CHECK_IN_METHODS: CheckIn['method'][] = ['qr', 'nfc', 'manual', 'auto'];
+
+export type LocationActivity = 'stamps' | 'redemptions' | 'checkIns';
+
+export interface LocationStats {
+  locationId: string;
+  name: string;
+  isActive: boolean;
+  stamps: number;
+  redemptions: number;
+  checkIns: number;
+  /** Distinct customers with any activity at the location. */
+  customers: number;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_FIELD_LENGTH = 200;
+
+/** Recent check-ins kept per location. */
+const CHECK_IN_HISTORY = 1000;
+
+const parse = <T>(data: string | null | undefined): T | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+};
+
+function checkString(value: unknown, field: string, required: boolean): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new ApiError(400, `${field} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim().length > MAX_FIELD_LENGTH) {
+    throw new ApiError(400, `${field} must be a string of at most ${MAX_FIELD_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function checkAddress(value: any): Location['address'] {
+  if (!value || typeof value !== 'object') {
+    throw new ApiError(400, 'address is required: { line1, line2?, city, postcode, country? }');
+  }
+  const line2 = checkString(value.line2, 'address.line2', false);
+  return {
+    line1: checkString(value.line1, 'address.line1', true)!,
+    ...(line2 ? { line2 } : {}),
+    city: checkString(value.city, 'address.city', true)!,
+    postcode: checkString(value.postcode, 'address.postcode', true)!.toUpperCase(),
+    country: checkString(value.country, 'address.country', false) || 'GB',
+  };
+}
+
+export function checkCoordinates(value: any, field = 'coordinates'): Location['coordinates'] {
+  const { latitude, longitude } = value ?? {};
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90
+    || typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new ApiError(400, `${field} must be { latitude: -90..90, longitude: -180..180 }`);
+  }
+  return { latitude, longitude };
+}
+
+function checkDayHours(value: any, field: string): DayHours {
+  if (!value || typeof value !== 'object') {
+    throw new ApiError(400, `${field} must be { open: "HH:MM", close: "HH:MM", closed? }`);
+  }
+  if (value.closed === true) {
+    return { open: value.open ?? '00:00', close: value.close ?? '00:00', closed: true };
+  }
+  if (parseClockTime(value.open) === null || parseClockTime(value.close) === null) {
+    throw new ApiError(400, `${field}.open and ${field}.close must be HH:MM (24h)`);
+  }
+  return { open: value.open, close: value.close };
+}
+
+/** Weekly hours and date exceptions (holidays, special hours). Days left out are closed. */
+export function checkOpeningHours(value: any): OpeningHours {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError(400, 'openingHours must be an object keyed by weekday');
+  }
+  const hours: OpeningHours = {};
+  for (const key of Object.keys(value)) {
+    if (key !== 'exceptions' && !WEEKDAYS.includes(key as typeof WEEKDAYS[number])) {
+      throw new ApiError(400, `openingHours.${key} is not a weekday`);
+    }
+  }
+  for (const day of WEEKDAYS) {
+    if (value[day] !== undefined) hours[day] = checkDayHours(value[day], `openingHours.${day}`);
+  }
+  if (value.exceptions !== undefined) {
+    if (!Array.isArray(value.exceptions)) {
+      throw new ApiError(400, 'openingHours.exceptions must be an array');
+    }
+    hours.exceptions = value.exceptions.map((exception: any, i: number) => {
+      const field = `openingHours.exceptions[${i}]`;
+      if (typeof exception?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(exception.date)
+        || Number.isNaN(Date.parse(exception.date))) {
+        throw new ApiError(400, `${field}.date must be YYYY-MM-DD`);
+      }
+      if (exception.closed === true) return { date: exception.date, closed: true };
+      const { open, close } = checkDayHours(exception, field);
+      return { date: exception.date, open, close, closed: false };
+    });
+  }
+  return hours;
+}
+
+/** Location fields from a request body, validated. `partial` allows leaving fields out (updates). */
+function locationFields(body: any, partial: boolean): Partial<Location> {
+  const fields: Partial<Location> = {};
+  if (!partial || body?.name !== undefined) {
+    const name = checkString(body?.name, 'name', true)!;
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new ApiError(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    fields.name = name;
+  }
+  if (!partial || body?.address !== undefined) fields.address = checkAddress(body?.address);
+  if (!partial || body?.coordinates !== undefined) fields.coordinates = checkCoordinates(body?.coordinates);
+  if (!partial || body?.openingHours !== undefined) fields.openingHours = checkOpeningHours(body?.openingHours);
+  if (body?.phone !== undefined && body.phone !== null) fields.phone = checkString(body.phone, 'phone', true);
+  if (body?.email !== undefined && body.email !== null) fields.email = checkString(body.email, 'email', true);
+  if (body?.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') throw new ApiError(400, 'isActive must be a boolean');
+    fields.isActive = body.isActive;
+  }
+  return fields;
+}
+
+export const locationService = {
+  async get(id: string): Promise<Location | null> {
+    return parse<Location>(await redisClient.get(REDIS_KEYS.location(id)));
+  },
+
+  /** A business's locations, oldest first. */
+  async listForBusiness(businessId: string, options: { activeOnly?: boolean } = {}): Promise<Location[]> {
+    const ids = await redisClient.smembers(REDIS_KEYS.businessLocations(businessId));
+    const locations = await Promise.all(ids.map((id) => locationService.get(id)));
+    return locations
+      .filter((l): l is Location => !!l && (!options.activeOnly || l.isActive))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async create(businessId: string, body: any): Promise<Location> {
+    const now = new Date().toISOString();
+    const location = {
+      id: uuidv4(),
+      businessId,
+      isActive: true,
+      ...locationFields(body, false),
+      createdAt: now,
+      updatedAt: now,
+    } as Location;
+    await redisClient.set(REDIS_KEYS.location(location.id), JSON.stringify(location));
+    await redisClient.sadd(REDIS_KEYS.businessLocations(businessId), location.id);
+    await geoService.indexLocation(location);
+    return location;
+  },
+
+  /** Update any of name, address, coordinates, openingHours, phone, email, isActive (null clears phone/email). */
+  async update(businessId: string, id: string, body: any): Promise<Location> {
+    const changes = locationFields(body, true);
+    const updated = await concurrencyService.patch<Location>(REDIS_KEYS.location(id), (location) => {
+      if (location.businessId !== businessId) throw new ApiError(404, 'Location not found');
+      const next: Location = { ...location, ...changes, updatedAt: new Date().toISOString() };
+      if (body?.phone === null) delete next.phone;
+      if (body?.email === null) delete next.email;
+      return next;
+    });
+    if (!updated) throw new ApiError(404, 'Location not found');
+    await geoService.indexLocation(updated);
+    return updated;
+  },
+
+  /** Deactivate (history and stats keep pointing at it). */
+  async deactivate(businessId: string, id: string): Promise<Location> {
+    return locationService.update(businessId, id, { isActive: false });
+  },
+
+  /**
+   * The active location `locationId` of `businessId`, for attributing a stamp, redemption or check-in.
+   * Throws 400 for another business's or an inactive location.
+   */
+  async requireActive(businessId: string, locationId: unknown): Promise<Location> {
+    if (typeof locationId !== 'string' || !locationId) {
+      throw new ApiError(400, 'locationId must be a string');
+    }
+    const location = await locationService.get(locationId);
+    if (!location || location.businessId !== businessId) {
+      throw new ApiError(400, 'locationId is not a location of this business');
+    }
+    if (!location.isActive) {
+      throw new ApiError(400, 'Location is not active');
+    }
+    return location;
+  },
+
+  /** Count activity at a location. Best effort: a failed counter must not fail a committed stamp. */
+  async record(locationId: string, activity: LocationActivity, customerId: string, count = 1): Promise<void> {
+    try {
+      await redisClient.hincrby(REDIS_KEYS.locationStats(locationId), activity, count);
+      await redisClient.sadd(REDIS_KEYS.locationCustomers(locationId), customerId);
+    } catch (error: any) {
+      console.error(`❌ [LOCATIONS] Failed to count ${activity} at ${locationId}:`, error.message);
+    }
+  },
+
+  /** Record a customer checking in at a location. */
+  async checkIn(location: Location, customerId: string, body: any): Promise<CheckIn> {
+    const method = body?.method === undefined ? 'manual' : body.method;
+    if (!CHECK_IN_METHODS.includes(method)) {
+      throw new ApiError(400, `method must be one of: ${CHECK_IN_METHODS.join(', ')}`);
+    }
+    const checkIn: CheckIn = {
+      id: uuidv4(),
+      userId: customerId,
+      locationId: location.id,
+      ...(body?.coordinates !== undefined ? { coordinates: checkCoordinates(body.coordinates) } : {}),
+      method,
+      checkedInAt: new Date().toISOString(),
+    };
+    const key = REDIS_KEYS.locationCheckIns(location.id);
+    await redisClient.lpush(key, JSON.stringify(checkIn));
+    await redisClient.ltrim(key, 0, CHECK_IN_HISTORY - 1);
+    await locationService.record(location.id, 'checkIns', customerId);
+    return checkIn;
+  },
+
+  /**
+   * Whether any active location of the business is open at `at` (UK time, exceptions included).
+   * null when the business has no location with opening hours, so its hours are unknown.
+   */
+  async isBusinessOpenAt(businessId: string, at: Date): Promise<boolean | null> {
+    const withHours = (await locationService.listForBusiness(businessId, { activeOnly: true }))
+      .filter((location) => WEEKDAYS.some((day) => location.openingHours?.[day]) || location.openingHours?.exceptions?.length);
+    if (withHours.length === 0) return null;
+    return withHours.some((location) => isOpenAt(location.openingHours, at));
+  },
+
+  /** Activity counters for every location of a business (inactive ones included). */
+  async statsForBusiness(businessId: string): Promise<LocationStats[]> {
+    const locations = await locationService.listForBusiness(businessId);
+    return Promise.all(locations.map(async (location) => {
+      const counters = await redisClient.hgetall(REDIS_KEYS.locationStats(location.id));
+      return {
+        locationId: location.id,
+        name: location.name,
+        isActive: location.isActive,
+        stamps: parseInt(counters.stamps, 10) || 0,
+        redemptions: parseInt(counters.redemptions, 10) || 0,
+        checkIns: parseInt(counters.checkIns, 10) || 0,
+        customers: await redisClient.scard(REDIS_KEYS.locationCustomers(location.id)),
+      };
+    }));
+  },
+};
@@ -0,0 +1,355 @@
+/**
+ * Message providers — send one email or SMS
+ *
+ * Email (EMAIL_PROVIDER):
+ * - smtp: any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS; STARTTLS when offered, SMTP_SECURE=true for port 465)
+ * - sendgrid: SendGrid v3 mail/send, or a service with the same API (SENDGRID_API_KEY, SENDGRID_API_URL)
+ * - file: appends to email.jsonl in MESSAGE_OUTBOX_DIR (default: the OS temp dir), for local runs
+ * SMS (SMS_PROVIDER):
+ * - twilio: Twilio Messages API, or a service with the same API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, SMS_FROM)
+ * - file: appends to sms.jsonl in MESSAGE_OUTBOX_DIR
+ * Without a provider the channel is off. Addresses starting "invalid" are rejected by the file sinks.
+ *
+ * Results use the push statuses: sent, invalid (address does not exist or opted out: suppressed by
+ * channelService), retry (temporary: rate limit, outage) or failed. registerEmail()/registerSms() swap in other implementations.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { config } from '../config/env';
+
+export type MessageStatus = 'sent' | 'invalid' | 'retry' | 'failed';
+
+export interface MessageResult {
+  status: MessageStatus;
+  /** Provider message id. */
+  providerId?: string;
+  error?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>;
+}
+
+export interface SmsMessage {
+  /** E.164 number. */
+  to: string;
+  body: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  configured(): boolean;
+  send(message: EmailMessage): Promise<MessageResult>;
+}
+
+export interface SmsProvider {
+  name: string;
+  configured(): boolean;
+  send(message: SmsMessage): Promise<MessageResult>;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/** Twilio errors for numbers that cannot receive (invalid, not mobile, unsubscribed with STOP). */
+const TWILIO_INVALID_CODES = [21211, 21214, 21610, 21614];
+
+/** Retry on rate limits and server errors; anything else is permanent. */
+const isTemporary = (status: number) => status === 429 || status >= 500;
+
+const outboxDir = () => config.messageOutboxDir || path.join(os.tmpdir(), 'canny-carrot-outbox');
+
+/**
+ * One bare addr-spec (local@domain): no display name, no list and no whitespace or control characters,
+ * so it cannot smuggle extra headers or SMTP commands (CR/LF) or further recipients.
+ */
+export const isMailAddress = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= 254
+  && /^[^\s<>()\[\]",;:\\@\x00-\x1f\x7f]+@[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)+$/i.test(value);
+
+/** Bare address of "Name <address>". */
+const addressOf = (mailbox: string) => /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+
+/** RFC 2047 encoded-word for non-ASCII header values. */
+const headerValue = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (text: string) => Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/** multipart/alternative MIME message (text and HTML). */
+function mimeMessage(message: EmailMessage): string {
+  const boundary = `cc-${crypto.randomBytes(12).toString('hex')}`;
+  const domain = addressOf(config.email.from).split('@')[1] || 'cannycarrot.com';
+  const headers: Record<string, string> = {
+    From: config.email.from,
+    To: message.to,
+    Subject: headerValue(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** SMTP reply reader over a socket that may be upgraded to TLS mid-session. */
+class SmtpConnection {
+  private buffer = '';
+  private waiting: ((reply: SmtpReply | null) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+    socket.on('data', (chunk) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.flush();
+    });
+  }
+
+  /** Hand the waiting read a complete (possibly multi-line) reply, or null after a socket error. */
+  private flush(): void {
+    const waiting = this.waiting;
+    if (!waiting) return;
+    if (this.failure) {
+      this.waiting = null;
+      return waiting(null);
+    }
+    // The last element is an incomplete line (or '')
+    const lines = this.buffer.split('\r\n');
+    const last = lines.slice(0, -1).findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (last < 0) return;
+    this.buffer = lines.slice(last + 1).join('\r\n');
+    this.waiting = null;
+    waiting({ code: parseInt(lines[last].slice(0, 3), 10), text: lines.slice(0, last + 1).join('\n') });
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = (reply) => (reply ? resolve(reply) : reject(this.failure));
+      this.flush();
+    });
+  }
+
+  async command(line: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  async startTls(host: string): Promise<void> {
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.socket.removeAllListeners('data');
+    this.buffer = '';
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/** Result for an SMTP reply: 5xx on a recipient is a bad address, other 5xx permanent, 4xx temporary. */
+const smtpFailure = (reply: SmtpReply, recipient = false): MessageResult => ({
+  status: reply.code >= 500 ? (recipient ? 'invalid' : 'failed') : 'retry',
+  error: `SMTP ${reply.text.split('\n').pop()}`,
+});
+
+const smtp: EmailProvider = {
+  name: 'smtp',
+  configured: () => !!config.email.smtp.host,
+
+  async send(message) {
+    // The recipient goes into RCPT TO and the To header verbatim
+    if (!isMailAddress(message.to)) return { status: 'invalid', error: 'Not a single email address' };
+    const { host, port, secure, user, pass } = config.email.smtp;
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const connection = new SmtpConnection(socket);
+    try {
+      let reply = await connection.read();
+      if (reply.code !== 220) return smtpFailure(reply);
+
+      const hostname = os.hostname() || 'localhost';
+      reply = await connection.command(`EHLO ${hostname}`);
+      if (reply.code !== 250) return smtpFailure(reply);
+      if (!secure && /STARTTLS/i.test(reply.text)) {
+        reply = await connection.command('STARTTLS');
+        if (reply.code !== 220) return smtpFailure(reply);
+        await connection.startTls(host);
+        reply = await connection.command(`EHLO ${hostname}`);
+        if (reply.code !== 250) return smtpFailure(reply);
+      }
+
+      if (user) {
+        reply = await connection.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass}`).toString('base64')}`);
+        if (reply.code !== 235) return smtpFailure(reply);
+      }
+
+      reply = await connection.command(`MAIL FROM:<${addressOf(config.email.from)}>`);
+      if (reply.code !== 250) return smtpFailure(reply);
+      reply = await connection.command(`RCPT TO:<${message.to}>`);
+      if (reply.code !== 250 && reply.code !== 251) return smtpFailure(reply, true);
+      reply = await connection.command('DATA');
+      if (reply.code !== 354) return smtpFailure(reply);
+
+      // Dot-stuffing: a line starting with "." gets another
+      reply = await connection.command(`${mimeMessage(message).replace(/^\./gm, '..')}\r\n.`);
+      if (reply.code !== 250) return smtpFailure(reply);
+      await connection.command('QUIT').catch(() => undefined);
+      return { status: 'sent', providerId: reply.text.split(' ').slice(1).join(' ') || undefined };
+    } finally {
+      connection.close();
+    }
+  },
+};
+
+const sendgrid: EmailProvider = {
+  name: 'sendgrid',
+  configured: () => !!config.email.sendgrid.apiKey,
+
+  async send(message) {
+    const from = config.email.from;
+    const name = /^(.*?)\s*</.exec(from)?.[1]?.replace(/^"|"$/g, '');
+    const response = await fetch(config.email.sendgrid.apiUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${config.email.sendgrid.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: addressOf(message.to) }] }],
+        from: { email: addressOf(from), ...(name ? { name } : {}) },
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+        ...(message.headers ? { headers: message.headers } : {}),
+      }),
+    });
+    if (response.ok) {
+      return { status: 'sent', providerId: response.headers.get('x-message-id') ?? undefined };
+    }
+    const body = await response.text().catch(() => '');
+    return { status: isTemporary(response.status) ? 'retry' : 'failed', error: `SendGrid HTTP ${response.status} ${body}`.trim() };
+  },
+};
+
+/** Append a JSON line to a file in the outbox directory. */
+async function appendToOutbox(file: string, entry: Record<string, any>): Promise<void> {
+  await fs.mkdir(outboxDir(), { recursive: true });
+  await fs.appendFile(path.join(outboxDir(), file), `${JSON.stringify({ ...entry, at: new Date().toISOString() })}\n`);
+}
+
+const emailFile: EmailProvider = {
+  name: 'file',
+  configured: () => true,
+
+  async send(message) {
+    if (addressOf(message.to).startsWith('invalid')) return { status: 'invalid', error: 'Mailbox does not exist' };
+    const providerId = crypto.randomUUID();
+    await appendToOutbox('email.jsonl', { id: providerId, from: config.email.from, ...message });
+    return { status: 'sent', providerId };
+  },
+};
+
+const twilio: SmsProvider = {
+  name: 'twilio',
+  configured: () => !!(config.sms.twilio.accountSid && config.sms.twilio.authToken && config.sms.from),
+
+  async send(message) {
+    const { accountSid, authToken, apiUrl } = config.sms.twilio;
+    const response = await fetch(`${apiUrl}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: config.sms.from, Body: message.body }).toString(),
+    });
+    const body: any = await response.json().catch(() => ({}));
+    if (response.ok) return { status: 'sent', providerId: body.sid };
+    if (TWILIO_INVALID_CODES.includes(body.code)) return { status: 'invalid', error: `Twilio ${body.code} ${body.message ?? ''}`.trim() };
+    return { status: isTemporary(response.status) ? 'retry' : 'failed', error: `Twilio HTTP ${response.status} ${body.message ?? ''}`.trim() };
+  },
+};
+
+const smsFile: SmsProvider = {
+  name: 'file',
+  configured: () => true,
+
+  async send(message) {
+    if (message.to.replace(/^\+/, '').startsWith('invalid')) return { status: 'invalid', error: 'Not a mobile number' };
+    const providerId = crypto.randomUUID();
+    await appendToOutbox('sms.jsonl', { id: providerId, from: config.sms.from, ...message });
+    return { status: 'sent', providerId };
+  },
+};
+
+const emailProviders = new Map<string, EmailProvider>([smtp, sendgrid, emailFile].map((provider) => [provider.name, provider]));
+const smsProviders = new Map<string, SmsProvider>([twilio, smsFile].map((provider) => [provider.name, provider]));
+
+export const messageProviders = {
+  /** Replace or add an email provider (selected with EMAIL_PROVIDER). */
+  registerEmail(provider: EmailProvider): void {
+    emailProviders.set(provider.name, provider);
+  },
+
+  /** Replace or add an SMS provider (selected with SMS_PROVIDER). */
+  registerSms(provider: SmsProvider): void {
+    smsProviders.set(provider.name, provider);
+  },
+
+  /** The configured email provider, or null when email is off. */
+  email(): EmailProvider | null {
+    const provider = emailProviders.get(config.email.provider);
+    return provider?.configured() ? provider : null;
+  },
+
+  /** The configured SMS provider, or null when SMS is off. */
+  sms(): SmsProvider | null {
+    const provider = smsProviders.get(config.sms.provider);
+    return provider?.configured() ? provider : null;
+  },
+};
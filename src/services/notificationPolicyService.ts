@@ -0,0 +1,235 @@
+/**
+ * Notification policy service — whether an outbound notification (push, email, SMS) may go out now
+ *
+ * The dispatcher (pushService) asks before sending each message that has a channel able to deliver it:
+ * - quiet hours: the customer's preferences.quietHours hold back every notification until they end;
+ *   without them marketing waits out the platform's NOTIFICATION_QUIET_HOURS (UK time)
+ * - frequency caps (marketing only): per customer across businesses and per customer from one business,
+ *   over the last 24 hours and 7 days; the message waits until the oldest send leaves the window
+ * - monthly budget (marketing only): the business's plan limits.notifications (config/plans.ts; the plan
+ *   of a cancelled or lapsed subscription ends with its period), counted in notifications:{businessId}:{month};
+ *   over budget the message is not sent
+ * A message that is admitted but never sent (every channel failed, or dead-lettered) is released: it gives
+ * back its budget and frequency-cap slots.
+ * Held-back messages are deferred (notifications:deferred), unless they would be stale by then: geofence
+ * offers, and anything deferred more than MAX_DEFERRAL_HOURS after it was queued, are suppressed instead.
+ * Marketing = channelService.isMarketing (campaigns, broadcasts, geofence offers). In-app history is
+ * written when queued and not affected.
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { config } from '../config/env';
+import { PLANS, planIdOf } from '../config/plans';
+import { channelService } from './channelService';
+import { ukLocalTime, parseClockTime, inClockRange, zonedInstant } from '../utils/ukTime';
+import type { Customer, QuietHours } from '../types';
+
+export type PolicyReason = 'quiet_hours' | 'frequency_cap' | 'budget' | 'expired';
+
+export type PolicyDecision =
+  | { action: 'send' }
+  | { action: 'defer'; until: Date; reason: PolicyReason }
+  | { action: 'suppress'; reason: PolicyReason };
+
+/** What the policy needs to know about a notification. */
+export interface PolicySubject {
+  id: string;
+  type?: string;
+  businessId?: string;
+  createdAt?: string;
+}
+
+export interface NotificationBudget {
+  /** YYYY-MM (UK time). */
+  month: string;
+  used: number;
+  /** -1 = unlimited. */
+  limit: number;
+  /** Null when unlimited. */
+  remaining: number | null;
+}
+
+/** Messages held back longer than this after being queued are suppressed rather than sent late. */
+const MAX_DEFERRAL_HOURS = 48;
+
+/** Only worth sending straight away (the customer has moved on). */
+const EPHEMERAL_TYPES = ['geofence_enter'];
+
+/** Monthly counts are kept for the usage history. */
+const BUDGET_COUNT_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+const nextDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * KEYS[1] member's sends, KEYS[2] member's sends from the business, KEYS[3] business month count
+ * (KEYS[2] and KEYS[3] only for a business's notifications)
+ * ARGV[1] now ms, ARGV[2] notification id, ARGV[3] daily cap, ARGV[4] weekly cap, ARGV[5] business daily cap,
+ * ARGV[6] business weekly cap, ARGV[7] monthly budget, ARGV[8] count TTL seconds (caps and budget: -1 = none)
+ * Returns {'ok'} (and records the send), {'cap', ms when a send leaves the window} or {'budget'}.
+ * A notification already recorded (a retry) is always ok and not counted again.
+ */
+const ADMIT = `
+local now = tonumber(ARGV[1])
+local day, week = 86400000, 604800000
+if redis.call('ZSCORE', KEYS[1], ARGV[2]) then return {'ok'} end
+
+local function freesAt(key, cap, window)
+  if cap < 0 then return 0 end
+  local recent = redis.call('ZRANGEBYSCORE', key, now - window, '+inf', 'WITHSCORES')
+  local count = #recent / 2
+  if count < cap then return 0 end
+  return tonumber(recent[(count - cap) * 2 + 2]) + window
+end
+
+local due = 0
+local checks = {{KEYS[1], ARGV[3], day}, {KEYS[1], ARGV[4], week}}
+if KEYS[2] then
+  table.insert(checks, {KEYS[2], ARGV[5], day})
+  table.insert(checks, {KEYS[2], ARGV[6], week})
+end
+for _, check in ipairs(checks) do
+  redis.call('ZREMRANGEBYSCORE', check[1], '-inf', now - week)
+  local at = freesAt(check[1], tonumber(check[2]), check[3])
+  if at > due then due = at end
+end
+if due > 0 then return {'cap', tostring(due)} end
+
+if KEYS[3] then
+  local budget = tonumber(ARGV[7])
+  if budget >= 0 and tonumber(redis.call('GET', KEYS[3]) or '0') >= budget then return {'budget'} end
+  redis.call('INCR', KEYS[3])
+  redis.call('EXPIRE', KEYS[3], ARGV[8])
+end
+for i = 1, math.min(#KEYS, 2) do
+  redis.call('ZADD', KEYS[i], now, ARGV[2])
+  redis.call('PEXPIRE', KEYS[i], week)
+end
+return {'ok'}
+`;
+
+/**
+ * KEYS as for ADMIT; ARGV[1] notification id. Undoes ADMIT for a notification that was not sent.
+ * Returns 0 when it was not recorded (not marketing, or already released).
+ */
+const RELEASE = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then return 0 end
+if KEYS[2] then redis.call('ZREM', KEYS[2], ARGV[1]) end
+if KEYS[3] and tonumber(redis.call('GET', KEYS[3]) or '0') > 0 then redis.call('DECR', KEYS[3]) end
+return 1
+`;
+
+/** Minutes since midnight of an "HH:MM-HH:MM" range or QuietHours, or null when off or malformed. */
+function parseQuietHours(value: QuietHours | string | null | undefined): { start: number; end: number } | null {
+  if (!value) return null;
+  const [start, end] = typeof value === 'string'
+    ? value.split('-').map((part) => parseClockTime(part.trim()))
+    : [parseClockTime(value.start), parseClockTime(value.end)];
+  return start !== null && end !== null && start !== end ? { start, end } : null;
+}
+
+const cap = (value: number) => (value > 0 ? value : -1);
+
+export const notificationPolicyService = {
+  /** Whether quiet hours are well-formed ("HH:MM" start and end, not equal). */
+  isQuietHours(value: unknown): value is QuietHours {
+    return !!value && typeof value === 'object' && parseQuietHours(value as QuietHours) !== null;
+  },
+
+  /** When the quiet hours that apply to this notification end, or null when it is not quiet now. */
+  quietUntil(customer: Customer, type: string | undefined, at = new Date()): Date | null {
+    const own = customer.preferences?.quietHours;
+    const range = own !== undefined
+      ? parseQuietHours(own)
+      : channelService.isMarketing(type) ? parseQuietHours(config.notificationPolicy.quietHours) : null;
+    if (!range) return null;
+
+    const local = ukLocalTime(at);
+    if (!inClockRange(local.minutes, range.start, range.end)) return null;
+    const end = zonedInstant(local.date, range.end);
+    return end > at ? end : zonedInstant(nextDay(local.date), range.end);
+  },
+
+  /**
+   * Decide whether a notification goes out now. Sending is recorded against the caps and budget, so
+   * call this once per delivery attempt, right before sending, and only when a channel can deliver it;
+   * release() it when in the end nothing was sent.
+   */
+  async admit(customer: Customer, notification: PolicySubject, at = new Date()): Promise<PolicyDecision> {
+    const hold = (until: Date, reason: PolicyReason): PolicyDecision => {
+      if (notification.type && EPHEMERAL_TYPES.includes(notification.type)) return { action: 'suppress', reason };
+      const queuedAt = Date.parse(notification.createdAt ?? '') || at.getTime();
+      if (until.getTime() - queuedAt > MAX_DEFERRAL_HOURS * 60 * 60 * 1000) return { action: 'suppress', reason: 'expired' };
+      return { action: 'defer', until, reason };
+    };
+
+    const quietUntil = notificationPolicyService.quietUntil(customer, notification.type, at);
+    if (quietUntil) return hold(quietUntil, 'quiet_hours');
+    if (!channelService.isMarketing(notification.type)) return { action: 'send' };
+
+    const policy = config.notificationPolicy;
+    const { businessId } = notification;
+    const keys = [REDIS_KEYS.memberNotificationSends(customer.id)];
+    let budget = -1;
+    if (businessId) {
+      const month = notificationPolicyService.month(at);
+      keys.push(
+        REDIS_KEYS.memberBusinessNotificationSends(customer.id, businessId),
+        REDIS_KEYS.businessNotificationCount(businessId, month),
+      );
+      budget = (await notificationPolicyService.budget(businessId, at)).limit;
+    }
+
+    const [outcome, due] = await redisClient.eval(
+      ADMIT,
+      keys.length,
+      ...keys,
+      String(at.getTime()),
+      notification.id,
+      String(cap(policy.dailyCap)),
+      String(cap(policy.weeklyCap)),
+      String(cap(policy.businessDailyCap)),
+      String(cap(policy.businessWeeklyCap)),
+      String(budget),
+      String(BUDGET_COUNT_TTL_SECONDS),
+    ) as [string, string?];
+
+    if (outcome === 'cap') return hold(new Date(Number(due)), 'frequency_cap');
+    if (outcome === 'budget') return { action: 'suppress', reason: 'budget' };
+    return { action: 'send' };
+  },
+
+  /**
+   * Give back what admit() recorded for a notification that was never sent (its budget in the month it was
+   * admitted, and its frequency-cap slots). Returns false when nothing was recorded.
+   */
+  async release(customerId: string, notification: PolicySubject): Promise<boolean> {
+    const sendsKey = REDIS_KEYS.memberNotificationSends(customerId);
+    const admittedAt = await redisClient.zscore(sendsKey, notification.id);
+    if (admittedAt === null) return false;
+    const keys = [sendsKey];
+    if (notification.businessId) {
+      keys.push(
+        REDIS_KEYS.memberBusinessNotificationSends(customerId, notification.businessId),
+        REDIS_KEYS.businessNotificationCount(notification.businessId, notificationPolicyService.month(new Date(Number(admittedAt)))),
+      );
+    }
+    return await redisClient.eval(RELEASE, keys.length, ...keys, notification.id) === 1;
+  },
+
+  /** Budget month (YYYY-MM, UK time) of an instant. */
+  month(at = new Date()): string {
+    return ukLocalTime(at).date.slice(0, 7);
+  },
+
+  /** A business's marketing notifications this month against the limit of its plan at that time (see planIdOf). */
+  async budget(businessId: string, at = new Date()): Promise<NotificationBudget> {
+    const month = notificationPolicyService.month(at);
+    const [subscription, used] = await Promise.all([
+      redisClient.get(`subscription:${businessId}`),
+      redisClient.get(REDIS_KEYS.businessNotificationCount(businessId, month)),
+    ]);
+    const limit = PLANS[planIdOf(subscription ? JSON.parse(subscription) : null, at)].limits.notifications;
+    const count = parseInt(used || '0', 10);
+    return { month, used: count, limit, remaining: limit === -1 ? null : Math.max(limit - count, 0) };
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Notification service — queue system-generated notifications for a customer
+ *
+ * Same shape the notification routes write: the notification goes to the customer's in-app
+ * history (member:{id}:notifications, last 100) and to notifications:pending, which pushService delivers
+ * on its channels (default in_app + push; history is skipped when in_app is left out).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { DEFAULT_CHANNELS } from './channelService';
+import type { Notification, NotificationChannel, NotificationType } from '../types';
+
+/** In-app history length per customer. */
+const HISTORY_LENGTH = 100;
+
+export interface NewNotification {
+  type: NotificationType;
+  title: string;
+  message: string;
+  businessId?: string;
+  businessName?: string;
+  data?: Record<string, any>;
+  channels?: NotificationChannel[];
+}
+
+/**
+ * KEYS[1] notification history; ARGV[1] notification id, ARGV[2] JSON of fields to set, ARGV[3] '1' = only unset fields.
+ * Returns the notification as it was before, or nil when it is not in the history.
+ */
+const UPDATE_HISTORY = `
+local fields = cjson.decode(ARGV[2])
+local items = redis.call('LRANGE', KEYS[1], 0, -1)
+for i, raw in ipairs(items) do
+  local ok, item = pcall(cjson.decode, raw)
+  if ok and type(item) == 'table' and item.id == ARGV[1] then
+    for key, value in pairs(fields) do
+      if ARGV[3] ~= '1' or item[key] == nil then item[key] = value end
+    end
+    redis.call('LSET', KEYS[1], i - 1, cjson.encode(item))
+    return raw
+  end
+end
+return nil
+`;
+
+export interface QueuedNotification extends NewNotification {
+  id: string;
+  data: Record<string, any>;
+  createdAt: string;
+  read: boolean;
+}
+
+export const notificationService = {
+  /** Add to the customer's history and the pending queue for its channels. */
+  async queue(memberId: string, input: NewNotification, createdAt = new Date().toISOString()): Promise<QueuedNotification> {
+    const channels = input.channels ?? DEFAULT_CHANNELS;
+    const notification: QueuedNotification = {
+      id: uuidv4(),
+      ...input,
+      channels,
+      data: input.data || {},
+      createdAt,
+      read: false,
+    };
+
+    if (channels.includes('in_app')) {
+      const historyKey = REDIS_KEYS.memberNotifications(memberId);
+      await redisClient.lpush(historyKey, JSON.stringify(notification));
+      await redisClient.ltrim(historyKey, 0, HISTORY_LENGTH - 1);
+    }
+    if (channels.some((channel) => channel !== 'in_app')) {
+      await redisClient.lpush(REDIS_KEYS.pendingNotifications(), JSON.stringify({ ...notification, memberId }));
+    }
+    return notification;
+  },
+
+  /**
+   * Set fields (sentAt, openedAt, …) on a notification in the member's history; with onlyUnset, fields
+   * that already have a value keep it. Returns the notification as it was before, or null when it is gone.
+   */
+  async update(memberId: string, notificationId: string, fields: Record<string, string>, onlyUnset = false): Promise<Notification | null> {
+    const before = await redisClient.eval(
+      UPDATE_HISTORY,
+      1,
+      REDIS_KEYS.memberNotifications(memberId),
+      notificationId,
+      JSON.stringify(fields),
+      onlyUnset ? '1' : '0',
+    ) as string | null;
+    return before ? JSON.parse(before) : null;
+  },
+};
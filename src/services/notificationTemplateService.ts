@@ -0,0 +1,411 @@
+/**
+ * Notification template service — the wording of system notifications, per business and locale
+ *
+ * Each notification the platform writes has a catalogue key (TEMPLATE_CATALOGUE) with its variables and
+ * en-GB default wording. Businesses store their own wording per key and locale, and platform admins
+ * can replace the defaults. For a customer's locale (Customer.locale, default en-GB) the wording is the
+ * first of: the business's template, the platform template, the built-in default; trying the locale,
+ * then its language (cy-GB → cy), then en-GB.
+ *
+ * Text uses {variable} placeholders, and {variable|one|other} for words that depend on a count
+ * ("{days} {days|day|days}"). {firstName} and {businessName} are always available.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import type { NotificationType } from '../types';
+import type { NotificationTemplate } from '../types/extended';
+
+export const DEFAULT_LOCALE = 'en-GB';
+
+export interface TemplateDefinition {
+  key: string;
+  type: NotificationType;
+  description: string;
+  /** Variables besides firstName and businessName. */
+  variables: string[];
+  /** Values for previews. */
+  samples: Record<string, string | number>;
+  defaults: Record<string, { title: string; message: string }>;
+}
+
+export interface RenderedTemplate {
+  title: string;
+  message: string;
+  /** Locale of the wording used. */
+  locale: string;
+  source: 'business' | 'platform' | 'default';
+  templateId?: string;
+  /** Placeholders that had no value (rendered empty). */
+  missingVariables: string[];
+}
+
+export type TemplateVariables = Record<string, string | number | null | undefined>;
+
+const COMMON_VARIABLES = ['firstName', 'businessName'];
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_MESSAGE_LENGTH = 1000;
+
+/** {name} or {name|one|other}. */
+const PLACEHOLDER = /\{(\w+)(?:\|([^|{}]*)\|([^|{}]*))?\}/g;
+
+export const TEMPLATE_CATALOGUE: TemplateDefinition[] = [
+  {
+    key: 'stamp_earned.online',
+    type: 'stamp_earned',
+    description: 'A stamp earned with an online order',
+    variables: [],
+    samples: {},
+    defaults: { 'en-GB': { title: '🥕 Stamp earned!', message: 'You earned a stamp from {businessName} for your online order!' } },
+  },
+  {
+    key: 'geofence_enter.nearby',
+    type: 'geofence_enter',
+    description: 'The customer is near the business',
+    variables: [],
+    samples: {},
+    defaults: { 'en-GB': { title: '📍 {businessName}', message: "You're near {businessName}!" } },
+  },
+  {
+    key: 'geofence_enter.offer',
+    type: 'geofence_enter',
+    description: 'The customer is near the business while a campaign is active',
+    variables: ['offerName'],
+    samples: { offerName: 'Double stamp Tuesdays' },
+    defaults: { 'en-GB': { title: '📍 {businessName}', message: '{businessName} has a special offer: {offerName}!' } },
+  },
+  {
+    key: 'geofence_enter.reward_close',
+    type: 'geofence_enter',
+    description: 'The customer is near the business and a few stamps away from a reward',
+    variables: ['stampsRemaining', 'stampCount', 'rewardName'],
+    samples: { stampsRemaining: 2, stampCount: 8, rewardName: 'coffee' },
+    defaults: {
+      'en-GB': {
+        title: '📍 {businessName}',
+        message: 'Only {stampsRemaining} more {stampsRemaining|stamp|stamps} at {businessName} for your free {rewardName}!',
+      },
+    },
+  },
+  {
+    key: 'points_expiring',
+    type: 'points_expiring',
+    description: 'Points or stamps expire within a week',
+    variables: ['amount', 'currency', 'days', 'expiresOn'],
+    samples: { amount: 120, currency: 'points', days: 7, expiresOn: '2025-06-30' },
+    defaults: {
+      'en-GB': {
+        title: 'Your {currency} expire soon',
+        message: 'Your {amount} {currency} at {businessName} expire in {days} {days|day|days}. Visit before {expiresOn} to keep them.',
+      },
+    },
+  },
+  {
+    key: 'tier_changed.upgrade',
+    type: 'tier_changed',
+    description: 'The customer moved up a tier',
+    variables: ['tierName'],
+    samples: { tierName: 'Gold' },
+    defaults: { 'en-GB': { title: "You've reached {tierName}!", message: "You're now {tierName} at {businessName}." } },
+  },
+  {
+    key: 'tier_changed.downgrade',
+    type: 'tier_changed',
+    description: 'The customer moved down a tier at requalification',
+    variables: ['tierName'],
+    samples: { tierName: 'Silver' },
+    defaults: {
+      'en-GB': { title: 'Your tier has changed', message: 'Your tier at {businessName} is now {tierName}. Keep visiting to move back up.' },
+    },
+  },
+  {
+    key: 'referral.referred',
+    type: 'referral',
+    description: "Bonus for joining with a friend's referral code",
+    variables: ['amount', 'currency'],
+    samples: { amount: 2, currency: 'stamps' },
+    defaults: {
+      'en-GB': { title: 'Welcome bonus', message: "You earned {amount} bonus {currency} at {businessName} for joining with a friend's code." },
+    },
+  },
+  {
+    key: 'referral.referrer',
+    type: 'referral',
+    description: 'Reward for a friend who joined and visited',
+    variables: ['amount', 'currency'],
+    samples: { amount: 2, currency: 'stamps' },
+    defaults: {
+      'en-GB': { title: 'Your referral paid off', message: 'Your friend visited {businessName}: you earned {amount} bonus {currency}.' },
+    },
+  },
+  {
+    key: 'campaign.birthday_reward',
+    type: 'campaign',
+    description: 'Birthday campaign granting a reward (unless the campaign has its own notificationMessage)',
+    variables: ['rewardName'],
+    samples: { rewardName: 'slice of cake' },
+    defaults: {
+      'en-GB': { title: 'Happy birthday from {businessName}!', message: 'Your {rewardName} is ready to redeem. Happy birthday!' },
+    },
+  },
+  {
+    key: 'campaign.birthday_bonus',
+    type: 'campaign',
+    description: 'Birthday campaign granting bonus stamps or points (unless the campaign has its own notificationMessage)',
+    variables: ['amount', 'currency'],
+    samples: { amount: 1, currency: 'stamps' },
+    defaults: {
+      'en-GB': { title: 'Happy birthday from {businessName}!', message: "We've added {amount} bonus {currency} to your card. Happy birthday!" },
+    },
+  },
+];
+
+const definitions = new Map(TEMPLATE_CATALOGUE.map((definition) => [definition.key, definition]));
+
+const indexKey = (businessId: string | null) =>
+  businessId ? REDIS_KEYS.businessNotificationTemplates(businessId) : REDIS_KEYS.platformNotificationTemplates();
+
+/** Canonical BCP 47 tag (en-gb → en-GB), or null when it is not one. */
+export function canonicalLocale(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(value.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Locales to try for a customer locale: it, its language, then en-GB. */
+function fallbackLocales(locale: string | null | undefined): string[] {
+  const canonical = canonicalLocale(locale) ?? DEFAULT_LOCALE;
+  const language = canonical.split('-')[0];
+  return [...new Set([canonical, language, DEFAULT_LOCALE])];
+}
+
+/** Fill in {variables}; missing values render empty and are reported. */
+export function renderText(text: string, variables: TemplateVariables): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const rendered = text.replace(PLACEHOLDER, (_match, name: string, one?: string, other?: string) => {
+    const value = variables[name];
+    if (value === undefined || value === null || value === '') {
+      missing.add(name);
+      return one !== undefined ? other ?? '' : '';
+    }
+    if (one !== undefined) return Number(value) === 1 ? one : other ?? '';
+    return String(value);
+  });
+  return { text: rendered, missing: [...missing] };
+}
+
+/** 400 unless every placeholder is a variable of the template. */
+function checkPlaceholders(definition: TemplateDefinition, field: string, text: string): void {
+  const allowed = [...COMMON_VARIABLES, ...definition.variables];
+  const unknown = [...text.matchAll(PLACEHOLDER)].map((match) => match[1]).filter((name) => !allowed.includes(name));
+  if (unknown.length) {
+    throw new ApiError(400, `${field} uses unknown variables: ${[...new Set(unknown)].join(', ')}`, { allowed });
+  }
+}
+
+function checkText(definition: TemplateDefinition, field: 'title' | 'message', value: unknown, max: number): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > max) {
+    throw new ApiError(400, `${field} is required (at most ${max} characters)`);
+  }
+  checkPlaceholders(definition, field, value);
+  return value.trim();
+}
+
+function requireDefinition(key: unknown): TemplateDefinition {
+  const definition = typeof key === 'string' ? definitions.get(key) : undefined;
+  if (!definition) {
+    throw new ApiError(400, 'key must be a notification template key', { keys: TEMPLATE_CATALOGUE.map((d) => d.key) });
+  }
+  return definition;
+}
+
+/** Render a wording with values. */
+function fill(wording: Omit<RenderedTemplate, 'missingVariables'>, values: TemplateVariables): RenderedTemplate {
+  const title = renderText(wording.title, values);
+  const message = renderText(wording.message, values);
+  return {
+    ...wording,
+    title: title.text,
+    message: message.text,
+    missingVariables: [...new Set([...title.missing, ...message.missing])],
+  };
+}
+
+async function stored(businessId: string | null, key: string, locale: string): Promise<NotificationTemplate | null> {
+  const id = await redisClient.hget(indexKey(businessId), `${key}:${locale}`);
+  const template = id ? await notificationTemplateService.get(id) : null;
+  return template?.isActive ? template : null;
+}
+
+export const notificationTemplateService = {
+  catalogue(): TemplateDefinition[] {
+    return TEMPLATE_CATALOGUE;
+  },
+
+  async get(id: string): Promise<NotificationTemplate | null> {
+    const data = await redisClient.get(REDIS_KEYS.notificationTemplate(id));
+    return data ? JSON.parse(data) : null;
+  },
+
+  /** A template of the business (or a platform template when businessId is null), or 404. */
+  async require(businessId: string | null, id: string): Promise<NotificationTemplate> {
+    const template = await notificationTemplateService.get(id);
+    if (!template || (template.businessId ?? null) !== businessId) {
+      throw new ApiError(404, 'Notification template not found');
+    }
+    return template;
+  },
+
+  /** Templates of a business, or the platform templates when businessId is null. */
+  async list(businessId: string | null): Promise<NotificationTemplate[]> {
+    const ids = Object.values(await redisClient.hgetall(indexKey(businessId)));
+    const templates = (await Promise.all(ids.map((id) => notificationTemplateService.get(id))))
+      .filter((template): template is NotificationTemplate => !!template);
+    return templates.sort((a, b) => a.key.localeCompare(b.key) || a.locale.localeCompare(b.locale));
+  },
+
+  /** Create the wording for a key and locale (one template per key and locale). */
+  async create(businessId: string | null, body: any): Promise<NotificationTemplate> {
+    const definition = requireDefinition(body?.key);
+    const locale = body?.locale === undefined ? DEFAULT_LOCALE : canonicalLocale(body.locale);
+    if (!locale) {
+      throw new ApiError(400, 'locale must be a language tag such as en-GB');
+    }
+    if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+      throw new ApiError(400, 'isActive must be a boolean');
+    }
+
+    const now = new Date().toISOString();
+    const template: NotificationTemplate = {
+      id: uuidv4(),
+      ...(businessId ? { businessId } : {}),
+      key: definition.key,
+      locale,
+      title: checkText(definition, 'title', body.title, MAX_TITLE_LENGTH),
+      message: checkText(definition, 'message', body.message, MAX_MESSAGE_LENGTH),
+      isActive: body.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (!await redisClient.hsetnx(indexKey(businessId), `${template.key}:${locale}`, template.id)) {
+      throw new ApiError(409, `A ${template.key} template for ${locale} already exists`);
+    }
+    await redisClient.set(REDIS_KEYS.notificationTemplate(template.id), JSON.stringify(template));
+    return template;
+  },
+
+  /** Change title, message or isActive (key and locale are fixed). */
+  async update(businessId: string | null, id: string, body: any): Promise<NotificationTemplate> {
+    const current = await notificationTemplateService.require(businessId, id);
+    const definition = requireDefinition(current.key);
+    if ((body?.key !== undefined && body.key !== current.key)
+      || (body?.locale !== undefined && canonicalLocale(body.locale) !== current.locale)) {
+      throw new ApiError(400, 'key and locale cannot be changed; create a template instead');
+    }
+    if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+      throw new ApiError(400, 'isActive must be a boolean');
+    }
+    const changes = {
+      ...(body.title !== undefined ? { title: checkText(definition, 'title', body.title, MAX_TITLE_LENGTH) } : {}),
+      ...(body.message !== undefined ? { message: checkText(definition, 'message', body.message, MAX_MESSAGE_LENGTH) } : {}),
+      ...(body.isActive !== undefined ? { isActive: body.isActive } : {}),
+    };
+
+    const updated = await concurrencyService.patch<NotificationTemplate>(REDIS_KEYS.notificationTemplate(id), (template) => ({
+      ...template,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    }));
+    if (!updated) {
+      throw new ApiError(404, 'Notification template not found');
+    }
+    return updated;
+  },
+
+  async remove(businessId: string | null, id: string): Promise<void> {
+    const template = await notificationTemplateService.require(businessId, id);
+    await redisClient.hdel(indexKey(businessId), `${template.key}:${template.locale}`);
+    await redisClient.del(REDIS_KEYS.notificationTemplate(id));
+  },
+
+  /** The wording for a key: business, then platform, then built-in, for the locale and its fallbacks. */
+  async resolve(key: string, businessId: string | null | undefined, locale?: string | null): Promise<Omit<RenderedTemplate, 'missingVariables'>> {
+    const definition = requireDefinition(key);
+    for (const candidate of fallbackLocales(locale)) {
+      const template = (businessId ? await stored(businessId, key, candidate) : null) ?? await stored(null, key, candidate);
+      if (template) {
+        return {
+          title: template.title,
+          message: template.message,
+          locale: candidate,
+          source: template.businessId ? 'business' : 'platform',
+          templateId: template.id,
+        };
+      }
+      const builtIn = definition.defaults[candidate];
+      if (builtIn) return { ...builtIn, locale: candidate, source: 'default' };
+    }
+    return { ...definition.defaults[DEFAULT_LOCALE], locale: DEFAULT_LOCALE, source: 'default' };
+  },
+
+  /**
+   * Title and message of a notification to a customer, in the customer's locale. firstName comes from the
+   * customer and businessName from the business unless given.
+   */
+  async render(
+    key: string,
+    context: { businessId?: string | null; customerId?: string; locale?: string },
+    variables: TemplateVariables = {},
+  ): Promise<RenderedTemplate> {
+    const customer = context.customerId ? await redis.getMember(context.customerId) : null;
+    const business = variables.businessName === undefined && context.businessId
+      ? await redis.getBusiness(context.businessId)
+      : null;
+    const values: TemplateVariables = {
+      firstName: customer?.firstName,
+      businessName: business?.name,
+      ...variables,
+    };
+
+    return fill(await notificationTemplateService.resolve(key, context.businessId, context.locale ?? customer?.locale), values);
+  },
+
+  /**
+   * Render a key for a preview: a draft title/message when given (checked like a saved template), else
+   * the wording customers would get. Variables default to the catalogue's samples.
+   */
+  async preview(businessId: string | null, body: any): Promise<RenderedTemplate> {
+    const definition = requireDefinition(body?.key);
+    const locale = body.locale === undefined ? DEFAULT_LOCALE : canonicalLocale(body.locale);
+    if (!locale) {
+      throw new ApiError(400, 'locale must be a language tag such as en-GB');
+    }
+    if (body.variables !== undefined && (typeof body.variables !== 'object' || body.variables === null || Array.isArray(body.variables))) {
+      throw new ApiError(400, 'variables must be an object');
+    }
+    const business = businessId ? await redis.getBusiness(businessId) : null;
+    const values: TemplateVariables = {
+      firstName: 'Alex',
+      businessName: business?.name ?? 'Canny Carrot Café',
+      ...definition.samples,
+      ...body.variables,
+    };
+
+    const resolved = await notificationTemplateService.resolve(definition.key, businessId, locale);
+    if (body.title === undefined && body.message === undefined) {
+      return fill(resolved, values);
+    }
+    return fill({
+      title: body.title !== undefined ? checkText(definition, 'title', body.title, MAX_TITLE_LENGTH) : resolved.title,
+      message: body.message !== undefined ? checkText(definition, 'message', body.message, MAX_MESSAGE_LENGTH) : resolved.message,
+      locale,
+      source: businessId ? 'business' : 'platform',
+    }, values);
+  },
+};
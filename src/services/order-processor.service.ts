@@ -1,7 +1,6 @@
 // E-Commerce Order Processor Service
 // Matches orders to members and issues stamps
 
-import { v4 as uuidv4 } from 'uuid';
 import { redisClient } from '../config/redis';
 import { redis, REDIS_KEYS } from '../config/redis';
 import { 
@@ -12,6 +11,14 @@ import {
   ECOMMERCE_REDIS_KEYS 
 } from '../types/ecommerce';
 import { Member, Stamp, Business } from '../types';
+import { stampService } from './stampService';
+import { referralService } from './referralService';
+import { engagementService } from './engagementService';
+import { concurrencyService } from './concurrencyService';
+import { notificationService } from './notificationService';
+import { notificationTemplateService } from './notificationTemplateService';
+import { channelService } from './channelService';
+import { config } from '../config/env';
 
 export interface ProcessingContext {
   order: EcommerceOrder;
@@ -228,8 +235,20 @@ export class OrderProcessorService {
       })
     );
     
-    // TODO: Actually send invitation email
-    console.log(`📧 Would send invitation email to ${email} from ${business.name}`);
+    // Best effort: the order stays 'invited' either way, and the customer can still join from the shop
+    try {
+      const result = await channelService.emailAddress(email, {
+        title: `Collect stamps at ${business.name}`,
+        message: `Thanks for your order from ${business.name}! Join Canny Carrot with this email address and your future online orders will earn stamps towards rewards at ${business.name}.`,
+        businessName: business.name,
+        link: `${config.customerAppUrl}/join?email=${encodeURIComponent(normalizedEmail)}&businessId=${encodeURIComponent(business.id)}`,
+      });
+      if (result && result.status !== 'sent') {
+        console.error(`❌ [ORDERS] Invitation email to ${normalizedEmail} not sent: ${result.error}`);
+      }
+    } catch (error: any) {
+      console.error(`❌ [ORDERS] Invitation email to ${normalizedEmail} failed:`, error.message);
+    }
   }
   
   // ============================================
@@ -244,19 +263,18 @@ export class OrderProcessorService {
     context: ProcessingContext
   ): Promise<Stamp> {
     const { order, business } = context;
-    
-    const stampId = uuidv4();
     const now = new Date().toISOString();
     
-    const stamp: Stamp = {
-      id: stampId,
-      customerId: member.id,  // Map member.id to customerId
-      memberId: member.id,     // Keep memberId for backward compatibility
+    // Atomic issue; the order id as idempotency key stops a re-delivered webhook stamping twice
+    const { stamp, duplicate } = await stampService.issue({
+      memberId: member.id,
       businessId: business.id,
       rewardId: '', // Will be determined by reward rules
-      issuedAt: now,
-      issuedBy: 'system',
       method: 'manual', // 'online' when we add channel support
+      idempotencyKey: `order:${order.platform}:${order.externalOrderId}`,
+      source: 'online',
+      orderId: order.externalOrderId,
+      monetaryValue: order.orderTotal / 100,
       metadata: {
         channel: 'online',
         ecommerceOrderId: order.externalOrderId,
@@ -265,37 +283,25 @@ export class OrderProcessorService {
         orderCurrency: order.currency,
         orderReference: order.externalOrderNumber,
       },
-    };
-    
-    // Store stamp
-    await redisClient.set(REDIS_KEYS.stamp(stampId), JSON.stringify(stamp));
+    });
     
-    // Add to member's stamp list
-    const stampKey = REDIS_KEYS.memberStamps(member.id, business.id);
-    await redisClient.rpush(stampKey, JSON.stringify(stamp));
+    if (duplicate) {
+      return stamp;
+    }
+    await referralService.onEarn(member.id, business.id);
+    await engagementService.attributeConversion(member.id, business.id);
     
-    // Update member stats
-    const updatedMember = {
-      ...member,
-      totalStamps: (member.totalStamps || 0) + 1,
+    // Update member stats (customer record and legacy member alias)
+    const incrementStamps = (doc: any) => ({
+      ...doc,
+      totalStamps: (doc.totalStamps || 0) + 1,
       updatedAt: now,
-    };
-    await redis.setMember(member.id, updatedMember);
-    
-    // Update business stats
-    const updatedBusiness = {
-      ...business,
-      stats: {
-        ...business.stats,
-        totalStampsIssued: (business.stats.totalStampsIssued || 0) + 1,
-      },
-      updatedAt: now,
-    };
-    await redis.setBusiness(business.id, updatedBusiness);
+    });
+    await concurrencyService.patch(REDIS_KEYS.customer(member.id), incrementStamps);
+    await concurrencyService.patch(REDIS_KEYS.member(member.id), incrementStamps);
     
-    // Update daily analytics
+    // Update daily analytics (stamps/business totals are counted by stampService)
     const today = new Date().toISOString().split('T')[0];
-    await redis.incrementStat(REDIS_KEYS.dailyStats(today), 'stamps', 1);
     await redis.incrementStat(REDIS_KEYS.dailyStats(today), 'online_stamps', 1);
     await redis.incrementStat(
       ECOMMERCE_REDIS_KEYS.dailyPlatformStats(business.id, today, order.platform),
@@ -303,8 +309,6 @@ export class OrderProcessorService {
       1
     );
     
-    // Check reward threshold
-    const stampCount = await redisClient.llen(stampKey);
     // TODO: Trigger reward check
     
     return stamp;
@@ -323,30 +327,23 @@ export class OrderProcessorService {
     stamp: Stamp,
     order: EcommerceOrder
   ): Promise<void> {
-    // TODO: Integrate with notification service
-    console.log(`🔔 Would notify member ${member.id} about stamp from ${business.name}`);
-    
-    // Create notification record
-    const notification = {
-      id: uuidv4(),
+    const { title, message } = await notificationTemplateService.render(
+      'stamp_earned.online',
+      { businessId: business.id, locale: member.locale },
+      { firstName: member.firstName, businessName: business.name },
+    );
+    await notificationService.queue(member.id, {
       type: 'stamp_earned',
-      memberId: member.id,
       businessId: business.id,
-      title: '🥕 Stamp earned!',
-      message: `You earned a stamp from ${business.name} for your online order!`,
+      businessName: business.name,
+      title,
+      message,
       data: {
         stampId: stamp.id,
         orderId: order.externalOrderId,
         channel: 'online',
       },
-      createdAt: new Date().toISOString(),
-      read: false,
-    };
-    
-    await redisClient.lpush(
-      `member:${member.id}:notifications`,
-      JSON.stringify(notification)
-    );
+    });
   }
   
   // ============================================
@@ -0,0 +1,572 @@
+/**
+ * Program service — loyalty programs, tiers and customer memberships
+ *
+ * A business can run several LoyaltyPrograms side by side (a coffee stamp card, a points scheme,
+ * a tiered scheme). Each program has its own tiers, memberships and per-customer balance; stamps
+ * and redemptions that name a program earn into and burn from that program's balance only.
+ * Requests without a program keep using the business-wide balance.
+ *
+ * Storage:
+ * - program:{id} (JSON) + business:{id}:programs (set)
+ * - program:{id}:tiers (hash tierId → ProgramTier JSON), program:{id}:rules (hash ruleId → ProgramRule JSON)
+ * - membership:{id} (JSON), program:{id}:membership:{customerId} → membership id (one per customer),
+ *   program:{id}:members and customer:{id}:memberships (sets)
+ * Memberships paused with a pausedUntil date read as active once that date has passed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { ledgerService } from './ledgerService';
+import { ruleEngineService } from './ruleEngineService';
+import { parseClockTime } from '../utils/ukTime';
+import type { LoyaltyProgram, ProgramTier, ProgramRule, CustomerMembership, PointsBalance } from '../types/extended';
+import type { Reward } from '../types';
+
+export const PROGRAM_TYPES: LoyaltyProgram['type'][] = ['points', 'stamp', 'tiered', 'subscription'];
+export const PROGRAM_CURRENCIES: LoyaltyProgram['currency'][] = ['points', 'stamps', 'credits'];
+export const PROGRAM_STATUSES: LoyaltyProgram['status'][] = ['draft', 'active', 'paused', 'ended'];
+export const RULE_TYPES: ProgramRule['type'][] = ['earn', 'burn', 'expiry', 'bonus'];
+
+/** Priority for rules created without one; lower priorities are evaluated first. */
+const DEFAULT_RULE_PRIORITY = 100;
+
+const DEFAULT_CURRENCY: Record<LoyaltyProgram['type'], LoyaltyProgram['currency']> = {
+  points: 'points',
+  stamp: 'stamps',
+  tiered: 'points',
+  subscription: 'credits',
+};
+
+const MAX_NAME_LENGTH = 100;
+
+export type MembershipAction = 'pause' | 'resume' | 'cancel';
+
+/** Who is changing a membership: the customer themselves, or the business (or a platform admin). */
+export type MembershipActor = 'customer' | 'business';
+
+export interface ProgramScope {
+  program: LoyaltyProgram;
+  membership: CustomerMembership;
+}
+
+export interface MembershipSummary {
+  membership: CustomerMembership;
+  program: LoyaltyProgram;
+  balance: PointsBalance;
+}
+
+const parse = <T>(data: string | null | undefined): T | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+};
+
+function checkName(name: unknown, label: string): string {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    throw new ApiError(400, `${label} name is required (at most ${MAX_NAME_LENGTH} characters)`);
+  }
+  return name.trim();
+}
+
+function checkOneOf<T extends string>(value: unknown, allowed: T[], field: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ApiError(400, `${field} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function checkEarnRate(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new ApiError(400, 'defaultEarnRate must be a positive number (points per £1)');
+  }
+  return value;
+}
+
+function checkTierWindow(value: unknown): number {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > 36) {
+    throw new ApiError(400, 'tierWindowMonths must be a whole number of months between 1 and 36');
+  }
+  return value as number;
+}
+
+function checkOptionalAmount(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ApiError(400, `${field} must be a non-negative number`);
+  }
+  return value;
+}
+
+/** Tier fields from a request body, validated. */
+function tierFields(body: any): Omit<ProgramTier, 'id' | 'programId' | 'createdAt'> {
+  const { level, benefits, badgeIcon } = body ?? {};
+  if (!Number.isInteger(level) || level < 1) {
+    throw new ApiError(400, 'level must be a positive integer');
+  }
+  if (benefits !== undefined && (!Array.isArray(benefits) || benefits.some((b) => typeof b !== 'string'))) {
+    throw new ApiError(400, 'benefits must be an array of strings');
+  }
+  if (badgeIcon !== undefined && typeof badgeIcon !== 'string') {
+    throw new ApiError(400, 'badgeIcon must be a string');
+  }
+  const minPoints = checkOptionalAmount(body.minPoints, 'minPoints');
+  const minSpend = checkOptionalAmount(body.minSpend, 'minSpend');
+  return {
+    name: checkName(body.name, 'Tier'),
+    level,
+    ...(minPoints !== undefined ? { minPoints } : {}),
+    ...(minSpend !== undefined ? { minSpend } : {}),
+    benefits: benefits ?? [],
+    ...(badgeIcon ? { badgeIcon } : {}),
+  };
+}
+
+function checkStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v)) {
+    throw new ApiError(400, `${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/** Rule fields from a request body, validated. Each rule type needs the action it acts on. */
+function ruleFields(body: any): Omit<ProgramRule, 'id' | 'programId' | 'createdAt'> {
+  const type = checkOneOf(body?.type, RULE_TYPES, 'type');
+  const conditionsIn = body.conditions ?? {};
+  const actionIn = body.action ?? {};
+  if (typeof conditionsIn !== 'object' || Array.isArray(conditionsIn) || typeof actionIn !== 'object' || Array.isArray(actionIn)) {
+    throw new ApiError(400, 'conditions and action must be objects');
+  }
+
+  const conditions: ProgramRule['conditions'] = {};
+  const minSpend = checkOptionalAmount(conditionsIn.minSpend, 'conditions.minSpend');
+  if (minSpend !== undefined) conditions.minSpend = minSpend;
+  if (conditionsIn.productCategories !== undefined) {
+    conditions.productCategories = checkStringList(conditionsIn.productCategories, 'conditions.productCategories');
+  }
+  if (conditionsIn.locations !== undefined) {
+    conditions.locations = checkStringList(conditionsIn.locations, 'conditions.locations');
+  }
+  if (conditionsIn.dayOfWeek !== undefined) {
+    const days = conditionsIn.dayOfWeek;
+    if (!Array.isArray(days) || days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new ApiError(400, 'conditions.dayOfWeek must be an array of 0 (Sunday) … 6 (Saturday)');
+    }
+    conditions.dayOfWeek = days;
+  }
+  if (conditionsIn.timeRange !== undefined) {
+    const { start, end } = conditionsIn.timeRange ?? {};
+    if (parseClockTime(start) === null || parseClockTime(end) === null || start === end) {
+      throw new ApiError(400, 'conditions.timeRange must be { start: "HH:MM", end: "HH:MM" } (UK time)');
+    }
+    conditions.timeRange = { start, end };
+  }
+
+  const action: ProgramRule['action'] = {};
+  if (actionIn.multiplier !== undefined) {
+    if (typeof actionIn.multiplier !== 'number' || !Number.isFinite(actionIn.multiplier) || actionIn.multiplier < 0) {
+      throw new ApiError(400, 'action.multiplier must be a non-negative number');
+    }
+    action.multiplier = actionIn.multiplier;
+  }
+  if (actionIn.bonusPoints !== undefined) {
+    if (!Number.isInteger(actionIn.bonusPoints) || actionIn.bonusPoints < 0) {
+      throw new ApiError(400, 'action.bonusPoints must be a non-negative integer');
+    }
+    action.bonusPoints = actionIn.bonusPoints;
+  }
+  if (actionIn.expiryDays !== undefined) {
+    if (!Number.isInteger(actionIn.expiryDays) || actionIn.expiryDays < 1) {
+      throw new ApiError(400, 'action.expiryDays must be a positive integer');
+    }
+    action.expiryDays = actionIn.expiryDays;
+  }
+
+  if (type === 'expiry' && action.expiryDays === undefined) {
+    throw new ApiError(400, 'expiry rules need action.expiryDays');
+  }
+  if (type === 'burn' && action.multiplier === undefined) {
+    throw new ApiError(400, 'burn rules need action.multiplier (e.g. 0.5 for half-price rewards)');
+  }
+  if ((type === 'earn' || type === 'bonus') && action.multiplier === undefined && action.bonusPoints === undefined) {
+    throw new ApiError(400, `${type} rules need action.multiplier or action.bonusPoints`);
+  }
+
+  const priority = body.priority ?? DEFAULT_RULE_PRIORITY;
+  if (!Number.isInteger(priority)) {
+    throw new ApiError(400, 'priority must be an integer (lower runs first)');
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+    throw new ApiError(400, 'isActive must be a boolean');
+  }
+
+  return {
+    type,
+    name: checkName(body.name, 'Rule'),
+    conditions,
+    action,
+    priority,
+    isActive: body.isActive ?? false,
+  };
+}
+
+/** A pause whose pausedUntil has passed reads as active. */
+function effectiveMembership(membership: CustomerMembership, now = new Date().toISOString()): CustomerMembership {
+  if (membership.status === 'paused' && membership.pausedUntil && membership.pausedUntil <= now) {
+    const { pausedUntil, pausedBy, ...rest } = membership;
+    return { ...rest, status: 'active' };
+  }
+  return membership;
+}
+
+async function loadMembership(id: string): Promise<CustomerMembership | null> {
+  const membership = parse<CustomerMembership>(await redisClient.get(REDIS_KEYS.membership(id)));
+  return membership ? effectiveMembership(membership) : null;
+}
+
+/** Compare-and-set a customer's membership in a program; null when they have none. */
+async function patchMembership(
+  programId: string,
+  customerId: string,
+  mutate: (stored: CustomerMembership) => CustomerMembership,
+): Promise<CustomerMembership | null> {
+  const id = await redisClient.get(REDIS_KEYS.programMembership(programId, customerId));
+  return id ? concurrencyService.patch<CustomerMembership>(REDIS_KEYS.membership(id), mutate) : null;
+}
+
+export const programService = {
+  async get(id: string): Promise<LoyaltyProgram | null> {
+    return parse<LoyaltyProgram>(await redisClient.get(REDIS_KEYS.program(id)));
+  },
+
+  async listForBusiness(businessId: string): Promise<LoyaltyProgram[]> {
+    const ids = await redisClient.smembers(REDIS_KEYS.businessPrograms(businessId));
+    const programs = await Promise.all(ids.map((id) => programService.get(id)));
+    return programs
+      .filter((p): p is LoyaltyProgram => !!p)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async create(businessId: string, body: any): Promise<LoyaltyProgram> {
+    const type = checkOneOf(body?.type, PROGRAM_TYPES, 'type');
+    const now = new Date().toISOString();
+    const program: LoyaltyProgram = {
+      id: uuidv4(),
+      businessId,
+      name: checkName(body.name, 'Program'),
+      type,
+      currency: body.currency === undefined ? DEFAULT_CURRENCY[type] : checkOneOf(body.currency, PROGRAM_CURRENCIES, 'currency'),
+      status: body.status === undefined ? 'active' : checkOneOf(body.status, PROGRAM_STATUSES, 'status'),
+      ...(body.defaultEarnRate !== undefined ? { defaultEarnRate: checkEarnRate(body.defaultEarnRate) } : {}),
+      ...(body.tierWindowMonths !== undefined ? { tierWindowMonths: checkTierWindow(body.tierWindowMonths) } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await redisClient.set(REDIS_KEYS.program(program.id), JSON.stringify(program));
+    await redisClient.sadd(REDIS_KEYS.businessPrograms(businessId), program.id);
+    return program;
+  },
+
+  /**
+   * Update name, status, defaultEarnRate or tierWindowMonths (null clears either). Type and currency are fixed once
+   * created because existing balances are denominated in them; an ended program stays ended.
+   */
+  async update(id: string, body: any): Promise<LoyaltyProgram> {
+    const changes: Partial<LoyaltyProgram> = {};
+    if (body?.name !== undefined) changes.name = checkName(body.name, 'Program');
+    if (body?.status !== undefined) changes.status = checkOneOf(body.status, PROGRAM_STATUSES, 'status');
+    if (body?.defaultEarnRate !== undefined && body.defaultEarnRate !== null) {
+      changes.defaultEarnRate = checkEarnRate(body.defaultEarnRate);
+    }
+    if (body?.tierWindowMonths !== undefined && body.tierWindowMonths !== null) {
+      changes.tierWindowMonths = checkTierWindow(body.tierWindowMonths);
+    }
+
+    const updated = await concurrencyService.patch<LoyaltyProgram>(REDIS_KEYS.program(id), (program) => {
+      if ((body.type !== undefined && body.type !== program.type)
+        || (body.currency !== undefined && body.currency !== program.currency)) {
+        throw new ApiError(400, 'Program type and currency cannot be changed once created');
+      }
+      if (program.status === 'ended' && changes.status && changes.status !== 'ended') {
+        throw new ApiError(400, 'An ended program cannot be reopened');
+      }
+      const next: LoyaltyProgram = { ...program, ...changes, updatedAt: new Date().toISOString() };
+      if (body.defaultEarnRate === null) delete next.defaultEarnRate;
+      if (body.tierWindowMonths === null) delete next.tierWindowMonths;
+      return next;
+    });
+    if (!updated) {
+      throw new ApiError(404, 'Program not found');
+    }
+    return updated;
+  },
+
+  // ---------------------------------------------------------------------------
+  // Tiers
+  // ---------------------------------------------------------------------------
+
+  /** Tiers ordered by level (lowest first). */
+  async listTiers(programId: string): Promise<ProgramTier[]> {
+    const hash = await redisClient.hgetall(REDIS_KEYS.programTiers(programId));
+    return Object.values(hash)
+      .map((data) => parse<ProgramTier>(data))
+      .filter((t): t is ProgramTier => !!t)
+      .sort((a, b) => a.level - b.level);
+  },
+
+  /** Create a tier, or replace tier `tierId`. Levels are unique within a program. */
+  async saveTier(programId: string, body: any, tierId?: string): Promise<ProgramTier> {
+    const fields = tierFields(body);
+    const tiers = await programService.listTiers(programId);
+    const existing = tierId ? tiers.find((t) => t.id === tierId) : undefined;
+    if (tierId && !existing) {
+      throw new ApiError(404, 'Tier not found');
+    }
+    if (tiers.some((t) => t.level === fields.level && t.id !== tierId)) {
+      throw new ApiError(409, `Tier level ${fields.level} already exists in this program`);
+    }
+
+    const tier: ProgramTier = {
+      id: existing?.id ?? uuidv4(),
+      programId,
+      ...fields,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    await redisClient.hset(REDIS_KEYS.programTiers(programId), tier.id, JSON.stringify(tier));
+    return tier;
+  },
+
+  /** Remove a tier. Memberships keep their currentTierId until they are next re-tiered. */
+  async deleteTier(programId: string, tierId: string): Promise<void> {
+    const removed = await redisClient.hdel(REDIS_KEYS.programTiers(programId), tierId);
+    if (!removed) {
+      throw new ApiError(404, 'Tier not found');
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // Rules
+  // ---------------------------------------------------------------------------
+
+  /** Rules in evaluation order: priority, then creation time, then id. */
+  async listRules(programId: string, options: { activeOnly?: boolean } = {}): Promise<ProgramRule[]> {
+    const hash = await redisClient.hgetall(REDIS_KEYS.programRules(programId));
+    const rules = Object.values(hash)
+      .map((data) => parse<ProgramRule>(data))
+      .filter((r): r is ProgramRule => !!r && (!options.activeOnly || r.isActive));
+    return ruleEngineService.ordered(rules);
+  },
+
+  /**
+   * Create a rule, or replace rule `ruleId`. New rules are inactive unless body.isActive is true,
+   * so they can be tried with the evaluate dry run first.
+   */
+  async saveRule(programId: string, body: any, ruleId?: string): Promise<ProgramRule> {
+    const fields = ruleFields(body);
+    let createdAt = new Date().toISOString();
+    if (ruleId) {
+      const existing = parse<ProgramRule>(await redisClient.hget(REDIS_KEYS.programRules(programId), ruleId));
+      if (!existing) {
+        throw new ApiError(404, 'Rule not found');
+      }
+      createdAt = existing.createdAt;
+    }
+
+    const rule: ProgramRule = { id: ruleId ?? uuidv4(), programId, ...fields, createdAt };
+    await redisClient.hset(REDIS_KEYS.programRules(programId), rule.id, JSON.stringify(rule));
+    return rule;
+  },
+
+  async deleteRule(programId: string, ruleId: string): Promise<void> {
+    const removed = await redisClient.hdel(REDIS_KEYS.programRules(programId), ruleId);
+    if (!removed) {
+      throw new ApiError(404, 'Rule not found');
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // Memberships
+  // ---------------------------------------------------------------------------
+
+  async getMembership(programId: string, customerId: string): Promise<CustomerMembership | null> {
+    const id = await redisClient.get(REDIS_KEYS.programMembership(programId, customerId));
+    return id ? loadMembership(id) : null;
+  },
+
+  /** Members of a program, optionally filtered by status. */
+  async listMemberships(programId: string, status?: CustomerMembership['status']): Promise<CustomerMembership[]> {
+    const customerIds = await redisClient.smembers(REDIS_KEYS.programMembers(programId));
+    const memberships = await Promise.all(customerIds.map((id) => programService.getMembership(programId, id)));
+    return memberships
+      .filter((m): m is CustomerMembership => !!m && (!status || m.status === status))
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  },
+
+  /** Every program a customer is enrolled in, with the program and its balance. */
+  async customerMemberships(customerId: string): Promise<MembershipSummary[]> {
+    const ids = await redisClient.smembers(REDIS_KEYS.customerMemberships(customerId));
+    const summaries = await Promise.all(ids.map(async (id): Promise<MembershipSummary | null> => {
+      const membership = await loadMembership(id);
+      const program = membership ? await programService.get(membership.programId) : null;
+      if (!membership || !program) return null;
+      const balance = await ledgerService.getBalance(customerId, program.businessId, program.id);
+      return { membership, program, balance };
+    }));
+    return summaries
+      .filter((s): s is MembershipSummary => !!s)
+      .sort((a, b) => a.membership.joinedAt.localeCompare(b.membership.joinedAt));
+  },
+
+  /**
+   * Enroll a customer. Re-enrolling after a cancel reactivates the same membership (and balance).
+   * `created` is false when the customer was already a member.
+   */
+  async enroll(program: LoyaltyProgram, customerId: string): Promise<{ membership: CustomerMembership; created: boolean }> {
+    if (program.status !== 'active') {
+      throw new ApiError(400, `Program is ${program.status}: enrollment is closed`);
+    }
+
+    const indexKey = REDIS_KEYS.programMembership(program.id, customerId);
+    const membership: CustomerMembership = {
+      id: uuidv4(),
+      userId: customerId,
+      programId: program.id,
+      joinedAt: new Date().toISOString(),
+      status: 'active',
+    };
+
+    // Write the document first, then claim the (program, customer) slot; the loser of a race cleans up
+    await redisClient.set(REDIS_KEYS.membership(membership.id), JSON.stringify(membership));
+    const claimed = await redisClient.set(indexKey, membership.id, 'NX');
+    if (claimed) {
+      await redisClient.sadd(REDIS_KEYS.programMembers(program.id), customerId);
+      await redisClient.sadd(REDIS_KEYS.customerMemberships(customerId), membership.id);
+      return { membership, created: true };
+    }
+
+    await redisClient.del(REDIS_KEYS.membership(membership.id));
+    const existingId = await redisClient.get(indexKey);
+    const existing = existingId ? await loadMembership(existingId) : null;
+    if (!existing) {
+      throw new ApiError(409, 'Membership is being created concurrently, retry');
+    }
+    if (existing.status !== 'cancelled') {
+      return { membership: existing, created: false };
+    }
+    // The only way back from cancelled: re-enrolling in an active program. A pause the business
+    // applied before the cancel still holds.
+    const reactivated = await patchMembership(program.id, customerId, (stored) => {
+      const { pausedUntil, pausedBy, cancelledAt, ...rest } = stored;
+      if (pausedBy === 'business' && (!pausedUntil || pausedUntil > new Date().toISOString())) {
+        return { ...rest, status: 'paused', pausedBy, ...(pausedUntil ? { pausedUntil } : {}) };
+      }
+      return { ...rest, status: 'active' };
+    });
+    if (!reactivated) {
+      throw new ApiError(404, 'Membership not found');
+    }
+    return { membership: reactivated, created: false };
+  },
+
+  /**
+   * pause (optionally until an ISO date), resume or cancel a membership.
+   * Cancelled memberships can only come back through enroll(). A customer can resume only a pause
+   * they applied (pausedBy); a business pause holds through the customer cancelling and re-joining.
+   */
+  async updateMembership(
+    programId: string,
+    customerId: string,
+    action: MembershipAction,
+    actor: MembershipActor,
+    until?: string,
+  ): Promise<CustomerMembership> {
+    const now = new Date().toISOString();
+    if (until !== undefined) {
+      if (action !== 'pause' || typeof until !== 'string' || Number.isNaN(Date.parse(until))) {
+        throw new ApiError(400, 'until must be an ISO date and is only valid when pausing');
+      }
+      if (new Date(until).toISOString() <= now) {
+        throw new ApiError(400, 'until must be in the future');
+      }
+    }
+
+    const updated = await patchMembership(programId, customerId, (stored) => {
+      const membership = effectiveMembership(stored, now);
+      const { pausedUntil, pausedBy, cancelledAt, ...rest } = membership;
+      const heldByBusiness = membership.status === 'paused' && pausedBy !== 'customer';
+      switch (action) {
+        case 'pause':
+          if (membership.status === 'cancelled') throw new ApiError(400, 'Membership is cancelled');
+          if (actor === 'customer' && heldByBusiness) throw new ApiError(403, 'Membership was paused by the business');
+          return { ...rest, status: 'paused', pausedBy: actor, ...(until ? { pausedUntil: new Date(until).toISOString() } : {}) };
+        case 'resume':
+          if (membership.status === 'cancelled') throw new ApiError(400, 'Membership is cancelled: enroll again to rejoin');
+          if (actor === 'customer' && heldByBusiness) throw new ApiError(403, 'Membership was paused by the business');
+          return { ...rest, status: 'active' };
+        case 'cancel':
+          if (membership.status === 'cancelled') return membership;
+          return {
+            ...rest,
+            status: 'cancelled',
+            cancelledAt: now,
+            ...(heldByBusiness ? { pausedBy: 'business', ...(pausedUntil ? { pausedUntil } : {}) } : {}),
+          };
+      }
+    });
+    if (!updated) {
+      throw new ApiError(404, 'Membership not found');
+    }
+    return updated;
+  },
+
+  // ---------------------------------------------------------------------------
+  // Program-scoped stamps and redemptions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Program and membership for a program-scoped stamp or redemption.
+   * The program must belong to the business and be active, and the membership must be active.
+   * With `enroll`, a customer who has never joined is enrolled on their first earn.
+   */
+  async scopeFor(
+    businessId: string,
+    programId: string,
+    customerId: string,
+    options: { enroll?: boolean } = {},
+  ): Promise<ProgramScope> {
+    const program = await programService.get(programId);
+    if (!program) {
+      throw new ApiError(404, 'Program not found');
+    }
+    if (program.businessId !== businessId) {
+      throw new ApiError(400, 'This program belongs to another business');
+    }
+    if (program.status !== 'active') {
+      throw new ApiError(400, `Program is ${program.status}`);
+    }
+
+    let membership = await programService.getMembership(programId, customerId);
+    if (!membership && options.enroll) {
+      membership = (await programService.enroll(program, customerId)).membership;
+    }
+    if (!membership) {
+      throw new ApiError(400, 'Customer is not enrolled in this program');
+    }
+    if (membership.status !== 'active') {
+      throw new ApiError(400, `Membership is ${membership.status}`);
+    }
+    return { program, membership };
+  },
+
+  /** Cost of a reward in the program's currency (stampsRequired outside programs). */
+  rewardCost(reward: Reward, program?: LoyaltyProgram): number {
+    if (!program) return reward.stampsRequired || 0;
+    const cost = program.currency === 'stamps' ? reward.costStamps : reward.costPoints;
+    return cost ?? reward.stampsRequired ?? 0;
+  },
+};
@@ -0,0 +1,419 @@
+/**
+ * Push providers — deliver one notification to a batch of devices on one push platform
+ *
+ * - expo: Expo push tokens (ExponentPushToken[…]); delivery is confirmed later from Expo receipts
+ * - fcm: Android registration tokens, FCM HTTP v1 with a service account (FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY)
+ * - apns: iOS device tokens over HTTP/2 with a .p8 token key (APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID)
+ * - webpush: browser PushSubscriptions, RFC 8291 payload encryption and VAPID (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
+ * - fake: records sends in memory (PUSH_PROVIDER=fake routes every device to it, for local runs and tests).
+ *   Tokens starting "invalid" are rejected as unregistered and tokens starting "retry" fail temporarily.
+ *
+ * A provider reports one result per device; the dispatcher (pushService) prunes invalid tokens, retries
+ * temporary failures and sets sentAt/deliveredAt. register() swaps in another implementation.
+ */
+
+import crypto from 'crypto';
+import http2 from 'http2';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+
+export type PushProviderName = 'expo' | 'fcm' | 'apns' | 'webpush' | 'fake';
+
+export interface PushDevice {
+  token: string;
+  platform: 'ios' | 'android' | 'web';
+  /** Web push subscription keys (platform 'web'). */
+  subscription?: { endpoint: string; keys: { p256dh: string; auth: string } };
+  registeredAt?: string;
+  lastActive?: string;
+}
+
+export interface PushMessage {
+  notificationId: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+}
+
+/**
+ * - delivered: the platform push service accepted it for the device
+ * - sent: handed to a relay (Expo); receiptId confirms delivery later
+ * - invalid: the token is no longer registered (pruned)
+ * - retry: temporary failure (rate limit, outage)
+ * - failed: permanent failure for this message (e.g. payload rejected)
+ * - skipped: no configured provider for this device
+ */
+export type PushStatus = 'delivered' | 'sent' | 'invalid' | 'retry' | 'failed' | 'skipped';
+
+export interface PushResult {
+  token: string;
+  status: PushStatus;
+  receiptId?: string;
+  error?: string;
+}
+
+/** Final state of a receipt, or 'pending' when the relay does not know yet. */
+export type ReceiptStatus = 'delivered' | 'invalid' | 'failed' | 'pending';
+
+export interface PushProvider {
+  name: PushProviderName;
+  /** Whether credentials for this provider are set. */
+  configured(): boolean;
+  send(devices: PushDevice[], message: PushMessage): Promise<PushResult[]>;
+  /** Delivery receipts for results that came back 'sent'. */
+  checkReceipts?(receiptIds: string[]): Promise<Record<string, ReceiptStatus>>;
+}
+
+const EXPO_SEND_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+const EXPO_BATCH_SIZE = 100;
+
+const FCM_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+/** Push services keep undelivered web pushes this long. */
+const WEB_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/** Provider tokens (FCM access token, APNs and VAPID JWTs) are reused until shortly before they expire. */
+const TOKEN_REUSE_SECONDS = 50 * 60;
+
+const isExpoToken = (token: string) => /^Expo(nent)?PushToken\[.+\]$/.test(token);
+
+/** Retry on rate limits and server errors; anything else is permanent. */
+const isTemporary = (status: number) => status === 429 || status >= 500;
+
+const resultsFor = (devices: PushDevice[], status: PushStatus, error?: string): PushResult[] =>
+  devices.map((device) => ({ token: device.token, status, ...(error ? { error } : {}) }));
+
+/** Flat string map for platforms that only accept string data values. */
+const stringData = (data: Record<string, any>): Record<string, string> =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+
+/** A cached value that is recreated after TOKEN_REUSE_SECONDS. */
+function reusable<T>(create: () => Promise<T>): () => Promise<T> {
+  let cached: { value: T; expiresAt: number } | null = null;
+  return async () => {
+    if (!cached || cached.expiresAt <= Date.now()) {
+      cached = { value: await create(), expiresAt: Date.now() + TOKEN_REUSE_SECONDS * 1000 };
+    }
+    return cached.value;
+  };
+}
+
+const expo: PushProvider = {
+  name: 'expo',
+  configured: () => true,
+
+  async send(devices, message) {
+    const results: PushResult[] = [];
+    for (let i = 0; i < devices.length; i += EXPO_BATCH_SIZE) {
+      const batch = devices.slice(i, i + EXPO_BATCH_SIZE);
+      const response = await fetch(EXPO_SEND_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(config.push.expoAccessToken ? { Authorization: `Bearer ${config.push.expoAccessToken}` } : {}),
+        },
+        body: JSON.stringify(batch.map((device) => ({
+          to: device.token,
+          title: message.title,
+          body: message.body,
+          data: message.data,
+          sound: 'default',
+        }))),
+      });
+      if (!response.ok) {
+        results.push(...resultsFor(batch, isTemporary(response.status) ? 'retry' : 'failed', `Expo HTTP ${response.status}`));
+        continue;
+      }
+      const { data: tickets = [] } = await response.json() as { data?: any[] };
+      batch.forEach((device, index) => {
+        const ticket = tickets[index];
+        if (ticket?.status === 'ok') {
+          results.push({ token: device.token, status: 'sent', receiptId: ticket.id });
+        } else if (ticket?.details?.error === 'DeviceNotRegistered') {
+          results.push({ token: device.token, status: 'invalid', error: ticket.message });
+        } else {
+          const error = ticket?.details?.error || ticket?.message || 'No ticket';
+          results.push({ token: device.token, status: error === 'MessageTooBig' ? 'failed' : 'retry', error });
+        }
+      });
+    }
+    return results;
+  },
+
+  async checkReceipts(receiptIds) {
+    const response = await fetch(EXPO_RECEIPTS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(config.push.expoAccessToken ? { Authorization: `Bearer ${config.push.expoAccessToken}` } : {}),
+      },
+      body: JSON.stringify({ ids: receiptIds }),
+    });
+    if (!response.ok) {
+      throw new Error(`Expo receipts HTTP ${response.status}`);
+    }
+    const { data = {} } = await response.json() as { data?: Record<string, any> };
+    const statuses: Record<string, ReceiptStatus> = {};
+    for (const id of receiptIds) {
+      const receipt = data[id];
+      if (!receipt) statuses[id] = 'pending';
+      else if (receipt.status === 'ok') statuses[id] = 'delivered';
+      else statuses[id] = receipt.details?.error === 'DeviceNotRegistered' ? 'invalid' : 'failed';
+    }
+    return statuses;
+  },
+};
+
+const fcmAccessToken = reusable(async () => {
+  const { projectId, clientEmail, privateKey } = config.push.fcm;
+  const assertion = jwt.sign(
+    { scope: FCM_SCOPE },
+    privateKey,
+    { algorithm: 'RS256', issuer: clientEmail, audience: FCM_TOKEN_URL, expiresIn: '1h' },
+  );
+  const response = await fetch(FCM_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }),
+  });
+  if (!response.ok) {
+    throw new Error(`FCM token exchange for ${projectId} failed: HTTP ${response.status}`);
+  }
+  return (await response.json() as { access_token: string }).access_token;
+});
+
+const fcm: PushProvider = {
+  name: 'fcm',
+  configured: () => !!(config.push.fcm.projectId && config.push.fcm.clientEmail && config.push.fcm.privateKey),
+
+  async send(devices, message) {
+    const accessToken = await fcmAccessToken();
+    const url = `https://fcm.googleapis.com/v1/projects/${config.push.fcm.projectId}/messages:send`;
+    const results: PushResult[] = [];
+    for (const device of devices) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({
+          message: {
+            token: device.token,
+            notification: { title: message.title, body: message.body },
+            data: stringData(message.data),
+          },
+        }),
+      });
+      if (response.ok) {
+        results.push({ token: device.token, status: 'delivered' });
+        continue;
+      }
+      const body = await response.json().catch(() => ({})) as any;
+      const code = body?.error?.details?.find((d: any) => d.errorCode)?.errorCode || body?.error?.status;
+      if (response.status === 404 || code === 'UNREGISTERED') {
+        results.push({ token: device.token, status: 'invalid', error: code });
+      } else {
+        results.push({ token: device.token, status: isTemporary(response.status) ? 'retry' : 'failed', error: code || `FCM HTTP ${response.status}` });
+      }
+    }
+    return results;
+  },
+};
+
+const apnsJwt = reusable(async () => jwt.sign({}, config.push.apns.privateKey, {
+  algorithm: 'ES256',
+  issuer: config.push.apns.teamId,
+  keyid: config.push.apns.keyId,
+}));
+
+/** One HTTP/2 request to APNs; resolves with the status and the reason from the body, if any. */
+function apnsRequest(session: http2.ClientHttp2Session, token: string, bearer: string, payload: string): Promise<{ status: number; reason?: string }> {
+  return new Promise((resolve, reject) => {
+    const request = session.request({
+      ':method': 'POST',
+      ':path': `/3/device/${token}`,
+      authorization: `bearer ${bearer}`,
+      'apns-topic': config.push.apns.bundleId,
+      'apns-push-type': 'alert',
+      'content-type': 'application/json',
+    });
+    let status = 0;
+    let body = '';
+    request.on('response', (headers) => { status = Number(headers[':status']); });
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => {
+      let reason: string | undefined;
+      try {
+        reason = body ? JSON.parse(body).reason : undefined;
+      } catch {
+        reason = undefined;
+      }
+      resolve({ status, reason });
+    });
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
+const apns: PushProvider = {
+  name: 'apns',
+  configured: () => !!(config.push.apns.keyId && config.push.apns.teamId && config.push.apns.privateKey && config.push.apns.bundleId),
+
+  async send(devices, message) {
+    const host = config.push.apns.production ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+    const bearer = await apnsJwt();
+    const payload = JSON.stringify({ aps: { alert: { title: message.title, body: message.body }, sound: 'default' }, ...message.data });
+    const session = http2.connect(host);
+    session.on('error', () => undefined);
+    const results: PushResult[] = [];
+    try {
+      for (const device of devices) {
+        const { status, reason } = await apnsRequest(session, device.token, bearer, payload);
+        if (status === 200) {
+          results.push({ token: device.token, status: 'delivered' });
+        } else if (status === 410 || reason === 'BadDeviceToken' || reason === 'Unregistered' || reason === 'DeviceTokenNotForTopic') {
+          results.push({ token: device.token, status: 'invalid', error: reason });
+        } else {
+          const temporary = isTemporary(status) || reason === 'ExpiredProviderToken' || reason === 'TooManyProviderTokenUpdates';
+          results.push({ token: device.token, status: temporary ? 'retry' : 'failed', error: reason || `APNs HTTP ${status}` });
+        }
+      }
+    } finally {
+      session.close();
+    }
+    return results;
+  },
+};
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+/** The VAPID key pair as a signing key (private key is the raw 32-byte d, public key the 65-byte point). */
+function vapidSigningKey(): crypto.KeyObject {
+  const publicKey = Buffer.from(config.push.vapid.publicKey, 'base64url');
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.push.vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+/** VAPID JWTs per push service origin. */
+const vapidTokens = new Map<string, () => Promise<string>>();
+
+function vapidToken(audience: string): Promise<string> {
+  if (!vapidTokens.has(audience)) {
+    vapidTokens.set(audience, reusable(async () => jwt.sign(
+      { aud: audience, sub: config.push.vapid.subject },
+      vapidSigningKey(),
+      { algorithm: 'ES256', expiresIn: '12h' },
+    )));
+  }
+  return (vapidTokens.get(audience) as () => Promise<string>)();
+}
+
+/** RFC 8291 aes128gcm body for one subscription (single record). */
+function encryptWebPush(payload: Buffer, keys: { p256dh: string; auth: string }): Buffer {
+  const clientPublic = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  const server = crypto.createECDH('prime256v1');
+  const serverPublic = server.generateKeys();
+  const sharedSecret = server.computeSecret(clientPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublic, serverPublic]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const salt = crypto.randomBytes(16);
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(4096);
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublic.length]), serverPublic, encrypted]);
+}
+
+const webpush: PushProvider = {
+  name: 'webpush',
+  configured: () => !!(config.push.vapid.publicKey && config.push.vapid.privateKey),
+
+  async send(devices, message) {
+    const payload = Buffer.from(JSON.stringify({ title: message.title, body: message.body, data: message.data }));
+    const results: PushResult[] = [];
+    for (const device of devices) {
+      const subscription = device.subscription;
+      if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+        results.push({ token: device.token, status: 'invalid', error: 'No push subscription keys' });
+        continue;
+      }
+      const vapid = await vapidToken(new URL(subscription.endpoint).origin);
+      const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(WEB_PUSH_TTL_SECONDS),
+          Authorization: `vapid t=${vapid}, k=${config.push.vapid.publicKey}`,
+        },
+        body: encryptWebPush(payload, subscription.keys),
+      });
+      if (response.ok) {
+        results.push({ token: device.token, status: 'delivered' });
+      } else if (response.status === 404 || response.status === 410) {
+        results.push({ token: device.token, status: 'invalid', error: `Web push HTTP ${response.status}` });
+      } else {
+        results.push({ token: device.token, status: isTemporary(response.status) ? 'retry' : 'failed', error: `Web push HTTP ${response.status}` });
+      }
+    }
+    return results;
+  },
+};
+
+/** Sends recorded by the fake provider (newest last). */
+export const fakePushOutbox: Array<{ token: string; message: PushMessage; at: string }> = [];
+
+const fake: PushProvider = {
+  name: 'fake',
+  configured: () => true,
+
+  async send(devices, message) {
+    return devices.map((device) => {
+      if (device.token.startsWith('invalid')) return { token: device.token, status: 'invalid', error: 'DeviceNotRegistered' };
+      if (device.token.startsWith('retry')) return { token: device.token, status: 'retry', error: 'Unavailable' };
+      fakePushOutbox.push({ token: device.token, message, at: new Date().toISOString() });
+      return { token: device.token, status: 'delivered' };
+    });
+  },
+};
+
+const providers = new Map<PushProviderName, PushProvider>(
+  [expo, fcm, apns, webpush, fake].map((provider) => [provider.name, provider]),
+);
+
+export const pushProviders = {
+  /** Replace a provider implementation (e.g. a different FCM client). */
+  register(provider: PushProvider): void {
+    providers.set(provider.name, provider);
+  },
+
+  get(name: PushProviderName): PushProvider | undefined {
+    return providers.get(name);
+  },
+
+  /** Provider that delivers to this device: Expo tokens go to Expo, others by platform. */
+  nameFor(device: PushDevice): PushProviderName {
+    if (config.push.fake) return 'fake';
+    if (isExpoToken(device.token)) return 'expo';
+    if (device.platform === 'ios') return 'apns';
+    if (device.platform === 'android') return 'fcm';
+    return 'webpush';
+  },
+};
@@ -0,0 +1,558 @@
+/**
+ * Push service — the dispatcher that drains notifications:pending and delivers pushes, emails and texts
+ *
+ * Producers (notificationService.queue, /notifications/send, /broadcast, /geofence, campaign activation)
+ * LPUSH the notification with its memberId. run() claims messages with RPOPLPUSH into
+ * notifications:processing and records a visibility deadline in notifications:inflight, so a
+ * dispatcher that dies mid-message does not lose it: claims past their deadline go back to the
+ * queue on the next run. Each message goes out on its channels that the member allows (see channelService):
+ * push to the member's devices (member:{id}:devices, from POST /notifications/register) through the
+ * provider for each device (see pushProviders), email and SMS through messageProviders. Then:
+ * - unregistered tokens are removed from the member's devices
+ * - channels and devices that failed temporarily are retried with backoff (notifications:retry), only those
+ * - after MAX_ATTEMPTS the message goes to notifications:dead (dead-letter list, requeueDead() puts it back)
+ * - the stored notification in the member's history gets sentAt, and deliveredAt once a push service
+ *   accepted it for a device (for Expo, when its receipt comes back; receipts are checked on later runs)
+ * Before sending, notificationPolicyService applies quiet hours, frequency caps and the business's monthly
+ * budget: held-back messages wait in notifications:deferred until due, over-budget or stale ones are
+ * suppressed (the stored notification gets deferredUntil or suppressedAt/suppressedReason). A message that
+ * is done without being sent on any channel, or dead-lettered, is released so it does not use up the budget.
+ * Several dispatchers can run at once.
+ * run() is invoked by GET/POST /api/v1/jobs/push (cron) or src/workers/pushWorker.ts.
+ */
+
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { pushProviders, PushDevice, PushMessage, PushResult, PushProviderName } from './pushProviders';
+import { channelService, DEFAULT_CHANNELS } from './channelService';
+import { engagementService } from './engagementService';
+import { notificationService } from './notificationService';
+import { notificationPolicyService } from './notificationPolicyService';
+import type { NotificationChannel } from '../types';
+
+export interface PushRunResult {
+  /** Messages taken off the queue. */
+  claimed: number;
+  /** Messages sent on at least one channel (push device, email or SMS). */
+  sent: number;
+  /** Messages a push service accepted for at least one device (this run, incl. receipts). */
+  delivered: number;
+  /** Emails and text messages accepted by the provider. */
+  emailed: number;
+  texted: number;
+  retried: number;
+  deadLettered: number;
+  /** Held back by quiet hours or frequency caps / not sent at all (notification policy). */
+  deferred: number;
+  suppressed: number;
+  /** Invalid tokens removed from members' devices. */
+  pruned: number;
+  /** Retries moved back to the queue. */
+  promoted: number;
+  /** Deferred messages moved back to the queue. */
+  undeferred: number;
+  /** Expired claims moved back to the queue (or dead-lettered). */
+  reaped: number;
+  receiptsChecked: number;
+  ranAt: string;
+}
+
+/** Queued notification plus dispatcher bookkeeping. */
+interface QueuedPush {
+  id: string;
+  memberId?: string;
+  customerId?: string;
+  title?: string;
+  message?: string;
+  data?: Record<string, any>;
+  /** Delivery attempts so far. */
+  attempts?: number;
+  /** Channels to send on (default in_app + push; on retries only those that failed). */
+  channels?: NotificationChannel[];
+  /** Only these tokens (set on retries, so delivered devices do not get it twice). */
+  tokens?: string[];
+  lastError?: string;
+  /** When an earlier attempt sent it on a channel (retries of the others do not release it). */
+  sentAt?: string;
+  [key: string]: any;
+}
+
+type PushOutcome = PushResult & { provider: PushProviderName };
+
+interface PushReceipt {
+  provider: PushProviderName;
+  receiptId: string;
+  memberId: string;
+  notificationId: string;
+  token: string;
+  sentAt: string;
+}
+
+/** Attempts per message before it is dead-lettered. */
+const MAX_ATTEMPTS = 5;
+
+/** How long a claimed message may take before another dispatcher may take it back. */
+const VISIBILITY_TIMEOUT_SECONDS = 60;
+
+/** Backoff before retry n: 30s, 1m, 2m, 4m … */
+const RETRY_BASE_SECONDS = 30;
+
+/** Messages per run, so one run stays inside a serverless timeout. */
+const MAX_PER_RUN = 200;
+
+/** Expo receipts are available after a while and kept for a day. */
+const RECEIPT_DELAY_SECONDS = 15 * 60;
+const RECEIPT_MAX_AGE_SECONDS = 24 * 60 * 60;
+const RECEIPT_BATCH_SIZE = 300;
+
+const DEAD_LETTER_LENGTH = 1000;
+
+/** KEYS[1] pending, KEYS[2] processing, KEYS[3] inflight; ARGV[1] visibility deadline ms. Returns the raw message or nil. */
+const CLAIM = `
+local raw = redis.call('RPOPLPUSH', KEYS[1], KEYS[2])
+if raw then redis.call('ZADD', KEYS[3], ARGV[1], raw) end
+return raw
+`;
+
+/** KEYS[1] processing, KEYS[2] inflight; ARGV[1] raw message. */
+const ACK = `
+redis.call('LREM', KEYS[1], 1, ARGV[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+return 1
+`;
+
+/** KEYS[1] processing, KEYS[2] inflight, KEYS[3] retry (or deferred); ARGV[1] raw message, ARGV[2] next attempt JSON, ARGV[3] due ms. */
+const RETRY = `
+redis.call('LREM', KEYS[1], 1, ARGV[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[2])
+return 1
+`;
+
+/** KEYS[1] processing, KEYS[2] inflight, KEYS[3] dead; ARGV[1] raw message, ARGV[2] dead-letter JSON, ARGV[3] max length. */
+const DEAD_LETTER = `
+redis.call('LREM', KEYS[1], 1, ARGV[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('LPUSH', KEYS[3], ARGV[2])
+redis.call('LTRIM', KEYS[3], 0, tonumber(ARGV[3]) - 1)
+return 1
+`;
+
+/** KEYS[1] retry (or deferred), KEYS[2] pending; ARGV[1] now ms, ARGV[2] limit. Moves due retries to the queue. */
+const PROMOTE = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, raw in ipairs(due) do
+  redis.call('ZREM', KEYS[1], raw)
+  redis.call('LPUSH', KEYS[2], raw)
+end
+return #due
+`;
+
+/**
+ * KEYS[1] inflight, KEYS[2] processing, KEYS[3] pending, KEYS[4] dead
+ * ARGV[1] now ms, ARGV[2] max attempts, ARGV[3] limit, ARGV[4] dead-letter length
+ * Claims past their deadline count as an attempt and go back to the queue (or to the dead letters).
+ * Returns {number of expired claims, the messages dead-lettered...}.
+ */
+const REAP = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[3]))
+local reaped = {#expired}
+for _, raw in ipairs(expired) do
+  redis.call('ZREM', KEYS[1], raw)
+  redis.call('LREM', KEYS[2], 1, raw)
+  local ok, message = pcall(cjson.decode, raw)
+  if ok and type(message) == 'table' then
+    message.attempts = (tonumber(message.attempts) or 0) + 1
+    message.lastError = 'Visibility timeout'
+    if message.attempts >= tonumber(ARGV[2]) then
+      local dead = cjson.encode(message)
+      redis.call('LPUSH', KEYS[4], dead)
+      redis.call('LTRIM', KEYS[4], 0, tonumber(ARGV[4]) - 1)
+      table.insert(reaped, dead)
+    else
+      redis.call('LPUSH', KEYS[3], cjson.encode(message))
+    end
+  else
+    redis.call('LPUSH', KEYS[4], raw)
+  end
+end
+return reaped
+`;
+
+const parseJson = <T>(raw: string): T | null => {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+async function deadLetter(raw: string, message: QueuedPush | null, error: string): Promise<void> {
+  const entry = message ? JSON.stringify({ ...message, lastError: error, deadAt: new Date().toISOString() }) : raw;
+  await redisClient.eval(
+    DEAD_LETTER,
+    3,
+    REDIS_KEYS.processingNotifications(),
+    REDIS_KEYS.inflightNotifications(),
+    REDIS_KEYS.deadNotifications(),
+    raw,
+    entry,
+    String(DEAD_LETTER_LENGTH),
+  );
+  console.error(`❌ [PUSH] Dead-lettered ${message?.id ?? 'unreadable message'}: ${error}`);
+}
+
+/** Give back the budget and frequency-cap slots of a message that never went out on any channel. */
+async function releaseUnsent(message: QueuedPush): Promise<void> {
+  const memberId = message.memberId ?? message.customerId;
+  if (!memberId || message.sentAt) return;
+  try {
+    await notificationPolicyService.release(memberId, message);
+  } catch (error: any) {
+    console.error(`❌ [PUSH] Failed to release ${message.id}:`, error.message);
+  }
+}
+
+/** The member's devices a message goes to (on a retry, only those that failed). */
+async function targetDevices(memberId: string, message: QueuedPush): Promise<PushDevice[]> {
+  return (await pushService.devices(memberId))
+    .filter((device) => !message.tokens || message.tokens.includes(device.token));
+}
+
+/** Whether any of those devices has a configured push provider. */
+async function hasPushTarget(memberId: string, message: QueuedPush): Promise<boolean> {
+  return (await targetDevices(memberId, message))
+    .some((device) => !!pushProviders.get(pushProviders.nameFor(device))?.configured());
+}
+
+/** Send to the member's devices: prunes invalid tokens and records receipts to check later. */
+async function sendPush(memberId: string, message: QueuedPush, result: PushRunResult): Promise<PushOutcome[]> {
+  const devices = await targetDevices(memberId, message);
+  if (devices.length === 0) return [];
+
+  const push: PushMessage = {
+    notificationId: message.id,
+    title: message.title || '',
+    body: message.message || '',
+    data: {
+      ...message.data,
+      notificationId: message.id,
+      type: message.type,
+      trackingUrl: await engagementService.trackedLink(memberId, message.id, message.data?.link, message.businessId),
+    },
+  };
+
+  // One batch per provider; a provider that throws (network, credentials) retries all its devices
+  const byProvider = new Map<PushProviderName, PushDevice[]>();
+  for (const device of devices) {
+    const name = pushProviders.nameFor(device);
+    byProvider.set(name, [...byProvider.get(name) ?? [], device]);
+  }
+  const outcomes: PushOutcome[] = [];
+  for (const [name, batch] of byProvider) {
+    const provider = pushProviders.get(name);
+    if (!provider || !provider.configured()) {
+      outcomes.push(...batch.map((device) => ({ token: device.token, status: 'skipped' as const, provider: name })));
+      continue;
+    }
+    try {
+      outcomes.push(...(await provider.send(batch, push)).map((outcome) => ({ ...outcome, provider: name })));
+    } catch (error: any) {
+      outcomes.push(...batch.map((device) => ({ token: device.token, status: 'retry' as const, error: error.message, provider: name })));
+    }
+  }
+
+  const now = new Date().toISOString();
+  for (const outcome of outcomes) {
+    if (outcome.status === 'invalid') {
+      result.pruned += await redisClient.hdel(REDIS_KEYS.memberDevices(memberId), outcome.token);
+    }
+    if (outcome.status === 'sent' && outcome.receiptId) {
+      const receipt: PushReceipt = {
+        provider: outcome.provider,
+        receiptId: outcome.receiptId,
+        memberId,
+        notificationId: message.id,
+        token: outcome.token,
+        sentAt: now,
+      };
+      await redisClient.zadd(REDIS_KEYS.pushReceipts(), Date.now() + RECEIPT_DELAY_SECONDS * 1000, JSON.stringify(receipt));
+    }
+  }
+  return outcomes;
+}
+
+/** Send one claimed message on its channels, then acknowledge, retry or dead-letter it. */
+async function dispatch(raw: string, result: PushRunResult): Promise<void> {
+  const message = parseJson<QueuedPush>(raw);
+  const memberId = message?.memberId ?? message?.customerId;
+  if (!message || !memberId || !message.id) {
+    result.deadLettered++;
+    return deadLetter(raw, message, 'Not a notification with id and memberId');
+  }
+  const ack = () => redisClient.eval(ACK, 2, REDIS_KEYS.processingNotifications(), REDIS_KEYS.inflightNotifications(), raw);
+
+  const member = await redis.getMember(memberId);
+  if (!member) {
+    await ack();
+    return;
+  }
+  // Only channels that can send (a device with a configured provider, an email/SMS provider) count
+  // against the caps and budget; with none the message is done without being admitted
+  const channels: NotificationChannel[] = [];
+  for (const channel of message.channels ?? DEFAULT_CHANNELS) {
+    if (channel === 'in_app' || !await channelService.allowed(member, channel, message.type)) continue;
+    if (channel === 'push' ? await hasPushTarget(memberId, message) : channelService.configured(channel)) channels.push(channel);
+  }
+  if (channels.length === 0) {
+    await ack();
+    return;
+  }
+
+  const decision = await notificationPolicyService.admit(member, message);
+  if (decision.action === 'defer') {
+    await redisClient.eval(
+      RETRY,
+      3,
+      REDIS_KEYS.processingNotifications(),
+      REDIS_KEYS.inflightNotifications(),
+      REDIS_KEYS.deferredNotifications(),
+      raw,
+      JSON.stringify({ ...message, deferredUntil: decision.until.toISOString(), deferredReason: decision.reason }),
+      String(decision.until.getTime()),
+    );
+    await notificationService.update(memberId, message.id, { deferredUntil: decision.until.toISOString() });
+    result.deferred++;
+    return;
+  }
+  if (decision.action === 'suppress') {
+    await ack();
+    await notificationService.update(memberId, message.id, { suppressedAt: new Date().toISOString(), suppressedReason: decision.reason });
+    result.suppressed++;
+    return;
+  }
+
+  let sent = false;
+  let delivered = false;
+  let error = '';
+  const retryChannels: NotificationChannel[] = [];
+  const retryTokens: string[] = [];
+
+  if (channels.includes('push')) {
+    const outcomes = await sendPush(memberId, message, result);
+    sent = outcomes.some((o) => o.status === 'sent' || o.status === 'delivered');
+    delivered = outcomes.some((o) => o.status === 'delivered');
+    for (const outcome of outcomes.filter((o) => o.status === 'retry')) {
+      retryTokens.push(outcome.token);
+      error ||= outcome.error || 'Temporary failure';
+    }
+    if (retryTokens.length) retryChannels.push('push');
+  }
+
+  for (const channel of ['email', 'sms'] as const) {
+    if (!channels.includes(channel)) continue;
+    const outcome = await channelService.deliver(channel, member, {
+      id: message.id,
+      type: message.type,
+      title: message.title || '',
+      message: message.message || '',
+      businessId: message.businessId,
+      businessName: message.businessName,
+      data: message.data,
+    });
+    if (!outcome) continue;
+    if (outcome.status === 'sent') {
+      sent = true;
+      if (channel === 'email') result.emailed++;
+      else result.texted++;
+    } else if (outcome.status === 'retry') {
+      retryChannels.push(channel);
+      error ||= outcome.error || 'Temporary failure';
+    } else if (outcome.status === 'failed') {
+      console.error(`❌ [PUSH] ${channel} to ${memberId} failed:`, outcome.error);
+    }
+  }
+
+  let sentAt = message.sentAt;
+  if (sent) {
+    const now = new Date().toISOString();
+    await notificationService.update(memberId, message.id, delivered ? { sentAt: now, deliveredAt: now } : { sentAt: now });
+    sentAt = now;
+    result.sent++;
+    if (delivered) result.delivered++;
+  }
+
+  if (retryChannels.length === 0) {
+    await ack();
+    await releaseUnsent({ ...message, sentAt });
+    return;
+  }
+  // Only the channels (and devices) that failed are tried again
+  const attempts = (message.attempts ?? 0) + 1;
+  const next = { ...message, attempts, channels: retryChannels, tokens: retryTokens, ...(sentAt ? { sentAt } : {}) };
+  if (attempts >= MAX_ATTEMPTS) {
+    result.deadLettered++;
+    await deadLetter(raw, next, error);
+    return releaseUnsent(next);
+  }
+  await redisClient.eval(
+    RETRY,
+    3,
+    REDIS_KEYS.processingNotifications(),
+    REDIS_KEYS.inflightNotifications(),
+    REDIS_KEYS.retryNotifications(),
+    raw,
+    JSON.stringify({ ...next, lastError: error }),
+    String(Date.now() + RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1)),
+  );
+  result.retried++;
+}
+
+/** Check due delivery receipts: set deliveredAt, prune tokens the relay found unregistered. */
+async function checkReceipts(result: PushRunResult): Promise<void> {
+  const due = await redisClient.zrangebyscore(REDIS_KEYS.pushReceipts(), '-inf', Date.now(), 'LIMIT', 0, RECEIPT_BATCH_SIZE);
+  const byProvider = new Map<PushProviderName, Array<{ raw: string; receipt: PushReceipt }>>();
+  for (const raw of due) {
+    const receipt = parseJson<PushReceipt>(raw);
+    if (!receipt) {
+      await redisClient.zrem(REDIS_KEYS.pushReceipts(), raw);
+      continue;
+    }
+    byProvider.set(receipt.provider, [...byProvider.get(receipt.provider) ?? [], { raw, receipt }]);
+  }
+
+  for (const [name, entries] of byProvider) {
+    const provider = pushProviders.get(name);
+    if (!provider?.checkReceipts) {
+      await redisClient.zrem(REDIS_KEYS.pushReceipts(), ...entries.map((e) => e.raw));
+      continue;
+    }
+    let statuses: Record<string, string>;
+    try {
+      statuses = await provider.checkReceipts(entries.map((e) => e.receipt.receiptId));
+    } catch (error: any) {
+      console.error(`❌ [PUSH] ${name} receipts failed:`, error.message);
+      continue;
+    }
+    for (const { raw, receipt } of entries) {
+      const status = statuses[receipt.receiptId];
+      const age = Date.now() - Date.parse(receipt.sentAt);
+      if (status === 'pending' && age < RECEIPT_MAX_AGE_SECONDS * 1000) continue;
+      if (status === 'delivered') {
+        await notificationService.update(receipt.memberId, receipt.notificationId, { deliveredAt: new Date().toISOString() });
+        result.delivered++;
+      } else if (status === 'invalid') {
+        result.pruned += await redisClient.hdel(REDIS_KEYS.memberDevices(receipt.memberId), receipt.token);
+      }
+      await redisClient.zrem(REDIS_KEYS.pushReceipts(), raw);
+      result.receiptsChecked++;
+    }
+  }
+}
+
+export const pushService = {
+  /** A member's registered devices. */
+  async devices(memberId: string): Promise<PushDevice[]> {
+    const stored = await redisClient.hgetall(REDIS_KEYS.memberDevices(memberId));
+    return Object.values(stored)
+      .map((raw) => parseJson<PushDevice>(raw))
+      .filter((device): device is PushDevice => !!device?.token);
+  },
+
+  /** Deliver queued notifications (up to MAX_PER_RUN), after requeueing due retries and expired claims. */
+  async run(at = new Date()): Promise<PushRunResult> {
+    const now = at.toISOString();
+    const result: PushRunResult = {
+      claimed: 0, sent: 0, delivered: 0, emailed: 0, texted: 0, retried: 0, deadLettered: 0, deferred: 0, suppressed: 0,
+      pruned: 0, promoted: 0, undeferred: 0, reaped: 0, receiptsChecked: 0, ranAt: now,
+    };
+
+    result.promoted = await redisClient.eval(
+      PROMOTE, 2, REDIS_KEYS.retryNotifications(), REDIS_KEYS.pendingNotifications(), String(at.getTime()), String(MAX_PER_RUN),
+    ) as number;
+    result.undeferred = await redisClient.eval(
+      PROMOTE, 2, REDIS_KEYS.deferredNotifications(), REDIS_KEYS.pendingNotifications(), String(at.getTime()), String(MAX_PER_RUN),
+    ) as number;
+    const [reaped, ...dead] = await redisClient.eval(
+      REAP,
+      4,
+      REDIS_KEYS.inflightNotifications(),
+      REDIS_KEYS.processingNotifications(),
+      REDIS_KEYS.pendingNotifications(),
+      REDIS_KEYS.deadNotifications(),
+      String(at.getTime()),
+      String(MAX_ATTEMPTS),
+      String(MAX_PER_RUN),
+      String(DEAD_LETTER_LENGTH),
+    ) as [number, ...string[]];
+    result.reaped = reaped;
+    for (const message of dead) {
+      await releaseUnsent(JSON.parse(message));
+    }
+
+    while (result.claimed < MAX_PER_RUN) {
+      const raw = await redisClient.eval(
+        CLAIM,
+        3,
+        REDIS_KEYS.pendingNotifications(),
+        REDIS_KEYS.processingNotifications(),
+        REDIS_KEYS.inflightNotifications(),
+        String(Date.now() + VISIBILITY_TIMEOUT_SECONDS * 1000),
+      ) as string | null;
+      if (!raw) break;
+      result.claimed++;
+      try {
+        await dispatch(raw, result);
+      } catch (error: any) {
+        // Left in flight: the claim expires and the message is retried
+        console.error('❌ [PUSH] Dispatch failed:', error.message);
+      }
+    }
+
+    await checkReceipts(result);
+
+    await redisClient.hset(REDIS_KEYS.jobLastRun('push'), {
+      ranAt: now,
+      claimed: result.claimed,
+      sent: result.sent,
+      delivered: result.delivered,
+      emailed: result.emailed,
+      texted: result.texted,
+      retried: result.retried,
+      deadLettered: result.deadLettered,
+      deferred: result.deferred,
+      suppressed: result.suppressed,
+      pruned: result.pruned,
+    });
+    if (result.claimed || result.receiptsChecked) {
+      console.log(`[PUSH] ${result.claimed} claimed, ${result.sent} sent, ${result.delivered} delivered, ${result.emailed} emailed, ${result.texted} texted, ${result.retried} retried, ${result.deadLettered} dead-lettered, ${result.deferred} deferred, ${result.suppressed} suppressed, ${result.pruned} tokens pruned`);
+    }
+    return result;
+  },
+
+  /** Dead-lettered messages, newest first. */
+  async deadLetters(limit = 50): Promise<any[]> {
+    const raw = await redisClient.lrange(REDIS_KEYS.deadNotifications(), 0, limit - 1);
+    return raw.map((entry) => parseJson<any>(entry) ?? { raw: entry });
+  },
+
+  /** Messages held back by quiet hours or frequency caps, soonest due first. */
+  async deferred(limit = 50): Promise<any[]> {
+    const raw = await redisClient.zrange(REDIS_KEYS.deferredNotifications(), 0, limit - 1);
+    return raw.map((entry) => parseJson<any>(entry) ?? { raw: entry });
+  },
+
+  /** Put dead-lettered messages back on the queue with fresh attempts. */
+  async requeueDead(limit = 100): Promise<{ requeued: number }> {
+    let requeued = 0;
+    while (requeued < limit) {
+      const raw = await redisClient.rpop(REDIS_KEYS.deadNotifications());
+      if (!raw) break;
+      const message = parseJson<QueuedPush>(raw);
+      if (!message) continue;
+      const { attempts: _attempts, lastError: _lastError, deadAt: _deadAt, ...fresh } = message;
+      await redisClient.lpush(REDIS_KEYS.pendingNotifications(), JSON.stringify(fresh));
+      requeued++;
+    }
+    return { requeued };
+  },
+};
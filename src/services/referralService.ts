@@ -0,0 +1,466 @@
+/**
+ * Referral service — referral codes, fraud checks, referral rules and automatic rewards
+ *
+ * Lifecycle of a Referral:
+ * - pending: created by POST /api/v1/gamification/referral (optionally for one business). Self-referrals
+ *   are rejected: the same customer, an overlapping device (deviceTokens or the request's deviceId), or
+ *   the same email once normalised (case, +tags, Gmail dots) or differing only in digits/separators
+ *   at the same domain. A customer can be referred once.
+ * - completed: the referred friend has earned rule.qualifyingStamps at a business (in rule.programId, if
+ *   set) within rule.windowDays of being referred. Checked by onEarn() after each stamp scan or order.
+ * - rewarded: both sides got their stamps/points through stampService.issue (the referrer only while
+ *   under rule.maxRewardsPerReferrer), leaderboard:referrals counts it and both are notified.
+ * A reward that fails part-way leaves the referral completed; the friend's next earn retries the side
+ * that is missing (each side has an idempotency key and a rewarded flag).
+ *
+ * Rules belong to a business (GET/POST /api/v1/businesses/:id/referral-rules).
+ */
+
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { ledgerService } from './ledgerService';
+import { programService } from './programService';
+import { stampService } from './stampService';
+import { notificationService } from './notificationService';
+import { notificationTemplateService } from './notificationTemplateService';
+import type { Referral, ReferralRule } from '../types/extended';
+
+export type ReferralRejection = 'SELF_REFERRAL' | 'SAME_DEVICE' | 'SAME_EMAIL';
+
+export interface NewReferral {
+  referralCode: string;
+  referredId: string;
+  /** Device the referred friend is signing up on. */
+  deviceId?: string;
+  /** Only this business's rules can complete the referral. */
+  businessId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_WINDOW_DAYS = 365;
+const MAX_AMOUNT = 1000;
+const MAX_NAME_LENGTH = 100;
+
+/** Referral codes are CC + 6 of these (no 0/O or 1/I); 32 symbols, so a random byte maps without bias. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+/** Fresh codes tried before giving up; with 32^6 codes a collision is already rare. */
+const MAX_CODE_ATTEMPTS = 10;
+
+/** Providers that ignore dots in the local part. */
+const DOTLESS_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const parse = <T>(data: string | null | undefined): T | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+};
+
+/** An email as the mailbox it delivers to: lower case, no +tag, no Gmail dots. */
+export function normaliseEmail(email: string): string {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  const mailbox = DOTLESS_DOMAINS.includes(domain) ? local.split('+')[0].replace(/\./g, '') : local.split('+')[0];
+  return `${mailbox}@${domain === 'googlemail.com' ? 'gmail.com' : domain}`;
+}
+
+/** Referral codes as typed by people: case and surrounding spaces don't matter. */
+const normaliseCode = (code: string): string => code.trim().toUpperCase();
+
+function randomCode(): string {
+  return `CC${Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')}`;
+}
+
+/** Same mailbox, or the same name at the same domain apart from digits and separators (jo.smith1 / josmith2). */
+function sameEmailPattern(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'string' || typeof b !== 'string' || !a.includes('@') || !b.includes('@')) return false;
+  const left = normaliseEmail(a);
+  const right = normaliseEmail(b);
+  if (left === right) return true;
+  const [leftLocal, leftDomain] = left.split('@');
+  const [rightLocal, rightDomain] = right.split('@');
+  const stem = (local: string) => local.replace(/[\d._-]/g, '');
+  return leftDomain === rightDomain && stem(leftLocal).length >= 3 && stem(leftLocal) === stem(rightLocal);
+}
+
+function deviceIdsOf(customer: any): Set<string> {
+  const ids = new Set<string>();
+  for (const device of customer?.deviceTokens ?? []) {
+    if (device?.deviceId) ids.add(device.deviceId);
+    if (device?.token) ids.add(device.token);
+  }
+  return ids;
+}
+
+/** Why this referral looks like the referrer referring themselves, or null. */
+function selfReferral(referrer: any, referred: any, deviceId?: string): ReferralRejection | null {
+  if (referrer.id === referred.id) return 'SELF_REFERRAL';
+  const referrerDevices = deviceIdsOf(referrer);
+  const referredDevices = deviceIdsOf(referred);
+  if (deviceId) referredDevices.add(deviceId);
+  if ([...referredDevices].some((id) => referrerDevices.has(id))) return 'SAME_DEVICE';
+  if (sameEmailPattern(referrer.email, referred.email)) return 'SAME_EMAIL';
+  return null;
+}
+
+const REJECTION_MESSAGES: Record<ReferralRejection, string> = {
+  SELF_REFERRAL: 'You cannot refer yourself',
+  SAME_DEVICE: 'Referrals from the same device are not allowed',
+  SAME_EMAIL: 'Referrals between matching email addresses are not allowed',
+};
+
+function checkAmount(value: unknown, field: string, min: number): number {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > MAX_AMOUNT) {
+    throw new ApiError(400, `${field} must be a whole number (${min}-${MAX_AMOUNT})`);
+  }
+  return value as number;
+}
+
+/** Validate a rule body; `current` fills in fields left out of an update. */
+async function checkRule(businessId: string, body: any, current?: ReferralRule): Promise<Omit<ReferralRule, 'id' | 'createdAt' | 'updatedAt'>> {
+  const value = { ...current, ...body };
+  if (typeof value.name !== 'string' || !value.name.trim() || value.name.trim().length > MAX_NAME_LENGTH) {
+    throw new ApiError(400, `name is required (at most ${MAX_NAME_LENGTH} characters)`);
+  }
+  if (value.programId !== undefined && value.programId !== null) {
+    const program = typeof value.programId === 'string' ? await programService.get(value.programId) : null;
+    if (!program || program.businessId !== businessId) {
+      throw new ApiError(400, 'programId is not a program of this business');
+    }
+  }
+  if (value.isActive !== undefined && typeof value.isActive !== 'boolean') {
+    throw new ApiError(400, 'isActive must be a boolean');
+  }
+  const windowDays = value.windowDays ?? DEFAULT_WINDOW_DAYS;
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_WINDOW_DAYS) {
+    throw new ApiError(400, `windowDays must be a whole number of days (1-${MAX_WINDOW_DAYS})`);
+  }
+  return {
+    businessId,
+    ...(value.programId ? { programId: value.programId } : {}),
+    name: value.name.trim(),
+    qualifyingStamps: checkAmount(value.qualifyingStamps ?? 1, 'qualifyingStamps', 1),
+    windowDays,
+    referrerReward: checkAmount(value.referrerReward ?? 1, 'referrerReward', 0),
+    referredReward: checkAmount(value.referredReward ?? 1, 'referredReward', 0),
+    ...(value.maxRewardsPerReferrer !== undefined && value.maxRewardsPerReferrer !== null
+      ? { maxRewardsPerReferrer: checkAmount(value.maxRewardsPerReferrer, 'maxRewardsPerReferrer', 1) }
+      : {}),
+    isActive: value.isActive ?? true,
+  };
+}
+
+/** Give one side of a referral its stamps/points (issue applies the program's expiry rules and tier upgrade). */
+async function rewardSide(referral: Referral, rule: ReferralRule, customerId: string, side: 'referrer' | 'referred', amount: number): Promise<void> {
+  const scope = rule.programId
+    ? await programService.scopeFor(rule.businessId, rule.programId, customerId, { enroll: true })
+    : undefined;
+  await stampService.issue({
+    memberId: customerId,
+    businessId: rule.businessId,
+    method: 'manual',
+    staffId: 'system',
+    idempotencyKey: `referral:${referral.id}:${side}`,
+    amount,
+    metadata: { referralId: referral.id, referralRuleId: rule.id, side },
+    ...(scope ? { program: scope.program, membershipId: scope.membership.id } : {}),
+  });
+}
+
+export const referralService = {
+  async get(id: string): Promise<Referral | null> {
+    return parse<Referral>(await redisClient.get(REDIS_KEYS.referral(id)));
+  },
+
+  /**
+   * The customer's referral code, created on first use. Codes are claimed in the index with SET NX,
+   * so a code never moves to another customer; an unindexed code that is already taken is replaced.
+   */
+  async codeFor(customer: any): Promise<string> {
+    const current: string | undefined = customer.referralCode;
+    if (current) {
+      const owner = await redisClient.get(REDIS_KEYS.referralCode(current));
+      if (owner === customer.id) return current;
+      if (!owner && await redisClient.set(REDIS_KEYS.referralCode(current), customer.id, 'NX')) return current;
+    }
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = randomCode();
+      if (await redisClient.set(REDIS_KEYS.referralCode(code), customer.id, 'NX')) {
+        // Patched, so a concurrent edit of the customer is kept; a code another request stored first wins
+        let stored: string | undefined;
+        const assign = (doc: any) => {
+          if (doc.referralCode && doc.referralCode !== current) {
+            stored = doc.referralCode;
+            return doc;
+          }
+          return { ...doc, referralCode: code };
+        };
+        const saved = await concurrencyService.patch(REDIS_KEYS.customer(customer.id), assign)
+          ?? await concurrencyService.patch(REDIS_KEYS.member(customer.id), assign);
+        if (!saved) throw new ApiError(404, 'Member not found');
+        if (stored) {
+          await redisClient.del(REDIS_KEYS.referralCode(code));
+          return stored;
+        }
+        return code;
+      }
+    }
+    throw new ApiError(503, 'Could not create a referral code, please retry');
+  },
+
+  /** Customer who owns a referral code (index only; POST /jobs/referral-codes indexes older codes). */
+  async findReferrer(code: string): Promise<any | null> {
+    const owner = await redisClient.get(REDIS_KEYS.referralCode(normaliseCode(code)));
+    return owner ? redis.getMember(owner) : null;
+  },
+
+  /**
+   * Index the referral codes of customers stored before codes were indexed. A code already claimed by
+   * another customer is left alone; that customer gets a fresh code the next time they ask for theirs.
+   */
+  async rebuildCodeIndex(): Promise<{ customers: number; indexed: number; taken: number }> {
+    const counts = { customers: 0, indexed: 0, taken: 0 };
+    let cursor = '0';
+    do {
+      const [next, keys] = await redisClient.scan(cursor, 'MATCH', 'customer:*', 'COUNT', 500);
+      cursor = next;
+      // customer:{id} only; skip sub-keys such as customer:{id}:devices
+      for (const key of keys.filter((k) => k.split(':').length === 2)) {
+        if (await redisClient.type(key) !== 'string') continue;
+        const customer = parse<any>(await redisClient.get(key));
+        if (!customer?.id || typeof customer.referralCode !== 'string' || !customer.referralCode) continue;
+        counts.customers++;
+        const code = normaliseCode(customer.referralCode);
+        if (await redisClient.set(REDIS_KEYS.referralCode(code), customer.id, 'NX')) {
+          counts.indexed++;
+        } else if (await redisClient.get(REDIS_KEYS.referralCode(code)) !== customer.id) {
+          counts.taken++;
+        }
+      }
+    } while (cursor !== '0');
+    console.log(`[REFERRALS] Indexed ${counts.indexed} of ${counts.customers} referral codes (${counts.taken} taken by another customer)`);
+    return counts;
+  },
+
+  /** Record a pending referral. 404 for an unknown code or customer, 400 for self-referral, 409 if already referred. */
+  async create(input: NewReferral): Promise<{ referral: Referral; referrer: any }> {
+    const referrer = await referralService.findReferrer(input.referralCode);
+    if (!referrer) {
+      throw new ApiError(404, 'Invalid referral code');
+    }
+    const referred = await redis.getMember(input.referredId);
+    if (!referred) {
+      throw new ApiError(404, 'New member not found');
+    }
+    if (input.businessId !== undefined && !await redis.getBusiness(input.businessId)) {
+      throw new ApiError(404, 'Business not found');
+    }
+
+    const rejection = selfReferral(referrer, referred, input.deviceId);
+    if (rejection) {
+      console.warn(`[REFERRALS] Rejected ${rejection}: ${referrer.id} → ${referred.id}`);
+      throw new ApiError(400, REJECTION_MESSAGES[rejection], { reason: rejection });
+    }
+
+    const now = new Date().toISOString();
+    const referral: Referral = {
+      id: uuidv4(),
+      referrerId: referrer.id,
+      referredId: referred.id,
+      ...(input.businessId ? { businessId: input.businessId } : {}),
+      status: 'pending',
+      rewardGiven: false,
+      createdAt: now,
+    };
+    // A customer is referred once, by whoever got there first
+    if (!await redisClient.set(REDIS_KEYS.referralOfReferred(referred.id), referral.id, 'NX')) {
+      throw new ApiError(409, 'This member has already been referred');
+    }
+    await redisClient.set(REDIS_KEYS.referral(referral.id), JSON.stringify(referral));
+    await redisClient.zadd(REDIS_KEYS.referrerReferrals(referrer.id), Date.parse(now), referral.id);
+    await redisClient.sadd(REDIS_KEYS.memberReferrals(referrer.id), referred.id);
+    await concurrencyService.patch(REDIS_KEYS.customer(referred.id), (doc: any) => ({ ...doc, referredBy: referrer.id }));
+    return { referral, referrer };
+  },
+
+  /** A referrer's referrals, newest first. */
+  async listForReferrer(referrerId: string, limit = 50): Promise<Referral[]> {
+    const ids = await redisClient.zrevrange(REDIS_KEYS.referrerReferrals(referrerId), 0, limit - 1);
+    const referrals = await Promise.all(ids.map((id) => referralService.get(id)));
+    return referrals.filter((r): r is Referral => !!r);
+  },
+
+  /**
+   * After a customer earns at a business: complete and reward their referral if a rule of that business
+   * (and program) now qualifies it. Best effort: the earn is already written.
+   */
+  async onEarn(customerId: string, businessId: string, programId?: string): Promise<Referral | null> {
+    try {
+      const referralId = await redisClient.get(REDIS_KEYS.referralOfReferred(customerId));
+      const referral = referralId ? await referralService.get(referralId) : null;
+      if (!referral || referral.status === 'rewarded') return null;
+
+      if (referral.status === 'completed') {
+        const rule = referral.ruleId ? await referralService.getRule(referral.ruleId) : null;
+        return rule && rule.businessId === businessId ? referralService.reward(referral, rule) : null;
+      }
+      if (referral.businessId && referral.businessId !== businessId) return null;
+
+      const now = Date.now();
+      for (const rule of await referralService.listRules(businessId)) {
+        if (!rule.isActive || (rule.programId || undefined) !== programId) continue;
+        if (now > Date.parse(referral.createdAt) + rule.windowDays * DAY_MS) continue;
+
+        const earned = await ledgerService.earnedSince(customerId, new Date(referral.createdAt), { businessId, programId });
+        if (earned.points < rule.qualifyingStamps) continue;
+
+        let claimed = false;
+        const completed = await concurrencyService.patch<Referral>(REDIS_KEYS.referral(referral.id), (doc) => {
+          claimed = doc.status === 'pending';
+          return claimed
+            ? { ...doc, status: 'completed', ruleId: rule.id, programId: rule.programId, completedAt: new Date(now).toISOString() }
+            : doc;
+        });
+        return claimed && completed ? referralService.reward(completed, rule) : null;
+      }
+      return null;
+    } catch (error: any) {
+      console.error(`❌ [REFERRALS] Referral check failed for ${customerId} at ${businessId}:`, error.message);
+      return null;
+    }
+  },
+
+  /** Reward both sides of a completed referral (each side once), then mark it rewarded. */
+  async reward(referral: Referral, rule: ReferralRule): Promise<Referral | null> {
+    const business = await redis.getBusiness(rule.businessId);
+    const currency = rule.programId ? (await programService.get(rule.programId))?.currency ?? 'stamps' : 'stamps';
+    let current = referral;
+
+    if (!current.referredRewarded) {
+      if (rule.referredReward > 0) {
+        await rewardSide(current, rule, current.referredId, 'referred', rule.referredReward);
+        const { title, message } = await notificationTemplateService.render(
+          'referral.referred',
+          { businessId: rule.businessId, customerId: current.referredId },
+          { businessName: business?.name || 'your new favourite place', amount: rule.referredReward, currency },
+        );
+        await notificationService.queue(current.referredId, {
+          type: 'referral',
+          businessId: rule.businessId,
+          businessName: business?.name,
+          title,
+          message,
+          data: { referralId: current.id, amount: rule.referredReward },
+        });
+      }
+      current = await concurrencyService.patch<Referral>(REDIS_KEYS.referral(current.id), (doc) => ({
+        ...doc,
+        referredRewarded: true,
+        referredRewardAmount: rule.referredReward,
+      })) ?? current;
+    }
+
+    if (!current.referrerRewarded) {
+      // Reserve the referrer's reward under the rule's cap; a capped referrer still completes the referral
+      const rewards = await redisClient.hincrby(REDIS_KEYS.referralRuleRewards(rule.id), current.referrerId, 1);
+      const capped = !!rule.maxRewardsPerReferrer && rewards > rule.maxRewardsPerReferrer;
+      const amount = capped ? 0 : rule.referrerReward;
+      if (capped) await redisClient.hincrby(REDIS_KEYS.referralRuleRewards(rule.id), current.referrerId, -1);
+      if (amount > 0) {
+        try {
+          await rewardSide(current, rule, current.referrerId, 'referrer', amount);
+        } catch (error) {
+          await redisClient.hincrby(REDIS_KEYS.referralRuleRewards(rule.id), current.referrerId, -1);
+          throw error;
+        }
+        const { title, message } = await notificationTemplateService.render(
+          'referral.referrer',
+          { businessId: rule.businessId, customerId: current.referrerId },
+          { businessName: business?.name || 'us', amount, currency },
+        );
+        await notificationService.queue(current.referrerId, {
+          type: 'referral',
+          businessId: rule.businessId,
+          businessName: business?.name,
+          title,
+          message,
+          data: { referralId: current.id, amount },
+        });
+      }
+      current = await concurrencyService.patch<Referral>(REDIS_KEYS.referral(current.id), (doc) => ({
+        ...doc,
+        referrerRewarded: true,
+        rewardAmount: amount,
+      })) ?? current;
+    }
+
+    let rewarded = false;
+    const result = await concurrencyService.patch<Referral>(REDIS_KEYS.referral(current.id), (doc) => {
+      rewarded = doc.status === 'completed';
+      return rewarded ? { ...doc, status: 'rewarded', rewardGiven: true, rewardedAt: new Date().toISOString() } : doc;
+    });
+    if (rewarded) {
+      await redisClient.zincrby(REDIS_KEYS.leaderboard('referrals'), 1, current.referrerId);
+      console.log(`[REFERRALS] Referral ${current.id} rewarded under rule ${rule.id}`);
+    }
+    return result;
+  },
+
+  async getRule(id: string): Promise<ReferralRule | null> {
+    return parse<ReferralRule>(await redisClient.get(REDIS_KEYS.referralRule(id)));
+  },
+
+  /** A referral rule of this business, or 404. */
+  async requireRule(businessId: string, id: unknown): Promise<ReferralRule> {
+    const rule = typeof id === 'string' && id ? await referralService.getRule(id) : null;
+    if (!rule || rule.businessId !== businessId) {
+      throw new ApiError(404, 'Referral rule not found');
+    }
+    return rule;
+  },
+
+  /** A business's referral rules, oldest first. */
+  async listRules(businessId: string): Promise<ReferralRule[]> {
+    const ids = await redisClient.smembers(REDIS_KEYS.businessReferralRules(businessId));
+    const rules = await Promise.all(ids.map((id) => referralService.getRule(id)));
+    return rules
+      .filter((r): r is ReferralRule => !!r)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async createRule(businessId: string, body: any): Promise<ReferralRule> {
+    const now = new Date().toISOString();
+    const rule: ReferralRule = { id: uuidv4(), ...await checkRule(businessId, body ?? {}), createdAt: now, updatedAt: now };
+    await redisClient.set(REDIS_KEYS.referralRule(rule.id), JSON.stringify(rule));
+    await redisClient.sadd(REDIS_KEYS.businessReferralRules(businessId), rule.id);
+    return rule;
+  },
+
+  /** Update a rule (partial; null clears programId or maxRewardsPerReferrer). Completed referrals keep their rule. */
+  async updateRule(businessId: string, id: string, body: any): Promise<ReferralRule> {
+    const changes = await checkRule(businessId, body ?? {}, await referralService.requireRule(businessId, id));
+    const updated = await concurrencyService.patch<ReferralRule>(REDIS_KEYS.referralRule(id), (rule) => ({
+      id: rule.id,
+      ...changes,
+      createdAt: rule.createdAt,
+      updatedAt: new Date().toISOString(),
+    }));
+    if (!updated) throw new ApiError(404, 'Referral rule not found');
+    return updated;
+  },
+
+  /** Delete a rule. Pending referrals can still complete under the business's other rules. */
+  async removeRule(businessId: string, id: string): Promise<void> {
+    await referralService.requireRule(businessId, id);
+    await redisClient.srem(REDIS_KEYS.businessReferralRules(businessId), id);
+    await redisClient.del(REDIS_KEYS.referralRule(id));
+  },
+};
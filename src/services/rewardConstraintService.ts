@@ -0,0 +1,120 @@
+/**
+ * Reward constraint service — whether a member may redeem a reward right now, and why not
+ *
+ * Checks isActive, validFrom/validTo, and Reward.constraints (dayOfWeek/timeRange in UK time,
+ * locations, minSpend, maxUsesPerMember) and returns every failed check as a structured
+ * rejection, e.g. { code: 'OUTSIDE_TIME_WINDOW', window }, so staff apps can show the reason.
+ * Redemption errors carry them as details.rejections.
+ *
+ * Usage counts (maxUsesPerMember) and the balance/maxRedemptions are enforced again inside the
+ * redemption script, so concurrent redemptions cannot exceed them; check() is the early, complete answer.
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { windowMismatches, describeWindow, rewardWindow, TimeWindow } from '../utils/schedule';
+import type { Reward } from '../types';
+
+export type RewardRejection =
+  | { code: 'REWARD_INACTIVE' }
+  | { code: 'NOT_YET_VALID'; validFrom: string }
+  | { code: 'REWARD_EXPIRED'; validTo: string }
+  | { code: 'OUTSIDE_TIME_WINDOW'; window: TimeWindow }
+  | { code: 'LOCATION_NOT_ALLOWED'; locations: string[]; locationId: string | null }
+  | { code: 'MIN_SPEND_NOT_MET'; minSpend: number; spend: number | null }
+  | { code: 'MAX_USES_PER_MEMBER'; maxUsesPerMember: number; used: number }
+  | { code: 'MAX_REDEMPTIONS'; maxRedemptions: number }
+  | { code: 'INSUFFICIENT_BALANCE'; required: number; available: number; currency: string };
+
+export type RewardRejectionCode = RewardRejection['code'];
+
+export interface RedemptionContext {
+  memberId: string;
+  /** Defaults to now. */
+  at?: Date;
+  locationId?: string;
+  /** £ spent in the visit (for constraints.minSpend). */
+  spend?: number;
+}
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/** Message shown to staff for one rejection. */
+function describe(rejection: RewardRejection): string {
+  switch (rejection.code) {
+    case 'REWARD_INACTIVE':
+      return 'This reward is no longer active';
+    case 'NOT_YET_VALID':
+      return `This reward is available from ${rejection.validFrom.split('T')[0]}`;
+    case 'REWARD_EXPIRED':
+      return `This reward expired on ${rejection.validTo.split('T')[0]}`;
+    case 'OUTSIDE_TIME_WINDOW':
+      return `This reward can only be redeemed ${describeWindow(rejection.window)} (UK time)`;
+    case 'LOCATION_NOT_ALLOWED':
+      return 'This reward cannot be redeemed at this location';
+    case 'MIN_SPEND_NOT_MET':
+      return `This reward needs a minimum spend of £${rejection.minSpend.toFixed(2)}`;
+    case 'MAX_USES_PER_MEMBER':
+      return `This reward can be redeemed ${rejection.maxUsesPerMember} time${rejection.maxUsesPerMember === 1 ? '' : 's'} per member`;
+    case 'MAX_REDEMPTIONS':
+      return 'This reward has reached its maximum redemptions';
+    case 'INSUFFICIENT_BALANCE':
+      return `Not enough ${rejection.currency}. Need ${rejection.required}, have ${rejection.available}`;
+  }
+}
+
+export const rewardConstraintService = {
+  /** Every reason `reward` cannot be redeemed in this context (empty when it can). */
+  async check(reward: Reward, context: RedemptionContext): Promise<RewardRejection[]> {
+    const at = context.at ?? new Date();
+    const rejections: RewardRejection[] = [];
+    const constraints = reward.constraints ?? {};
+
+    if (!reward.isActive) {
+      rejections.push({ code: 'REWARD_INACTIVE' });
+    }
+    if (isDate(reward.validFrom) && Date.parse(reward.validFrom) > at.getTime()) {
+      rejections.push({ code: 'NOT_YET_VALID', validFrom: reward.validFrom });
+    }
+    const validTo = reward.validTo ?? reward.expiresAt;
+    if (isDate(validTo) && Date.parse(validTo) < at.getTime()) {
+      rejections.push({ code: 'REWARD_EXPIRED', validTo });
+    }
+
+    const window = rewardWindow(reward);
+    if (windowMismatches(window, at).length) {
+      rejections.push({ code: 'OUTSIDE_TIME_WINDOW', window });
+    }
+    if (constraints.locations?.length && !(context.locationId && constraints.locations.includes(context.locationId))) {
+      rejections.push({ code: 'LOCATION_NOT_ALLOWED', locations: constraints.locations, locationId: context.locationId ?? null });
+    }
+    if (constraints.minSpend !== undefined && (context.spend ?? 0) < constraints.minSpend) {
+      rejections.push({ code: 'MIN_SPEND_NOT_MET', minSpend: constraints.minSpend, spend: context.spend ?? null });
+    }
+
+    if (constraints.maxUsesPerMember) {
+      const used = await rewardConstraintService.usesByMember(reward.id, context.memberId);
+      if (used >= constraints.maxUsesPerMember) {
+        rejections.push({ code: 'MAX_USES_PER_MEMBER', maxUsesPerMember: constraints.maxUsesPerMember, used });
+      }
+    }
+    if (reward.maxRedemptions) {
+      const count = await redisClient.get(REDIS_KEYS.rewardRedemptionCount(reward.id));
+      const redeemed = count === null ? reward.currentRedemptions || 0 : parseInt(count, 10) || 0;
+      if (redeemed >= reward.maxRedemptions) {
+        rejections.push({ code: 'MAX_REDEMPTIONS', maxRedemptions: reward.maxRedemptions });
+      }
+    }
+    return rejections;
+  },
+
+  /** Times a member has redeemed a reward. */
+  async usesByMember(rewardId: string, memberId: string): Promise<number> {
+    return parseInt(await redisClient.hget(REDIS_KEYS.rewardMemberUses(rewardId), memberId) || '0', 10) || 0;
+  },
+
+  /** 400 with the first reason as the message and all of them in details.rejections. */
+  rejected(rejections: RewardRejection[]): ApiError {
+    return new ApiError(400, describe(rejections[0]), { rejections });
+  },
+};
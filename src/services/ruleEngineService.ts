@@ -0,0 +1,239 @@
+/**
+ * Rule engine — evaluates ProgramRules against an earn or burn event
+ *
+ * Deterministic: the same program, rules and event always give the same result. Rules run in
+ * priority order (lower first, then creation time, then id) and every rule gets a trace entry
+ * saying whether its conditions matched and whether it changed the outcome.
+ *
+ * Earn: base = 1 stamp (stamp programs) or floor(spend × defaultEarnRate) (points programs).
+ * - the first matching `earn` rule applies its multiplier and bonusPoints; later earn rules are skipped
+ * - every matching `bonus` rule applies (multipliers stack, bonus points add up)
+ * - the first matching `expiry` rule sets expiryDays
+ * total = floor(base × multiplier) + bonus points
+ * Burn: the first matching `burn` rule scales the reward cost (rounded up).
+ *
+ * Day-of-week and time-range conditions use UK local time at the event time.
+ */
+
+import { ApiError } from '../middleware/errorHandler';
+import { ukLocalTime, parseClockTime, inClockRange } from '../utils/ukTime';
+import type { LoyaltyProgram, ProgramRule } from '../types/extended';
+
+export interface RuleEventItem {
+  sku: string;
+  category?: string;
+}
+
+export interface RuleEvent {
+  /** £ spent (required to earn in points programs). */
+  spend?: number;
+  /** ISO time of the purchase; decides dayOfWeek/timeRange matches. */
+  occurredAt: string;
+  locationId?: string;
+  items?: RuleEventItem[];
+}
+
+export type RuleCondition = keyof ProgramRule['conditions'];
+
+export interface RuleTrace {
+  ruleId: string;
+  name: string;
+  type: ProgramRule['type'];
+  priority: number;
+  /** All conditions were met. */
+  matched: boolean;
+  /** The rule changed the result. */
+  applied: boolean;
+  /** Conditions that were not met. */
+  unmet?: RuleCondition[];
+  /** Why a matching rule did not apply. */
+  reason?: string;
+}
+
+export interface EarnResult {
+  currency: LoyaltyProgram['currency'];
+  base: number;
+  multiplier: number;
+  bonus: number;
+  /** Stamps/points to award. */
+  total: number;
+  expiryDays?: number;
+  trace: RuleTrace[];
+}
+
+export interface BurnResult {
+  currency: LoyaltyProgram['currency'];
+  baseCost: number;
+  multiplier: number;
+  cost: number;
+  trace: RuleTrace[];
+}
+
+/** Guard against 2.9999999 after multiplying decimal rates. */
+const EPSILON = 1e-9;
+
+/** Conditions of `rule` that `event` does not meet. */
+function unmetConditions(rule: ProgramRule, event: RuleEvent): RuleCondition[] {
+  const { conditions } = rule;
+  const unmet: RuleCondition[] = [];
+  const local = ukLocalTime(event.occurredAt);
+
+  if (conditions.minSpend !== undefined && (event.spend ?? 0) < conditions.minSpend) {
+    unmet.push('minSpend');
+  }
+  if (conditions.dayOfWeek?.length && !conditions.dayOfWeek.includes(local.dayOfWeek)) {
+    unmet.push('dayOfWeek');
+  }
+  if (conditions.timeRange) {
+    const start = parseClockTime(conditions.timeRange.start) ?? 0;
+    const end = parseClockTime(conditions.timeRange.end) ?? 0;
+    if (!inClockRange(local.minutes, start, end)) unmet.push('timeRange');
+  }
+  if (conditions.locations?.length && !(event.locationId && conditions.locations.includes(event.locationId))) {
+    unmet.push('locations');
+  }
+  if (conditions.productCategories?.length
+    && !(event.items ?? []).some((item) => item.category && conditions.productCategories!.includes(item.category))) {
+    unmet.push('productCategories');
+  }
+  return unmet;
+}
+
+function traceFor(rule: ProgramRule, unmet: RuleCondition[], applied: boolean, reason?: string): RuleTrace {
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    type: rule.type,
+    priority: rule.priority,
+    matched: unmet.length === 0,
+    applied,
+    ...(unmet.length ? { unmet } : {}),
+    ...(reason ? { reason } : {}),
+  };
+}
+
+export const ruleEngineService = {
+  /** Validate an earn/burn event from a request body (occurredAt defaults to now). */
+  parseEvent(body: any): RuleEvent {
+    const { spend, occurredAt, locationId, items } = body ?? {};
+    if (spend !== undefined && (typeof spend !== 'number' || !Number.isFinite(spend) || spend < 0)) {
+      throw new ApiError(400, 'spend must be a non-negative number (£)');
+    }
+    if (occurredAt !== undefined && (typeof occurredAt !== 'string' || Number.isNaN(Date.parse(occurredAt)))) {
+      throw new ApiError(400, 'occurredAt must be an ISO date');
+    }
+    if (locationId !== undefined && typeof locationId !== 'string') {
+      throw new ApiError(400, 'locationId must be a string');
+    }
+    if (items !== undefined && (!Array.isArray(items)
+      || items.some((item) => !item || typeof item.sku !== 'string'
+        || (item.category !== undefined && typeof item.category !== 'string')))) {
+      throw new ApiError(400, 'items must be an array of { sku, category? }');
+    }
+    return {
+      ...(spend !== undefined ? { spend } : {}),
+      occurredAt: occurredAt ? new Date(occurredAt).toISOString() : new Date().toISOString(),
+      ...(locationId ? { locationId } : {}),
+      ...(items ? { items: items.map((item: RuleEventItem) => ({ sku: item.sku, ...(item.category ? { category: item.category } : {}) })) } : {}),
+    };
+  },
+
+  /** Sort rules into evaluation order. */
+  ordered(rules: ProgramRule[]): ProgramRule[] {
+    return [...rules].sort((a, b) =>
+      a.priority - b.priority || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+  },
+
+  /** Stamps/points earned by `event` in `program` under `rules`. Throws 400 if a points program has no spend. */
+  evaluateEarn(program: LoyaltyProgram, rules: ProgramRule[], event: RuleEvent): EarnResult {
+    let base = 1;
+    if (program.currency !== 'stamps') {
+      if (event.spend === undefined) {
+        throw new ApiError(400, `spend (a £ amount) is required to earn ${program.currency}`);
+      }
+      base = Math.floor(event.spend * (program.defaultEarnRate ?? 1) + EPSILON);
+    }
+
+    let multiplier = 1;
+    let bonus = 0;
+    let expiryDays: number | undefined;
+    let earnRuleApplied = false;
+    const trace: RuleTrace[] = [];
+
+    for (const rule of ruleEngineService.ordered(rules)) {
+      const unmet = unmetConditions(rule, event);
+      if (rule.type === 'burn') {
+        trace.push(traceFor(rule, unmet, false, 'Burn rules apply to redemptions'));
+        continue;
+      }
+      if (unmet.length) {
+        trace.push(traceFor(rule, unmet, false));
+        continue;
+      }
+      if (rule.type === 'expiry') {
+        if (expiryDays !== undefined) {
+          trace.push(traceFor(rule, [], false, 'A higher-priority expiry rule already applied'));
+          continue;
+        }
+        expiryDays = rule.action.expiryDays;
+      } else {
+        if (rule.type === 'earn') {
+          if (earnRuleApplied) {
+            trace.push(traceFor(rule, [], false, 'A higher-priority earn rule already applied'));
+            continue;
+          }
+          earnRuleApplied = true;
+        }
+        multiplier *= rule.action.multiplier ?? 1;
+        bonus += rule.action.bonusPoints ?? 0;
+      }
+      trace.push(traceFor(rule, [], true));
+    }
+
+    return {
+      currency: program.currency,
+      base,
+      multiplier,
+      bonus,
+      total: Math.floor(base * multiplier + EPSILON) + bonus,
+      ...(expiryDays !== undefined ? { expiryDays } : {}),
+      trace,
+    };
+  },
+
+  /** expiryDays of the first expiry rule `event` matches (as evaluateEarn would set it), if any. */
+  expiryDays(rules: ProgramRule[], event: RuleEvent): number | undefined {
+    const rule = ruleEngineService.ordered(rules).find((r) => r.type === 'expiry' && unmetConditions(r, event).length === 0);
+    return rule?.action.expiryDays;
+  },
+
+  /** Cost of redeeming a reward worth `baseCost` under the program's burn rules. */
+  evaluateBurn(program: LoyaltyProgram, rules: ProgramRule[], event: RuleEvent, baseCost: number): BurnResult {
+    let multiplier = 1;
+    let burnRuleApplied = false;
+    const trace: RuleTrace[] = [];
+
+    for (const rule of ruleEngineService.ordered(rules)) {
+      const unmet = unmetConditions(rule, event);
+      if (rule.type !== 'burn') {
+        trace.push(traceFor(rule, unmet, false, `${rule.type} rules apply to earning`));
+      } else if (unmet.length) {
+        trace.push(traceFor(rule, unmet, false));
+      } else if (burnRuleApplied) {
+        trace.push(traceFor(rule, [], false, 'A higher-priority burn rule already applied'));
+      } else {
+        burnRuleApplied = true;
+        multiplier = rule.action.multiplier ?? 1;
+        trace.push(traceFor(rule, [], true));
+      }
+    }
+
+    return {
+      currency: program.currency,
+      baseCost,
+      multiplier,
+      cost: Math.max(0, Math.ceil(baseCost * multiplier - EPSILON)),
+      trace,
+    };
+  },
+};
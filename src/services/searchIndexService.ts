@@ -0,0 +1,324 @@
+/**
+ * Search index service — inverted index of active businesses for name search and autocomplete
+ *
+ * Words from a business's name, category, products and city are indexed three ways:
+ * - search:term:{word}     businesses containing the word (exact matches)
+ * - search:prefix:{prefix} businesses with a word starting with the prefix (as-you-type matches)
+ * - search:trigram:{tri}   indexed words containing the trigram, so a misspelt word ("cofee") can
+ *   find close words ("coffee") to look up; candidates are confirmed by edit distance
+ * Term and prefix sets are scored by field weight (a word in the name outranks one in the city).
+ *
+ * Business writes (create/update/sync) re-index the business; inactive businesses leave the index.
+ * Concurrent writes to one business can leave stale words behind until the next write or reindex().
+ */
+
+import { redisClient, REDIS_KEYS } from '../config/redis';
+
+export type SearchField = 'name' | 'category' | 'products' | 'city';
+
+/** A matched word in a field, as [start, end) character offsets into value. */
+export interface SearchHighlight {
+  field: SearchField;
+  value: string;
+  ranges: [number, number][];
+}
+
+export interface SearchHit {
+  businessId: string;
+  /** Higher is better; the sum over query words of field weight × match quality. */
+  score: number;
+  /** Indexed words the query matched exactly or by typo tolerance. */
+  terms: string[];
+  /** Query words matched as prefixes. */
+  prefixes: string[];
+}
+
+/** Field weights (score of an exact match in that field). */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 4,
+  category: 2,
+  products: 1.5,
+  city: 1,
+};
+
+/** Match quality multipliers. */
+const EXACT = 1;
+const PREFIX = 0.8;
+const FUZZY = 0.6;
+
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 12;
+/** Shortest query word matched with typos (shorter words have too many neighbours). */
+const MIN_FUZZY_LENGTH = 4;
+/** Indexed words checked by edit distance per query word. */
+const MAX_FUZZY_CANDIDATES = 200;
+
+const STOP_WORDS = new Set(['the', 'and', 'of', 'at', 'in', 'on']);
+
+const WORD = /[\p{L}\p{N}'’]+/gu;
+
+interface IndexedDoc {
+  /** word → weight */
+  terms: Record<string, number>;
+  /** prefix → weight */
+  prefixes: Record<string, number>;
+}
+
+/** Lowercase, accents and apostrophes removed ("Café" → "cafe", "Joe's" → "joes"). */
+function normalizeWord(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f'’]/g, '').toLowerCase();
+}
+
+/** Indexable words of a string, in order. */
+export function tokenize(text: string): string[] {
+  return (text.match(WORD) ?? [])
+    .map(normalizeWord)
+    .filter((token) => token.length >= MIN_PREFIX_LENGTH && !STOP_WORDS.has(token));
+}
+
+function trigrams(token: string): string[] {
+  const padded = `$${token}$`;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return [...grams];
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent transpositions). */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Typos allowed in a query word of this length. */
+const maxEdits = (length: number) => (length >= 8 ? 2 : 1);
+
+/** Searchable text of a business document, per field. */
+function fieldValues(doc: Record<string, any>): Record<SearchField, string[]> {
+  const products = [...(Array.isArray(doc.products) ? doc.products : []), ...(Array.isArray(doc.profile?.products) ? doc.profile.products : [])]
+    .map((product) => (typeof product === 'string' ? product : product?.name))
+    .filter((name): name is string => typeof name === 'string');
+  const strings = (...values: unknown[]) => values.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+  return {
+    name: strings(doc.name),
+    category: strings(doc.category, doc.sector, doc.profile?.category),
+    products: [...new Set(products)],
+    city: strings(doc.address?.city ?? doc.profile?.city),
+  };
+}
+
+function indexedDoc(doc: Record<string, any>): IndexedDoc {
+  const indexed: IndexedDoc = { terms: Object.create(null), prefixes: Object.create(null) };
+  const values = fieldValues(doc);
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    const weight = FIELD_WEIGHTS[field];
+    for (const token of values[field].flatMap(tokenize)) {
+      indexed.terms[token] = Math.max(indexed.terms[token] ?? 0, weight);
+      for (let length = MIN_PREFIX_LENGTH; length <= Math.min(token.length, MAX_PREFIX_LENGTH); length++) {
+        const prefix = token.slice(0, length);
+        indexed.prefixes[prefix] = Math.max(indexed.prefixes[prefix] ?? 0, weight);
+      }
+    }
+  }
+  return indexed;
+}
+
+/** Own key check (indexed words such as "constructor" must not hit Object.prototype). */
+const has = (record: Record<string, number>, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+const isActive = (doc: Record<string, any> | null): doc is Record<string, any> =>
+  !!doc && typeof doc.status === 'string' && doc.status.toLowerCase() === 'active';
+
+/** Indexed words close enough to `token` to count as a typo of it, with their distance. */
+async function fuzzyTerms(token: string): Promise<Map<string, number>> {
+  const grams = trigrams(token);
+  const shared = new Map<string, number>();
+  for (const gram of grams) {
+    for (const word of await redisClient.smembers(REDIS_KEYS.searchTrigram(gram))) {
+      shared.set(word, (shared.get(word) ?? 0) + 1);
+    }
+  }
+  // One edit changes at most three trigrams
+  const edits = maxEdits(token.length);
+  const minShared = Math.max(1, grams.length - 3 * edits);
+  const candidates = [...shared.entries()]
+    .filter(([word, count]) => count >= minShared && word !== token)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FUZZY_CANDIDATES);
+
+  const close = new Map<string, number>();
+  for (const [word] of candidates) {
+    // A typo in a partly typed word ("cofe" → "coffee") is compared with the same-length start
+    const distance = Math.min(editDistance(token, word), editDistance(token, word.slice(0, token.length)));
+    if (distance <= edits) close.set(word, distance);
+  }
+  return close;
+}
+
+async function scored(key: string): Promise<[string, number][]> {
+  const reply = await redisClient.zrange(key, 0, -1, 'WITHSCORES');
+  const pairs: [string, number][] = [];
+  for (let i = 0; i < reply.length; i += 2) pairs.push([reply[i], parseFloat(reply[i + 1])]);
+  return pairs;
+}
+
+export const searchIndexService = {
+  /** Re-index a business after a write (removes it when inactive or missing). Best effort. */
+  async index(businessId: string, doc: Record<string, any> | null): Promise<void> {
+    try {
+      const previous: IndexedDoc = JSON.parse(await redisClient.get(REDIS_KEYS.searchDoc(businessId)) || 'null')
+        ?? { terms: {}, prefixes: {} };
+      const next: IndexedDoc = isActive(doc) ? indexedDoc(doc) : { terms: {}, prefixes: {} };
+
+      const pipeline = redisClient.pipeline();
+      for (const prefix of Object.keys(previous.prefixes)) {
+        if (!has(next.prefixes, prefix)) pipeline.zrem(REDIS_KEYS.searchPrefix(prefix), businessId);
+      }
+      for (const [prefix, weight] of Object.entries(next.prefixes)) {
+        pipeline.zadd(REDIS_KEYS.searchPrefix(prefix), weight, businessId);
+      }
+      for (const token of Object.keys(previous.terms)) {
+        if (!has(next.terms, token)) pipeline.zrem(REDIS_KEYS.searchTerm(token), businessId);
+      }
+      for (const [token, weight] of Object.entries(next.terms)) {
+        pipeline.zadd(REDIS_KEYS.searchTerm(token), weight, businessId);
+      }
+      if (Object.keys(next.terms).length > 0) {
+        pipeline.set(REDIS_KEYS.searchDoc(businessId), JSON.stringify(next));
+        pipeline.sadd(REDIS_KEYS.searchDocs(), businessId);
+      } else {
+        pipeline.del(REDIS_KEYS.searchDoc(businessId));
+        pipeline.srem(REDIS_KEYS.searchDocs(), businessId);
+      }
+      await pipeline.exec();
+
+      // Vocabulary (for typo tolerance): count businesses per word, drop words nobody uses
+      for (const token of Object.keys(next.terms)) {
+        if (has(previous.terms, token)) continue;
+        if (await redisClient.hincrby(REDIS_KEYS.searchVocabulary(), token, 1) === 1) {
+          for (const gram of trigrams(token)) await redisClient.sadd(REDIS_KEYS.searchTrigram(gram), token);
+        }
+      }
+      for (const token of Object.keys(previous.terms)) {
+        if (has(next.terms, token)) continue;
+        if (await redisClient.hincrby(REDIS_KEYS.searchVocabulary(), token, -1) <= 0) {
+          await redisClient.hdel(REDIS_KEYS.searchVocabulary(), token);
+          for (const gram of trigrams(token)) await redisClient.srem(REDIS_KEYS.searchTrigram(gram), token);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ [SEARCH] Failed to index business ${businessId}:`, error.message);
+    }
+  },
+
+  /** Whether any business is indexed (searches fall back to scanning until then). */
+  async isBuilt(): Promise<boolean> {
+    return (await redisClient.scard(REDIS_KEYS.searchDocs())) > 0;
+  },
+
+  /** Index every business and drop businesses that no longer exist (for data written before the index). */
+  async reindex(): Promise<{ indexed: number; removed: number }> {
+    const counts = { indexed: 0, removed: 0 };
+    const businessIds = new Set(await redisClient.smembers(REDIS_KEYS.allBusinesses()));
+    for (const businessId of businessIds) {
+      const data = await redisClient.get(REDIS_KEYS.business(businessId));
+      const doc = data ? JSON.parse(data) : null;
+      await searchIndexService.index(businessId, doc);
+      if (isActive(doc)) counts.indexed++;
+    }
+    for (const businessId of await redisClient.smembers(REDIS_KEYS.searchDocs())) {
+      if (!businessIds.has(businessId)) {
+        await searchIndexService.index(businessId, null);
+        counts.removed++;
+      }
+    }
+    console.log(`[SEARCH] Reindexed ${counts.indexed} businesses (${counts.removed} removed)`);
+    return counts;
+  },
+
+  /**
+   * Businesses matching every word of `query`, best first. Each word matches exactly, as the start
+   * of a word, or (4+ letters) with one typo (two from 8 letters).
+   */
+  async search(query: string): Promise<SearchHit[]> {
+    const tokens = [...new Set(tokenize(query))];
+    if (tokens.length === 0) return [];
+
+    let hits: Map<string, SearchHit> | null = null;
+    for (const token of tokens) {
+      const best = new Map<string, SearchHit>();
+      const consider = (businessId: string, score: number, match: { term?: string; prefix?: string }) => {
+        const hit = best.get(businessId) ?? { businessId, score: 0, terms: [], prefixes: [] };
+        hit.score = Math.max(hit.score, score);
+        if (match.term && !hit.terms.includes(match.term)) hit.terms.push(match.term);
+        if (match.prefix && !hit.prefixes.includes(match.prefix)) hit.prefixes.push(match.prefix);
+        best.set(businessId, hit);
+      };
+
+      for (const [businessId, weight] of await scored(REDIS_KEYS.searchTerm(token))) {
+        consider(businessId, weight * EXACT, { term: token });
+      }
+      if (token.length <= MAX_PREFIX_LENGTH) {
+        for (const [businessId, weight] of await scored(REDIS_KEYS.searchPrefix(token))) {
+          consider(businessId, weight * PREFIX, { prefix: token });
+        }
+      }
+      if (token.length >= MIN_FUZZY_LENGTH) {
+        for (const [word, distance] of await fuzzyTerms(token)) {
+          for (const [businessId, weight] of await scored(REDIS_KEYS.searchTerm(word))) {
+            consider(businessId, weight * FUZZY / distance, { term: word });
+          }
+        }
+      }
+
+      // Every query word must match
+      const previous: Map<string, SearchHit> | null = hits;
+      const combined = new Map<string, SearchHit>();
+      for (const [businessId, hit] of best) {
+        const earlier = previous ? previous.get(businessId) : undefined;
+        if (previous && !earlier) continue;
+        combined.set(businessId, earlier ? {
+          businessId,
+          score: earlier.score + hit.score,
+          terms: [...new Set([...earlier.terms, ...hit.terms])],
+          prefixes: [...new Set([...earlier.prefixes, ...hit.prefixes])],
+        } : hit);
+      }
+      hits = combined;
+      if (hits.size === 0) return [];
+    }
+
+    return [...hits!.values()]
+      .map((hit) => ({ ...hit, score: Math.round(hit.score * 1000) / 1000 }))
+      .sort((a, b) => b.score - a.score || a.businessId.localeCompare(b.businessId));
+  },
+
+  /** Where a hit's words occur in a business document, for highlighting in results. */
+  highlights(doc: Record<string, any>, hit: SearchHit): SearchHighlight[] {
+    const matches = (word: string) => {
+      const token = normalizeWord(word);
+      return hit.terms.includes(token) || hit.prefixes.some((prefix) => token.startsWith(prefix));
+    };
+    const highlights: SearchHighlight[] = [];
+    const values = fieldValues(doc);
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const value of values[field]) {
+        const ranges: [number, number][] = [];
+        for (const word of value.matchAll(WORD)) {
+          if (matches(word[0])) ranges.push([word.index!, word.index! + word[0].length]);
+        }
+        if (ranges.length > 0) highlights.push({ field, value, ranges });
+      }
+    }
+    return highlights;
+  },
+};
@@ -0,0 +1,348 @@
+/**
+ * Segment service — customer segments of a business and their materialized member lists
+ *
+ * A segment's criteria are checked against every customer of the business (stamp members and
+ * customer records), using the points ledger for visits and spend. All criteria must match; a
+ * segment without criteria holds every customer.
+ * - lastVisitDays: an earn at the business within that many days
+ * - totalSpend: £ spent at the business (monetaryValue of earns), min/max inclusive
+ * - favoriteCategories: categories of the (up to 3) businesses the customer visits most, anywhere
+ * - location: stamped, redeemed or checked in at one of these locations
+ * - membershipStatus: a membership in one of the business's programs with one of these statuses
+ * - predictedChurn: no visit for 3× the customer's usual gap between visits (at least 30 days)
+ * - highValue: spend in the top 20% of the business's paying customers
+ *
+ * Members are stored in segment:{id}:members with memberCount/lastCalculatedAt on the segment.
+ * 'dynamic' segments are recalculated whenever a campaign or broadcast targets them; other
+ * segments when created, when their criteria change, and on refresh.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redis, redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { ledgerService, BusinessActivity } from './ledgerService';
+import { programService } from './programService';
+import { locationService } from './locationService';
+import type { Segment, CustomerMembership } from '../types/extended';
+
+export type SegmentCriteria = Segment['criteria'];
+
+export const SEGMENT_TYPES: Segment['type'][] = ['saved', 'ai_generated', 'dynamic'];
+
+const MEMBERSHIP_STATUSES: CustomerMembership['status'][] = ['active', 'paused', 'cancelled'];
+
+export interface SegmentMemberPage {
+  memberIds: string[];
+  /** Pass as ?cursor= for the next page; null when there are no more. */
+  nextCursor: string | null;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_LIST_LENGTH = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Shortest silence counted as churn risk, whatever the customer's usual gap. */
+const CHURN_MIN_DAYS = 30;
+const CHURN_GAP_MULTIPLIER = 3;
+/** Share of paying customers counted as high value. */
+const HIGH_VALUE_SHARE = 0.2;
+/** Businesses (most visited first) whose categories are a customer's favourites. */
+const FAVORITE_BUSINESSES = 3;
+
+/** Statuses of campaigns that still target their segment. */
+const LIVE_CAMPAIGN_STATUSES = ['draft', 'scheduled', 'active', 'paused'];
+
+const parse = <T>(data: string | null | undefined): T | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+};
+
+function checkStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_LIST_LENGTH
+    || value.some((item) => typeof item !== 'string' || !item.trim())) {
+    throw new ApiError(400, `${field} must be a non-empty array of at most ${MAX_LIST_LENGTH} strings`);
+  }
+  return [...new Set(value.map((item: string) => item.trim()))];
+}
+
+/** Validate criteria from a request body (location ids must be locations of the business). */
+async function checkCriteria(businessId: string, value: any): Promise<SegmentCriteria> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError(400, 'criteria must be an object');
+  }
+  const known = ['membershipStatus', 'lastVisitDays', 'totalSpend', 'favoriteCategories', 'location', 'predictedChurn', 'highValue'];
+  const unknown = Object.keys(value).filter((key) => !known.includes(key));
+  if (unknown.length) {
+    throw new ApiError(400, `Unknown criteria: ${unknown.join(', ')} (allowed: ${known.join(', ')})`);
+  }
+
+  const criteria: SegmentCriteria = {};
+  if (value.membershipStatus !== undefined) {
+    const statuses = checkStringList(value.membershipStatus, 'criteria.membershipStatus');
+    const invalid = statuses.filter((s) => !MEMBERSHIP_STATUSES.includes(s as CustomerMembership['status']));
+    if (invalid.length) {
+      throw new ApiError(400, `criteria.membershipStatus must be from: ${MEMBERSHIP_STATUSES.join(', ')}`);
+    }
+    criteria.membershipStatus = statuses;
+  }
+  if (value.lastVisitDays !== undefined) {
+    if (!Number.isInteger(value.lastVisitDays) || value.lastVisitDays < 1 || value.lastVisitDays > 3650) {
+      throw new ApiError(400, 'criteria.lastVisitDays must be a whole number of days (1-3650)');
+    }
+    criteria.lastVisitDays = value.lastVisitDays;
+  }
+  if (value.totalSpend !== undefined) {
+    const { min, max } = value.totalSpend ?? {};
+    const isAmount = (n: unknown) => n === undefined || (typeof n === 'number' && Number.isFinite(n) && n >= 0);
+    if (typeof value.totalSpend !== 'object' || !isAmount(min) || !isAmount(max)
+      || (min === undefined && max === undefined) || (min !== undefined && max !== undefined && min > max)) {
+      throw new ApiError(400, 'criteria.totalSpend must be { min?, max? } with 0 <= min <= max');
+    }
+    criteria.totalSpend = { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+  }
+  if (value.favoriteCategories !== undefined) {
+    criteria.favoriteCategories = checkStringList(value.favoriteCategories, 'criteria.favoriteCategories')
+      .map((category) => category.toLowerCase());
+  }
+  if (value.location !== undefined) {
+    const locationIds = checkStringList(value.location, 'criteria.location');
+    for (const locationId of locationIds) {
+      const location = await locationService.get(locationId);
+      if (!location || location.businessId !== businessId) {
+        throw new ApiError(400, `criteria.location: ${locationId} is not a location of this business`);
+      }
+    }
+    criteria.location = locationIds;
+  }
+  for (const flag of ['predictedChurn', 'highValue'] as const) {
+    if (value[flag] !== undefined) {
+      if (typeof value[flag] !== 'boolean') throw new ApiError(400, `criteria.${flag} must be a boolean`);
+      criteria[flag] = value[flag];
+    }
+  }
+  return criteria;
+}
+
+function checkName(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > MAX_NAME_LENGTH) {
+    throw new ApiError(400, `name is required (at most ${MAX_NAME_LENGTH} characters)`);
+  }
+  return value.trim();
+}
+
+function checkDescription(value: unknown): string {
+  if (typeof value !== 'string' || value.length > MAX_DESCRIPTION_LENGTH) {
+    throw new ApiError(400, `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return value;
+}
+
+function checkType(value: unknown): Segment['type'] {
+  if (!SEGMENT_TYPES.includes(value as Segment['type'])) {
+    throw new ApiError(400, `type must be one of: ${SEGMENT_TYPES.join(', ')}`);
+  }
+  return value as Segment['type'];
+}
+
+/** No visit for CHURN_GAP_MULTIPLIER × the usual gap between visits (at least CHURN_MIN_DAYS). */
+function isChurnRisk(activity: BusinessActivity | undefined, now: number): boolean {
+  if (!activity) return false;
+  const last = Date.parse(activity.lastVisitAt);
+  const usualGapDays = activity.visits > 1
+    ? (last - Date.parse(activity.firstVisitAt)) / DAY_MS / (activity.visits - 1)
+    : 0;
+  return (now - last) / DAY_MS > Math.max(CHURN_MIN_DAYS, CHURN_GAP_MULTIPLIER * usualGapDays);
+}
+
+/** Lowest spend counted as high value: the top HIGH_VALUE_SHARE of customers who spent anything. */
+function highValueThreshold(spends: number[]): number {
+  const paying = spends.filter((spend) => spend > 0).sort((a, b) => a - b);
+  if (paying.length === 0) return Infinity;
+  return paying[Math.min(paying.length - 1, Math.floor(paying.length * (1 - HIGH_VALUE_SHARE)))];
+}
+
+export const segmentService = {
+  async get(id: string): Promise<Segment | null> {
+    return parse<Segment>(await redisClient.get(REDIS_KEYS.segment(id)));
+  },
+
+  /** A segment of this business, or 404. */
+  async requireForBusiness(businessId: string, id: unknown): Promise<Segment> {
+    const segment = typeof id === 'string' && id ? await segmentService.get(id) : null;
+    if (!segment || segment.businessId !== businessId) {
+      throw new ApiError(404, 'Segment not found');
+    }
+    return segment;
+  },
+
+  /** A business's segments, oldest first. */
+  async listForBusiness(businessId: string): Promise<Segment[]> {
+    const ids = await redisClient.smembers(REDIS_KEYS.businessSegments(businessId));
+    const segments = await Promise.all(ids.map((id) => segmentService.get(id)));
+    return segments
+      .filter((s): s is Segment => !!s)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  /** Create a segment and calculate its members. */
+  async create(businessId: string, body: any): Promise<Segment> {
+    const now = new Date().toISOString();
+    const segment: Segment = {
+      id: uuidv4(),
+      businessId,
+      name: checkName(body?.name),
+      ...(body?.description !== undefined ? { description: checkDescription(body.description) } : {}),
+      type: body?.type === undefined ? 'saved' : checkType(body.type),
+      criteria: await checkCriteria(businessId, body?.criteria),
+      memberCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await redisClient.set(REDIS_KEYS.segment(segment.id), JSON.stringify(segment));
+    await redisClient.sadd(REDIS_KEYS.businessSegments(businessId), segment.id);
+    return segmentService.calculate(segment);
+  },
+
+  /** Update name, description, type or criteria (replaced whole); members are recalculated when criteria change. */
+  async update(businessId: string, id: string, body: any): Promise<Segment> {
+    const changes: Partial<Segment> = {};
+    if (body?.name !== undefined) changes.name = checkName(body.name);
+    if (body?.description !== undefined && body.description !== null) changes.description = checkDescription(body.description);
+    if (body?.type !== undefined) changes.type = checkType(body.type);
+    if (body?.criteria !== undefined) changes.criteria = await checkCriteria(businessId, body.criteria);
+
+    const updated = await concurrencyService.patch<Segment>(REDIS_KEYS.segment(id), (segment) => {
+      if (segment.businessId !== businessId) throw new ApiError(404, 'Segment not found');
+      const next: Segment = { ...segment, ...changes, updatedAt: new Date().toISOString() };
+      if (body?.description === null) delete next.description;
+      return next;
+    });
+    if (!updated) throw new ApiError(404, 'Segment not found');
+    return changes.criteria ? segmentService.calculate(updated) : updated;
+  },
+
+  /** Delete a segment. 409 while a campaign that is not over still targets it. */
+  async remove(businessId: string, id: string): Promise<void> {
+    const segment = await segmentService.requireForBusiness(businessId, id);
+    const campaignIds = await redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId));
+    for (const campaignId of campaignIds) {
+      const campaign = parse<any>(await redisClient.get(REDIS_KEYS.campaign(campaignId)));
+      if (campaign && !campaign.deletedAt && campaign.segmentId === segment.id && LIVE_CAMPAIGN_STATUSES.includes(campaign.status)) {
+        throw new ApiError(409, `Segment is targeted by campaign "${campaign.name}"`, { campaignId });
+      }
+    }
+    await redisClient.del(REDIS_KEYS.segment(id), REDIS_KEYS.segmentMembers(id));
+    await redisClient.srem(REDIS_KEYS.businessSegments(businessId), id);
+  },
+
+  /** Customers of the business matching the criteria now. */
+  async evaluate(businessId: string, criteria: SegmentCriteria, at = new Date()): Promise<string[]> {
+    const now = at.getTime();
+    const customerIds = await redisClient.sunion(
+      REDIS_KEYS.businessMembers(businessId),
+      REDIS_KEYS.businessCustomers(businessId),
+    );
+
+    const visitedLocations = new Set<string>();
+    for (const locationId of criteria.location ?? []) {
+      for (const customerId of await redisClient.smembers(REDIS_KEYS.locationCustomers(locationId))) {
+        visitedLocations.add(customerId);
+      }
+    }
+
+    const statusesByCustomer = new Map<string, Set<string>>();
+    if (criteria.membershipStatus) {
+      for (const program of await programService.listForBusiness(businessId)) {
+        for (const membership of await programService.listMemberships(program.id)) {
+          const statuses = statusesByCustomer.get(membership.userId) ?? new Set<string>();
+          statuses.add(membership.status);
+          statusesByCustomer.set(membership.userId, statuses);
+        }
+      }
+    }
+
+    const categories = new Map<string, string>();
+    const categoryOf = async (id: string): Promise<string> => {
+      if (!categories.has(id)) {
+        const business = await redis.getBusiness(id) as any;
+        categories.set(id, String(business?.category || business?.sector || '').toLowerCase());
+      }
+      return categories.get(id)!;
+    };
+
+    const customers = await Promise.all(customerIds.map(async (customerId) => {
+      const activity = await ledgerService.activityByBusiness(customerId);
+      return { customerId, activity, here: activity.get(businessId) };
+    }));
+    const threshold = criteria.highValue !== undefined
+      ? highValueThreshold(customers.map(({ here }) => here?.spend ?? 0))
+      : Infinity;
+
+    const members: string[] = [];
+    for (const { customerId, activity, here } of customers) {
+      const spend = here?.spend ?? 0;
+      if (criteria.lastVisitDays !== undefined
+        && !(here && now - Date.parse(here.lastVisitAt) <= criteria.lastVisitDays * DAY_MS)) continue;
+      if (criteria.totalSpend?.min !== undefined && spend < criteria.totalSpend.min) continue;
+      if (criteria.totalSpend?.max !== undefined && spend > criteria.totalSpend.max) continue;
+      if (criteria.location && !visitedLocations.has(customerId)) continue;
+      if (criteria.membershipStatus
+        && !criteria.membershipStatus.some((status) => statusesByCustomer.get(customerId)?.has(status))) continue;
+      if (criteria.predictedChurn !== undefined && isChurnRisk(here, now) !== criteria.predictedChurn) continue;
+      if (criteria.highValue !== undefined && (spend > 0 && spend >= threshold) !== criteria.highValue) continue;
+      if (criteria.favoriteCategories) {
+        const favorites = [...activity.values()]
+          .sort((a, b) => b.visits - a.visits)
+          .slice(0, FAVORITE_BUSINESSES);
+        const favoriteCategories = await Promise.all(favorites.map((a) => categoryOf(a.businessId)));
+        if (!favoriteCategories.some((category) => criteria.favoriteCategories!.includes(category))) continue;
+      }
+      members.push(customerId);
+    }
+    return members;
+  },
+
+  /** Recalculate and store a segment's members; returns the segment with memberCount/lastCalculatedAt. */
+  async calculate(segment: Segment): Promise<Segment> {
+    const members = await segmentService.evaluate(segment.businessId, segment.criteria);
+    const key = REDIS_KEYS.segmentMembers(segment.id);
+    if (members.length > 0) {
+      // Built under a temporary key and swapped in, so readers never see a half-built list
+      const rebuildKey = `${key}:rebuild`;
+      await redisClient.del(rebuildKey);
+      await redisClient.sadd(rebuildKey, ...members);
+      await redisClient.rename(rebuildKey, key);
+    } else {
+      await redisClient.del(key);
+    }
+    const lastCalculatedAt = new Date().toISOString();
+    const updated = await concurrencyService.patch<Segment>(REDIS_KEYS.segment(segment.id), (current) => ({
+      ...current,
+      memberCount: members.length,
+      lastCalculatedAt,
+    }));
+    return updated ?? { ...segment, memberCount: members.length, lastCalculatedAt };
+  },
+
+  /** Customer ids a campaign or broadcast should reach (dynamic and never-calculated segments are recalculated first). */
+  async memberIds(segment: Segment): Promise<string[]> {
+    if (segment.type === 'dynamic' || !segment.lastCalculatedAt) {
+      await segmentService.calculate(segment);
+    }
+    return redisClient.smembers(REDIS_KEYS.segmentMembers(segment.id));
+  },
+
+  /** One page of the stored member list (SSCAN order; pages may be slightly larger or smaller than `limit`). */
+  async members(segmentId: string, cursor = '0', limit = 100): Promise<SegmentMemberPage> {
+    const [next, memberIds] = await redisClient.sscan(REDIS_KEYS.segmentMembers(segmentId), cursor, 'COUNT', limit);
+    return { memberIds, nextCursor: next === '0' ? null : next };
+  },
+};
@@ -0,0 +1,451 @@
+/**
+ * Stamp service — atomic stamp issuance and redemption
+ *
+ * The stamp list, counters and limits are checked and written in a single Lua script per
+ * operation, so concurrent scans cannot double-redeem, overshoot maxRedemptions or lose a count:
+ * - issue: store stamp, RPUSH to customer:{id}:stamps:{businessId} (one entry per stamp earned), member set, daily stats,
+ *   earn transaction on the points ledger
+ * - redeem: check points balance + reward redemption counter, LTRIM the used stamps, store redemption,
+ *   redeem transaction on the points ledger
+ * An optional client idempotency key (per business, 24h) turns a retried scan into a no-op that
+ * returns the original stamp/redemption.
+ * Program-scoped stamps and redemptions (input.program) move the program balance instead and leave
+ * the legacy stamp list alone; a points program can earn more than 1 per scan (input.amount).
+ * Every program earn (scans, orders, referral and birthday grants) then rolls the balance's expiry
+ * forward under the program's expiry rules and upgrades the member's tier if the earn qualified them.
+ *
+ * Denormalised stats inside JSON documents (business.stats, reward.currentRedemptions,
+ * customer totals) are then updated with concurrencyService.patch so increments are never lost.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient, REDIS_KEYS } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { concurrencyService } from './concurrencyService';
+import { ledgerService, balanceKey, LEDGER_LUA, TransactionSource } from './ledgerService';
+import { programService } from './programService';
+import { locationService } from './locationService';
+import { rewardConstraintService } from './rewardConstraintService';
+import { ruleEngineService, RuleEvent } from './ruleEngineService';
+import { expiryService } from './expiryService';
+import { tierService, TierChange } from './tierService';
+import { Stamp, Redemption, Reward } from '../types';
+import type { LoyaltyProgram } from '../types/extended';
+
+/** Retried scans within this window return the original result. */
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/** Longest accepted client idempotency key. */
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+/** Most stamps/points one issue can earn: the legacy list gets one entry per stamp, pushed inside the script. */
+export const MAX_AMOUNT = 1000;
+
+/**
+ * KEYS[1] stamp doc, KEYS[2] stamp list, KEYS[3] business members, KEYS[4] daily stats,
+ * KEYS[5] ledger stream, KEYS[6] points balance, [KEYS[7] idempotency]
+ * ARGV[1] stamp JSON, ARGV[2] list entry JSON, ARGV[3] memberId, ARGV[4] businessId, ARGV[5] stamp id, ARGV[6] TTL,
+ * ARGV[7] earn transaction JSON, ARGV[8] now, ARGV[9] '1' to use the legacy stamp list, ARGV[10] amount earned,
+ * ARGV[11] stamps to count in the stats
+ * The legacy list gets one entry per stamp earned, so its length stays equal to the ledger balance.
+ * Returns {1, stampCount} or {0, originalStampId} for a replayed idempotency key.
+ */
+const ISSUE_STAMP = `${LEDGER_LUA}
+if #KEYS == 7 then
+  local original = redis.call('GET', KEYS[7])
+  if original then return {0, original} end
+end
+local legacy = ARGV[9] == '1'
+local seed = 0
+if legacy then seed = redis.call('LLEN', KEYS[2]) end
+redis.call('SET', KEYS[1], ARGV[1])
+if legacy then
+  for _ = 1, tonumber(ARGV[10]) do redis.call('RPUSH', KEYS[2], ARGV[2]) end
+end
+redis.call('SADD', KEYS[3], ARGV[3])
+redis.call('HINCRBY', KEYS[4], 'stamps', tonumber(ARGV[11]))
+redis.call('HINCRBY', KEYS[4], 'stamps:' .. ARGV[4], tonumber(ARGV[11]))
+ledger_append(KEYS[5], KEYS[6], ARGV[7], tonumber(ARGV[10]), 'earn', ARGV[8], seed)
+if #KEYS == 7 then
+  redis.call('SET', KEYS[7], ARGV[5], 'EX', tonumber(ARGV[6]))
+end
+return {1, tonumber(redis.call('HGET', KEYS[6], 'availablePoints'))}
+`;
+
+/**
+ * KEYS[1] stamp list, KEYS[2] redemption doc, KEYS[3] reward redemption counter, KEYS[4] daily stats,
+ * KEYS[5] ledger stream, KEYS[6] points balance, KEYS[7] per-member use counts, [KEYS[8] idempotency]
+ * ARGV[1] stamps required, ARGV[2] max redemptions (0 = unlimited), ARGV[3] counter seed (reward.currentRedemptions),
+ * ARGV[4] redemption id, ARGV[5] redemption JSON, ARGV[6] TTL, ARGV[7] redeem transaction JSON, ARGV[8] now,
+ * ARGV[9] '1' to use the legacy stamp list, ARGV[10] member id, ARGV[11] max uses per member (0 = unlimited)
+ * Returns {1, 'ok', remainingStamps} or {0, reason, detail}.
+ */
+const REDEEM_REWARD = `${LEDGER_LUA}
+if #KEYS == 8 then
+  local original = redis.call('GET', KEYS[8])
+  if original then return {0, 'duplicate', original} end
+end
+local legacy = ARGV[9] == '1'
+local need = tonumber(ARGV[1])
+local seed = 0
+if legacy then seed = redis.call('LLEN', KEYS[1]) end
+local have = balance_available(KEYS[6], seed)
+if have < need then return {0, 'insufficient_stamps', have} end
+redis.call('SETNX', KEYS[3], ARGV[3])
+local used = tonumber(redis.call('GET', KEYS[3]))
+local max = tonumber(ARGV[2])
+if max > 0 and used >= max then return {0, 'max_redemptions', used} end
+local memberUses = tonumber(redis.call('HGET', KEYS[7], ARGV[10]) or '0')
+local maxPerMember = tonumber(ARGV[11])
+if maxPerMember > 0 and memberUses >= maxPerMember then return {0, 'max_uses_per_member', memberUses} end
+if need > 0 then
+  if legacy then redis.call('LTRIM', KEYS[1], need, -1) end
+  ledger_append(KEYS[5], KEYS[6], ARGV[7], -need, 'redeem', ARGV[8], seed)
+end
+redis.call('INCR', KEYS[3])
+redis.call('HINCRBY', KEYS[7], ARGV[10], 1)
+redis.call('SET', KEYS[2], ARGV[5])
+redis.call('HINCRBY', KEYS[4], 'redemptions', 1)
+if #KEYS == 8 then
+  redis.call('SET', KEYS[8], ARGV[4], 'EX', tonumber(ARGV[6]))
+end
+return {1, 'ok', balance_available(KEYS[6], seed)}
+`;
+
+/** Ledger source for a stamp scan method. */
+const SOURCE_BY_METHOD: Record<Stamp['method'], TransactionSource> = {
+  qr: 'qr',
+  code: 'manual',
+  nfc: 'nfc',
+  manual: 'manual',
+  online: 'online',
+  pos: 'pos',
+  receipt_scan: 'receipt_scan',
+};
+
+export interface IssueStampInput {
+  memberId: string;
+  businessId: string;
+  rewardId?: string;
+  method?: Stamp['method'];
+  staffId?: string;
+  metadata?: Stamp['metadata'];
+  idempotencyKey?: string;
+  /** Ledger source; defaults from method. */
+  source?: TransactionSource;
+  orderId?: string;
+  /** £ value of the purchase that earned the stamp. */
+  monetaryValue?: number;
+  /** Program the stamp earns into (see programService.scopeFor); omitted for the business-wide card. */
+  program?: LoyaltyProgram;
+  membershipId?: string;
+  /** Stamps/points earned by this scan (default 1, at most 1000). */
+  amount?: number;
+  /** Branch that issued the stamp (checked by the caller with locationService.requireActive). */
+  locationId?: string;
+  /** Purchase that earned a program stamp, for the expiry rules; defaults to the issue itself (e.g. a grant). */
+  event?: RuleEvent;
+}
+
+export interface IssueStampResult {
+  stamp: Stamp;
+  stampCount: number;
+  /** True when the idempotency key was already used: nothing was written. */
+  duplicate: boolean;
+  /** Tier upgrade a program earn gave (null when none). */
+  tierChange?: TierChange | null;
+}
+
+export interface RedeemRewardInput {
+  memberId: string;
+  businessId: string;
+  reward: Reward;
+  staffId?: string;
+  idempotencyKey?: string;
+  /** Program the reward is redeemed from; the cost is burned from its balance. */
+  program?: LoyaltyProgram;
+  membershipId?: string;
+  /** Cost after burn rules; defaults to the reward's cost in the program currency. */
+  cost?: number;
+  /** Branch where the reward was redeemed. */
+  locationId?: string;
+}
+
+export interface RedeemRewardResult {
+  redemption: Redemption;
+  newStampCount: number;
+  duplicate: boolean;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Validate a client idempotency key; undefined when none was sent. */
+function checkIdempotencyKey(key: unknown): string | undefined {
+  if (key === undefined || key === null || key === '') return undefined;
+  if (typeof key !== 'string' || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new ApiError(400, `idempotencyKey must be a string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+  return key;
+}
+
+/** Validate the stamps/points earned by one issue. */
+function checkAmount(amount: unknown): number {
+  if (!Number.isInteger(amount) || (amount as number) < 1 || (amount as number) > MAX_AMOUNT) {
+    throw new ApiError(400, `amount must be a whole number (1-${MAX_AMOUNT})`);
+  }
+  return amount as number;
+}
+
+/** Best-effort: stats in JSON docs must not fail a stamp that has already been committed. */
+async function patchStats(label: string, key: string, mutate: (doc: any) => any): Promise<void> {
+  try {
+    await concurrencyService.patch(key, mutate);
+  } catch (error: any) {
+    console.error(`❌ [STAMPS] Failed to update ${label} (${key}):`, error.message);
+  }
+}
+
+/**
+ * After a program earn: the balance now expires expiryDays after the earn when an expiry rule matches
+ * (rolling), and an earn that qualifies the member for a higher tier upgrades them (downgrades wait for
+ * the requalification job). Best effort: the earn is already written.
+ */
+async function afterProgramEarn(memberId: string, program: LoyaltyProgram, event: RuleEvent): Promise<TierChange | null> {
+  try {
+    const expiryDays = ruleEngineService.expiryDays(await programService.listRules(program.id, { activeOnly: true }), event);
+    if (expiryDays) {
+      await expiryService.extend(memberId, program.id, new Date(Date.parse(event.occurredAt) + expiryDays * DAY_MS));
+    }
+  } catch (error: any) {
+    console.error(`❌ [STAMPS] Failed to extend the expiry for ${memberId} in ${program.id}:`, error.message);
+  }
+  try {
+    return await tierService.evaluate(memberId, program);
+  } catch (error: any) {
+    console.error(`❌ [STAMPS] Tier evaluation failed for ${memberId} in ${program.id}:`, error.message);
+    return null;
+  }
+}
+
+export const stampService = {
+  /**
+   * Issue a stamp (input.amount stamps or points, default 1, at most 1000) atomically, then apply the
+   * program's expiry rules and tier upgrade. Existence of member/business is checked by the caller.
+   */
+  async issue(input: IssueStampInput): Promise<IssueStampResult> {
+    const idempotencyKey = checkIdempotencyKey(input.idempotencyKey);
+    const { memberId, businessId, program } = input;
+    const listKey = REDIS_KEYS.customerStamps(memberId, businessId);
+    const amount = checkAmount(input.amount ?? 1);
+    // Stats count stamps earned; a points program's scan counts as one stamp
+    const stampsIssued = program && program.currency !== 'stamps' ? 1 : amount;
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const stamp: Stamp = {
+      id,
+      customerId: memberId,  // Map memberId to customerId
+      memberId,              // Keep memberId for backward compatibility
+      businessId,
+      ...(program ? { programId: program.id } : {}),
+      ...(input.locationId ? { locationId: input.locationId } : {}),
+      rewardId: input.rewardId || '',
+      issuedAt: now,
+      issuedBy: input.staffId || 'system',
+      method: input.method || 'qr',
+      ...(input.metadata ? { metadata: input.metadata } : {}),
+    };
+
+    const transaction = ledgerService.buildTransaction({
+      customerId: memberId,
+      businessId,
+      type: 'earn',
+      source: input.source || SOURCE_BY_METHOD[stamp.method] || 'manual',
+      amountPoints: amount,
+      programId: program?.id,
+      membershipId: input.membershipId,
+      locationId: input.locationId,
+      monetaryValue: input.monetaryValue,
+      orderId: input.orderId,
+      description: 'Stamp issued',
+      processedBy: stamp.issuedBy,
+      metadata: { stampId: id, ...(input.rewardId ? { rewardId: input.rewardId } : {}) },
+    }, now);
+
+    const keys = [
+      REDIS_KEYS.stamp(id),
+      listKey,
+      REDIS_KEYS.businessMembers(businessId),
+      REDIS_KEYS.dailyStats(today()),
+      REDIS_KEYS.customerLedger(memberId),
+      balanceKey(memberId, businessId, program?.id),
+      ...(idempotencyKey ? [REDIS_KEYS.stampIdempotency(businessId, idempotencyKey)] : []),
+    ];
+    const [applied, value] = await redisClient.eval(
+      ISSUE_STAMP,
+      keys.length,
+      ...keys,
+      JSON.stringify(stamp),
+      JSON.stringify({ ...stamp, timestamp: now }),
+      memberId,
+      businessId,
+      id,
+      String(IDEMPOTENCY_TTL_SECONDS),
+      JSON.stringify(transaction),
+      now,
+      program ? '0' : '1',
+      String(amount),
+      String(stampsIssued),
+    ) as [number, number | string];
+
+    if (!applied) {
+      const original = await redisClient.get(REDIS_KEYS.stamp(String(value)));
+      if (!original) {
+        throw new ApiError(409, 'A stamp with this idempotency key is still being processed');
+      }
+      console.log(`[STAMPS] Replayed idempotency key ${idempotencyKey} → stamp ${value}`);
+      const balance = await ledgerService.getBalance(memberId, businessId, program?.id);
+      return { stamp: JSON.parse(original), stampCount: balance.availablePoints, duplicate: true };
+    }
+
+    await patchStats('business stats', REDIS_KEYS.business(businessId), (business) => ({
+      ...business,
+      stats: {
+        ...business.stats,
+        totalStampsIssued: (business.stats?.totalStampsIssued || 0) + stampsIssued,
+      },
+      updatedAt: now,
+    }));
+    if (input.locationId) await locationService.record(input.locationId, 'stamps', memberId, stampsIssued);
+
+    const tierChange = program
+      ? await afterProgramEarn(memberId, program, input.event ?? { occurredAt: now, locationId: input.locationId })
+      : null;
+
+    return { stamp, stampCount: Number(value), duplicate: false, tierChange };
+  },
+
+  /**
+   * Redeem a reward atomically: stamp count, maxRedemptions, the member's uses and the stamp deduction
+   * are one script. Throws 400 (details.rejections) when the member lacks stamps, has used the reward
+   * maxUsesPerMember times or the reward is exhausted. Other constraints are checked by the caller.
+   */
+  async redeem(input: RedeemRewardInput): Promise<RedeemRewardResult> {
+    const idempotencyKey = checkIdempotencyKey(input.idempotencyKey);
+    const { memberId, businessId, reward, program } = input;
+    const listKey = REDIS_KEYS.customerStamps(memberId, businessId);
+    const cost = input.cost ?? programService.rewardCost(reward, program);
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const redemption: Redemption = {
+      id,
+      customerId: memberId,  // Map memberId to customerId
+      memberId,              // Keep memberId for backward compatibility
+      businessId,
+      ...(program ? { programId: program.id } : {}),
+      ...(input.locationId ? { locationId: input.locationId } : {}),
+      rewardId: reward.id,
+      redeemedAt: now,
+      verifiedBy: input.staffId,
+      status: 'completed',
+    };
+
+    const transaction = ledgerService.buildTransaction({
+      customerId: memberId,
+      businessId,
+      type: 'redeem',
+      source: 'manual',
+      amountPoints: -cost,
+      programId: program?.id,
+      membershipId: input.membershipId,
+      locationId: input.locationId,
+      description: `Redeemed: ${reward.name}`,
+      processedBy: input.staffId,
+      metadata: { redemptionId: id, rewardId: reward.id },
+    }, now);
+
+    const keys = [
+      listKey,
+      REDIS_KEYS.redemption(id),
+      REDIS_KEYS.rewardRedemptionCount(reward.id),
+      REDIS_KEYS.dailyStats(today()),
+      REDIS_KEYS.customerLedger(memberId),
+      balanceKey(memberId, businessId, program?.id),
+      REDIS_KEYS.rewardMemberUses(reward.id),
+      ...(idempotencyKey ? [REDIS_KEYS.redeemIdempotency(businessId, idempotencyKey)] : []),
+    ];
+    const [applied, reason, detail] = await redisClient.eval(
+      REDEEM_REWARD,
+      keys.length,
+      ...keys,
+      String(cost),
+      String(reward.maxRedemptions || 0),
+      String(reward.currentRedemptions || 0),
+      id,
+      JSON.stringify(redemption),
+      String(IDEMPOTENCY_TTL_SECONDS),
+      JSON.stringify(transaction),
+      now,
+      program ? '0' : '1',
+      memberId,
+      String(reward.constraints?.maxUsesPerMember || 0),
+    ) as [number, string, number | string];
+
+    if (!applied) {
+      switch (reason) {
+        case 'duplicate': {
+          const original = await redisClient.get(REDIS_KEYS.redemption(String(detail)));
+          if (!original) {
+            throw new ApiError(409, 'A redemption with this idempotency key is still being processed');
+          }
+          console.log(`[STAMPS] Replayed idempotency key ${idempotencyKey} → redemption ${detail}`);
+          const balance = await ledgerService.getBalance(memberId, businessId, program?.id);
+          return { redemption: JSON.parse(original), newStampCount: balance.availablePoints, duplicate: true };
+        }
+        case 'insufficient_stamps':
+          throw rewardConstraintService.rejected([{
+            code: 'INSUFFICIENT_BALANCE',
+            required: cost,
+            available: Number(detail),
+            currency: program?.currency ?? 'stamps',
+          }]);
+        case 'max_redemptions':
+          throw rewardConstraintService.rejected([{ code: 'MAX_REDEMPTIONS', maxRedemptions: reward.maxRedemptions || 0 }]);
+        case 'max_uses_per_member':
+          throw rewardConstraintService.rejected([{
+            code: 'MAX_USES_PER_MEMBER',
+            maxUsesPerMember: reward.constraints?.maxUsesPerMember || 0,
+            used: Number(detail),
+          }]);
+        default:
+          throw new ApiError(500, `Unexpected redemption result: ${reason}`);
+      }
+    }
+
+    await patchStats('reward redemptions', REDIS_KEYS.reward(reward.id), (doc) => ({
+      ...doc,
+      currentRedemptions: (doc.currentRedemptions || 0) + 1,
+    }));
+    await patchStats('business stats', REDIS_KEYS.business(businessId), (business) => ({
+      ...business,
+      stats: {
+        ...business.stats,
+        totalRedemptions: (business.stats?.totalRedemptions || 0) + 1,
+      },
+      updatedAt: now,
+    }));
+    const incrementMember = (member: any) => ({
+      ...member,
+      totalRedemptions: (member.totalRedemptions || 0) + 1,
+      updatedAt: now,
+    });
+    await patchStats('member stats', REDIS_KEYS.customer(memberId), incrementMember);
+    await patchStats('member stats', REDIS_KEYS.member(memberId), incrementMember);
+    if (input.locationId) await locationService.record(input.locationId, 'redemptions', memberId);
+
+    return { redemption, newStampCount: Number(detail), duplicate: false };
+  },
+};
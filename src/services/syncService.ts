@@ -0,0 +1,258 @@
+/**
+ * Sync service — typed, versioned document sync for the business and customer apps
+ *
+ * Replaces the raw Redis proxy (/api/v1/redis/:command). Apps exchange whole entity documents
+ * (business, reward, campaign, customer) and never address Redis keys directly:
+ * - each entity has a zod schema (passthrough: the API still stores exactly what the app sends)
+ * - each document has a version counter at sync:version:{docKey}; writes are compare-and-set
+ *   against the version the app last pulled (baseVersion), so stale devices get a 409
+ *   (the counter is shared with the legacy replace routes — see concurrencyService)
+ * - the side indexes the old proxy callers maintained by hand (businesses:all, business rewards/
+ *   campaigns sets, token-link indexes, the geo and text search indexes, the campaign schedule) are maintained here after every write
+ */
+
+import { z } from 'zod';
+import { redisClient, REDIS_KEYS, isDocumentId } from '../config/redis';
+import { ApiError } from '../middleware/errorHandler';
+import { customerRecordService } from './customerRecordService';
+import { concurrencyService } from './concurrencyService';
+import { saveEntityCopy } from './repositoryCopyService';
+import { geoService } from './geoService';
+import { searchIndexService } from './searchIndexService';
+import { campaignSchedulerService } from './campaignSchedulerService';
+import type { CustomerRecord } from '../types/customerRecord';
+import type { Campaign } from '../types';
+
+export const SYNC_ENTITIES = ['business', 'reward', 'campaign', 'customer'] as const;
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+export interface SyncDocument {
+  entity: SyncEntity;
+  id: string;
+  version: number;
+  data: Record<string, any> | null;
+}
+
+export interface SyncManifestEntry {
+  entity: SyncEntity;
+  id: string;
+  version: number;
+  updatedAt?: string;
+}
+
+const businessSchema = z.object({
+  name: z.string().min(1).optional(),
+  status: z.string().optional(),
+  profile: z.object({ name: z.string().min(1).optional() }).passthrough().optional(),
+}).passthrough().refine((b) => !!(b.name || b.profile?.name), {
+  message: 'Business requires name or profile.name',
+  path: ['name'],
+});
+
+const rewardSchema = z.object({
+  businessId: z.string().min(1),
+  name: z.string().min(1),
+  stampsRequired: z.number().int().nonnegative().optional(),
+  isActive: z.boolean().optional(),
+}).passthrough();
+
+const campaignSchema = z.object({
+  businessId: z.string().min(1),
+  name: z.string().min(1),
+  status: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+}).passthrough();
+
+const customerSchema = z.object({
+  email: z.string().email(),
+  firstName: z.string(),
+  rewards: z.array(z.object({ id: z.string().min(1) }).passthrough()),
+}).passthrough();
+
+interface EntityDefinition {
+  key: (id: string) => string;
+  schema: z.ZodTypeAny;
+  /** Keep side indexes in step with the stored document. */
+  afterWrite: (id: string, doc: Record<string, any>, previous: Record<string, any> | null) => Promise<void>;
+}
+
+const ENTITIES: Record<SyncEntity, EntityDefinition> = {
+  business: {
+    key: REDIS_KEYS.business,
+    schema: businessSchema,
+    async afterWrite(id, doc) {
+      await redisClient.sadd(REDIS_KEYS.allBusinesses(), id);
+      if (typeof doc.slug === 'string' && doc.slug) {
+        await redisClient.set(REDIS_KEYS.businessBySlug(doc.slug), id);
+      }
+      await geoService.indexBusiness(id, doc);
+      await searchIndexService.index(id, doc);
+      saveEntityCopy(id, 'business').catch(err => {
+        console.error('[SYNC] Error saving repository copy:', err);
+      });
+    },
+  },
+  reward: {
+    key: REDIS_KEYS.reward,
+    schema: rewardSchema,
+    async afterWrite(id, doc) {
+      await redisClient.sadd(REDIS_KEYS.businessRewards(doc.businessId), id);
+      saveEntityCopy(doc.businessId, 'reward', id).catch(err => {
+        console.error('[SYNC] Error saving repository copy:', err);
+      });
+    },
+  },
+  campaign: {
+    key: REDIS_KEYS.campaign,
+    schema: campaignSchema,
+    async afterWrite(id, doc, previous) {
+      await redisClient.sadd(REDIS_KEYS.businessCampaigns(doc.businessId), id);
+      await campaignSchedulerService.afterWrite(doc as Campaign, previous?.status ?? null, 'sync');
+      saveEntityCopy(doc.businessId, 'campaign', id).catch(err => {
+        console.error('[SYNC] Error saving repository copy:', err);
+      });
+    },
+  },
+  customer: {
+    key: REDIS_KEYS.customer,
+    schema: customerSchema,
+    async afterWrite(id, doc, previous) {
+      await customerRecordService.reindex(id, previous, doc as CustomerRecord);
+    },
+  },
+};
+
+const parseDoc = (data: string | null): Record<string, any> | null => {
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+export const syncService = {
+  isEntity(value: unknown): value is SyncEntity {
+    return typeof value === 'string' && (SYNC_ENTITIES as readonly string[]).includes(value);
+  },
+
+  /** Checked entity type for a request; throws 400 for unknown entities or ids that are not plain document ids. */
+  target(entity: unknown, id: unknown): SyncEntity {
+    if (!syncService.isEntity(entity)) {
+      throw new ApiError(400, `Unknown sync entity '${entity}'`, { allowed: SYNC_ENTITIES });
+    }
+    if (!isDocumentId(id)) {
+      throw new ApiError(400, 'Invalid document id');
+    }
+    return entity;
+  },
+
+  /**
+   * Add every stored business to businesses:all (the jobs enumerate it), for businesses written before
+   * POST /businesses maintained it. Returns how many were missing.
+   */
+  async rebuildBusinessIndex(): Promise<{ businesses: number; added: number }> {
+    const counts = { businesses: 0, added: 0 };
+    let cursor = '0';
+    do {
+      const [next, keys] = await redisClient.scan(cursor, 'MATCH', 'business:*', 'COUNT', 500);
+      cursor = next;
+      // business:{id} only; skip sub-keys such as business:{id}:rewards and business:slug:{slug}
+      const ids = keys.map((key) => key.slice('business:'.length)).filter((id) => id && !id.includes(':'));
+      for (const id of ids) {
+        if (await redisClient.type(REDIS_KEYS.business(id)) !== 'string') continue;
+        counts.businesses++;
+        counts.added += await redisClient.sadd(REDIS_KEYS.allBusinesses(), id);
+      }
+    } while (cursor !== '0');
+    console.log(`[SYNC] businesses:all has ${counts.businesses} businesses (${counts.added} added)`);
+    return counts;
+  },
+
+  docKey(entity: SyncEntity, id: string): string {
+    return ENTITIES[entity].key(id);
+  },
+
+  async get(entity: SyncEntity, id: string): Promise<SyncDocument> {
+    const key = syncService.docKey(entity, id);
+    const [data, version] = await Promise.all([
+      redisClient.get(key),
+      concurrencyService.version(key),
+    ]);
+    return { entity, id, version, data: parseDoc(data) };
+  },
+
+  /**
+   * Business that owns a document. For a reward/campaign that does not exist yet
+   * this is the businessId in the incoming data; customers have no owning business.
+   */
+  async businessOf(entity: SyncEntity, id: string, incoming?: Record<string, any>): Promise<string | undefined> {
+    if (entity === 'business') return id;
+    if (entity === 'customer') return undefined;
+    const stored = parseDoc(await redisClient.get(syncService.docKey(entity, id)));
+    if (stored) return stored.businessId;
+    return typeof incoming?.businessId === 'string' ? incoming.businessId : undefined;
+  },
+
+  /**
+   * Validate and store a full document (full replacement, as with the legacy routes).
+   * baseVersion is the version the app last pulled; omit it to overwrite unconditionally.
+   * With merge, edits from a stale baseVersion are merged field-by-field (see concurrencyService).
+   * Throws 400 on validation failure and 409 (with the server copy) on a version conflict.
+   */
+  async put(entity: SyncEntity, id: string, data: unknown, baseVersion?: number, merge = false): Promise<SyncDocument> {
+    const definition = ENTITIES[entity];
+    const parsed = definition.schema.safeParse(data);
+    if (!parsed.success) {
+      throw new ApiError(400, `Invalid ${entity} document`, parsed.error.issues);
+    }
+
+    const key = definition.key(id);
+    const doc: Record<string, any> = { ...parsed.data, id };
+
+    if (entity === 'reward' || entity === 'campaign') {
+      const owner = await syncService.businessOf(entity, id);
+      if (owner && owner !== doc.businessId) {
+        throw new ApiError(400, `A ${entity} cannot be moved to another business`);
+      }
+    }
+
+    const result = await concurrencyService.save(key, doc, { expectedVersion: baseVersion, merge });
+
+    await definition.afterWrite(id, result.doc, result.previous);
+    console.log(`[SYNC] PUT ${entity} ${id} → version ${result.version}${result.merged ? ' (merged)' : ''}`);
+
+    return { entity, id, version: result.version, data: result.doc };
+  },
+
+  /** Every document a business syncs: its profile, rewards and campaigns. */
+  async businessManifest(businessId: string): Promise<SyncManifestEntry[]> {
+    const [rewardIds, campaignIds] = await Promise.all([
+      redisClient.smembers(REDIS_KEYS.businessRewards(businessId)),
+      redisClient.smembers(REDIS_KEYS.businessCampaigns(businessId)),
+    ]);
+    const targets: Array<[SyncEntity, string]> = [
+      ['business', businessId],
+      ...rewardIds.map((id): [SyncEntity, string] => ['reward', id]),
+      ...campaignIds.map((id): [SyncEntity, string] => ['campaign', id]),
+    ];
+    return syncService.manifestFor(targets);
+  },
+
+  /** The documents a customer syncs: their own record. */
+  async customerManifest(customerId: string): Promise<SyncManifestEntry[]> {
+    return syncService.manifestFor([['customer', customerId]]);
+  },
+
+  async manifestFor(targets: Array<[SyncEntity, string]>): Promise<SyncManifestEntry[]> {
+    const entries = await Promise.all(targets.map(async ([entity, id]) => {
+      const doc = await syncService.get(entity, id);
+      if (!doc.data) return null;
+      const entry: SyncManifestEntry = { entity, id, version: doc.version };
+      if (typeof doc.data.updatedAt === 'string') entry.updatedAt = doc.data.updatedAt;
+      return entry;
+    }));
+    return entries.filter((e): e is SyncManifestEntry => e !== null);
+  },
+};
@@ -0,0 +1,215 @@
+/**
+ * Tier service — automatic tier upgrades and downgrades for program memberships
+ *
+ * A member qualifies for the highest tier whose thresholds (minPoints, minSpend — all that are
+ * set) they met in the program's requalification window: earn transactions in the last
+ * tierWindowMonths (default 12, rolling). Redemptions and expiries do not count against it.
+ *
+ * - Upgrades happen as soon as an earn qualifies (POST /api/v1/stamps calls evaluate()).
+ * - Downgrades only happen in the requalification job (requalifyAll(), daily via
+ *   GET/POST /api/v1/jobs/tiers), and a tier is kept for at least one window after it was reached.
+ * Every change is written to the membership (currentTierId, tierUpdatedAt) and queues a
+ * `tier_changed` notification.
+ */
+
+import { redisClient, REDIS_KEYS, redis } from '../config/redis';
+import { concurrencyService } from './concurrencyService';
+import { ledgerService } from './ledgerService';
+import { programService } from './programService';
+import { notificationService } from './notificationService';
+import { notificationTemplateService } from './notificationTemplateService';
+import type { LoyaltyProgram, ProgramTier, CustomerMembership } from '../types/extended';
+
+export const DEFAULT_TIER_WINDOW_MONTHS = 12;
+
+const LOCK_TTL_SECONDS = 10 * 60;
+
+export interface TierChange {
+  programId: string;
+  direction: 'upgrade' | 'downgrade';
+  from: ProgramTier | null;
+  to: ProgramTier | null;
+  changedAt: string;
+}
+
+export interface TierProgress {
+  programId: string;
+  programName: string;
+  windowMonths: number;
+  /** Points earned and £ spent in the current window. */
+  qualifying: { points: number; spend: number; since: string };
+  currentTier: ProgramTier | null;
+  nextTier: ProgramTier | null;
+  /** Still needed in the window to reach nextTier (only thresholds the tier sets). */
+  toNextTier: { points?: number; spend?: number } | null;
+}
+
+export interface TierRunResult {
+  /** Memberships evaluated. */
+  evaluated: number;
+  upgraded: number;
+  downgraded: number;
+  /** True when another run held the lock and this one did nothing. */
+  locked: boolean;
+  ranAt: string;
+}
+
+/** Start of the qualifying window that ends at `at`. */
+function windowStart(program: LoyaltyProgram, at: Date): Date {
+  const since = new Date(at);
+  since.setUTCMonth(since.getUTCMonth() - (program.tierWindowMonths ?? DEFAULT_TIER_WINDOW_MONTHS));
+  return since;
+}
+
+function meets(tier: ProgramTier, activity: { points: number; spend: number }): boolean {
+  return (tier.minPoints === undefined || activity.points >= tier.minPoints)
+    && (tier.minSpend === undefined || activity.spend >= tier.minSpend);
+}
+
+/** Highest tier (tiers are sorted lowest level first) the activity qualifies for. */
+function qualifiedTier(tiers: ProgramTier[], activity: { points: number; spend: number }): ProgramTier | null {
+  return [...tiers].reverse().find((tier) => meets(tier, activity)) ?? null;
+}
+
+async function notifyChange(customerId: string, program: LoyaltyProgram, change: TierChange): Promise<void> {
+  const customer = await redis.getMember(customerId);
+  if (!customer || customer.preferences?.push === false) return;
+
+  const business = await redis.getBusiness(program.businessId);
+  const where = business?.name || program.name;
+  const { title, message } = await notificationTemplateService.render(
+    change.direction === 'upgrade' ? 'tier_changed.upgrade' : 'tier_changed.downgrade',
+    { businessId: program.businessId, locale: customer.locale },
+    { firstName: customer.firstName, businessName: where, tierName: change.to?.name || 'the base level' },
+  );
+  await notificationService.queue(customerId, {
+    type: 'tier_changed',
+    businessId: program.businessId,
+    businessName: business?.name,
+    title,
+    message,
+    data: {
+      programId: program.id,
+      direction: change.direction,
+      fromTierId: change.from?.id ?? null,
+      toTierId: change.to?.id ?? null,
+    },
+  }, change.changedAt);
+}
+
+export const tierService = {
+  /**
+   * Move a member to the tier they qualify for. Without `allowDowngrade` only upgrades apply.
+   * Returns the change, or null when the tier stays the same (or the program has no tiers).
+   */
+  async evaluate(
+    customerId: string,
+    program: LoyaltyProgram,
+    options: { allowDowngrade?: boolean; at?: Date } = {},
+  ): Promise<TierChange | null> {
+    const at = options.at ?? new Date();
+    const membership = await programService.getMembership(program.id, customerId);
+    if (!membership || membership.status === 'cancelled') return null;
+    const tiers = await programService.listTiers(program.id);
+    if (tiers.length === 0) return null;
+
+    const activity = await ledgerService.earnedSince(customerId, windowStart(program, at), { programId: program.id });
+    const target = qualifiedTier(tiers, activity);
+    const current = tiers.find((tier) => tier.id === membership.currentTierId) ?? null;
+    if ((target?.id ?? null) === (current?.id ?? null)) return null;
+
+    const direction = (target?.level ?? 0) > (current?.level ?? 0) ? 'upgrade' : 'downgrade';
+    if (direction === 'downgrade') {
+      if (!options.allowDowngrade) return null;
+      // A tier is kept for at least one full window after it was reached
+      if (membership.tierUpdatedAt && windowStart(program, at).toISOString() < membership.tierUpdatedAt) return null;
+    }
+
+    const change: TierChange = { programId: program.id, direction, from: current, to: target, changedAt: at.toISOString() };
+    let applied = false;
+    await concurrencyService.patch<CustomerMembership>(REDIS_KEYS.membership(membership.id), (stored) => {
+      // Another evaluation moved the tier first
+      if ((stored.currentTierId ?? null) !== (membership.currentTierId ?? null)) return stored;
+      applied = true;
+      const { currentTierId, ...rest } = stored;
+      return { ...rest, ...(target ? { currentTierId: target.id } : {}), tierUpdatedAt: change.changedAt };
+    });
+    if (!applied) return null;
+
+    console.log(`[TIERS] ${customerId} ${direction}d in ${program.id}: ${current?.name ?? 'none'} → ${target?.name ?? 'none'}`);
+    await notifyChange(customerId, program, change);
+    return change;
+  },
+
+  /** Current tier, qualifying activity in the window and what is left to reach the next tier. */
+  async progress(customerId: string, program: LoyaltyProgram, membership: CustomerMembership): Promise<TierProgress> {
+    const windowMonths = program.tierWindowMonths ?? DEFAULT_TIER_WINDOW_MONTHS;
+    const since = windowStart(program, new Date());
+    const tiers = await programService.listTiers(program.id);
+    const activity = await ledgerService.earnedSince(customerId, since, { programId: program.id });
+
+    const currentTier = tiers.find((tier) => tier.id === membership.currentTierId) ?? null;
+    const nextTier = tiers.find((tier) => tier.level > (currentTier?.level ?? 0)) ?? null;
+    let toNextTier: TierProgress['toNextTier'] = null;
+    if (nextTier) {
+      toNextTier = {
+        ...(nextTier.minPoints !== undefined ? { points: Math.max(0, nextTier.minPoints - activity.points) } : {}),
+        ...(nextTier.minSpend !== undefined
+          ? { spend: Math.max(0, Math.round((nextTier.minSpend - activity.spend) * 100) / 100) }
+          : {}),
+      };
+    }
+
+    return {
+      programId: program.id,
+      programName: program.name,
+      windowMonths,
+      qualifying: { ...activity, since: since.toISOString() },
+      currentTier,
+      nextTier,
+      toNextTier,
+    };
+  },
+
+  /** Re-evaluate every membership of every program with tiers, applying downgrades. */
+  async requalifyAll(at = new Date()): Promise<TierRunResult> {
+    const ranAt = at.toISOString();
+    const result: TierRunResult = { evaluated: 0, upgraded: 0, downgraded: 0, locked: false, ranAt };
+
+    const lockKey = REDIS_KEYS.jobLock('tiers');
+    if (!await redisClient.set(lockKey, ranAt, 'EX', LOCK_TTL_SECONDS, 'NX')) {
+      return { ...result, locked: true };
+    }
+
+    try {
+      const businessIds = await redisClient.smembers(REDIS_KEYS.allBusinesses());
+      for (const businessId of businessIds) {
+        for (const program of await programService.listForBusiness(businessId)) {
+          if (program.status === 'ended' || await redisClient.hlen(REDIS_KEYS.programTiers(program.id)) === 0) continue;
+
+          for (const customerId of await redisClient.smembers(REDIS_KEYS.programMembers(program.id))) {
+            result.evaluated++;
+            try {
+              const change = await tierService.evaluate(customerId, program, { allowDowngrade: true, at });
+              if (change?.direction === 'upgrade') result.upgraded++;
+              if (change?.direction === 'downgrade') result.downgraded++;
+            } catch (error: any) {
+              console.error(`❌ [TIERS] Failed to requalify ${customerId} in ${program.id}:`, error.message);
+            }
+          }
+        }
+      }
+
+      await redisClient.hset(REDIS_KEYS.jobLastRun('tiers'), {
+        ranAt,
+        evaluated: result.evaluated,
+        upgraded: result.upgraded,
+        downgraded: result.downgraded,
+      });
+      console.log(`[TIERS] ${result.evaluated} memberships evaluated, ${result.upgraded} upgraded, ${result.downgraded} downgraded`);
+      return result;
+    } finally {
+      await redisClient.del(lockKey);
+    }
+  },
+};
@@ -50,6 +50,7 @@ export interface LoyaltyProgram {
   currency: 'points' | 'stamps' | 'credits';
   status: 'draft' | 'active' | 'paused' | 'ended';
   defaultEarnRate?: number;      // Points per £1 spent
+  tierWindowMonths?: number;     // Tier requalification window (rolling months, default 12)
   createdAt: string;
   updatedAt: string;
 }
@@ -116,7 +117,9 @@ export interface CustomerMembership {
   joinedAt: string;
   status: 'active' | 'paused' | 'cancelled';
   currentTierId?: string;
+  tierUpdatedAt?: string;        // When currentTierId last changed
   pausedUntil?: string;
+  pausedBy?: 'customer' | 'business';  // Who paused it: a customer can only resume their own pause
   cancelledAt?: string;
   // Unique constraint: (userId, programId)
 }
@@ -145,6 +148,7 @@ export interface Transaction {
   id: string;
   membershipId: string;
   businessId: string;
+  programId?: string;            // Set when the points belong to one LoyaltyProgram
   locationId?: string;
   type: 'earn' | 'redeem' | 'adjust' | 'expire' | 'refund';
   source: 'qr' | 'nfc' | 'online' | 'receipt_scan' | 'manual' | 'pos';
@@ -216,18 +220,20 @@ export interface DayHours {
 
 /**
  * Segment (customer segmentation)
+ * Members are the business's customers matching every criterion (see segmentService).
  */
 export interface Segment {
   id: string;
   businessId: string;
   name: string;
+  description?: string;
   type: 'saved' | 'ai_generated' | 'dynamic';
   criteria: {
-    membershipStatus?: string[];
-    lastVisitDays?: number;
-    totalSpend?: { min?: number; max?: number };
-    favoriteCategories?: string[];
-    location?: string[];
+    membershipStatus?: string[];   // Status of a membership in one of the business's programs
+    lastVisitDays?: number;        // Visited within this many days
+    totalSpend?: { min?: number; max?: number }; // £ spent at the business
+    favoriteCategories?: string[]; // Business categories the customer visits most
+    location?: string[];           // Location ids the customer has visited or checked in at
     predictedChurn?: boolean;
     highValue?: boolean;
   };
@@ -268,6 +274,22 @@ export interface GeofenceZone {
   createdAt: string;
 }
 
+/**
+ * Notification Template (wording of a notification, per business or platform-wide, per locale)
+ * key is a notificationTemplateService catalogue key; title and message use {variables}.
+ */
+export interface NotificationTemplate {
+  id: string;
+  businessId?: string;           // Platform-wide when unset
+  key: string;                   // e.g. 'geofence_enter.reward_close'
+  locale: string;                // BCP 47, e.g. 'en-GB'
+  title: string;
+  message: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * Check-In
  */
@@ -324,12 +346,36 @@ export interface Referral {
   id: string;
   referrerId: string;           // User who referred
   referredId: string;            // User who was referred
+  businessId?: string;           // Only this business's rules can complete it (any business otherwise)
   programId?: string;
+  ruleId?: string;               // ReferralRule that completed it
   status: 'pending' | 'completed' | 'rewarded';
   rewardGiven: boolean;
-  rewardAmount?: number;
+  rewardAmount?: number;         // Stamps/points given to the referrer
+  referredRewardAmount?: number; // Stamps/points given to the referred friend
+  referrerRewarded?: boolean;
+  referredRewarded?: boolean;
   createdAt: string;
   completedAt?: string;
+  rewardedAt?: string;
+}
+
+/**
+ * Referral Rule (when a referral of a business/program completes and what both sides get)
+ */
+export interface ReferralRule {
+  id: string;
+  businessId: string;
+  programId?: string;            // Earn and reward in this program (business-wide card otherwise)
+  name: string;
+  qualifyingStamps: number;      // Stamps/points the referred friend must earn at the business...
+  windowDays: number;            // ...within this many days of being referred
+  referrerReward: number;        // Stamps/points for the referrer
+  referredReward: number;        // Stamps/points for the referred friend
+  maxRewardsPerReferrer?: number; // Referrer rewards per customer under this rule (unlimited if unset)
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================
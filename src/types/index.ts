@@ -8,6 +8,7 @@ export interface Customer {
   lastName: string;
   dateOfBirth?: string;          // ISO date (for birthday campaigns)
   homeRegion?: string;           // e.g., "tees-valley"
+  locale?: string;               // BCP 47 (notification templates; default en-GB)
   createdAt: string;
   updatedAt: string;
   deletedAt?: string;            // Soft delete support
@@ -39,6 +40,13 @@ export interface CustomerPreferences {
   sms?: boolean;
   marketing: boolean;
   geofencing?: boolean;
+  /** No push, email or SMS between start and end ("HH:MM", UK time; may wrap midnight). Null turns the default off. */
+  quietHours?: QuietHours | null;
+}
+
+export interface QuietHours {
+  start: string;
+  end: string;
 }
 
 export interface Business {
@@ -55,6 +63,11 @@ export interface Business {
     postcode: string;
     region: 'tees-valley';
   };
+  timezone?: string;             // IANA zone for campaign start/end dates (default Europe/London)
+  coordinates?: {                // Map position (indexed for geo search)
+    latitude: number;
+    longitude: number;
+  };
   category: BusinessCategory;
   bidId?: string; // Business Improvement District ID
   billingPlan?: PaymentPlan['id']; // From payments.ts
@@ -151,6 +164,8 @@ export interface Redemption {
   customerId: string;
   memberId?: string;             // Legacy alias for customerId (backward compatibility)
   businessId: string;
+  programId?: string;            // For multi-program support
+  locationId?: string;           // Which location redeemed it
   rewardId: string;
   redeemedAt: string;
   verifiedBy?: string;
@@ -218,6 +233,10 @@ export interface CampaignConditions {
   daysOfWeek?: number[]; // 0-6 for Sunday-Saturday
   startTime?: string; // HH:MM format
   endTime?: string;
+  // Birthday campaigns: grant from this many days before the birthday (default 0 = on the day)
+  birthdayWindowDays?: number;
+  // Birthday campaigns: reward granted (enough stamps/points to redeem it); bonusStamps otherwise
+  rewardId?: string;
   // Business app specific: store reward data in conditions
   rewardData?: {
     selectedProducts?: string[];
@@ -247,7 +266,8 @@ export interface Notification {
   campaignId?: string;
   title: string;
   message: string;
-  channel?: 'push' | 'email' | 'sms' | 'in_app';
+  channel?: NotificationChannel;
+  channels?: NotificationChannel[];  // Channels requested when queued (default in_app + push)
   payload?: Record<string, any>; // Deep link data
   data?: Record<string, any>;   // Legacy field (maps to payload)
   sentAt?: string;
@@ -255,20 +275,28 @@ export interface Notification {
   openedAt?: string;
   clickedAt?: string;
   convertedAt?: string;          // User took action
+  deferredUntil?: string;        // Held back by quiet hours or frequency caps
+  suppressedAt?: string;         // Not sent (notification policy)
+  suppressedReason?: string;
   createdAt: string;
   read: boolean;
   readAt?: string;
 }
 
+export type NotificationChannel = 'push' | 'email' | 'sms' | 'in_app';
+
 export type NotificationType = 
   | 'stamp_earned'
   | 'reward_available'
   | 'reward_redeemed'
   | 'campaign'
+  | 'business_broadcast'
   | 'geofence_enter'
   | 'achievement'
   | 'leaderboard'
   | 'referral'
+  | 'points_expiring'
+  | 'tier_changed'
   | 'general';
 
 // Gamification types
@@ -0,0 +1,62 @@
+import { isOpenAt, windowMismatches, describeWindow } from '../schedule';
+import type { OpeningHours } from '../../types/extended';
+
+const officeHours: OpeningHours = {
+  monday: { open: '09:00', close: '17:00' },
+  friday: { open: '18:00', close: '02:00' },
+  sunday: { open: '00:00', close: '00:00' },
+};
+
+describe('isOpenAt', () => {
+  it('reads opening hours on the UK clock in GMT and BST', () => {
+    // Mondays 12 January and 15 June 2026
+    expect(isOpenAt(officeHours, '2026-01-12T16:30:00Z')).toBe(true);
+    expect(isOpenAt(officeHours, '2026-06-15T16:30:00Z')).toBe(false);
+    expect(isOpenAt(officeHours, '2026-06-15T08:00:00Z')).toBe(true);
+  });
+
+  it('keeps overnight hours open into the next morning, which is otherwise closed', () => {
+    // Friday 19 June 2026, 18:00-02:00 BST; Saturday has no hours
+    expect(isOpenAt(officeHours, '2026-06-19T17:00:00Z')).toBe(true);
+    expect(isOpenAt(officeHours, '2026-06-20T00:30:00Z')).toBe(true);
+    expect(isOpenAt(officeHours, '2026-06-20T01:00:00Z')).toBe(false);
+    expect(isOpenAt(officeHours, '2026-06-19T00:30:00Z')).toBe(false);
+  });
+
+  it('is open all day when open equals close', () => {
+    expect(isOpenAt(officeHours, '2026-06-21T03:00:00Z')).toBe(true);
+  });
+
+  it('lets a date exception replace the weekday hours', () => {
+    const holiday: OpeningHours = {
+      ...officeHours,
+      exceptions: [
+        { date: '2026-06-15', closed: true },
+        { date: '2026-06-16', open: '10:00', close: '12:00', closed: false },
+      ],
+    };
+
+    expect(isOpenAt(holiday, '2026-06-15T10:00:00Z')).toBe(false);
+    expect(isOpenAt(holiday, '2026-06-16T10:00:00Z')).toBe(true);
+  });
+});
+
+describe('windowMismatches', () => {
+  const lateFriday = { daysOfWeek: [5], start: '22:00', end: '02:00' };
+
+  it('attributes the early hours of an overnight window to the day it started', () => {
+    expect(windowMismatches(lateFriday, '2026-06-19T22:00:00Z')).toEqual([]);
+    expect(windowMismatches(lateFriday, '2026-06-20T00:30:00Z')).toEqual([]);
+    expect(windowMismatches(lateFriday, '2026-06-19T00:30:00Z')).toEqual(['dayOfWeek']);
+  });
+
+  it('reports the time range outside the window', () => {
+    expect(windowMismatches(lateFriday, '2026-06-19T11:00:00Z')).toEqual(['timeRange']);
+    expect(windowMismatches({}, '2026-06-19T11:00:00Z')).toEqual([]);
+  });
+
+  it('describes a window for error messages', () => {
+    expect(describeWindow({ daysOfWeek: [6, 5], start: '22:00', end: '02:00' })).toBe('Fri, Sat 22:00-02:00');
+    expect(describeWindow({})).toBe('any day');
+  });
+});
@@ -0,0 +1,63 @@
+import { ukLocalTime, parseClockTime, inClockRange, zonedInstant, zonedDate, zoneOffsetMinutes, isTimeZone } from '../ukTime';
+
+// 2026: BST from 01:00 UTC on Sunday 29 March to 01:00 UTC on Sunday 25 October
+
+describe('ukLocalTime', () => {
+  it('reads GMT in winter and BST in summer', () => {
+    expect(ukLocalTime('2026-01-15T09:00:00Z')).toEqual({ date: '2026-01-15', dayOfWeek: 4, minutes: 9 * 60 });
+    expect(ukLocalTime('2026-07-15T09:00:00Z')).toEqual({ date: '2026-07-15', dayOfWeek: 3, minutes: 10 * 60 });
+  });
+
+  it('moves the date and weekday at UK midnight, not UTC midnight', () => {
+    expect(ukLocalTime('2026-06-20T23:30:00Z')).toMatchObject({ date: '2026-06-21', dayOfWeek: 0, minutes: 30 });
+  });
+
+  it('jumps from 00:59 GMT to 02:00 BST when the clocks go forward', () => {
+    expect(ukLocalTime('2026-03-29T00:59:00Z').minutes).toBe(59);
+    expect(ukLocalTime('2026-03-29T01:00:00Z').minutes).toBe(2 * 60);
+  });
+});
+
+describe('zonedInstant', () => {
+  it('finds the instant of a wall-clock time on either side of a change', () => {
+    expect(zonedInstant('2026-03-28', 9 * 60).toISOString()).toBe('2026-03-28T09:00:00.000Z');
+    expect(zonedInstant('2026-03-29', 9 * 60).toISOString()).toBe('2026-03-29T08:00:00.000Z');
+    expect(zonedInstant('2026-10-25', 9 * 60).toISOString()).toBe('2026-10-25T09:00:00.000Z');
+  });
+
+  it('reads a time skipped by the spring-forward change an hour later', () => {
+    expect(zonedInstant('2026-03-29', 90).toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('works in other zones', () => {
+    expect(zonedInstant('2026-07-01', 9 * 60, 'America/New_York').toISOString()).toBe('2026-07-01T13:00:00.000Z');
+    expect(zoneOffsetMinutes(Date.parse('2026-07-01T00:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+});
+
+describe('zonedDate', () => {
+  it('is the UK calendar date', () => {
+    expect(zonedDate(Date.parse('2026-06-15T23:30:00Z'))).toBe('2026-06-16');
+    expect(zonedDate(Date.parse('2026-12-15T23:30:00Z'))).toBe('2026-12-15');
+  });
+});
+
+describe('clock times', () => {
+  it('parses 24h HH:MM only', () => {
+    expect(parseClockTime('09:30')).toBe(570);
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('9:30')).toBeNull();
+  });
+
+  it('wraps ranges that end at or before they start past midnight', () => {
+    expect(inClockRange(23 * 60, 22 * 60, 2 * 60)).toBe(true);
+    expect(inClockRange(60, 22 * 60, 2 * 60)).toBe(true);
+    expect(inClockRange(2 * 60, 22 * 60, 2 * 60)).toBe(false);
+    expect(inClockRange(12 * 60, 9 * 60, 9 * 60)).toBe(true);
+  });
+
+  it('knows IANA zones', () => {
+    expect(isTimeZone('Europe/London')).toBe(true);
+    expect(isTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Opening hours and day/time windows, evaluated in UK local time
+ *
+ * One evaluator for "is this place open at …" (Location.openingHours, for search) and "is this
+ * allowed at …" (Reward.constraints dayOfWeek/timeRange, CampaignConditions daysOfWeek/startTime/endTime).
+ * Instants are converted to Europe/London first, so hours written as 09:00-17:00 mean 09:00-17:00
+ * on the shop's clock in both GMT and BST.
+ *
+ * Opening hours:
+ * - an exception for the date (bank holiday, special hours) replaces that weekday's hours
+ * - a day that is left out or marked closed is closed
+ * - close at or before open runs past midnight (18:00-02:00 is still open at 01:00 the next day)
+ * - open === close is open all day
+ */
+
+import { ukLocalTime, parseClockTime, inClockRange } from './ukTime';
+import type { OpeningHours, DayHours } from '../types/extended';
+import type { Reward, Campaign } from '../types';
+
+const DAY_NAMES: (keyof Omit<OpeningHours, 'exceptions'>)[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+];
+
+const SHORT_DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimeWindow {
+  /** 0 = Sunday … 6 = Saturday; empty or missing = every day. */
+  daysOfWeek?: number[];
+  /** HH:MM; both or neither. */
+  start?: string;
+  end?: string;
+}
+
+export type WindowMismatch = 'dayOfWeek' | 'timeRange';
+
+/** Opening and closing minutes on a UK calendar date, or null when closed all day. */
+export function hoursOn(hours: OpeningHours, date: string): { open: number; close: number } | null {
+  const exception = hours.exceptions?.find((e) => e.date === date);
+  let day: Partial<DayHours> | undefined = exception;
+  if (!exception) {
+    day = hours[DAY_NAMES[new Date(Date.parse(`${date}T00:00:00Z`)).getUTCDay()]];
+  }
+  if (!day || day.closed) return null;
+  const open = parseClockTime(day.open);
+  const close = parseClockTime(day.close);
+  return open === null || close === null ? null : { open, close };
+}
+
+/** Whether a place with these opening hours is open at `at`. */
+export function isOpenAt(hours: OpeningHours, at: Date | string): boolean {
+  const local = ukLocalTime(at);
+
+  const today = hoursOn(hours, local.date);
+  if (today) {
+    if (today.open === today.close) return true;
+    // Overnight hours only count from the opening time here; the early hours belong to tomorrow
+    if (today.open < today.close ? inClockRange(local.minutes, today.open, today.close) : local.minutes >= today.open) {
+      return true;
+    }
+  }
+
+  const previousDate = new Date(Date.parse(`${local.date}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+  const yesterday = hoursOn(hours, previousDate);
+  return !!yesterday && yesterday.close < yesterday.open && local.minutes < yesterday.close;
+}
+
+/** Parts of a day/time window that `at` falls outside (empty when inside). */
+export function windowMismatches(window: TimeWindow, at: Date | string): WindowMismatch[] {
+  const local = ukLocalTime(at);
+  const mismatches: WindowMismatch[] = [];
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  // As in isOpenAt, the early hours of a window past midnight belong to the day it started
+  const day = start !== null && end !== null && end < start && local.minutes < end
+    ? (local.dayOfWeek + 6) % 7
+    : local.dayOfWeek;
+  if (window.daysOfWeek?.length && !window.daysOfWeek.includes(day)) {
+    mismatches.push('dayOfWeek');
+  }
+  if (start !== null && end !== null && !inClockRange(local.minutes, start, end)) {
+    mismatches.push('timeRange');
+  }
+  return mismatches;
+}
+
+/** When a reward may be redeemed (Reward.constraints dayOfWeek/timeRange). */
+export function rewardWindow(reward: Reward): TimeWindow {
+  const { dayOfWeek, timeRange } = reward.constraints ?? {};
+  return { daysOfWeek: dayOfWeek, start: timeRange?.start, end: timeRange?.end };
+}
+
+/** When a campaign applies (CampaignConditions daysOfWeek/startTime/endTime). */
+export function campaignWindow(campaign: Campaign): TimeWindow {
+  const { daysOfWeek, startTime, endTime } = campaign.conditions ?? {};
+  return { daysOfWeek, start: startTime, end: endTime };
+}
+
+/** Human-readable window, e.g. "Mon, Tue 12:00-14:00", for error messages. */
+export function describeWindow(window: TimeWindow): string {
+  const days = window.daysOfWeek?.length
+    ? [...window.daysOfWeek].sort((a, b) => a - b).map((d) => SHORT_DAY_NAMES[d] ?? String(d)).join(', ')
+    : 'any day';
+  return window.start && window.end ? `${days} ${window.start}-${window.end}` : days;
+}
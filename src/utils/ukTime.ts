@@ -0,0 +1,120 @@
+/**
+ * UK local time helpers
+ *
+ * Businesses are UK-based and their rules and hours are written in wall-clock time, so an instant
+ * is converted to Europe/London (GMT in winter, BST in summer) before comparing days and times.
+ * zonedInstant/zoneOffsetMinutes also take another zone, for a business with its own timezone.
+ */
+
+export const UK_TIME_ZONE = 'Europe/London';
+
+export interface LocalTime {
+  /** YYYY-MM-DD */
+  date: string;
+  /** 0 = Sunday … 6 = Saturday */
+  dayOfWeek: number;
+  /** Minutes since local midnight. */
+  minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: UK_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+/** Wall-clock date, weekday and time in the UK at `instant`. */
+export function ukLocalTime(instant: Date | string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+/** Minutes since midnight for "HH:MM", or null if malformed. */
+export function parseClockTime(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+/**
+ * Whether `minutes` falls in [start, end). An end at or before the start wraps past midnight
+ * (22:00-02:00); start === end covers the whole day.
+ */
+export function inClockRange(minutes: number, start: number, end: number): boolean {
+  if (start === end) return true;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let zoned = zoneFormatters.get(timeZone);
+  if (!zoned) {
+    zoned = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    zoneFormatters.set(timeZone, zoned);
+  }
+  return zoned;
+}
+
+/** Whether `value` is an IANA time zone this runtime knows (e.g. "Europe/London"). */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    zoneFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes `timeZone` is ahead of UTC at `instant` (60 during BST). */
+export function zoneOffsetMinutes(instant: Date | number, timeZone = UK_TIME_ZONE): number {
+  const ms = Math.floor(new Date(instant).getTime() / 1000) * 1000;
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(ms))) {
+    parts[part.type] = parseInt(part.value, 10);
+  }
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - ms) / 60000);
+}
+
+/** Calendar date (YYYY-MM-DD) in `timeZone` at `instant`. */
+export function zonedDate(instant: Date | number, timeZone = UK_TIME_ZONE): string {
+  const ms = new Date(instant).getTime();
+  return new Date(ms + zoneOffsetMinutes(ms, timeZone) * 60000).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant when the clock in `timeZone` reads `minutes` past midnight on `date` (YYYY-MM-DD).
+ * A time skipped by the spring-forward change is read an hour later (01:30 → 02:30 BST).
+ */
+export function zonedInstant(date: string, minutes: number, timeZone = UK_TIME_ZONE): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  const guess = wallClock - zoneOffsetMinutes(wallClock, timeZone) * 60000;
+  return new Date(wallClock - zoneOffsetMinutes(guess, timeZone) * 60000);
+}
@@ -0,0 +1,51 @@
+/**
+ * Expiry worker - runs the points/stamp expiry job outside Vercel Cron
+ *
+ * Usage:
+ *   npm run worker:expiry            # run every EXPIRY_WORKER_INTERVAL_MINUTES (default 60)
+ *   npm run worker:expiry -- --once  # run once and exit (for a system crontab)
+ */
+
+import 'dotenv/config';
+import { redisClient, connectRedis } from '../config/redis';
+import { expiryService } from '../services/expiryService';
+
+const intervalMinutes = parseInt(process.env.EXPIRY_WORKER_INTERVAL_MINUTES || '60', 10) || 60;
+const once = process.argv.includes('--once');
+
+let timer: NodeJS.Timeout | null = null;
+
+async function runOnce(): Promise<void> {
+  try {
+    const result = await expiryService.run();
+    if (result.locked) {
+      console.log('[EXPIRY WORKER] Another run is in progress, skipped');
+    }
+  } catch (error: any) {
+    console.error('[EXPIRY WORKER] Run failed:', error.message);
+  }
+}
+
+async function shutdown(): Promise<void> {
+  if (timer) clearInterval(timer);
+  await redisClient.quit().catch(() => undefined);
+  process.exit(0);
+}
+
+async function main(): Promise<void> {
+  await connectRedis();
+  await runOnce();
+  if (once) {
+    return shutdown();
+  }
+
+  console.log(`[EXPIRY WORKER] Running every ${intervalMinutes} minutes`);
+  timer = setInterval(runOnce, intervalMinutes * 60 * 1000);
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[EXPIRY WORKER] Failed to start:', error.message);
+  process.exit(1);
+});
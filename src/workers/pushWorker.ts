@@ -0,0 +1,54 @@
+/**
+ * Push worker - delivers queued notifications continuously, outside Vercel Cron
+ *
+ * Usage:
+ *   npm run worker:push            # run every PUSH_WORKER_INTERVAL_SECONDS (default 10)
+ *   npm run worker:push -- --once  # run once and exit (for a system crontab)
+ */
+
+import 'dotenv/config';
+import { redisClient, connectRedis } from '../config/redis';
+import { pushService } from '../services/pushService';
+
+const intervalSeconds = parseInt(process.env.PUSH_WORKER_INTERVAL_SECONDS || '10', 10) || 10;
+const once = process.argv.includes('--once');
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function runOnce(): Promise<void> {
+  // A slow run (many messages, slow push services) must not overlap the next tick
+  if (running) return;
+  running = true;
+  try {
+    await pushService.run();
+  } catch (error: any) {
+    console.error('[PUSH WORKER] Run failed:', error.message);
+  } finally {
+    running = false;
+  }
+}
+
+async function shutdown(): Promise<void> {
+  if (timer) clearInterval(timer);
+  await redisClient.quit().catch(() => undefined);
+  process.exit(0);
+}
+
+async function main(): Promise<void> {
+  await connectRedis();
+  await runOnce();
+  if (once) {
+    return shutdown();
+  }
+
+  console.log(`[PUSH WORKER] Running every ${intervalSeconds} seconds`);
+  timer = setInterval(runOnce, intervalSeconds * 1000);
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[PUSH WORKER] Failed to start:', error.message);
+  process.exit(1);
+});